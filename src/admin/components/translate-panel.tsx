@@ -1,92 +1,98 @@
-import { getTheme, PanelType, PrimaryButton, Stack } from '@fluentui/react';
-import BackPanel from '@admin/components/back-panel';
-import React, { useState } from 'react';
 import {
-  ControlledDropdown,
-  ControlledTextField,
-} from '@admin/components/rhf-components';
+  DefaultButton,
+  MessageBar,
+  MessageBarType,
+  PanelType,
+  PrimaryButton,
+  Stack,
+} from '@fluentui/react';
+import BackPanel from '@admin/components/back-panel';
+import React, { useEffect, useMemo } from 'react';
+import { ControlledDropdown } from '@admin/components/rhf-components';
 import { useForm } from 'react-hook-form';
+import { ILocale } from '@shared/features/localization';
+
+interface ITranslatePanelProps {
+  isOpen?: boolean;
+  locales?: ILocale[];
+  currentLocale?: string;
+  loading?: boolean;
+  error?: string;
+  onDismiss?: () => void;
+  onCopy?: (locale: string) => void;
+}
 
-const theme = getTheme();
+const TranslatePanel: React.FC<ITranslatePanelProps> = ({
+  isOpen,
+  locales,
+  currentLocale,
+  loading,
+  error,
+  onDismiss,
+  onCopy,
+}) => {
+  const { control, handleSubmit, reset } = useForm({
+    defaultValues: {
+      sourceLocale: '',
+    },
+  });
 
-const TranslatePanel = () => {
-  const [panelOpened, setPanelOpened] = useState(false);
+  useEffect(() => {
+    if (isOpen) {
+      reset({ sourceLocale: '' });
+    }
+  }, [isOpen]);
+
+  const options = useMemo(
+    () =>
+      (locales || [])
+        .filter((locale) => locale.code !== currentLocale)
+        .map((locale) => ({
+          key: locale.code,
+          text: `${locale.name} (${locale.code})`,
+        })),
+    [locales, currentLocale]
+  );
 
-  const { control } = useForm();
   return (
-    <div>
-      <PrimaryButton
-        style={{
-          color: `${theme.palette.white} !important`,
-          height: 48,
-        }}
-        onClick={() => setPanelOpened(true)}
-      >
-        Translate
-      </PrimaryButton>
-      <BackPanel
-        isOpen={panelOpened}
-        headerText="Translate"
-        isBlocking={false}
-        isFooterAtBottom
-        isHiddenOnDismiss
-        onBack={() => setPanelOpened(false)}
-        onDismiss={() => setPanelOpened(false)}
-        type={PanelType.custom}
-        customWidth={400 as any}
-      >
-        <Stack tokens={{ childrenGap: 10 }}>
-          <ControlledDropdown
-            control={control}
-            name={'provider'}
-            options={[
-              {
-                key: 'aws',
-                text: 'AWS',
-              },
-              {
-                key: 'azure',
-                text: 'Azure',
-              },
-              {
-                key: 'google',
-                text: 'Google',
-              },
-            ]}
-            label="Provider"
-          />
-          <ControlledDropdown
-            control={control}
-            name={'sourceLang'}
-            options={[]}
-            label="Source Language"
-          />
-          <ControlledTextField
-            control={control}
-            name={'source'}
-            label="Source"
-            rows={10}
-            multiline
-          />
-          <ControlledDropdown
-            control={control}
-            name={'targetLanguage'}
-            options={[]}
-            label="Target Language"
-          />
-          <ControlledTextField
-            control={control}
-            rows={10}
-            name={'target'}
-            label="Target"
-            multiline
+    <BackPanel
+      isOpen={isOpen}
+      headerText="Copy from locale"
+      isBlocking={false}
+      isFooterAtBottom
+      onDismiss={onDismiss}
+      type={PanelType.custom}
+      customWidth={400 as any}
+      onRenderFooterContent={() => (
+        <Stack horizontal horizontalAlign="end" tokens={{ childrenGap: 8 }}>
+          <DefaultButton text="Cancel" onClick={onDismiss} />
+          <PrimaryButton
+            text="Copy"
+            disabled={loading}
+            onClick={() => {
+              handleSubmit((data) => {
+                onCopy(data?.sourceLocale);
+              })();
+            }}
           />
-          <Stack horizontal horizontalAlign={'end'}>
-            <PrimaryButton>Translate</PrimaryButton>
-          </Stack>
         </Stack>
-      </BackPanel>
-    </div>
+      )}
+    >
+      <Stack tokens={{ childrenGap: 10 }}>
+        {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+        <MessageBar messageBarType={MessageBarType.warning}>
+          Current content will be replaced with the content of the selected locale. Changes are not
+          stored until the post is saved.
+        </MessageBar>
+        <ControlledDropdown
+          control={control}
+          name="sourceLocale"
+          options={options}
+          label="Source locale"
+          rules={{ required: 'Source locale is required' }}
+        />
+      </Stack>
+    </BackPanel>
   );
 };
 
@@ -1,4 +1,5 @@
 import React, { useMemo } from 'react';
+import _ from 'lodash';
 import {
   ControlledCheckbox,
   ControlledChoiceGroup,
@@ -9,7 +10,7 @@ import {
 } from '@admin/components/rhf-components';
 import ControlledComponentsDropdown from '@admin/features/content-types/components/controlled-components-dropdown';
 import ControlledPostTypesDropdown from '@admin/features/content-types/components/controlled-post-types-dropdown';
-import { SelectionMode } from '@fluentui/react';
+import { SelectionMode, Text, useTheme } from '@fluentui/react';
 import { Controller } from 'react-hook-form';
 import Hooks from '@shared/features/hooks';
 import DynamicComponent from './dynamic-component';
@@ -25,12 +26,19 @@ import { isTrue } from '@admin/helpers/utility';
 import DynamicTextEditor from '@admin/config-fields/dynamic-text-editor';
 import DynamicReferences from '@admin/config-fields/dynamic-references';
 import DynamicReference from '@admin/config-fields/dynamic-reference';
+import { getFieldValidationMessage, validateFieldValue } from '@shared/features/field-validation';
 
 interface DynamicFieldProps {
   field: any;
   name?: string;
 }
 
+// These controls show their errors themselves
+const ERROR_FIELD_TYPES = ['text', 'number', 'datepicker', 'dropdown', 'group', 'custom', 'checkbox'];
+
+const getValidate = (field: any) => (value: any) =>
+  getFieldValidationMessage(validateFieldValue(field, value)) ?? true;
+
 const Field: React.FC<DynamicFieldProps> = ({field, name}) => {
   const { disabled, control } = useExtendedFormContext();
   switch (field?.type) {
@@ -85,7 +93,8 @@ const Field: React.FC<DynamicFieldProps> = ({field, name}) => {
           control={control}
           {...field}
           rules={{
-            required: field?.required == 'true' ? 'Field is required' : false
+            required: field?.required == 'true' ? 'Field is required' : false,
+            validate: getValidate(field),
           }}
           name={name}
           disabled={disabled}
@@ -97,7 +106,8 @@ const Field: React.FC<DynamicFieldProps> = ({field, name}) => {
           control={control}
           {...field}
           rules={{
-            required: field?.required ? 'Field is required' : false
+            required: field?.required ? 'Field is required' : false,
+            validate: getValidate(field),
           }}
           name={name}
           disabled={disabled}
@@ -186,7 +196,9 @@ const DynamicField: React.FC<DynamicFieldProps> = ({ field, name }) => {
     return name?.length ? `${name}.${field?.name}` : field?.name;
   }, [name, field?.name]);
 
-  const { control } = useExtendedFormContext();
+  const theme = useTheme();
+  const { control, formState } = useExtendedFormContext();
+  const error = _.get(formState?.errors, fieldName);
 
   return (
     <div>
@@ -199,6 +211,11 @@ const DynamicField: React.FC<DynamicFieldProps> = ({ field, name }) => {
       <ErrorBoundary message={`Field ${fieldName} errored. Please check console for more details`}>
         <Field name={fieldName} field={field} />
       </ErrorBoundary>
+      {error?.message && !ERROR_FIELD_TYPES.includes(field?.type) && (
+        <Text variant="small" styles={{ root: { color: theme.semanticColors.errorText } }}>
+          {error.message}
+        </Text>
+      )}
     </div>
   );
 };
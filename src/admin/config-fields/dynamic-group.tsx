@@ -7,7 +7,10 @@ import {
   Separator,
   Stack
 } from '@fluentui/react';
+import { useWatch } from 'react-hook-form';
+import { getFieldScopes, isFieldVisible, parseFieldConditions } from '@shared/features/field-visibility';
 import DynamicField from './dynamic-field';
+import { useExtendedFormContext } from './dynamic-form';
 
 const styles = mergeStyleSets({
   hide: {
@@ -69,6 +72,24 @@ interface DynamicGroupProps {
   name?: string;
 }
 
+/**
+ * Hidden fields are not rendered, so their values are unregistered and left out when the form is saved.
+ */
+const ConditionalField: React.FC<DynamicGroupProps> = ({ field, name }) => {
+  const { control } = useExtendedFormContext();
+  const values = useWatch({ control });
+
+  if (!isFieldVisible(field, getFieldScopes(values, name))) return null;
+  return <DynamicField field={field} name={name} />;
+};
+
+const GroupField: React.FC<DynamicGroupProps> = ({ field, name }) => {
+  if (parseFieldConditions(field).length > 0) {
+    return <ConditionalField field={field} name={name} />;
+  }
+  return <DynamicField field={field} name={name} />;
+};
+
 const DynamicGroup: React.FC<DynamicGroupProps> = ({ field, name }) => {
   const [selectedTab, setSelectedTab] = useState(null);
 
@@ -128,7 +149,7 @@ const DynamicGroup: React.FC<DynamicGroupProps> = ({ field, name }) => {
               tokens={{ childrenGap: 18 }}
             >
               {(tab?.fields ?? []).map((field) => (
-                <DynamicField key={field.name} field={field} name={name} />
+                <GroupField key={field.name} field={field} name={name} />
               ))}
             </Stack>
           ))}
@@ -137,7 +158,7 @@ const DynamicGroup: React.FC<DynamicGroupProps> = ({ field, name }) => {
       {tabs?.length === 0 && (
         <Stack tokens={{ childrenGap: 10 }}>
           {(field?.fields ?? []).map((field) => (
-            <DynamicField key={field.name} field={field} name={name} />
+            <GroupField key={field.name} field={field} name={name} />
           ))}
         </Stack>
       )}
@@ -0,0 +1,100 @@
+import { Stack } from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { Control } from 'react-hook-form';
+import {
+  ControlledCheckbox,
+  ControlledDatePicker,
+  ControlledDropdown,
+  ControlledTextField,
+} from '@admin/components/rhf-components';
+import { isTrue } from '@admin/helpers/utility';
+import { IAccessToken } from '@shared/interfaces/model';
+import {
+  IAccessTokenData,
+  useApiSecurity,
+} from '@admin/features/api-security/context/api-security.context';
+
+const splitList = (value?: string) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Form keeps lists as comma separated strings and checkboxes as strings, as the controlled
+ * components do.
+ */
+export const accessTokenToFormValues = (accessToken?: IAccessToken) => ({
+  name: accessToken?.name ?? '',
+  contentTypes: (accessToken?.scopes?.contentTypes ?? []).join(','),
+  slugPaths: (accessToken?.scopes?.slugPaths ?? []).join(', '),
+  drafts: `${accessToken?.scopes?.drafts ?? false}`,
+  versions: `${accessToken?.scopes?.versions ?? false}`,
+  search: `${accessToken?.scopes?.search ?? true}`,
+  expiresAt: accessToken?.expiresAt ?? '',
+});
+
+export const accessTokenFromFormValues = (values: any): IAccessTokenData => ({
+  name: values?.name,
+  scopes: {
+    contentTypes: splitList(values?.contentTypes),
+    slugPaths: splitList(values?.slugPaths),
+    drafts: isTrue(values?.drafts),
+    versions: isTrue(values?.versions),
+    search: isTrue(values?.search),
+  },
+  expiresAt: values?.expiresAt || null,
+});
+
+interface IAccessTokenFieldsProps {
+  control: Control<any>;
+  defaultExpiresAt?: Date | string;
+}
+
+const AccessTokenFields: React.FC<IAccessTokenFieldsProps> = ({
+  control,
+  defaultExpiresAt,
+}) => {
+  const { listContentTypes } = useApiSecurity();
+
+  useEffect(() => {
+    listContentTypes.execute();
+  }, []);
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <ControlledTextField control={control} name="name" label="Name" />
+      <ControlledDropdown
+        control={control}
+        name="contentTypes"
+        label="Content types"
+        placeholder="All content types"
+        multiSelect
+        options={(listContentTypes?.result ?? []).map((contentType) => ({
+          key: contentType.name,
+          text: contentType.name,
+        }))}
+      />
+      <ControlledTextField
+        control={control}
+        name="slugPaths"
+        label="Slug paths"
+        placeholder="All slug paths"
+        description="Comma separated prefixes, e.g. blog, docs/api"
+      />
+      <ControlledCheckbox control={control} name="search" label="List and search posts" />
+      <ControlledCheckbox control={control} name="drafts" label="Read drafts" />
+      <ControlledCheckbox control={control} name="versions" label="Read versions" />
+      <ControlledDatePicker
+        control={control}
+        name="expiresAt"
+        label="Expires at"
+        placeholder="Never"
+        defaultValue={defaultExpiresAt as any}
+        minDate={new Date()}
+      />
+    </Stack>
+  );
+};
+
+export default AccessTokenFields;
@@ -0,0 +1,47 @@
+import {
+  DefaultButton,
+  MessageBar,
+  MessageBarType,
+  Stack,
+  TextField,
+} from '@fluentui/react';
+import React from 'react';
+import copy from 'copy-text-to-clipboard';
+
+interface IAccessTokenRevealProps {
+  token: string;
+}
+
+const AccessTokenReveal: React.FC<IAccessTokenRevealProps> = ({ token }) => (
+  <Stack tokens={{ childrenGap: 8 }}>
+    <MessageBar messageBarType={MessageBarType.warning}>
+      Copy the token now, it is stored hashed and will not be shown again.
+    </MessageBar>
+    <TextField
+      readOnly
+      value={token}
+      type="text"
+      styles={{
+        suffix: {
+          padding: 0,
+        },
+        fieldGroup: {
+          borderRight: 'none',
+        },
+      }}
+      onRenderSuffix={() => (
+        <Stack horizontal>
+          <DefaultButton
+            iconProps={{ iconName: 'Copy' }}
+            style={{ minWidth: 0, padding: '0 4px' }}
+            onClick={() => {
+              copy(token);
+            }}
+          />
+        </Stack>
+      )}
+    />
+  </Stack>
+);
+
+export default AccessTokenReveal;
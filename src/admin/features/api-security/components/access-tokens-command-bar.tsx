@@ -7,12 +7,16 @@ import React, { useMemo, useState } from 'react';
 import { useApiSecurity } from '@admin/features/api-security/context/api-security.context';
 import AccessTokensDeleteDialog from '@admin/features/api-security/components/access-tokens-delete-dialog';
 import AccessTokensGenerateDialog from '@admin/features/api-security/components/access-tokens-generate-dialog';
+import AccessTokensEditDialog from '@admin/features/api-security/components/access-tokens-edit-dialog';
+import AccessTokensRotateDialog from '@admin/features/api-security/components/access-tokens-rotate-dialog';
 
 const AccessTokensCommandBar = () => {
   const { selectedAccessTokens } = useApiSecurity();
 
   const [openGenerate, setOpenGenerate] = useState(false);
   const [openDelete, setOpenDelete] = useState(false);
+  const [openEdit, setOpenEdit] = useState(false);
+  const [openRotate, setOpenRotate] = useState(false);
 
   const toolbarItems = useMemo<ICommandBarItemProps[]>(
     () => [
@@ -26,6 +30,28 @@ const AccessTokensCommandBar = () => {
           setOpenGenerate(true);
         },
       },
+      {
+        key: 'edit',
+        text: 'Edit',
+        iconProps: {
+          iconName: 'Edit',
+        },
+        disabled: selectedAccessTokens?.length !== 1,
+        onClick: () => {
+          setOpenEdit(true);
+        },
+      },
+      {
+        key: 'rotate',
+        text: 'Rotate',
+        iconProps: {
+          iconName: 'Sync',
+        },
+        disabled: selectedAccessTokens?.length !== 1,
+        onClick: () => {
+          setOpenRotate(true);
+        },
+      },
       {
         key: 'delete',
         text: 'Delete',
@@ -59,6 +85,17 @@ const AccessTokensCommandBar = () => {
           setOpenGenerate(false);
         }}
       />
+      <AccessTokensEditDialog
+        isOpen={openEdit}
+        accessToken={selectedAccessTokens?.[0]}
+        onDismiss={() => setOpenEdit(false)}
+        onUpdated={() => setOpenEdit(false)}
+      />
+      <AccessTokensRotateDialog
+        isOpen={openRotate}
+        accessToken={selectedAccessTokens?.[0]}
+        onDismiss={() => setOpenRotate(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,102 @@
+import {
+  DefaultButton,
+  Dialog,
+  DialogFooter,
+  DialogType,
+  MessageBar,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+} from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { useApiSecurity } from '@admin/features/api-security/context/api-security.context';
+import { IAccessToken } from '@shared/interfaces/model';
+import AccessTokenFields, {
+  accessTokenFromFormValues,
+  accessTokenToFormValues,
+} from '@admin/features/api-security/components/access-token-fields';
+
+interface IAccessTokensEditDialogProps {
+  isOpen?: boolean;
+  accessToken?: IAccessToken;
+  onDismiss?: () => void;
+  onUpdated?: (accessToken?: IAccessToken) => void;
+}
+
+const AccessTokensEditDialog: React.FC<IAccessTokensEditDialogProps> = ({
+  isOpen,
+  accessToken,
+  onDismiss,
+  onUpdated,
+}) => {
+  const { updateAccessToken } = useApiSecurity();
+
+  const { control, handleSubmit, reset } = useForm({
+    mode: 'all',
+    defaultValues: accessTokenToFormValues(accessToken),
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      updateAccessToken?.reset?.();
+      reset(accessTokenToFormValues(accessToken));
+    }
+  }, [isOpen, accessToken]);
+
+  useEffect(() => {
+    if (updateAccessToken?.result) {
+      onUpdated(updateAccessToken?.result);
+    }
+  }, [updateAccessToken?.result]);
+
+  return (
+    <Dialog
+      hidden={!isOpen}
+      onDismiss={onDismiss}
+      dialogContentProps={{
+        type: DialogType.close,
+        title: 'Edit access token',
+      }}
+      modalProps={{
+        styles: { main: { maxWidth: 450 } },
+      }}
+    >
+      <Stack tokens={{ childrenGap: 8 }}>
+        {updateAccessToken?.error?.message && (
+          <MessageBar messageBarType={MessageBarType.error}>
+            {updateAccessToken.error.message}
+          </MessageBar>
+        )}
+        {isOpen && (
+          <AccessTokenFields
+            control={control}
+            defaultExpiresAt={accessToken?.expiresAt}
+          />
+        )}
+      </Stack>
+      <DialogFooter>
+        <DefaultButton
+          onClick={onDismiss}
+          text="Cancel"
+          data-cy="dialog-cancel"
+        />
+        <PrimaryButton
+          onClick={() => {
+            handleSubmit((val) => {
+              updateAccessToken.execute(
+                accessToken?.id,
+                accessTokenFromFormValues(val)
+              );
+            })();
+          }}
+          text="Update"
+          disabled={updateAccessToken?.loading}
+          data-cy="dialog-confirm"
+        />
+      </DialogFooter>
+    </Dialog>
+  );
+};
+
+export default AccessTokensEditDialog;
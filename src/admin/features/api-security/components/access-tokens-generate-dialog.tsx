@@ -12,7 +12,11 @@ import React, { useEffect } from 'react';
 import { useApiSecurity } from '@admin/features/api-security/context/api-security.context';
 import { IAccessToken } from '@shared/interfaces/model';
 import { useForm } from 'react-hook-form';
-import { ControlledTextField } from '@admin/components/rhf-components';
+import AccessTokenFields, {
+  accessTokenFromFormValues,
+  accessTokenToFormValues,
+} from '@admin/features/api-security/components/access-token-fields';
+import AccessTokenReveal from '@admin/features/api-security/components/access-token-reveal';
 
 interface IAccessTokensGenerateDialogProps {
   isOpen?: boolean;
@@ -26,19 +30,17 @@ const AccessTokensGenerateDialog: React.FC<IAccessTokensGenerateDialogProps> =
 
     const { control, handleSubmit, reset } = useForm({
       mode: 'all',
-      defaultValues: {
-        name: '',
-      },
+      defaultValues: accessTokenToFormValues(),
     });
 
     useEffect(() => {
-      if (generateAccessToken?.result) {
-        onGenerate(generateAccessToken?.result);
-        reset({
-          name: '',
-        });
+      if (isOpen) {
+        generateAccessToken?.reset?.();
+        reset(accessTokenToFormValues());
       }
-    }, [generateAccessToken?.result]);
+    }, [isOpen]);
+
+    const generated = generateAccessToken?.result;
 
     return (
       <Dialog
@@ -58,28 +60,38 @@ const AccessTokensGenerateDialog: React.FC<IAccessTokensGenerateDialogProps> =
               {generateAccessToken.error.message}
             </MessageBar>
           )}
-          <ControlledTextField
-            control={control}
-            name="name"
-            label="Name"
-          />
+          {generated?.token ? (
+            <AccessTokenReveal token={generated.token} />
+          ) : (
+            <AccessTokenFields control={control} />
+          )}
         </Stack>
         <DialogFooter>
-          <DefaultButton
-            onClick={onDismiss}
-            text="Cancel"
-            data-cy="dialog-cancel"
-          />
-          <PrimaryButton
-            onClick={() => {
-              handleSubmit((val) => {
-                generateAccessToken.execute(val?.name);
-              })();
-            }}
-            text="Generate"
-            disabled={generateAccessToken?.loading}
-            data-cy="dialog-confirm"
-          />
+          {generated?.token ? (
+            <PrimaryButton
+              onClick={() => onGenerate(generated)}
+              text="Done"
+              data-cy="dialog-confirm"
+            />
+          ) : (
+            <>
+              <DefaultButton
+                onClick={onDismiss}
+                text="Cancel"
+                data-cy="dialog-cancel"
+              />
+              <PrimaryButton
+                onClick={() => {
+                  handleSubmit((val) => {
+                    generateAccessToken.execute(accessTokenFromFormValues(val));
+                  })();
+                }}
+                text="Generate"
+                disabled={generateAccessToken?.loading}
+                data-cy="dialog-confirm"
+              />
+            </>
+          )}
         </DialogFooter>
       </Dialog>
     );
@@ -1,14 +1,12 @@
 import {
-  DefaultButton,
   makeStyles,
   MarqueeSelection,
   ShimmeredDetailsList,
-  Stack,
-  TextField,
 } from '@fluentui/react';
 import React, { useEffect } from 'react';
 import { useApiSecurity } from '@admin/features/api-security/context/api-security.context';
-import copy from 'copy-text-to-clipboard';
+import { formatDate } from '@admin/helpers/misc';
+import { IAccessTokenScopes } from '@shared/interfaces/model';
 
 const useStyles = makeStyles({
   accessTokensList: {
@@ -21,6 +19,21 @@ const useStyles = makeStyles({
   },
 });
 
+const describeScopes = (scopes?: IAccessTokenScopes) =>
+  [
+    scopes?.contentTypes?.length > 0
+      ? `Types: ${scopes.contentTypes.join(', ')}`
+      : 'All types',
+    scopes?.slugPaths?.length > 0
+      ? `Paths: ${scopes.slugPaths.join(', ')}`
+      : 'All paths',
+    scopes?.search && 'Search',
+    scopes?.drafts && 'Drafts',
+    scopes?.versions && 'Versions',
+  ]
+    .filter((scope) => !!scope)
+    .join(' · ');
+
 const AccessTokensList = () => {
   const { selection, listAccessTokens, accessTokens } = useApiSecurity();
 
@@ -40,42 +53,37 @@ const AccessTokensList = () => {
     {
       key: 'token',
       name: 'Token',
-      minWidth: 300,
+      minWidth: 100,
+      onRender: (item) => (item?.tokenPreview ? `••••${item.tokenPreview}` : ''),
+    },
+    {
+      key: 'scopes',
+      name: 'Scopes',
+      minWidth: 240,
+      isMultiline: true,
+      onRender: (item) => describeScopes(item?.scopes),
+    },
+    {
+      key: 'expiresAt',
+      name: 'Expires At',
+      minWidth: 120,
       onRender: (item) => {
-        return (
-          <TextField
-            readOnly
-            id={`${item?.token}`}
-            value={item?.token}
-            type="text"
-            styles={{
-              suffix: {
-                padding: 0,
-              },
-              fieldGroup: {
-                borderRight: 'none',
-              },
-            }}
-            onRenderSuffix={() => (
-              <Stack horizontal>
-                <DefaultButton
-                  iconProps={{ iconName: 'Copy' }}
-                  style={{ minWidth: 0, padding: '0 4px' }}
-                  onClick={() => {
-                    copy(item?.token);
-                  }}
-                />
-              </Stack>
-            )}
-          />
-        );
+        if (!item?.expiresAt) return 'Never';
+        const expiresAt = formatDate(item.expiresAt);
+        return new Date(item.expiresAt) <= new Date() ? `${expiresAt} (expired)` : expiresAt;
       },
     },
+    {
+      key: 'lastUsedAt',
+      name: 'Last Used At',
+      minWidth: 120,
+      onRender: (item) => (item?.lastUsedAt ? formatDate(item.lastUsedAt) : 'Never'),
+    },
     {
       key: 'createdAt',
       name: 'Created At',
-      fieldName: 'createdAt',
       minWidth: 120,
+      onRender: (item) => formatDate(item?.createdAt),
     },
   ];
 
@@ -0,0 +1,86 @@
+import {
+  DefaultButton,
+  Dialog,
+  DialogFooter,
+  DialogType,
+  MessageBar,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+} from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { useApiSecurity } from '@admin/features/api-security/context/api-security.context';
+import { IAccessToken } from '@shared/interfaces/model';
+import AccessTokenReveal from '@admin/features/api-security/components/access-token-reveal';
+
+interface IAccessTokensRotateDialogProps {
+  isOpen?: boolean;
+  accessToken?: IAccessToken;
+  onDismiss?: () => void;
+}
+
+const AccessTokensRotateDialog: React.FC<IAccessTokensRotateDialogProps> = ({
+  isOpen,
+  accessToken,
+  onDismiss,
+}) => {
+  const { rotateAccessToken } = useApiSecurity();
+
+  useEffect(() => {
+    rotateAccessToken?.reset?.();
+  }, [isOpen]);
+
+  const rotated = rotateAccessToken?.result;
+
+  return (
+    <Dialog
+      hidden={!isOpen}
+      onDismiss={onDismiss}
+      dialogContentProps={{
+        type: DialogType.close,
+        title: 'Rotate access token?',
+      }}
+      modalProps={{
+        styles: { main: { maxWidth: 450 } },
+      }}
+    >
+      <Stack tokens={{ childrenGap: 8 }}>
+        {rotateAccessToken?.error?.message && (
+          <MessageBar messageBarType={MessageBarType.error}>
+            {rotateAccessToken.error.message}
+          </MessageBar>
+        )}
+        {rotated?.token ? (
+          <AccessTokenReveal token={rotated.token} />
+        ) : (
+          `A new token will be generated for "${
+            accessToken?.name ?? ''
+          }", the current one stops working immediately.`
+        )}
+      </Stack>
+      <DialogFooter>
+        {rotated?.token ? (
+          <PrimaryButton onClick={onDismiss} text="Done" data-cy="dialog-confirm" />
+        ) : (
+          <>
+            <DefaultButton
+              onClick={onDismiss}
+              text="Cancel"
+              data-cy="dialog-cancel"
+            />
+            <PrimaryButton
+              onClick={() => {
+                rotateAccessToken.execute(accessToken?.id);
+              }}
+              text="Rotate"
+              disabled={rotateAccessToken?.loading}
+              data-cy="dialog-confirm"
+            />
+          </>
+        )}
+      </DialogFooter>
+    </Dialog>
+  );
+};
+
+export default AccessTokensRotateDialog;
@@ -0,0 +1,109 @@
+import { MessageBarType, PrimaryButton, Stack } from '@fluentui/react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import _ from 'lodash';
+import { ControlledTextField } from '@admin/components/rhf-components';
+import { findSettingsValue } from '@admin/helpers/utility';
+import { useSettings } from '@admin/context/settings';
+import { useSnackbar } from '@admin/context/snackbar';
+import {
+  normalizeOrigin,
+  parseSecuritySettings,
+  SECURITY_SETTINGS_KEY,
+} from '@shared/features/security';
+
+const splitOrigins = (value?: string) =>
+  `${value ?? ''}`
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+const TrustedOriginsSettings = () => {
+  const { updateSettings, settingsArray } = useSettings();
+  const { openSnackbar } = useSnackbar();
+
+  const defaultValues = useMemo(() => {
+    const { frontendOrigins, adminOrigins } = parseSecuritySettings(
+      findSettingsValue(settingsArray, SECURITY_SETTINGS_KEY)
+    );
+    return {
+      frontendOrigins: frontendOrigins.join('\n'),
+      adminOrigins: adminOrigins.join('\n'),
+    };
+  }, [JSON.stringify(settingsArray)]);
+
+  const { control, watch, handleSubmit, reset } = useForm({
+    defaultValues,
+  });
+  const [values, setValues] = useState<any>(defaultValues);
+
+  useEffect(() => {
+    reset(defaultValues);
+    setValues(defaultValues);
+  }, [defaultValues]);
+
+  useEffect(() => {
+    watch((val: any) => {
+      setValues(val);
+    });
+  }, []);
+
+  return (
+    <Stack tokens={{ childrenGap: 8, maxWidth: 600 }}>
+      <ControlledTextField
+        control={control}
+        name="frontendOrigins"
+        label="Trusted frontend origins"
+        multiline
+        rows={3}
+        placeholder="https://www.site.com"
+        description="One per line, may call the content and search API and be previewed. Empty allows any"
+        data-cy="settings-security-frontendOrigins"
+      />
+      <ControlledTextField
+        control={control}
+        name="adminOrigins"
+        label="Trusted admin origins"
+        multiline
+        rows={2}
+        placeholder="https://tools.site.com"
+        description="One per line, may call the admin API with the logged in session"
+        data-cy="settings-security-adminOrigins"
+      />
+      <Stack horizontal horizontalAlign="end">
+        <PrimaryButton
+          disabled={_.isEqual(values, defaultValues)}
+          onClick={() => {
+            handleSubmit((val) => {
+              const frontendOrigins = splitOrigins(val?.frontendOrigins);
+              const adminOrigins = splitOrigins(val?.adminOrigins);
+              const invalid = [...frontendOrigins, ...adminOrigins].filter(
+                (origin) => !normalizeOrigin(origin)
+              );
+              if (invalid.length > 0) {
+                openSnackbar({
+                  message: `Invalid origins: ${invalid.join(', ')}`,
+                  messageBarType: MessageBarType.error,
+                });
+                return;
+              }
+
+              updateSettings.execute(
+                SECURITY_SETTINGS_KEY,
+                JSON.stringify({
+                  frontendOrigins: _.uniq(frontendOrigins.map(normalizeOrigin)),
+                  adminOrigins: _.uniq(adminOrigins.map(normalizeOrigin)),
+                })
+              );
+            })();
+          }}
+          data-cy="settings-security-submit"
+        >
+          Update
+        </PrimaryButton>
+      </Stack>
+    </Stack>
+  );
+};
+
+export default TrustedOriginsSettings;
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { UseAsyncReturn } from 'react-async-hook';
-import { IAccessToken } from '@shared/interfaces/model';
+import { IAccessToken, IAccessTokenScopes, IContentType } from '@shared/interfaces/model';
 import apiAxios, { useApiCallback } from '@admin/helpers/api';
 import ExtendedSelection, { useSelection } from '@admin/helpers/selection';
 import { ModelState, useModelState } from '@admin/helpers/hooks';
@@ -11,8 +11,17 @@ export interface IApiSecurityContext {
   accessTokens: IAccessToken[];
   selectedAccessTokens: IAccessToken[];
   listAccessTokens: UseAsyncReturn<IAccessToken[], []>;
-  generateAccessToken: UseAsyncReturn<IAccessToken, [name: string]>;
+  generateAccessToken: UseAsyncReturn<IAccessToken, [data: IAccessTokenData]>;
+  updateAccessToken: UseAsyncReturn<IAccessToken, [id: number, data: IAccessTokenData]>;
+  rotateAccessToken: UseAsyncReturn<IAccessToken, [id: number]>;
   deleteAccessTokens: UseAsyncReturn<number[], [ids: number[]]>;
+  listContentTypes: UseAsyncReturn<IContentType[], []>;
+}
+
+export interface IAccessTokenData {
+  name?: string;
+  scopes?: IAccessTokenScopes;
+  expiresAt?: Date | string | null;
 }
 
 const ApiSecurityContext = createContext<IApiSecurityContext>({} as any);
@@ -48,17 +57,31 @@ const ApiSecurityContextProvider: React.FC<IApiSecurityContextProviderProps> =
       return response;
     });
 
-    const generateAccessToken = useApiCallback(async (name: string) => {
-      const response = await apiAxios.post(
-        `/access-tokens`,
-        {
-          name,
-        }
-      );
+    const generateAccessToken = useApiCallback(async (data: IAccessTokenData) => {
+      const response = await apiAxios.post(`/access-tokens`, data);
       accessTokensState.create([response?.data]);
       return response;
     });
 
+    const updateAccessToken = useApiCallback(
+      async (id: number, data: IAccessTokenData) => {
+        const response = await apiAxios.put(`/access-tokens/${id}`, data);
+        accessTokensState.update([response?.data]);
+        return response;
+      }
+    );
+
+    // Generated and rotated tokens are the only responses carrying the plain token
+    const rotateAccessToken = useApiCallback(async (id: number) => {
+      const response = await apiAxios.post(`/access-tokens/${id}/rotate`);
+      accessTokensState.update([response?.data]);
+      return response;
+    });
+
+    const listContentTypes = useApiCallback(async () =>
+      apiAxios.get('/content-types')
+    );
+
     const deleteAccessTokens = useApiCallback(async (ids: number[]) => {
       const response = await apiAxios.delete(`/access-tokens`, {
         data: ids
@@ -73,6 +96,9 @@ const ApiSecurityContextProvider: React.FC<IApiSecurityContextProviderProps> =
           listAccessTokens,
           deleteAccessTokens,
           generateAccessToken,
+          updateAccessToken,
+          rotateAccessToken,
+          listContentTypes,
           selection,
           accessTokensState,
           accessTokens: accessTokensState.arrayState,
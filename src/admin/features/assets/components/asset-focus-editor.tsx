@@ -0,0 +1,207 @@
+import {
+  ActionButton,
+  IconButton,
+  Label,
+  makeStyles,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import React from 'react';
+import { Control, useFieldArray, useWatch } from 'react-hook-form';
+import { ControlledTextField } from '@admin/components/rhf-components';
+import { CROP_NAME_REGEX, ICropPreset, IFocalPoint } from '@shared/features/image-focus';
+
+const useStyles = makeStyles((theme) => ({
+  preview: {
+    position: 'relative',
+    display: 'inline-block',
+    cursor: 'crosshair',
+    lineHeight: 0,
+  },
+  image: {
+    maxHeight: 256,
+    maxWidth: '100%',
+    border: `1px solid ${theme.palette.neutralLight}`,
+  },
+  focalPoint: {
+    position: 'absolute',
+    width: 12,
+    height: 12,
+    marginLeft: -8,
+    marginTop: -8,
+    borderRadius: '50%',
+    border: '2px solid #fff',
+    backgroundColor: theme.palette.themePrimary,
+    boxShadow: '0 0 2px rgba(0, 0, 0, 0.6)',
+    pointerEvents: 'none',
+  },
+  crop: {
+    position: 'absolute',
+    border: `1px dashed ${theme.palette.themePrimary}`,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    pointerEvents: 'none',
+  },
+  cropName: {
+    backgroundColor: theme.palette.themePrimary,
+    color: theme.palette.white,
+    padding: '0 4px',
+    lineHeight: '16px',
+  },
+  percentField: {
+    width: 64,
+  },
+}));
+
+const toPercent = (value?: number) => Math.round((value ?? 0) * 1000) / 10;
+
+/**
+ * Form values keep crop regions in percents, as editors type them, while the API expects fractions.
+ */
+export const cropsToFormValues = (crops: ICropPreset[] = []) =>
+  crops.map((crop) => ({
+    name: crop.name,
+    x: toPercent(crop.x),
+    y: toPercent(crop.y),
+    width: toPercent(crop.width),
+    height: toPercent(crop.height),
+  }));
+
+export const cropsFromFormValues = (crops: any[] = []): ICropPreset[] =>
+  crops.map((crop) => ({
+    name: crop?.name,
+    x: Number(crop?.x || 0) / 100,
+    y: Number(crop?.y || 0) / 100,
+    width: Number(crop?.width || 0) / 100,
+    height: Number(crop?.height || 0) / 100,
+  }));
+
+interface IAssetFocusEditorProps {
+  control: Control<any>;
+  src: string;
+  onFocalPointChange: (focalPoint: IFocalPoint | null) => void;
+}
+
+const percentRules = {
+  required: 'Required',
+  min: { value: 0, message: 'Min 0' },
+  max: { value: 100, message: 'Max 100' },
+};
+
+const AssetFocusEditor: React.FC<IAssetFocusEditorProps> = ({
+  control,
+  src,
+  onFocalPointChange,
+}) => {
+  const styles = useStyles();
+
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'crops',
+  });
+
+  const focalPoint: IFocalPoint = useWatch({ control, name: 'focalPoint' });
+  const crops = useWatch({ control, name: 'crops' }) || [];
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Stack>
+        <Label>Focal point</Label>
+        <Text variant="small" block>
+          Click on the image to mark the part that should stay visible when it is cropped.
+        </Text>
+      </Stack>
+      <div
+        className={styles.preview}
+        role="presentation"
+        onClick={(event) => {
+          const rect = event.currentTarget.getBoundingClientRect();
+          onFocalPointChange({
+            x: Math.round(((event.clientX - rect.left) / rect.width) * 1000) / 1000,
+            y: Math.round(((event.clientY - rect.top) / rect.height) * 1000) / 1000,
+          });
+        }}
+      >
+        <img className={styles.image} src={src} alt="Focal point" />
+        {fields.map((field, index) => (
+          <div
+            key={field.id}
+            className={styles.crop}
+            style={{
+              left: `${crops[index]?.x || 0}%`,
+              top: `${crops[index]?.y || 0}%`,
+              width: `${crops[index]?.width || 0}%`,
+              height: `${crops[index]?.height || 0}%`,
+            }}
+          >
+            <span className={styles.cropName}>{crops[index]?.name}</span>
+          </div>
+        ))}
+        {focalPoint && (
+          <div
+            className={styles.focalPoint}
+            style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+          />
+        )}
+      </div>
+      {focalPoint && (
+        <Stack horizontal>
+          <ActionButton
+            iconProps={{ iconName: 'Clear' }}
+            text="Clear focal point"
+            onClick={() => onFocalPointChange(null)}
+          />
+        </Stack>
+      )}
+      <Label>Crops (%)</Label>
+      {fields.map((field, index) => (
+        <Stack key={field.id} tokens={{ childrenGap: 4 }}>
+          <Stack horizontal verticalAlign="end" tokens={{ childrenGap: 4 }}>
+            <ControlledTextField
+              control={control}
+              name={`crops.${index}.name`}
+              placeholder="Name"
+              rules={{
+                required: 'Name is required',
+                pattern: {
+                  value: CROP_NAME_REGEX,
+                  message: 'Use letters, numbers, - and _',
+                },
+                validate: (value) =>
+                  crops.filter((crop) => crop?.name === value).length <= 1 ||
+                  'Duplicate crop name',
+              }}
+            />
+            <IconButton
+              iconProps={{ iconName: 'Delete' }}
+              title="Remove crop"
+              ariaLabel="Remove crop"
+              onClick={() => remove(index)}
+            />
+          </Stack>
+          <Stack horizontal tokens={{ childrenGap: 4 }}>
+            {['x', 'y', 'width', 'height'].map((key) => (
+              <ControlledTextField
+                key={key}
+                className={styles.percentField}
+                control={control}
+                name={`crops.${index}.${key}`}
+                placeholder={key}
+                type="number"
+                rules={percentRules}
+              />
+            ))}
+          </Stack>
+        </Stack>
+      ))}
+      <Stack horizontal>
+        <ActionButton
+          iconProps={{ iconName: 'Add' }}
+          text="Add crop"
+          onClick={() => append({ name: '', x: 0, y: 0, width: 100, height: 100 })}
+        />
+      </Stack>
+    </Stack>
+  );
+};
+
+export default AssetFocusEditor;
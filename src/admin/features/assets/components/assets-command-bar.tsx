@@ -18,6 +18,7 @@ type ColumnType =
   | 'upload'
   | 'details'
   | 'rename'
+  | 'replace'
   | 'download'
   | 'delete'
   | 'copy'
@@ -35,6 +36,7 @@ const AssetsCommandBar: React.FC<IAssetCommandBarProps> = ({
     'upload',
     'details',
     'rename',
+    'replace',
     'download',
     'delete',
     'copy',
@@ -46,6 +48,7 @@ const AssetsCommandBar: React.FC<IAssetCommandBarProps> = ({
   const {
     openFileDialog,
     openFolderDialog,
+    openReplaceDialog,
     view,
     params,
     setParams,
@@ -133,6 +136,18 @@ const AssetsCommandBar: React.FC<IAssetCommandBarProps> = ({
           iconProps: { iconName: 'Edit' },
           onClick: () => setStateData('renameAssetOpen', true),
         },
+        {
+          key: 'replace',
+          text: 'Replace',
+          'data-cy': 'assets-commandBar-replace',
+          permissions: ['assets_update'],
+          disabled:
+            selectedAssets?.length !== 1 ||
+            (selectedAssets[0] &&
+              selectedAssets[0].mimeType === FOLDER_MIME_TYPE),
+          iconProps: { iconName: 'Switch' },
+          onClick: openReplaceDialog,
+        },
         {
           key: 'download',
           text: 'Download',
@@ -28,6 +28,16 @@ import {
 } from '../context/assets.context';
 import {useSnackbar} from "@admin/context/snackbar";
 import {formatDate} from "@admin/helpers/misc";
+import {
+  CROPS_META_KEY,
+  FOCAL_POINT_META_KEY,
+  parseCrops,
+  parseFocalPoint,
+} from '@shared/features/image-focus';
+import AssetFocusEditor, {
+  cropsFromFormValues,
+  cropsToFormValues,
+} from '@admin/features/assets/components/asset-focus-editor';
 
 const stackItemStyles: IStackItemStyles = {
   root: {
@@ -65,7 +75,7 @@ const AssetsDetails = () => {
     return selectedAssets[0];
   }, [selectedAssets]);
 
-  const { control, reset, handleSubmit } = useForm();
+  const { control, reset, handleSubmit, setValue } = useForm();
 
   useEffect(() => {
     if (stateData?.assetDetailsOpen) {
@@ -73,6 +83,8 @@ const AssetsDetails = () => {
       reset({
         alt: getMeta(selectedAsset, 'alt')?.value,
         copyright: getMeta(selectedAsset, 'copyright')?.value,
+        focalPoint: parseFocalPoint(getMeta(selectedAsset, FOCAL_POINT_META_KEY)?.value) ?? null,
+        crops: cropsToFormValues(parseCrops(getMeta(selectedAsset, CROPS_META_KEY)?.value)),
         tags: selectedAsset?.tags,
       });
     }
@@ -82,6 +94,10 @@ const AssetsDetails = () => {
     return IMAGE_MIME_TYPES.indexOf(selectedAsset?.mimeType) > -1 || selectedAsset?.mimeType === 'image/svg+xml';
   }, [selectedAsset]);
 
+  const isCroppable = useMemo(() => {
+    return IMAGE_MIME_TYPES.indexOf(selectedAsset?.mimeType) > -1;
+  }, [selectedAsset]);
+
   useEffect(() => {
     if (update?.result) {
       setStateData('assetDetailsOpen', false);
@@ -96,7 +112,10 @@ const AssetsDetails = () => {
           disabled={update.loading}
           onClick={() => {
             handleSubmit((data) => {
-              update.execute(selectedAsset?.id, data);
+              update.execute(selectedAsset?.id, {
+                ...data,
+                crops: cropsFromFormValues(data?.crops),
+              });
             })();
           }}
           data-cy="assets-details-submit"
@@ -172,7 +191,7 @@ const AssetsDetails = () => {
         <Text className={styles.heading} variant="mediumPlus" block>
           {selectedAsset?.name}
         </Text>
-        {isImage && (
+        {isImage && !isCroppable && (
           <img className={styles.previewImage} src={assetSrc(selectedAsset)} alt="Preview" />
         )}
         <CommandBar
@@ -234,6 +253,15 @@ const AssetsDetails = () => {
             </>
           )}
           <TagsPickerControl name="tags" label="Tags" control={control} />
+          {isCroppable && (
+            <AssetFocusEditor
+              control={control}
+              src={assetSrc(selectedAsset)}
+              onFocalPointChange={(focalPoint) =>
+                setValue('focalPoint', focalPoint, { shouldDirty: true })
+              }
+            />
+          )}
         </Stack>
       </Stack>
     </Panel>
@@ -17,6 +17,7 @@ import {
 } from '@admin/helpers/hooks';
 import ExtendedSelection, { useSelection } from '@admin/helpers/selection';
 import querystring from 'querystring';
+import { ICropPreset, IFocalPoint } from '@shared/features/image-focus';
 
 const FOLDER_MIME_TYPE = 'application/vnd.burdy.folder';
 const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
@@ -47,9 +48,19 @@ interface IAssetsContext {
   del: UseAsyncReturn<any, [ids: any[]]>;
   update: UseAsyncReturn<
     any,
-    [id: number, data: { alt?: string; copyright?: string; tags?: any[] }]
+    [
+      id: number,
+      data: {
+        alt?: string;
+        copyright?: string;
+        tags?: any[];
+        focalPoint?: IFocalPoint;
+        crops?: ICropPreset[];
+      }
+    ]
   >;
   rename: UseAsyncReturn<any, [id: string | number, name: string]>;
+  replace: UseAsyncReturn<any, [id: number, file: File]>;
 
   params: any;
   setParams: (v: any) => void;
@@ -66,6 +77,7 @@ interface IAssetsContext {
 
   openFolderDialog: () => void;
   openFileDialog: () => void;
+  openReplaceDialog: () => void;
 
   openItem: (data?: any) => void;
 
@@ -106,6 +118,7 @@ const AssetsContextProvider = ({ children }) => {
 
   const folderInput = useRef<HTMLInputElement>();
   const fileInput = useRef<HTMLInputElement>();
+  const replaceInput = useRef<HTMLInputElement>();
 
   const selection = useSelection({
     onSelectionChanged: () => {
@@ -243,12 +256,14 @@ const AssetsContextProvider = ({ children }) => {
     }
   });
 
-  const update = useAsyncCallback(async (id, { alt, copyright, tags }) => {
+  const update = useAsyncCallback(async (id, { alt, copyright, tags, focalPoint, crops }) => {
     try {
       const request = await axios.put(`/api/assets/${id}`, {
         alt,
         copyright,
         tags,
+        focalPoint,
+        crops,
       });
       assetsState.update([request.data]);
       return request.data;
@@ -257,6 +272,19 @@ const AssetsContextProvider = ({ children }) => {
     }
   });
 
+  const replace = useAsyncCallback(async (id, file: File) => {
+    try {
+      const formData = new FormData();
+      formData.append('mimeType', file.type);
+      formData.append('file', file);
+      const request = await axios.put(`/api/assets/${id}/file`, formData);
+      assetsState.update([request.data]);
+      return request.data;
+    } catch (e) {
+      throw e.response?.data;
+    }
+  });
+
   const openFileDialog = useCallback(() => {
     fileInput.current?.click?.();
   }, []);
@@ -265,6 +293,10 @@ const AssetsContextProvider = ({ children }) => {
     folderInput.current?.click?.();
   }, []);
 
+  const openReplaceDialog = useCallback(() => {
+    replaceInput.current?.click?.();
+  }, []);
+
   const handleAssetInput = useCallback(
     async (event) => {
       const files = event?.target?.files as FileList;
@@ -328,6 +360,7 @@ const AssetsContextProvider = ({ children }) => {
         getAncestors,
         rename,
         update,
+        replace,
 
         params,
         setParams,
@@ -342,6 +375,7 @@ const AssetsContextProvider = ({ children }) => {
 
         openFileDialog,
         openFolderDialog,
+        openReplaceDialog,
 
         selection,
         view,
@@ -372,6 +406,20 @@ const AssetsContextProvider = ({ children }) => {
           (event.target as any).value = null;
         }}
       />
+      <input
+        hidden
+        type="file"
+        ref={replaceInput}
+        onChange={(event) => {
+          const file = event?.target?.files?.[0];
+          if (file && selectedAssets?.length === 1) {
+            replace.execute(selectedAssets[0].id, file);
+          }
+        }}
+        onClick={(event) => {
+          (event.target as any).value = null;
+        }}
+      />
       {children}
     </AssetsContext.Provider>
   );
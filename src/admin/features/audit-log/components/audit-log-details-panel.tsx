@@ -0,0 +1,56 @@
+import React from 'react';
+import { makeStyles, Panel, PanelType, Stack, Text } from '@fluentui/react';
+import { IAuditLog } from '@shared/interfaces/model';
+import { formatDate } from '@admin/helpers/misc';
+
+const useStyles = makeStyles((theme) => ({
+  summary: {
+    margin: 0,
+    padding: 8,
+    overflow: 'auto',
+    maxHeight: 320,
+    fontSize: 12,
+    background: theme.palette.neutralLighter,
+  },
+}));
+
+interface IAuditLogDetailsPanelProps {
+  isOpen?: boolean;
+  auditLog?: IAuditLog;
+  onDismiss?: () => void;
+}
+
+const AuditLogDetailsPanel: React.FC<IAuditLogDetailsPanelProps> = ({ isOpen, auditLog, onDismiss }) => {
+  const styles = useStyles();
+
+  const renderSummary = (title: string, summary: any) => (
+    <Stack tokens={{ childrenGap: 4 }}>
+      <Text style={{ fontWeight: 600 }}>{title}</Text>
+      {summary ? (
+        <pre className={styles.summary}>{JSON.stringify(summary, null, 2)}</pre>
+      ) : (
+        <Text>None</Text>
+      )}
+    </Stack>
+  );
+
+  return (
+    <Panel isOpen={isOpen} headerText={auditLog?.route} onDismiss={onDismiss} type={PanelType.medium}>
+      {auditLog && (
+        <Stack tokens={{ childrenGap: 16 }} style={{ marginTop: 16 }}>
+          <Stack tokens={{ childrenGap: 4 }}>
+            <Text>{`Actor: ${auditLog.actorEmail ?? 'Unknown'}`}</Text>
+            <Text>{`Date: ${formatDate(auditLog.createdAt)}`}</Text>
+            <Text>{`Target: ${auditLog.targetType} ${(auditLog.targetIds ?? []).join(', ')}`}</Text>
+            <Text>{`IP address: ${auditLog.ip ?? 'Unknown'}`}</Text>
+            <Text>{`Status: ${auditLog.statusCode ?? ''}`}</Text>
+          </Stack>
+          {renderSummary('Before', auditLog.before)}
+          {renderSummary('After', auditLog.after)}
+        </Stack>
+      )}
+    </Panel>
+  );
+};
+
+export default AuditLogDetailsPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { DatePicker, Dropdown, SearchBox, Stack, TextField } from '@fluentui/react';
+import { useAsync } from '@fluentui/react-hooks';
+import { endOfDay, startOfDay } from 'date-fns';
+import { AuditTargetTypes } from '@shared/features/audit';
+import { useAuditLog } from '@admin/features/audit-log/context/audit-log.context';
+
+const actionOptions = [
+  { key: '', text: 'All actions' },
+  { key: 'create', text: 'Create' },
+  { key: 'update', text: 'Update' },
+  { key: 'delete', text: 'Delete' },
+];
+
+const targetTypeOptions = [
+  { key: '', text: 'All targets' },
+  ...AuditTargetTypes.map((targetType) => ({ key: targetType, text: targetType })),
+];
+
+const AuditLogFilters: React.FC = () => {
+  const { listParams, setListParams } = useAuditLog();
+  const debounce = useAsync().debounce;
+
+  const setFilter = (params) => setListParams({ ...listParams, ...params, page: 1 });
+  const debouncedSetFilter = debounce(setFilter, 300);
+
+  return (
+    <Stack horizontal wrap verticalAlign="end" tokens={{ childrenGap: 8 }} style={{ margin: '8px 0' }}>
+      <SearchBox
+        placeholder="Search actor email..."
+        onChange={(event, actor) => debouncedSetFilter({ actor })}
+        styles={{ root: { width: 220 } }}
+        data-cy="audit-filters-actor"
+      />
+      <Dropdown
+        selectedKey={listParams.action ?? ''}
+        options={actionOptions}
+        onChange={(event, option) => setFilter({ action: option.key || undefined })}
+        styles={{ root: { width: 140 } }}
+        data-cy="audit-filters-action"
+      />
+      <Dropdown
+        selectedKey={listParams.targetType ?? ''}
+        options={targetTypeOptions}
+        onChange={(event, option) => setFilter({ targetType: option.key || undefined })}
+        styles={{ root: { width: 160 } }}
+        data-cy="audit-filters-targetType"
+      />
+      <TextField
+        placeholder="Target id"
+        onChange={(event, targetId) => debouncedSetFilter({ targetId: targetId || undefined })}
+        styles={{ root: { width: 100 } }}
+        data-cy="audit-filters-targetId"
+      />
+      <DatePicker
+        placeholder="From"
+        value={listParams.from ? new Date(listParams.from) : undefined}
+        onSelectDate={(date) => setFilter({ from: date ? startOfDay(date).toISOString() : undefined })}
+        styles={{ root: { width: 140 } }}
+      />
+      <DatePicker
+        placeholder="To"
+        value={listParams.to ? new Date(listParams.to) : undefined}
+        onSelectDate={(date) => setFilter({ to: date ? endOfDay(date).toISOString() : undefined })}
+        styles={{ root: { width: 140 } }}
+      />
+    </Stack>
+  );
+};
+
+export default AuditLogFilters;
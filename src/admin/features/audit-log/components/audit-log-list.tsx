@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CommandBar,
+  DefaultButton,
+  IColumn,
+  ICommandBarItemProps,
+  MessageBar,
+  MessageBarType,
+  NeutralColors,
+  SelectionMode,
+  ShimmeredDetailsList,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import { IAuditLog } from '@shared/interfaces/model';
+import { useSelection } from '@admin/helpers/selection';
+import { formatDate } from '@admin/helpers/misc';
+import { useAuditLog } from '@admin/features/audit-log/context/audit-log.context';
+import AuditLogDetailsPanel from '@admin/features/audit-log/components/audit-log-details-panel';
+
+const AuditLogList = () => {
+  const { listAuditLogs, listParams, setListParams } = useAuditLog();
+  const [selected, setSelected] = useState<IAuditLog>();
+  const [detailsOpen, setDetailsOpen] = useState(false);
+
+  const selection = useSelection<IAuditLog>({
+    onSelectionChanged: () => {
+      setSelected(selection.getSelection()?.[0]);
+    },
+    getKey: (auditLog) => auditLog.id,
+    selectionMode: SelectionMode.single,
+  });
+
+  const { results = [], count = 0, limit = 50 } = listAuditLogs?.result ?? {};
+  const page = listParams.page ?? 1;
+  const pages = Math.max(Math.ceil(count / limit), 1);
+
+  const toolbarItems = useMemo<ICommandBarItemProps[]>(
+    () => [
+      {
+        key: 'details',
+        text: 'Details',
+        iconProps: { iconName: 'EntryView' },
+        disabled: !selected,
+        'data-cy': 'audit-commandBar-details',
+        onClick: () => setDetailsOpen(true),
+      },
+      {
+        key: 'refresh',
+        text: 'Refresh',
+        iconProps: { iconName: 'Refresh' },
+        'data-cy': 'audit-commandBar-refresh',
+        onClick: () => {
+          listAuditLogs.execute(listParams);
+        },
+      },
+    ],
+    [selected, listParams]
+  );
+
+  const columns = useMemo<IColumn[]>(
+    () => [
+      {
+        key: 'createdAt',
+        name: 'Date',
+        minWidth: 140,
+        maxWidth: 160,
+        onRender: ({ createdAt }: IAuditLog) => <div>{formatDate(createdAt)}</div>,
+      },
+      {
+        key: 'actorEmail',
+        name: 'Actor',
+        fieldName: 'actorEmail',
+        minWidth: 160,
+        maxWidth: 220,
+        isPadded: true,
+      },
+      {
+        key: 'action',
+        name: 'Action',
+        fieldName: 'action',
+        minWidth: 60,
+        maxWidth: 80,
+      },
+      {
+        key: 'target',
+        name: 'Target',
+        minWidth: 120,
+        maxWidth: 200,
+        onRender: ({ targetType, targetIds }: IAuditLog) => (
+          <div>{`${targetType} ${(targetIds ?? []).join(', ')}`}</div>
+        ),
+      },
+      {
+        key: 'route',
+        name: 'Route',
+        fieldName: 'route',
+        minWidth: 200,
+      },
+      {
+        key: 'ip',
+        name: 'IP address',
+        fieldName: 'ip',
+        minWidth: 100,
+        maxWidth: 120,
+      },
+    ],
+    []
+  );
+
+  return (
+    <div>
+      <CommandBar items={toolbarItems} style={{ borderBottom: `1px solid ${NeutralColors.gray30}` }} />
+      {listAuditLogs?.error?.message && (
+        <MessageBar messageBarType={MessageBarType.error}>{listAuditLogs.error.message}</MessageBar>
+      )}
+      <ShimmeredDetailsList
+        setKey="items"
+        items={results}
+        columns={columns}
+        selectionMode={SelectionMode.single}
+        selection={selection as any}
+        enableShimmer={listAuditLogs?.loading && !listAuditLogs?.result}
+        onItemInvoked={() => setDetailsOpen(true)}
+        ariaLabelForShimmer="Audit log is being fetched"
+        ariaLabelForGrid="Item details"
+      />
+      <Stack horizontal verticalAlign="center" horizontalAlign="end" tokens={{ childrenGap: 8 }}>
+        <Text>{`${count} entries, page ${page} of ${pages}`}</Text>
+        <DefaultButton
+          text="Previous"
+          disabled={page <= 1 || listAuditLogs?.loading}
+          onClick={() => setListParams({ ...listParams, page: page - 1 })}
+        />
+        <DefaultButton
+          text="Next"
+          disabled={page >= pages || listAuditLogs?.loading}
+          onClick={() => setListParams({ ...listParams, page: page + 1 })}
+        />
+      </Stack>
+      <AuditLogDetailsPanel
+        isOpen={detailsOpen}
+        auditLog={selected}
+        onDismiss={() => setDetailsOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default AuditLogList;
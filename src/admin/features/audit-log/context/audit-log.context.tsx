@@ -0,0 +1,59 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { UseAsyncReturn } from 'react-async-hook';
+import { IAuditLog } from '@shared/interfaces/model';
+import apiAxios, { useApiCallback } from '@admin/helpers/api';
+
+export interface IAuditLogs {
+  results: IAuditLog[];
+  count: number;
+  page: number;
+  limit: number;
+}
+
+export interface IAuditLogParams {
+  actor?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+}
+
+export interface IAuditLogContext {
+  listAuditLogs: UseAsyncReturn<IAuditLogs, [params?: IAuditLogParams]>;
+  listParams: IAuditLogParams;
+  setListParams: (params: IAuditLogParams) => void;
+}
+
+const AuditLogContext = createContext<IAuditLogContext>({} as any);
+
+export interface IAuditLogContextProviderProps {}
+
+const AuditLogContextProvider: React.FC<IAuditLogContextProviderProps> = ({ children }) => {
+  const [listParams, setListParams] = useState<IAuditLogParams>({ page: 1 });
+
+  const listAuditLogs = useApiCallback(async (params?: IAuditLogParams) =>
+    apiAxios.get('/audit-logs', { params })
+  );
+
+  useEffect(() => {
+    listAuditLogs.execute(listParams);
+  }, [listParams]);
+
+  return (
+    <AuditLogContext.Provider
+      value={{
+        listAuditLogs,
+        listParams,
+        setListParams,
+      }}
+    >
+      {children}
+    </AuditLogContext.Provider>
+  );
+};
+
+const useAuditLog = () => useContext(AuditLogContext);
+
+export { AuditLogContextProvider, useAuditLog };
@@ -0,0 +1,52 @@
+import {
+  ActionButton,
+  makeStyles,
+  MessageBar,
+  MessageBarType,
+  Stack,
+} from '@fluentui/react';
+import React from 'react';
+import copy from 'copy-text-to-clipboard';
+
+const useStyles = makeStyles((theme) => ({
+  codes: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: 4,
+    padding: 12,
+    fontFamily: 'monospace',
+    fontSize: 14,
+    backgroundColor: theme.palette.neutralLighterAlt,
+  },
+}));
+
+interface IRecoveryCodesProps {
+  codes: string[];
+}
+
+const RecoveryCodes: React.FC<IRecoveryCodesProps> = ({ codes }) => {
+  const styles = useStyles();
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <MessageBar messageBarType={MessageBarType.warning}>
+        Store the recovery codes somewhere safe. Each of them can be used once to log in without
+        the authenticator app, they will not be shown again.
+      </MessageBar>
+      <div className={styles.codes}>
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Stack horizontal>
+        <ActionButton
+          iconProps={{ iconName: 'Copy' }}
+          text="Copy codes"
+          onClick={() => copy(codes.join('\n'))}
+        />
+      </Stack>
+    </Stack>
+  );
+};
+
+export default RecoveryCodes;
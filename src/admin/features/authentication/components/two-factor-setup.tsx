@@ -0,0 +1,42 @@
+import { makeStyles, Shimmer, Stack, Text } from '@fluentui/react';
+import React from 'react';
+import { ITwoFactorSetup } from '@shared/interfaces/model';
+
+const useStyles = makeStyles((theme) => ({
+  qrCode: {
+    width: 180,
+    height: 180,
+    border: `1px solid ${theme.palette.neutralLight}`,
+  },
+  secret: {
+    fontFamily: 'monospace',
+    wordBreak: 'break-all',
+  },
+}));
+
+interface ITwoFactorSetupProps {
+  setup?: ITwoFactorSetup;
+}
+
+const TwoFactorSetup: React.FC<ITwoFactorSetupProps> = ({ setup }) => {
+  const styles = useStyles();
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Text variant="medium" block>
+        Scan the QR code with an authenticator app, or enter the key manually, then type the
+        6-digit code it shows.
+      </Text>
+      <Shimmer isDataLoaded={!!setup} width={180}>
+        {setup && <img className={styles.qrCode} src={setup.qrCode} alt={setup.uri} />}
+      </Shimmer>
+      {setup && (
+        <Text variant="small" className={styles.secret} block>
+          {setup.secret}
+        </Text>
+      )}
+    </Stack>
+  );
+};
+
+export default TwoFactorSetup;
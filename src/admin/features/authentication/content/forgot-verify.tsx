@@ -70,7 +70,11 @@ const formSchema = yup.object({
     .label('Confirm password'),
 });
 
-const ForgotVerify: React.FC<any> = () => {
+interface IForgotVerifyProps {
+  invite?: boolean;
+}
+
+const ForgotVerify: React.FC<IForgotVerifyProps> = ({ invite }) => {
   const styles = useStyles();
   const { forgotVerify } = useAuth();
   const { token } = useParams<any>();
@@ -104,10 +108,10 @@ const ForgotVerify: React.FC<any> = () => {
           />
           <Stack tokens={{ childrenGap: 8, padding: '0 0 16px' }}>
             <Text variant="xLargePlus" block>
-              Reset your password
+              {invite ? 'Set your password' : 'Reset your password'}
             </Text>
             <Text variant="medium" block>
-              Enter your new password.
+              {invite ? 'Choose a password for your new account.' : 'Enter your new password.'}
             </Text>
           </Stack>
           {forgotVerify.error?.message && (
@@ -126,7 +130,7 @@ const ForgotVerify: React.FC<any> = () => {
                 className={styles.alert}
                 messageBarType={MessageBarType.success}
               >
-                Your password has been reset.
+                {invite ? 'Your password has been set.' : 'Your password has been reset.'}
               </MessageBar>
               <Link to="/login">
                 <DefaultButton iconProps={{ iconName: 'Back' }}>
@@ -168,7 +172,7 @@ const ForgotVerify: React.FC<any> = () => {
                       type="submit"
                       disabled={forgotVerify.loading}
                     >
-                      Reset Password
+                      {invite ? 'Set Password' : 'Reset Password'}
                     </PrimaryButton>
                   </Stack.Item>
                 </Stack>
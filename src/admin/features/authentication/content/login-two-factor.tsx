@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActionButton,
+  DefaultButton,
+  MessageBar,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import { useForm } from 'react-hook-form';
+import { useAuth } from '@admin/features/authentication/context/auth.context';
+import { ControlledTextField } from '@admin/components/rhf-components';
+import TwoFactorSetup from '@admin/features/authentication/components/two-factor-setup';
+import RecoveryCodes from '@admin/features/authentication/components/recovery-codes';
+
+const LogInTwoFactor: React.FC<any> = () => {
+  const {
+    twoFactorChallenge,
+    cancelTwoFactor,
+    verifyTwoFactorLogin,
+    setupTwoFactorLogin,
+    enableTwoFactorLogin,
+    completeLogIn,
+  } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const setupRequired = twoFactorChallenge?.setupRequired;
+
+  const { control, handleSubmit, reset } = useForm({
+    defaultValues: {
+      code: '',
+      recoveryCode: '',
+    },
+  });
+
+  useEffect(() => {
+    verifyTwoFactorLogin.reset();
+    enableTwoFactorLogin.reset();
+    if (setupRequired) {
+      setupTwoFactorLogin.execute();
+    }
+  }, []);
+
+  const submit = handleSubmit((data) => {
+    if (setupRequired) {
+      enableTwoFactorLogin.execute({ code: data.code });
+    } else {
+      verifyTwoFactorLogin.execute(
+        useRecoveryCode ? { recoveryCode: data.recoveryCode } : { code: data.code }
+      );
+    }
+  });
+
+  const controller = setupRequired ? enableTwoFactorLogin : verifyTwoFactorLogin;
+  const error = controller.error?.message ?? setupTwoFactorLogin.error?.message;
+  const enabled = enableTwoFactorLogin.result;
+
+  if (enabled) {
+    return (
+      <Stack tokens={{ childrenGap: 10 }}>
+        <RecoveryCodes codes={enabled.recoveryCodes ?? []} />
+        <PrimaryButton onClick={() => completeLogIn(enabled.user)} data-cy="login-continue">
+          Continue
+        </PrimaryButton>
+      </Stack>
+    );
+  }
+
+  return (
+    <Stack tokens={{ childrenGap: 10 }}>
+      {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+      {setupRequired ? (
+        <>
+          <Text variant="medium" block>
+            Your account requires two-factor authentication.
+          </Text>
+          <TwoFactorSetup setup={setupTwoFactorLogin.result} />
+        </>
+      ) : (
+        <Text variant="medium" block>
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes.'
+            : 'Enter the code from your authenticator app.'}
+        </Text>
+      )}
+      <form onSubmit={submit}>
+        <Stack tokens={{ childrenGap: 10 }}>
+          {useRecoveryCode ? (
+            <ControlledTextField
+              control={control}
+              name="recoveryCode"
+              label="Recovery code"
+              autoComplete="off"
+              required
+              data-cy="login-recovery-code"
+            />
+          ) : (
+            <ControlledTextField
+              control={control}
+              name="code"
+              label="Code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              required
+              data-cy="login-code"
+            />
+          )}
+          {!setupRequired && (
+            <Stack horizontal>
+              <ActionButton
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  reset();
+                }}
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </ActionButton>
+            </Stack>
+          )}
+          <Stack horizontal horizontalAlign="space-between">
+            <DefaultButton onClick={cancelTwoFactor}>Back</DefaultButton>
+            <PrimaryButton type="submit" disabled={controller.loading} data-cy="login-submit">
+              Verify
+            </PrimaryButton>
+          </Stack>
+        </Stack>
+      </form>
+    </Stack>
+  );
+};
+
+export default LogInTwoFactor;
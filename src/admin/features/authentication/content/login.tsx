@@ -1,8 +1,9 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { useAuth } from '@admin/features/authentication/context/auth.context';
 import { Link } from '@admin/components/links';
 import classNames from 'classnames';
 import {
+  DefaultButton,
   makeStyles,
   MessageBar,
   MessageBarType,
@@ -13,7 +14,9 @@ import {
 import * as yup from 'yup';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
+import { useLocation } from 'react-router';
 import { ControlledTextField } from '@admin/components/rhf-components';
+import LogInTwoFactor from '@admin/features/authentication/content/login-two-factor';
 import logo from '../../../assets/logo.svg';
 
 const useStyles = makeStyles({
@@ -66,7 +69,13 @@ const formSchema = yup.object({
 
 const LogIn: React.FC<any> = () => {
   const styles = useStyles();
-  const { logIn } = useAuth();
+  const { logIn, twoFactorChallenge, getOidcConfig } = useAuth();
+  const location = useLocation();
+  const ssoError = useMemo(
+    () => new URLSearchParams(location.search).get('error'),
+    [location.search]
+  );
+  const oidcConfig = getOidcConfig.result;
   const { control, handleSubmit } = useForm({
     resolver: yupResolver(formSchema),
     defaultValues: {
@@ -81,6 +90,7 @@ const LogIn: React.FC<any> = () => {
 
   useEffect(() => {
     logIn.reset();
+    getOidcConfig.execute();
   }, []);
 
   return (
@@ -101,7 +111,16 @@ const LogIn: React.FC<any> = () => {
             Log in to continue.
           </Text>
         </Stack>
-        {logIn.error?.message && (
+        {twoFactorChallenge && <LogInTwoFactor />}
+        {ssoError && !logIn.error?.message && !twoFactorChallenge && (
+          <MessageBar
+            className={styles.alert}
+            messageBarType={MessageBarType.error}
+          >
+            {ssoError}
+          </MessageBar>
+        )}
+        {logIn.error?.message && !twoFactorChallenge && (
           <MessageBar
             className={styles.alert}
             messageBarType={MessageBarType.error}
@@ -109,8 +128,17 @@ const LogIn: React.FC<any> = () => {
             {logIn.error.message}
           </MessageBar>
         )}
-        <Stack tokens={{ childrenGap: 10 }}>
-          <form onSubmit={submit}>
+        <Stack tokens={{ childrenGap: 10 }} hidden={!!twoFactorChallenge}>
+          {oidcConfig?.enabled && (
+            <DefaultButton
+              href={`${process.env.PUBLIC_API_URL}/oidc/login`}
+              iconProps={{ iconName: 'AuthenticatorApp' }}
+              data-cy="login-sso"
+            >
+              {oidcConfig.label}
+            </DefaultButton>
+          )}
+          <form onSubmit={submit} hidden={oidcConfig?.passwordLogin === false}>
             <ControlledTextField
               control={control}
               type="email"
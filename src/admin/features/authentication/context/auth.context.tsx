@@ -1,4 +1,10 @@
-import { IUser, IUserToken } from '@shared/interfaces/model';
+import {
+  IOidcConfig,
+  ITwoFactorSetup,
+  ITwoFactorStatus,
+  IUser,
+  IUserToken,
+} from '@shared/interfaces/model';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useAsyncCallback, UseAsyncReturn } from 'react-async-hook';
 import { useHistory } from 'react-router';
@@ -6,14 +12,37 @@ import apiAxios, { useApiCallback } from '@admin/helpers/api';
 
 export type AuthStatuses = 'authenticated' | 'needs-init' | 'unauthenticated';
 
+export interface ITwoFactorChallenge {
+  token: string;
+  setupRequired?: boolean;
+}
+
+export interface ITwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
 interface AuthContextInterface {
   user: IUser;
   logIn: UseAsyncReturn<
     { user: IUser; token: IUserToken },
     [{ email: string; password: string }]
   >;
+  twoFactorChallenge?: ITwoFactorChallenge;
+  cancelTwoFactor: () => void;
+  verifyTwoFactorLogin: UseAsyncReturn<
+    { user: IUser; token: IUserToken },
+    [ITwoFactorCredentials]
+  >;
+  setupTwoFactorLogin: UseAsyncReturn<ITwoFactorSetup, []>;
+  enableTwoFactorLogin: UseAsyncReturn<
+    { user: IUser; token: IUserToken; recoveryCodes: string[] },
+    [{ code: string }]
+  >;
+  completeLogIn: (user: IUser) => void;
   logOut: UseAsyncReturn<any, []>;
   forgot: UseAsyncReturn<any, [{ email: string }]>;
+  getOidcConfig: UseAsyncReturn<IOidcConfig, []>;
   forgotVerify: UseAsyncReturn<any, [{ token: string; password: string }]>;
   init: UseAsyncReturn<
     void,
@@ -23,6 +52,14 @@ interface AuthContextInterface {
     any,
     [{ currentPassword: string; password: string; confirmPassword: string }]
   >;
+  getTwoFactor: UseAsyncReturn<ITwoFactorStatus, []>;
+  setupTwoFactor: UseAsyncReturn<ITwoFactorSetup, []>;
+  enableTwoFactor: UseAsyncReturn<{ recoveryCodes: string[] }, [{ code: string }]>;
+  regenerateRecoveryCodes: UseAsyncReturn<
+    { recoveryCodes: string[] },
+    [{ code: string }]
+  >;
+  disableTwoFactor: UseAsyncReturn<any, [{ password: string }]>;
   filterPermissions: (list: any[]) => any[];
   hasPermission: (list?: string[]) => boolean;
   loading: boolean;
@@ -37,14 +74,60 @@ const AuthContextProvider = ({ children }) => {
   const [loading, setLoading] = useState(true);
   const history = useHistory();
   const [authStatus, setAuthStatus] = useState<AuthStatuses>('unauthenticated');
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<ITwoFactorChallenge>();
+
+  const completeLogIn = (loggedInUser: IUser) => {
+    setTwoFactorChallenge(undefined);
+    setUser(loggedInUser);
+    history.replace('/');
+  };
 
   const logIn = useApiCallback(async ({ email, password }) => {
     const response = await apiAxios.post('/login', { email, password });
-    setUser(response?.data?.user);
-    history.replace('/');
+    if (response?.data?.twoFactor) {
+      setTwoFactorChallenge(response.data.twoFactor);
+    } else {
+      completeLogIn(response?.data?.user);
+    }
     return response;
   });
 
+  const cancelTwoFactor = () => setTwoFactorChallenge(undefined);
+
+  const verifyTwoFactorLogin = useApiCallback(
+    async ({ code, recoveryCode }: ITwoFactorCredentials) => {
+      try {
+        const response = await apiAxios.post('/login/two-factor', {
+          token: twoFactorChallenge?.token,
+          code,
+          recoveryCode,
+        });
+        completeLogIn(response?.data?.user);
+        return response;
+      } catch (e) {
+        // Too many attempts drop the challenge, the login has to start over
+        if (e?.response?.data?.message === 'invalid_token') {
+          setTwoFactorChallenge(undefined);
+        }
+        throw e;
+      }
+    }
+  );
+
+  const setupTwoFactorLogin = useApiCallback(async () =>
+    apiAxios.post('/login/two-factor/setup', {
+      token: twoFactorChallenge?.token,
+    })
+  );
+
+  // User is set by `completeLogIn` once recovery codes are saved
+  const enableTwoFactorLogin = useApiCallback(async ({ code }) =>
+    apiAxios.post('/login/two-factor/enable', {
+      token: twoFactorChallenge?.token,
+      code,
+    })
+  );
+
   useEffect(() => {
     setAuthStatus(user ? 'authenticated' : 'unauthenticated');
   }, [user]);
@@ -80,6 +163,8 @@ const AuthContextProvider = ({ children }) => {
     apiAxios.post('/forgot', { email })
   );
 
+  const getOidcConfig = useApiCallback(async () => apiAxios.get('/oidc/config'));
+
   const forgotVerify = useAsyncCallback(async ({ token, password }) =>
     apiAxios.post('/forgot/verify', { token, password })
   );
@@ -108,6 +193,26 @@ const AuthContextProvider = ({ children }) => {
       })
   );
 
+  const getTwoFactor = useApiCallback(async () =>
+    apiAxios.get('/profile/two-factor')
+  );
+
+  const setupTwoFactor = useApiCallback(async () =>
+    apiAxios.post('/profile/two-factor/setup')
+  );
+
+  const enableTwoFactor = useApiCallback(async ({ code }) =>
+    apiAxios.post('/profile/two-factor/enable', { code })
+  );
+
+  const regenerateRecoveryCodes = useApiCallback(async ({ code }) =>
+    apiAxios.post('/profile/two-factor/recovery-codes', { code })
+  );
+
+  const disableTwoFactor = useApiCallback(async ({ password }) =>
+    apiAxios.post('/profile/two-factor/disable', { password })
+  );
+
   useEffect(() => {
     load.execute();
 
@@ -155,12 +260,24 @@ const AuthContextProvider = ({ children }) => {
       value={{
         user,
         logIn,
+        twoFactorChallenge,
+        cancelTwoFactor,
+        verifyTwoFactorLogin,
+        setupTwoFactorLogin,
+        enableTwoFactorLogin,
+        completeLogIn,
         loading,
         logOut,
         forgot,
+        getOidcConfig,
         forgotVerify,
         init,
         updatePassword,
+        getTwoFactor,
+        setupTwoFactor,
+        enableTwoFactor,
+        regenerateRecoveryCodes,
+        disableTwoFactor,
         filterPermissions,
         hasPermission,
         authStatus,
@@ -17,6 +17,7 @@ const Authentication = () => {
         <Route path="/login" component={LogIn} exact />,
         <Route path="/forgot" component={Forgot} exact />,
         <Route path="/forgot-verify/:token" component={ForgotVerify} exact />,
+        <Route path="/invite/:token" render={() => <ForgotVerify invite />} exact />,
       ]}
       <Route path="*" component={RedirectAuth} />
     </Switch>
@@ -0,0 +1,90 @@
+import {
+  DefaultButton,
+  Dialog,
+  DialogFooter,
+  DialogType,
+  MessageBar,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import React from 'react';
+import { IContentMigrationOperation, IContentMigrationPlan } from '@shared/interfaces/model';
+
+const describeOperation = (operation: IContentMigrationOperation) => {
+  switch (operation.action) {
+    case 'rename':
+      return `Rename ${operation.from} to ${operation.to}`;
+    case 'move':
+      return `Move ${operation.from} to ${operation.to}`;
+    case 'coerce':
+      return `Convert ${operation.to} from ${operation.fromType} to ${operation.toType}`;
+    default:
+      if (operation.reason === 'incompatible_move') {
+        return `Drop ${operation.from}, it can not be moved in or out of a repeatable`;
+      }
+      if (operation.reason === 'incompatible_type') {
+        return `Drop ${operation.from}, ${operation.fromType} can not be converted to ${operation.toType}`;
+      }
+      return `Drop ${operation.from}`;
+  }
+};
+
+interface IContentTypeMigrationDialogProps {
+  isOpen?: boolean;
+  plan?: IContentMigrationPlan;
+  isComponent?: boolean;
+  loading?: boolean;
+  onDismiss?: () => void;
+  onConfirm?: () => void;
+}
+
+const ContentTypeMigrationDialog: React.FC<IContentTypeMigrationDialogProps> = ({
+  isOpen,
+  plan,
+  isComponent,
+  loading,
+  onDismiss,
+  onConfirm,
+}) => (
+  <Dialog
+    hidden={!isOpen}
+    onDismiss={onDismiss}
+    dialogContentProps={{
+      type: DialogType.close,
+      title: 'Migrate content',
+    }}
+    modalProps={{
+      styles: { main: { maxWidth: 500 } },
+    }}
+  >
+    <Stack tokens={{ childrenGap: 8 }}>
+      <MessageBar
+        messageBarType={plan?.affectedPosts > 0 ? MessageBarType.warning : MessageBarType.info}
+      >
+        {plan?.affectedPosts > 0
+          ? `Content of ${plan.affectedPosts} post(s)${
+              isComponent ? ' using this component' : ''
+            }, versions included, will be migrated.`
+          : 'No posts have content in the changed fields.'}
+      </MessageBar>
+      {(plan?.operations ?? []).map((operation) => (
+        <Text key={`${operation.uid}-${operation.action}`} data-cy="contentTypes-migration-operation">
+          {describeOperation(operation)}
+        </Text>
+      ))}
+    </Stack>
+    <DialogFooter>
+      <DefaultButton onClick={onDismiss} text="Cancel" data-cy="dialog-cancel" />
+      <PrimaryButton
+        onClick={onConfirm}
+        text="Update"
+        disabled={loading}
+        data-cy="dialog-confirm"
+      />
+    </DialogFooter>
+  </Dialog>
+);
+
+export default ContentTypeMigrationDialog;
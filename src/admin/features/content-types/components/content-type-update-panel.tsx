@@ -19,6 +19,7 @@ import {
   useContentTypes,
 } from '../context/content-types.context';
 import FieldsList from './fields-list';
+import ContentTypeMigrationDialog from './content-type-migration-dialog';
 import { slugRegex, slugRegexMessage } from '@shared/validators';
 
 interface IContentTypeUpdatePanelProps {
@@ -34,7 +35,7 @@ const ContentTypeUpdatePanel: React.FC<IContentTypeUpdatePanelProps> = ({
   onDismiss,
   onUpdated,
 }) => {
-  const { updateContentType, getContentType, getComponents } =
+  const { updateContentType, getContentType, getComponents, getMigrationPlan } =
     useContentTypes();
 
   const { openSnackbar } = useSnackbar();
@@ -43,10 +44,31 @@ const ContentTypeUpdatePanel: React.FC<IContentTypeUpdatePanelProps> = ({
     fields: [],
   });
 
+  // Changes are held back while the migration of existing content is confirmed
+  const [pendingUpdate, setPendingUpdate] = useState(null);
+
   const { control, handleSubmit, reset } = useForm({
     mode: 'all',
   });
 
+  const submit = async (data) => {
+    const update = {
+      ...data,
+      fields: field?.fields,
+      migrate: true,
+    };
+    try {
+      const plan = await getMigrationPlan.execute(contentTypeId, field?.fields);
+      if (plan?.operations?.length > 0) {
+        setPendingUpdate(update);
+        return;
+      }
+    } catch (err) {
+      return;
+    }
+    updateContentType.execute(contentTypeId, update);
+  };
+
   useEffect(() => {
     if (getContentType.result) {
       setField(getContentType.result as any);
@@ -57,6 +79,8 @@ const ContentTypeUpdatePanel: React.FC<IContentTypeUpdatePanelProps> = ({
     updateContentType.reset();
     getContentType.reset();
     getComponents.reset();
+    getMigrationPlan.reset();
+    setPendingUpdate(null);
     reset();
     setField({
       fields: [],
@@ -86,15 +110,11 @@ const ContentTypeUpdatePanel: React.FC<IContentTypeUpdatePanelProps> = ({
           disabled={
             !getContentType.result ||
             getContentType.loading ||
+            getMigrationPlan.loading ||
             updateContentType.loading
           }
           onClick={() => {
-            handleSubmit((data) => {
-              updateContentType.execute(contentTypeId, {
-                ...data,
-                fields: field?.fields,
-              });
-            })();
+            handleSubmit(submit)();
           }}
           data-cy="contentTypes-edit-confirm"
         >
@@ -103,7 +123,7 @@ const ContentTypeUpdatePanel: React.FC<IContentTypeUpdatePanelProps> = ({
         <DefaultButton onClick={onDismiss} data-cy="contentTypes-edit-cancel">Cancel</DefaultButton>
       </Stack>
     ),
-    [getContentType?.result, field?.fields]
+    [getContentType?.result, field?.fields, getMigrationPlan?.loading]
   );
 
   return (
@@ -122,6 +142,11 @@ const ContentTypeUpdatePanel: React.FC<IContentTypeUpdatePanelProps> = ({
               {updateContentType.error.message}
             </MessageBar>
           )}
+          {getMigrationPlan.error?.message && (
+            <MessageBar messageBarType={MessageBarType.error}>
+              {getMigrationPlan.error.message}
+            </MessageBar>
+          )}
           {getContentType.error?.message && (
             <MessageBar messageBarType={MessageBarType.error}>
               {getContentType.error.message}
@@ -151,6 +176,17 @@ const ContentTypeUpdatePanel: React.FC<IContentTypeUpdatePanelProps> = ({
           )}
         </LoadingBar>
       </Panel>
+      <ContentTypeMigrationDialog
+        isOpen={!!pendingUpdate}
+        plan={getMigrationPlan.result}
+        isComponent={getContentType.result?.type === 'component'}
+        loading={updateContentType.loading}
+        onDismiss={() => setPendingUpdate(null)}
+        onConfirm={() => {
+          updateContentType.execute(contentTypeId, pendingUpdate);
+          setPendingUpdate(null);
+        }}
+      />
     </>
   );
 };
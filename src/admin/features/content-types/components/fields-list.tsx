@@ -10,6 +10,7 @@ import {
   Stack,
 } from '@fluentui/react';
 import { DragDropContext, Draggable, Droppable } from 'react-beautiful-dnd';
+import { v4 } from 'uuid';
 import FieldsSelectPanel from './fields-select-panel';
 import { useContentTypes } from '../context/content-types.context';
 import FieldsConfigurePanel from './fields-configure-panel';
@@ -369,7 +370,8 @@ const FieldsList: React.FC<IFieldsListProps> = ({ field, isRoot }) => {
           if ((field?.fields ?? []).find((field) => field?.name === e?.name)) {
             setError('duplicate_field_name');
           } else {
-            field.fields.push(e);
+            // Content is migrated by uid when the field is renamed or moved later on
+            field.fields.push({ ...e, uid: v4() });
             setSelectFieldOpen(false);
           }
         }}
@@ -1,7 +1,7 @@
 import {UseAsyncReturn} from 'react-async-hook';
 import React, {createContext, useContext, useMemo, useState} from 'react';
 import {Selection} from '@fluentui/react';
-import {IContentType} from '@shared/interfaces/model';
+import {IContentMigrationPlan, IContentType} from '@shared/interfaces/model';
 import {ModelState, useModelState} from '@admin/helpers/hooks';
 import apiAxios, {useApiCallback} from '@admin/helpers/api';
 
@@ -12,6 +12,7 @@ interface IContentTypesContext {
   getSingleContentType: UseAsyncReturn<IContentType, [data: any]>;
   createContentType: UseAsyncReturn<IContentType, [data?: any]>;
   updateContentType: UseAsyncReturn<IContentType, [id: number, data?: any]>;
+  getMigrationPlan: UseAsyncReturn<IContentMigrationPlan, [id: number, fields: any[]]>;
   deleteContentTypes: UseAsyncReturn<number[] | string[],
     [ids?: number[] | string[], params?: any]>;
   importContentTypes: UseAsyncReturn<IContentType[], [data?: any]>;
@@ -89,6 +90,10 @@ const ContentTypesContextProvider = ({children}) => {
     return response;
   });
 
+  const getMigrationPlan = useApiCallback(async (id, fields) =>
+    apiAxios.post(`/content-types/${id}/migration-plan`, {fields})
+  );
+
   const deleteContentTypes = useApiCallback(async (ids, params) => {
     const response = await apiAxios.delete('/content-types', {
       data: ids,
@@ -122,6 +127,7 @@ const ContentTypesContextProvider = ({children}) => {
         getContentType,
         createContentType,
         updateContentType,
+        getMigrationPlan,
         deleteContentTypes,
         importContentTypes,
 
@@ -1,5 +1,6 @@
 import {
   CommandBar,
+  ContextualMenuItemType,
   ICommandBarItemProps,
   IconButton, MessageBarType,
   NeutralColors,
@@ -14,6 +15,8 @@ import { usePosts } from '../../posts/context/posts.context';
 import { useAuth } from '@admin/features/authentication/context/auth.context';
 import { copyToClipboard } from '@admin/helpers/utility';
 import { useSnackbar } from '@admin/context/snackbar';
+import { useLocalization, useWorkflow } from '@admin/helpers/hooks';
+import { getWorkflowState } from '@shared/features/workflow';
 
 export interface EditorCommandBarProps {
   handleSubmit: any;
@@ -45,6 +48,8 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
   const snackbar = useSnackbar();
 
   const { filterPermissions } = useAuth();
+  const { locales, defaultLocale } = useLocalization();
+  const workflow = useWorkflow();
 
   useEffect(() => {
     if (post?.id) {
@@ -110,6 +115,47 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
       })
     }
 
+    if (locales?.length > 0 && !loading) {
+      const currentLocale = locales.find((locale) => locale.code === post?.locale);
+      items.push({
+        key: 'locale',
+        text: currentLocale ? `${currentLocale.name} (${currentLocale.code})` : 'Locale',
+        'data-cy': 'editor-commandBar-locale',
+        iconProps: { iconName: 'LocaleLanguage' },
+        subMenuProps: {
+          items: [
+            ...locales.map((locale) => ({
+              key: locale.code,
+              text: `${locale.name} (${locale.code})`,
+              canCheck: true,
+              checked: locale.code === currentLocale?.code,
+              onClick: () => {
+                history.push({
+                  search: queryString.stringify({
+                    ...(queryString.parse(location.search) || {}),
+                    locale: locale.code === defaultLocale ? undefined : locale.code
+                  })
+                });
+              }
+            })),
+            {
+              key: 'divider',
+              itemType: ContextualMenuItemType.Divider
+            },
+            {
+              key: 'copyFromLocale',
+              text: 'Copy from locale',
+              iconProps: { iconName: 'Copy' },
+              disabled: !!post?.versionId,
+              onClick: () => {
+                setStateData('copyLocaleOpen', true);
+              }
+            }
+          ]
+        }
+      });
+    }
+
     if (enableEditor && editor === 'preview' && !loading) {
       items.push({
         key: 'deviceSize',
@@ -155,7 +201,7 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
     }
 
     return items;
-  }, [getPost?.result, device, loading, editor, location]);
+  }, [getPost?.result, device, loading, editor, location, locales, stateData]);
 
   const farToolbarItems = useMemo<ICommandBarItemProps[]>(() => {
     if (loading) {
@@ -239,6 +285,7 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
         },
       ];
     }
+    const workflowState = getWorkflowState(workflow, post?.workflowState);
     const items = filterPermissions([
       {
         key: 'copyUrl',
@@ -246,7 +293,9 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
         iconProps: { iconName: 'ClipboardList' },
         onClick: () => {
           copyToClipboard(
-            `${window.location.origin}/api/content/${post.slugPath}`
+            `${window.location.origin}/api/content/${post.slugPath}${
+              post?.locale && post.locale !== defaultLocale ? `?locale=${post.locale}` : ''
+            }`
           );
           snackbar.openSnackbar({
             message: 'Successfully copied URL to clipboard!',
@@ -293,7 +342,7 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
         text: 'Publish',
         'data-cy': 'editor-commandBar-publish',
         iconProps: { iconName: 'WebPublish' },
-        disabled: apiLoading,
+        disabled: apiLoading || (workflow.enabled && !workflowState?.approved),
         onClick: () => {
           setStateData('publishPostOpen', true);
         },
@@ -309,6 +358,18 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
         },
       },
     ]);
+    if (workflow.enabled) {
+      items.splice(items.findIndex((item) => item.key === 'publish'), 0, {
+        key: 'workflow',
+        text: workflowState ? `Review (${workflowState.name})` : 'Review',
+        'data-cy': 'editor-commandBar-workflow',
+        iconProps: { iconName: 'ReviewSolid' },
+        disabled: apiLoading,
+        onClick: () => {
+          setStateData('workflowOpen', true);
+        },
+      });
+    }
     if (post?.publishedAt) {
       items.splice(2, 0, {
         key: 'unpublish',
@@ -333,7 +394,7 @@ const EditorCommandBar: React.FC<EditorCommandBarProps> = ({
       },)
     }
     return items;
-  }, [getPost?.result, apiLoading, post, editor, loading, stateData, getVersionsCount?.result, menuOpened]);
+  }, [getPost?.result, apiLoading, post, editor, loading, stateData, getVersionsCount?.result, menuOpened, workflow]);
 
   return (
     <CommandBar
@@ -253,7 +253,7 @@ const PreviewEditor = ({
 
   const fetchPreviewData = async (post: IPost) => {
     try {
-      const response = await getPreviewData.execute(post?.id, post?.versionId);
+      const response = await getPreviewData.execute(post?.id, post?.versionId, post?.locale);
       if (response) {
         setIframeSrc(response?.src);
       }
@@ -266,7 +266,7 @@ const PreviewEditor = ({
     if (post) {
       fetchPreviewData(post);
     }
-  }, [post?.id]);
+  }, [post?.id, post?.locale]);
 
   const tabs = useMemo(() => {
     const tmpTabs = [
@@ -21,7 +21,10 @@ import PreviewEditor from '@admin/features/editor/components/preview-editor';
 import HeadlessEditor from '@admin/features/editor/components/headless-editor';
 import _ from 'lodash';
 import { testPaths } from '@admin/helpers/utility';
-import { useAllowedPaths } from '@admin/helpers/hooks';
+import { useAllowedPaths, useLocalization } from '@admin/helpers/hooks';
+import TranslatePanel from '@admin/components/translate-panel';
+import PostWorkflowPanel from '@admin/features/posts/components/post-workflow-panel';
+import { getFieldValidationMessage, validateFormValues } from '@shared/features/field-validation';
 
 const EditorPage = () => {
   const params = useParams<any>();
@@ -29,11 +32,13 @@ const EditorPage = () => {
   const location = useLocation();
   const search = queryString.parse(location?.search);
   const allowedPaths = useAllowedPaths();
+  const { locales } = useLocalization();
 
   const {
     getPost,
     getVersionsCount,
     updatePostContent,
+    getLocaleContent,
     stateData,
     setStateData,
     post,
@@ -91,15 +96,16 @@ const EditorPage = () => {
         setEnableEditor(!!testPaths(allowedPaths, post?.slugPath));
       }
     }
-  }, [post?.id, post?.slugPath, post?.versionId]);
+  }, [post?.id, post?.slugPath, post?.versionId, post?.locale]);
 
   useEffect(() => {
     setPost(null);
     setLoading(true);
     getPost.execute(params?.postId, {
-      versionId: search.versionId
+      versionId: search.versionId,
+      locale: search.locale
     });
-  }, [params?.postId, search.versionId]);
+  }, [params?.postId, search.versionId, search.locale]);
 
   useEffect(() => {
     if (post?.id) {
@@ -127,10 +133,36 @@ const EditorPage = () => {
     }
   }, [updatePostContent?.result]);
 
+  const showFormErrors = (errors: any[]) => {
+    errors.forEach((error) => {
+      methods.setError(error.path, {
+        type: error.message,
+        message: getFieldValidationMessage(error)
+      });
+    });
+    openSnackbar({
+      message: 'Form has errors',
+      messageBarType: MessageBarType.severeWarning
+    });
+  };
+
+  // Server errors point to form field names
+  useEffect(() => {
+    const error: any = updatePostContent?.error;
+    if (error?.message === 'invalid_content' && Array.isArray(error?.errors)) {
+      showFormErrors(error.errors);
+    }
+  }, [updatePostContent?.error]);
+
   const handleSubmit = () => {
     methods.handleSubmit(
       (data) => {
-        updatePostContent.execute(post?.id, data);
+        const errors = validateFormValues(post?.contentType?.fields, data);
+        if (errors.length > 0) {
+          showFormErrors(errors);
+          return;
+        }
+        updatePostContent.execute(post?.id, data, post?.locale);
       },
       () => {
         openSnackbar({
@@ -141,6 +173,20 @@ const EditorPage = () => {
     )();
   };
 
+  const copyFromLocale = async (locale: string) => {
+    try {
+      const content = await getLocaleContent.execute(post?.id, locale);
+      methods.reset(content ?? {});
+      setStateData('copyLocaleOpen', false);
+      openSnackbar({
+        message: 'Content copied, save the post to keep the changes',
+        messageBarType: MessageBarType.success
+      });
+    } catch (err) {
+      //
+    }
+  };
+
   return (
     <div className='page-wrapper'>
       <EditorCommandBar
@@ -169,6 +215,20 @@ const EditorPage = () => {
           <HeadlessEditor methods={methods} message={message} loading={loading} />
         )}
       </div>
+      <TranslatePanel
+        isOpen={stateData?.copyLocaleOpen}
+        locales={locales}
+        currentLocale={post?.locale}
+        loading={getLocaleContent?.loading}
+        error={getLocaleContent?.error?.message}
+        onDismiss={() => setStateData('copyLocaleOpen', false)}
+        onCopy={copyFromLocale}
+      />
+      <PostWorkflowPanel
+        isOpen={stateData?.workflowOpen}
+        post={post}
+        onDismiss={() => setStateData('workflowOpen', false)}
+      />
       <PostSettingsDialog
         onDismiss={() => setStateData('updatePostOpen', false)}
         onUpdated={() => {
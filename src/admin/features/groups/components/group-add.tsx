@@ -20,10 +20,17 @@ import { usePermissions } from '@admin/features/permissions/context/permissions.
 import GroupMembers from '@admin/features/groups/components/group-members';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
-import { ControlledTextField } from '@admin/components/rhf-components';
+import {
+  ControlledCheckbox,
+  ControlledTextField,
+} from '@admin/components/rhf-components';
 import StatusBar from '@admin/components/status-bar';
 import PermissionSelect from '@admin/features/permissions/components/permission-select';
 import PermissionChips from '@admin/features/permissions/components/permission-chips';
+import GroupContentScopes, {
+  contentScopesFromFormValues,
+  contentScopesToFormValues,
+} from '@admin/features/groups/components/group-content-scopes';
 
 const useStyles = makeStyles({
   personaCoin: {
@@ -41,6 +48,7 @@ const useStyles = makeStyles({
 const schema = yup.object({
   name: yup.string().required().min(1).label('Name'),
   description: yup.string().label('Description'),
+  requireTwoFactor: yup.boolean(),
 });
 
 const GroupAdd = () => {
@@ -55,8 +63,10 @@ const GroupAdd = () => {
     defaultValues: {
       name: '',
       description: '',
+      requireTwoFactor: false,
       permissions: [],
       users: [],
+      ...contentScopesToFormValues(),
     },
   });
 
@@ -88,9 +98,12 @@ const GroupAdd = () => {
     );
   }, [selectedPermissions]);
 
-  const submit = handleSubmit(async (data) => {
+  const submit = handleSubmit(async ({ contentTypes, slugPaths, ...data }) => {
     try {
-      await create.execute(data);
+      await create.execute({
+        ...data,
+        contentScopes: contentScopesFromFormValues({ contentTypes, slugPaths }),
+      });
       close();
     } catch (e) {
       //
@@ -161,6 +174,12 @@ const GroupAdd = () => {
                   multiline
                   data-cy="groups-add-description"
                 />
+                <ControlledCheckbox
+                  control={control}
+                  name="requireTwoFactor"
+                  label="Require two-factor authentication"
+                  data-cy="groups-add-requireTwoFactor"
+                />
                 <Text style={{ fontWeight: 600 }}>
                   Permissions ({selectedPermissions.length})
                 </Text>
@@ -172,6 +191,9 @@ const GroupAdd = () => {
         <PivotItem headerText="Manage Permissions">
           <PermissionSelect unwrap />
         </PivotItem>
+        <PivotItem headerText="Content Access" className={styles.content}>
+          <GroupContentScopes control={control} />
+        </PivotItem>
         <PivotItem headerText="Members" className={styles.content}>
           <GroupMembers
             users={users}
@@ -0,0 +1,74 @@
+import { Stack, Text } from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { Control } from 'react-hook-form';
+import {
+  ControlledDropdown,
+  ControlledTextField,
+} from '@admin/components/rhf-components';
+import { IGroup, IGroupContentScopes } from '@shared/interfaces/model';
+import { useGroups } from '@admin/features/groups/context/groups.context';
+
+const splitList = (value?: string) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Form keeps lists as comma separated strings, as the controlled components do.
+ */
+export const contentScopesToFormValues = (group?: Partial<IGroup>) => ({
+  contentTypes: (group?.contentScopes?.contentTypes ?? []).join(','),
+  slugPaths: (group?.contentScopes?.slugPaths ?? []).join(', '),
+});
+
+export const contentScopesFromFormValues = (values: any): IGroupContentScopes => ({
+  contentTypes: splitList(values?.contentTypes),
+  slugPaths: splitList(values?.slugPaths),
+});
+
+interface IGroupContentScopesProps {
+  control: Control<any>;
+}
+
+const GroupContentScopes: React.FC<IGroupContentScopesProps> = ({ control }) => {
+  const { listContentTypes } = useGroups();
+
+  useEffect(() => {
+    listContentTypes.execute();
+  }, []);
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Text>
+        Limits site permissions of the group (list, create, update, publish
+        and delete) to the selected content types and slug paths.
+      </Text>
+      <ControlledDropdown
+        control={control}
+        name="contentTypes"
+        label="Content types"
+        placeholder="All content types"
+        multiSelect
+        options={(listContentTypes?.result ?? [])
+          .filter((contentType) => contentType.type !== 'component')
+          .map((contentType) => ({
+            key: contentType.name,
+            text: contentType.name,
+          }))}
+        data-cy="groups-contentTypes"
+      />
+      <ControlledTextField
+        control={control}
+        name="slugPaths"
+        label="Slug paths"
+        placeholder="All slug paths"
+        description="Comma separated subtrees, e.g. blog, docs/api"
+        autoComplete="off"
+        data-cy="groups-slugPaths"
+      />
+    </Stack>
+  );
+};
+
+export default GroupContentScopes;
@@ -27,11 +27,18 @@ import GroupMembers from '@admin/features/groups/components/group-members';
 import LoadingBar from '@admin/components/loading-bar';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
-import { ControlledTextField } from '@admin/components/rhf-components';
+import {
+  ControlledCheckbox,
+  ControlledTextField,
+} from '@admin/components/rhf-components';
 import { IGroup as IGroupModel } from '@shared/interfaces/model';
 import StatusBar from '@admin/components/status-bar';
 import PermissionSelect from '@admin/features/permissions/components/permission-select';
 import PermissionChips from '@admin/features/permissions/components/permission-chips';
+import GroupContentScopes, {
+  contentScopesFromFormValues,
+  contentScopesToFormValues,
+} from '@admin/features/groups/components/group-content-scopes';
 
 const useStyles = makeStyles({
   personaCoin: {
@@ -49,6 +56,7 @@ const useStyles = makeStyles({
 const schema = yup.object({
   name: yup.string().required().min(1).label('Name'),
   description: yup.string().label('Description'),
+  requireTwoFactor: yup.boolean(),
 });
 
 const GroupEdit = () => {
@@ -132,8 +140,10 @@ const GroupEditBase: React.FC<GroupEditBaseProps> = ({
       id: group?.id,
       name: group?.name,
       description: group?.description,
+      requireTwoFactor: group?.requireTwoFactor ?? false,
       permissions: group?.permissions ?? [],
       users: group?.users ?? ([] as any),
+      ...contentScopesToFormValues(group),
     },
   });
 
@@ -156,9 +166,12 @@ const GroupEditBase: React.FC<GroupEditBaseProps> = ({
     );
   }, [permissions.selectedPermissions]);
 
-  const submit = handleSubmit(async (data) => {
+  const submit = handleSubmit(async ({ contentTypes, slugPaths, ...data }) => {
     try {
-      await groups.update.execute(data);
+      await groups.update.execute({
+        ...data,
+        contentScopes: contentScopesFromFormValues({ contentTypes, slugPaths }),
+      });
       close?.();
     } catch (e) {
       //
@@ -214,6 +227,12 @@ const GroupEditBase: React.FC<GroupEditBaseProps> = ({
                   multiline
                   data-cy="groups-edit-description"
                 />
+                <ControlledCheckbox
+                  control={control}
+                  name="requireTwoFactor"
+                  label="Require two-factor authentication"
+                  data-cy="groups-edit-requireTwoFactor"
+                />
                 {!group?.protected && (
                   <>
                     <Text style={{ fontWeight: 600 }}>
@@ -234,6 +253,11 @@ const GroupEditBase: React.FC<GroupEditBaseProps> = ({
             <PermissionSelect unwrap />
           </PivotItem>
         )}
+        {!group?.protected && (
+          <PivotItem headerText="Content Access" className={styles.content}>
+            <GroupContentScopes control={control} />
+          </PivotItem>
+        )}
         <PivotItem headerText="Members" className={styles.content} alwaysRender>
           <GroupMembers
             users={users}
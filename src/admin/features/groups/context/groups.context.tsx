@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useAsyncCallback, UseAsyncReturn } from 'react-async-hook';
-import { IGroup } from '@shared/interfaces/model';
+import { IContentType, IGroup } from '@shared/interfaces/model';
 import { Selection, SelectionMode } from '@fluentui/react';
 import { useModelState } from '@admin/helpers/hooks';
 import apiAxios, { useApiCallback } from '@admin/helpers/api';
@@ -13,6 +13,7 @@ export interface IGroupsContext {
   deleteOne: UseAsyncReturn<any, [id: number]>;
   deleteMany: UseAsyncReturn<any, [ids: number[]]>;
   update: UseAsyncReturn<any, [group: Partial<IGroup>]>;
+  listContentTypes: UseAsyncReturn<IContentType[], []>;
   selection: Selection<IGroup>;
   selectedGroups: IGroup[];
   groups: IGroup[];
@@ -85,6 +86,10 @@ const GroupsContextProvider: React.FC<IGroupsContextProviderProps> = ({
     return response;
   });
 
+  const listContentTypes = useApiCallback(async () =>
+    apiAxios.get('/content-types')
+  );
+
   useEffect(() => {
     list.execute();
   }, []);
@@ -98,6 +103,7 @@ const GroupsContextProvider: React.FC<IGroupsContextProviderProps> = ({
         deleteOne,
         deleteMany,
         update,
+        listContentTypes,
         selection,
         selectedGroups,
         groups: groupsModelState.arrayState,
@@ -10,6 +10,7 @@ import {
 import React from 'react';
 import { IPost } from '@shared/interfaces/model';
 import Status from '@admin/components/status';
+import { getUpcomingChange } from '@admin/features/posts/components/post-status';
 
 const theme = getTheme();
 
@@ -108,6 +109,16 @@ const PostDetails: React.FC<IPostDetailsProps> = ({ post, loading }) => {
               </div>
             </Text>
           </Stack>
+          {getUpcomingChange(post) && (
+            <Stack>
+              <Text className={styles.itemHeading} variant="medium" block>
+                Upcoming
+              </Text>
+              <Text variant="medium" block>
+                {getUpcomingChange(post)}
+              </Text>
+            </Stack>
+          )}
           {post?.publishedAt && (
             <Stack>
               <Text className={styles.itemHeading} variant="medium" block>
@@ -150,6 +150,7 @@ const PostPublishDialog: React.FC<IPostPublishDialogProps> = ({
                       publish: true,
                       ids: posts.map((post) => post.id),
                       content,
+                      locale: posts?.[0]?.locale,
                       saveContent: isTrue(data?.saveContent)
                     });
                   },
@@ -0,0 +1,40 @@
+import React from 'react';
+import { IPost } from '@shared/interfaces/model';
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+export const getUpcomingChange = (post?: IPost) => {
+  const now = new Date();
+  if (post?.status === 'scheduled' && post?.publishedFrom && new Date(post.publishedFrom) > now) {
+    return `Publishes ${formatDate(post.publishedFrom)}`;
+  }
+  if (
+    (post?.status === 'published' || post?.status === 'scheduled') &&
+    post?.publishedUntil &&
+    new Date(post.publishedUntil) > now
+  ) {
+    return `Expires ${formatDate(post.publishedUntil)}`;
+  }
+  return null;
+};
+
+interface IPostStatusProps {
+  post?: IPost;
+}
+
+const PostStatus: React.FC<IPostStatusProps> = ({ post }) => {
+  const upcoming = getUpcomingChange(post);
+  return (
+    <span title={upcoming ?? undefined}>
+      {post?.status}
+      {upcoming && <span style={{ display: 'block', opacity: 0.7 }}>{upcoming}</span>}
+    </span>
+  );
+};
+
+export default PostStatus;
@@ -0,0 +1,168 @@
+import {
+  makeStyles,
+  MessageBar,
+  MessageBarType,
+  Panel,
+  PanelType,
+  Shimmer,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { IPost } from '@shared/interfaces/model';
+import { usePosts } from '@admin/features/posts/context/posts.context';
+import { formatDate } from '@admin/helpers/misc';
+
+const useStyles = makeStyles((theme) => ({
+  row: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: 8,
+  },
+  cell: {
+    padding: '4px 8px',
+    minHeight: 24,
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+    fontFamily: 'monospace',
+    fontSize: 12,
+    backgroundColor: theme.palette.neutralLighterAlt,
+  },
+  removed: {
+    backgroundColor: '#fde7e9',
+  },
+  added: {
+    backgroundColor: '#dff6dd',
+  },
+  path: {
+    color: theme.palette.neutralSecondary,
+  },
+}));
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return `${value}`;
+};
+
+interface IDiffRowProps {
+  before?: any;
+  after?: any;
+}
+
+const DiffRow: React.FC<IDiffRowProps> = ({ before, after }) => {
+  const styles = useStyles();
+  const beforeValue = formatValue(before);
+  const afterValue = formatValue(after);
+  const changed = beforeValue !== afterValue;
+
+  return (
+    <div className={styles.row}>
+      <div className={`${styles.cell} ${changed && beforeValue ? styles.removed : ''}`}>
+        {beforeValue}
+      </div>
+      <div className={`${styles.cell} ${changed && afterValue ? styles.added : ''}`}>
+        {afterValue}
+      </div>
+    </div>
+  );
+};
+
+interface IPostVersionDiffPanelProps {
+  isOpen?: boolean;
+  post?: IPost;
+  version?: IPost;
+  against?: IPost;
+  onDismiss?: () => void;
+}
+
+const PostVersionDiffPanel: React.FC<IPostVersionDiffPanelProps> = ({
+  isOpen,
+  post,
+  version,
+  against,
+  onDismiss,
+}) => {
+  const styles = useStyles();
+  const { getVersionDiff } = usePosts();
+
+  useEffect(() => {
+    if (isOpen && post?.id && version?.id) {
+      getVersionDiff.execute(post.id, version.id, {
+        against: against?.id,
+        locale: post?.locale,
+      });
+    }
+  }, [isOpen, post?.id, version?.id, against?.id]);
+
+  const diff = getVersionDiff?.result;
+  const hasChanges =
+    diff?.name ||
+    diff?.slug ||
+    diff?.tags?.added?.length > 0 ||
+    diff?.tags?.removed?.length > 0 ||
+    diff?.content?.length > 0;
+
+  return (
+    <Panel
+      isOpen={isOpen}
+      headerText="Compare versions"
+      onDismiss={onDismiss}
+      type={PanelType.large}
+      isLightDismiss
+    >
+      <Stack tokens={{ childrenGap: 16 }}>
+        {getVersionDiff?.error?.message && (
+          <MessageBar messageBarType={MessageBarType.error}>
+            {getVersionDiff.error.message}
+          </MessageBar>
+        )}
+        <div className={styles.row}>
+          <Text variant="mediumPlus">{`Version (${formatDate(version?.createdAt)})`}</Text>
+          <Text variant="mediumPlus">
+            {against ? `Version (${formatDate(against?.createdAt)})` : 'Current'}
+          </Text>
+        </div>
+        <Shimmer isDataLoaded={!getVersionDiff?.loading}>
+          {diff && !hasChanges && (
+            <MessageBar messageBarType={MessageBarType.info}>No changes</MessageBar>
+          )}
+          <Stack tokens={{ childrenGap: 12 }}>
+            {diff?.name && (
+              <Stack tokens={{ childrenGap: 4 }}>
+                <Text className={styles.path}>Name</Text>
+                <DiffRow before={diff.name.before} after={diff.name.after} />
+              </Stack>
+            )}
+            {diff?.slug && (
+              <Stack tokens={{ childrenGap: 4 }}>
+                <Text className={styles.path}>Slug</Text>
+                <DiffRow before={diff.slug.before} after={diff.slug.after} />
+              </Stack>
+            )}
+            {(diff?.tags?.added?.length > 0 || diff?.tags?.removed?.length > 0) && (
+              <Stack tokens={{ childrenGap: 4 }}>
+                <Text className={styles.path}>Tags</Text>
+                <DiffRow before={diff.tags.removed.join(', ')} after={diff.tags.added.join(', ')} />
+              </Stack>
+            )}
+            {(diff?.content || []).map((change) => (
+              <Stack key={change.path} tokens={{ childrenGap: 4 }}>
+                <Text className={styles.path}>{change.path}</Text>
+                {change?.blocks ? (
+                  change.blocks.map((block) => (
+                    <DiffRow key={block.key} before={block?.before?.text} after={block?.after?.text} />
+                  ))
+                ) : (
+                  <DiffRow before={change?.before} after={change?.after} />
+                )}
+              </Stack>
+            ))}
+          </Stack>
+        </Shimmer>
+      </Stack>
+    </Panel>
+  );
+};
+
+export default PostVersionDiffPanel;
@@ -20,6 +20,7 @@ import { IPost } from '@shared/interfaces/model';
 import { useHistory, useLocation } from 'react-router';
 import PostVersionsRestoreDialog from './post-versions-restore-dialog';
 import PostVersionsDeleteDialog from './post-versions-delete-dialog';
+import PostVersionDiffPanel from './post-version-diff-panel';
 import queryString from 'query-string';
 
 const PostVersionsCommandBar = () => {
@@ -27,6 +28,15 @@ const PostVersionsCommandBar = () => {
 
   const commandItems = useMemo<ICommandBarItemProps[]>(
     () => [
+      {
+        key: 'compare',
+        text: 'Compare',
+        disabled: !(selectedPosts?.length === 1 || selectedPosts?.length === 2),
+        iconProps: { iconName: 'BranchCompare' },
+        onClick: () => {
+          setStateData('versionDiffOpen', true);
+        },
+      },
       {
         key: 'restore',
         text: 'Restore',
@@ -46,7 +56,7 @@ const PostVersionsCommandBar = () => {
         },
       },
     ],
-    [getPosts, getPosts, stateData]
+    [getPosts, getPosts, stateData, selectedPosts]
   );
 
   return (
@@ -87,6 +97,11 @@ const PostVersionsSelectPanel: React.FC<PostVersionsSelectPanelProps> = ({
   const location = useLocation();
   const history = useHistory();
 
+  const [diffVersion, diffAgainst] = useMemo(() => {
+    const sorted = [...(selectedPosts || [])].sort((a, b) => a.id - b.id);
+    return sorted.length === 2 ? sorted : [sorted?.[0], undefined];
+  }, [selectedPosts]);
+
   useEffect(() => {
     if (isOpen && post?.id) {
       getVersions.execute(post?.id);
@@ -157,6 +172,13 @@ const PostVersionsSelectPanel: React.FC<PostVersionsSelectPanelProps> = ({
         ariaLabelForShimmer="Versions are being fetched"
         ariaLabelForGrid="Item details"
       />
+      <PostVersionDiffPanel
+        isOpen={stateData?.versionDiffOpen}
+        post={post}
+        version={diffVersion}
+        against={diffAgainst}
+        onDismiss={() => setStateData('versionDiffOpen', false)}
+      />
       <PostVersionsDeleteDialog
         isOpen={stateData?.versionsDeleteOpen}
         onDismiss={() => setStateData('versionsDeleteOpen', false)}
@@ -0,0 +1,167 @@
+import {
+  DefaultButton,
+  makeStyles,
+  MessageBar,
+  MessageBarType,
+  Panel,
+  PanelType,
+  PrimaryButton,
+  Shimmer,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { IPost } from '@shared/interfaces/model';
+import { usePosts } from '@admin/features/posts/context/posts.context';
+import { ControlledTextField } from '@admin/components/rhf-components';
+import { formatDate, userPersonaText } from '@admin/helpers/misc';
+
+const useStyles = makeStyles((theme) => ({
+  comment: {
+    padding: '8px 0',
+    borderBottom: `1px solid ${theme.palette.neutralLight}`,
+  },
+  meta: {
+    color: theme.palette.neutralSecondary,
+  },
+}));
+
+interface IPostWorkflowPanelProps {
+  isOpen?: boolean;
+  post?: IPost;
+  onDismiss?: () => void;
+}
+
+const PostWorkflowPanel: React.FC<IPostWorkflowPanelProps> = ({ isOpen, post, onDismiss }) => {
+  const styles = useStyles();
+  const { getWorkflow, transitionPost, getComments, addComment } = usePosts();
+
+  const { control, handleSubmit, reset } = useForm({
+    defaultValues: {
+      comment: '',
+    },
+  });
+
+  const refresh = () => {
+    if (post?.id) {
+      getWorkflow.execute(post.id);
+      getComments.execute(post.id);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      transitionPost.reset();
+      addComment.reset();
+      reset({ comment: '' });
+      refresh();
+    }
+  }, [isOpen, post?.id]);
+
+  useEffect(() => {
+    if (transitionPost?.result || addComment?.result) {
+      reset({ comment: '' });
+      refresh();
+    }
+  }, [transitionPost?.result, addComment?.result]);
+
+  const states = getWorkflow?.result?.states || [];
+  const stateName = (id?: string) => states.find((state) => state.id === id)?.name ?? id;
+
+  const error =
+    getWorkflow?.error?.message ?? transitionPost?.error?.message ?? addComment?.error?.message;
+  const loading = transitionPost?.loading || addComment?.loading;
+
+  return (
+    <Panel
+      isOpen={isOpen}
+      headerText="Review"
+      onDismiss={onDismiss}
+      type={PanelType.medium}
+      isLightDismiss
+    >
+      <Stack tokens={{ childrenGap: 12 }}>
+        {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+        {getWorkflow?.result && !getWorkflow.result.enabled && (
+          <MessageBar messageBarType={MessageBarType.info}>
+            Editorial workflow is disabled, posts can be published without review.
+          </MessageBar>
+        )}
+        <Stack>
+          <Text variant="medium" block>
+            Current state
+          </Text>
+          <Shimmer isDataLoaded={!!getWorkflow?.result}>
+            <Text variant="large" block>
+              {getWorkflow?.result?.state?.name}
+            </Text>
+          </Shimmer>
+        </Stack>
+        <ControlledTextField
+          control={control}
+          name="comment"
+          label="Comment"
+          multiline
+          rows={4}
+        />
+        <Stack horizontal wrap tokens={{ childrenGap: 8 }}>
+          {(getWorkflow?.result?.transitions || []).map((transition) => (
+            <PrimaryButton
+              key={transition.id}
+              text={transition.name}
+              disabled={loading}
+              onClick={() => {
+                handleSubmit((data) => {
+                  transitionPost.execute(post?.id, {
+                    transition: transition.id,
+                    comment: data?.comment,
+                  });
+                })();
+              }}
+            />
+          ))}
+          <DefaultButton
+            text="Add comment"
+            disabled={loading}
+            onClick={() => {
+              handleSubmit((data) => {
+                if (data?.comment?.length > 0) {
+                  addComment.execute(post?.id, data.comment);
+                }
+              })();
+            }}
+          />
+        </Stack>
+        <Stack>
+          <Text variant="mediumPlus" block>
+            History
+          </Text>
+          {getComments?.result?.length === 0 && (
+            <Text variant="medium" block className={styles.meta}>
+              No comments yet
+            </Text>
+          )}
+          {(getComments?.result || []).map((comment) => (
+            <Stack key={comment.id} className={styles.comment} tokens={{ childrenGap: 4 }}>
+              <Text variant="small" className={styles.meta} block>
+                {comment?.author ? userPersonaText(comment.author) : 'Unknown'}
+                {' · '}
+                {formatDate(comment?.createdAt)}
+                {comment?.transition &&
+                  ` · ${stateName(comment.fromState)} → ${stateName(comment.toState)}`}
+              </Text>
+              {comment?.comment && (
+                <Text variant="medium" block>
+                  {comment.comment}
+                </Text>
+              )}
+            </Stack>
+          ))}
+        </Stack>
+      </Stack>
+    </Panel>
+  );
+};
+
+export default PostWorkflowPanel;
@@ -10,6 +10,7 @@ import {
 import Empty from '@admin/components/empty';
 import { useHistory } from 'react-router';
 import { usePosts } from '../context/posts.context';
+import PostStatus from './post-status';
 import { useAuth } from '@admin/features/authentication/context/auth.context';
 
 const classNames = mergeStyleSets({
@@ -93,11 +94,11 @@ const PostsList = () => {
         name: 'Status',
         fieldName: 'status',
         minWidth: 100,
-        maxWidth: 100,
+        maxWidth: 160,
         isResizable: true,
         data: 'string',
-        onRender: ({ status }) => {
-          return <span>{status}</span>;
+        onRender: (item) => {
+          return <PostStatus post={item} />;
         },
         isPadded: true,
       },
@@ -12,6 +12,7 @@ import {
 import Empty from '@admin/components/empty';
 import { useHistory } from 'react-router';
 import { usePosts } from '../context/posts.context';
+import PostStatus from './post-status';
 
 const classNames = mergeStyleSets({
   fileIconHeaderIcon: {
@@ -129,11 +130,11 @@ const SitesList = () => {
         name: 'Status',
         fieldName: 'status',
         minWidth: 100,
-        maxWidth: 100,
+        maxWidth: 160,
         isResizable: true,
         data: 'string',
-        onRender: ({ status }) => {
-          return <span>{status}</span>;
+        onRender: (item) => {
+          return <PostStatus post={item} />;
         },
         isPadded: true,
       },
@@ -2,7 +2,7 @@ import { useAsyncCallback, UseAsyncReturn } from 'react-async-hook';
 import React, { createContext, useContext, useMemo, useRef, useState } from 'react';
 import axios from 'axios';
 import { Selection } from '@fluentui/react';
-import { IPost } from '@shared/interfaces/model';
+import { IPost, IPostComment } from '@shared/interfaces/model';
 import { ModelState, useModelState } from '@admin/helpers/hooks';
 
 interface IPostsContext {
@@ -14,9 +14,10 @@ interface IPostsContext {
   updatePost: UseAsyncReturn<IPost, [id: number, data?: any]>;
   publishPosts: UseAsyncReturn<any, [data?: any]>;
   copyPosts: UseAsyncReturn<IPost, [id: number, data?: any]>;
-  updatePostContent: UseAsyncReturn<IPost, [id: number, data?: any]>;
+  updatePostContent: UseAsyncReturn<IPost, [id: number, data?: any, locale?: string]>;
+  getLocaleContent: UseAsyncReturn<any, [id: number, locale?: string]>;
   compilePost: UseAsyncReturn<IPost, [post: any]>;
-  getPreviewData: UseAsyncReturn<any, [id: number, versionId?: number]>;
+  getPreviewData: UseAsyncReturn<any, [id: number, versionId?: number, locale?: string]>;
   deletePosts: UseAsyncReturn<any[], [ids?: number[]]>;
 
   loadingContent: boolean;
@@ -26,6 +27,12 @@ interface IPostsContext {
   getVersionsCount: UseAsyncReturn<any, [postId: number]>;
   deleteVersions: UseAsyncReturn<any[], [postId: number, ids?: number[]]>;
   restoreVersion: UseAsyncReturn<IPost[], [postId: number, id: number]>;
+  getVersionDiff: UseAsyncReturn<any, [postId: number, id: number, params?: any]>;
+
+  getWorkflow: UseAsyncReturn<any, [postId: number]>;
+  transitionPost: UseAsyncReturn<IPostComment, [postId: number, data: { transition: string; comment?: string }]>;
+  getComments: UseAsyncReturn<IPostComment[], [postId: number]>;
+  addComment: UseAsyncReturn<IPostComment, [postId: number, comment: string]>;
 
   post: IPost;
   setPost: (post: IPost) => void;
@@ -195,11 +202,15 @@ const PostsContextProvider = ({ defaultAdditionalData = {}, children }) => {
     }
   });
 
-  const updatePostContent = useAsyncCallback(async (id, data) => {
+  const updatePostContent = useAsyncCallback(async (id, data, locale) => {
     try {
       const response = await axios.put(`/api/posts/${id}/content`, {
         ...additionalData,
         ...data
+      }, {
+        params: {
+          locale
+        }
       });
       setPost(response.data);
       return response.data;
@@ -208,6 +219,19 @@ const PostsContextProvider = ({ defaultAdditionalData = {}, children }) => {
     }
   });
 
+  const getLocaleContent = useAsyncCallback(async (id, locale) => {
+    try {
+      const response = await axios.get(`/api/posts/${id}`, {
+        params: {
+          locale
+        }
+      });
+      return response.data?.meta?.content;
+    } catch (e) {
+      throw e.response.data;
+    }
+  });
+
   const deletePosts = useAsyncCallback(async (ids) => {
     try {
       await axios.delete('/api/posts', {
@@ -229,11 +253,12 @@ const PostsContextProvider = ({ defaultAdditionalData = {}, children }) => {
     }
   });
 
-  const getPreviewData = useAsyncCallback(async (id, versionId) => {
+  const getPreviewData = useAsyncCallback(async (id, versionId, locale) => {
     try {
       const response = await axios.get(`/api/posts/preview/${id}`, {
         params: {
-          versionId
+          versionId,
+          locale
         }
       });
       return response.data;
@@ -286,6 +311,61 @@ const PostsContextProvider = ({ defaultAdditionalData = {}, children }) => {
     }
   });
 
+  const getVersionDiff = useAsyncCallback(async (postId, id, params) => {
+    try {
+      const response = await axios.get(`/api/posts/${postId}/versions/${id}/diff`, {
+        params,
+      });
+      return response.data;
+    } catch (e) {
+      throw e.response.data;
+    }
+  });
+
+  const getWorkflow = useAsyncCallback(async (postId) => {
+    try {
+      const response = await axios.get(`/api/posts/${postId}/workflow`);
+      return response.data;
+    } catch (e) {
+      throw e.response.data;
+    }
+  });
+
+  const transitionPost = useAsyncCallback(async (postId, data) => {
+    try {
+      const response = await axios.post(`/api/posts/${postId}/workflow`, data);
+      if (post?.id === postId) {
+        setPost({
+          ...post,
+          workflowState: response.data?.toState,
+        });
+      }
+      return response.data;
+    } catch (e) {
+      throw e.response.data;
+    }
+  });
+
+  const getComments = useAsyncCallback(async (postId) => {
+    try {
+      const response = await axios.get(`/api/posts/${postId}/comments`);
+      return response.data;
+    } catch (e) {
+      throw e.response.data;
+    }
+  });
+
+  const addComment = useAsyncCallback(async (postId, comment) => {
+    try {
+      const response = await axios.post(`/api/posts/${postId}/comments`, {
+        comment,
+      });
+      return response.data;
+    } catch (e) {
+      throw e.response.data;
+    }
+  });
+
   return (
     <PostsContext.Provider
       value={{
@@ -299,6 +379,7 @@ const PostsContextProvider = ({ defaultAdditionalData = {}, children }) => {
         createPost,
         updatePost,
         updatePostContent,
+        getLocaleContent,
         deletePosts,
         copyPosts,
         publishPosts,
@@ -312,6 +393,12 @@ const PostsContextProvider = ({ defaultAdditionalData = {}, children }) => {
         getVersionsCount,
         deleteVersions,
         restoreVersion,
+        getVersionDiff,
+
+        getWorkflow,
+        transitionPost,
+        getComments,
+        addComment,
 
         post,
         setPost,
@@ -0,0 +1,80 @@
+import { MessageBarType, PrimaryButton, Stack } from '@fluentui/react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import _ from 'lodash';
+import { ControlledTextField } from '@admin/components/rhf-components';
+import { findSettingsValue } from '@admin/helpers/utility';
+import { useSettings } from '@admin/context/settings';
+import { useSnackbar } from '@admin/context/snackbar';
+import { AUDIT_SETTINGS_KEY, parseAuditSettings } from '@shared/features/audit';
+
+const AuditSettings = () => {
+  const { updateSettings, settingsArray } = useSettings();
+  const { openSnackbar } = useSnackbar();
+
+  useEffect(() => {
+    if (updateSettings?.result) {
+      openSnackbar({
+        message: 'Settings updated',
+        messageBarType: MessageBarType.success,
+      });
+      updateSettings.reset();
+    }
+  }, [updateSettings?.result]);
+
+  const defaultValues = useMemo(() => {
+    const { retentionDays } = parseAuditSettings(findSettingsValue(settingsArray, AUDIT_SETTINGS_KEY));
+    return {
+      retentionDays: `${retentionDays}`,
+    };
+  }, [JSON.stringify(settingsArray)]);
+
+  const { control, watch, handleSubmit } = useForm({
+    defaultValues,
+  });
+  const [values, setValues] = useState<any>(defaultValues);
+
+  useEffect(() => {
+    watch((val: any) => {
+      setValues(val);
+    });
+  }, []);
+
+  return (
+    <Stack horizontal verticalAlign="end" tokens={{ childrenGap: 8, maxWidth: 600 }}>
+      <ControlledTextField
+        control={control}
+        name="retentionDays"
+        label="Retention (days)"
+        type="number"
+        min={0}
+        description="Older entries are removed, 0 keeps them forever"
+        data-cy="settings-audit-retentionDays"
+      />
+      <PrimaryButton
+        style={{ marginBottom: 22 }}
+        disabled={_.isEqual(values, defaultValues)}
+        onClick={() => {
+          handleSubmit((val) => {
+            const retentionDays = Number(val?.retentionDays);
+            if (Number.isNaN(retentionDays) || retentionDays < 0) {
+              openSnackbar({
+                message: 'Retention has to be zero or more days',
+                messageBarType: MessageBarType.error,
+              });
+              return;
+            }
+            updateSettings.execute(
+              AUDIT_SETTINGS_KEY,
+              JSON.stringify({ retentionDays: Math.floor(retentionDays) })
+            );
+          })();
+        }}
+      >
+        Update
+      </PrimaryButton>
+    </Stack>
+  );
+};
+
+export default AuditSettings;
@@ -0,0 +1,144 @@
+import {
+  ActionButton,
+  IconButton,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+} from '@fluentui/react';
+import React, { useEffect, useMemo } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { ControlledDropdown, ControlledTextField } from '@admin/components/rhf-components';
+import { findSettingsValue } from '@admin/helpers/utility';
+import { useSettings } from '@admin/context/settings';
+import { useSnackbar } from '@admin/context/snackbar';
+import {
+  LOCALE_CODE_REGEX,
+  LOCALIZATION_SETTINGS_KEY,
+  parseLocalizationSettings,
+} from '@shared/features/localization';
+
+const LocalizationSettings = () => {
+  const { updateSettings, settingsArray } = useSettings();
+  const { openSnackbar } = useSnackbar();
+
+  useEffect(() => {
+    if (updateSettings?.result) {
+      openSnackbar({
+        message: 'Settings updated',
+        messageBarType: MessageBarType.success,
+      });
+      updateSettings.reset();
+    }
+  }, [updateSettings?.result]);
+
+  const defaultValues = useMemo(() => {
+    const { locales, defaultLocale } = parseLocalizationSettings(
+      findSettingsValue(settingsArray, LOCALIZATION_SETTINGS_KEY)
+    );
+    return {
+      locales,
+      defaultLocale: defaultLocale ?? '',
+    };
+  }, [JSON.stringify(settingsArray)]);
+
+  const { control, handleSubmit, reset, watch } = useForm({
+    mode: 'all',
+    defaultValues,
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'locales',
+  });
+
+  useEffect(() => {
+    reset(defaultValues);
+  }, [defaultValues]);
+
+  const locales = watch('locales');
+  const localeOptions = useMemo(
+    () =>
+      (locales || [])
+        .filter((locale) => locale?.code?.length > 0)
+        .map((locale) => ({
+          key: locale.code,
+          text: locale?.name ? `${locale.name} (${locale.code})` : locale.code,
+        })),
+    [JSON.stringify(locales)]
+  );
+
+  return (
+    <Stack tokens={{ childrenGap: 8, maxWidth: 600 }}>
+      {fields.map((field, index) => (
+        <Stack key={field.id} horizontal verticalAlign="end" tokens={{ childrenGap: 8 }}>
+          <ControlledTextField
+            control={control}
+            name={`locales.${index}.code`}
+            label={index === 0 ? 'Code' : undefined}
+            placeholder="en-US"
+            rules={{
+              required: 'Code is required',
+              pattern: {
+                value: LOCALE_CODE_REGEX,
+                message: 'Invalid locale code',
+              },
+              validate: (value) =>
+                (locales || []).filter((locale) => locale?.code === value).length <= 1 ||
+                'Duplicate locale code',
+            }}
+          />
+          <ControlledTextField
+            control={control}
+            name={`locales.${index}.name`}
+            label={index === 0 ? 'Name' : undefined}
+            placeholder="English"
+          />
+          <IconButton
+            iconProps={{ iconName: 'Delete' }}
+            title="Remove locale"
+            ariaLabel="Remove locale"
+            onClick={() => remove(index)}
+          />
+        </Stack>
+      ))}
+      <Stack horizontal>
+        <ActionButton
+          iconProps={{ iconName: 'Add' }}
+          text="Add locale"
+          onClick={() => append({ code: '', name: '' })}
+        />
+      </Stack>
+      <ControlledDropdown
+        control={control}
+        name="defaultLocale"
+        label="Default locale"
+        placeholder="Select default locale"
+        options={localeOptions}
+      />
+      <Stack horizontal horizontalAlign="end">
+        <PrimaryButton
+          disabled={updateSettings?.loading}
+          onClick={() => {
+            handleSubmit((val) => {
+              const codes = (val?.locales || []).map((locale) => locale.code);
+              updateSettings.execute(
+                LOCALIZATION_SETTINGS_KEY,
+                JSON.stringify({
+                  locales: (val?.locales || []).map((locale) => ({
+                    code: locale.code,
+                    name: locale?.name || locale.code,
+                  })),
+                  defaultLocale: codes.includes(val?.defaultLocale) ? val.defaultLocale : codes?.[0],
+                })
+              );
+            })();
+          }}
+        >
+          Update
+        </PrimaryButton>
+      </Stack>
+    </Stack>
+  );
+};
+
+export default LocalizationSettings;
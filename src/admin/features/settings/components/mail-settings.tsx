@@ -0,0 +1,143 @@
+import AceEditor from 'react-ace';
+import { v4 } from 'uuid';
+import { ActionButton, Label, makeStyles, MessageBarType, PrimaryButton, Stack } from '@fluentui/react';
+import React, { useEffect, useMemo } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import copy from 'copy-text-to-clipboard';
+import { ControlledTextField } from '@admin/components/rhf-components';
+import { findSettingsValue } from '@admin/helpers/utility';
+import { useSettings } from '@admin/context/settings';
+import { useSnackbar } from '@admin/context/snackbar';
+import {
+  DefaultMailTemplates,
+  MAIL_SETTINGS_KEY,
+  parseMailSettings,
+} from '@shared/features/mail';
+
+const useStyles = makeStyles((theme) => ({
+  editor: {
+    width: '100%',
+    border: `1px solid ${theme.palette.neutralPrimaryAlt}`,
+  },
+}));
+
+const MailSettings = () => {
+  const classes = useStyles();
+
+  const { updateSettings, settingsArray } = useSettings();
+  const { openSnackbar } = useSnackbar();
+
+  useEffect(() => {
+    if (updateSettings?.result) {
+      openSnackbar({
+        message: 'Settings updated',
+        messageBarType: MessageBarType.success,
+      });
+      updateSettings.reset();
+    }
+  }, [updateSettings?.result]);
+
+  const id = useMemo(() => v4(), []);
+  const defaultValues = useMemo(() => {
+    const { sender, templates } = parseMailSettings(
+      findSettingsValue(settingsArray, MAIL_SETTINGS_KEY)
+    );
+    return {
+      sender: sender ?? '',
+      templates: JSON.stringify(templates, null, 2),
+    };
+  }, [JSON.stringify(settingsArray)]);
+
+  const { control, handleSubmit, reset, formState } = useForm({
+    mode: 'all',
+    defaultValues,
+  });
+
+  useEffect(() => {
+    reset(defaultValues);
+  }, [defaultValues]);
+
+  return (
+    <Stack tokens={{ childrenGap: 8, maxWidth: 600 }}>
+      <ControlledTextField
+        control={control}
+        name="sender"
+        label="Sender"
+        placeholder="Burdy <no-reply@cms.website.com>"
+        description="Defaults to no-reply at the Burdy host."
+      />
+      <Stack tokens={{ childrenGap: 4 }}>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <Label>Template overrides (json)</Label>
+          <ActionButton
+            text="Copy defaults"
+            onClick={() => {
+              copy(JSON.stringify(DefaultMailTemplates, null, 2));
+              openSnackbar({
+                message: 'Copied to clipboard',
+                messageBarType: MessageBarType.success,
+              });
+            }}
+          />
+        </div>
+        <Controller
+          name="templates"
+          control={control}
+          render={({ field: { onChange, value } }) => (
+            <AceEditor
+              className={classes.editor}
+              name={id}
+              mode="json"
+              style={{
+                marginLeft: 0,
+                marginRight: 0,
+                width: '100%',
+              }}
+              value={value}
+              theme="github"
+              onChange={onChange}
+              height="400px"
+              editorProps={{ $blockScrolling: true }}
+              setOptions={{
+                useWorker: false,
+              }}
+            />
+          )}
+        />
+      </Stack>
+      <Stack horizontal horizontalAlign="end">
+        <PrimaryButton
+          disabled={!formState.isDirty}
+          onClick={() => {
+            handleSubmit((val) => {
+              try {
+                updateSettings.execute(
+                  MAIL_SETTINGS_KEY,
+                  JSON.stringify({
+                    sender: val?.sender,
+                    templates: JSON.parse(val?.templates || '{}'),
+                  })
+                );
+              } catch (err) {
+                openSnackbar({
+                  message: 'Invalid JSON type',
+                  messageBarType: MessageBarType.error,
+                });
+              }
+            })();
+          }}
+        >
+          Update
+        </PrimaryButton>
+      </Stack>
+    </Stack>
+  );
+};
+
+export default MailSettings;
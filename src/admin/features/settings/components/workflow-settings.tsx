@@ -0,0 +1,142 @@
+import AceEditor from 'react-ace';
+import { v4 } from 'uuid';
+import { ActionButton, Label, makeStyles, MessageBarType, PrimaryButton, Stack } from '@fluentui/react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ControlledCheckbox } from '@admin/components/rhf-components';
+import { Controller, useForm } from 'react-hook-form';
+import { findSettingsValue, isTrue } from '@admin/helpers/utility';
+import { useSettings } from '@admin/context/settings';
+import copy from 'copy-text-to-clipboard';
+import _ from 'lodash';
+import { useSnackbar } from '@admin/context/snackbar';
+import {
+  DefaultWorkflow,
+  parseWorkflowSettings,
+  WORKFLOW_SETTINGS_KEY,
+} from '@shared/features/workflow';
+
+const useStyles = makeStyles((theme) => ({
+  editor: {
+    width: '100%',
+    border: `1px solid ${theme.palette.neutralPrimaryAlt}`,
+  },
+}));
+
+const stringifyDefinition = ({ initialState, states, transitions }) =>
+  JSON.stringify({ initialState, states, transitions }, null, 2);
+
+const WorkflowSettings = () => {
+  const classes = useStyles();
+
+  const { updateSettings, settingsArray } = useSettings();
+  const { openSnackbar } = useSnackbar();
+
+  useEffect(() => {
+    if (updateSettings?.result) {
+      openSnackbar({
+        message: 'Settings updated',
+        messageBarType: MessageBarType.success,
+      });
+      updateSettings.reset();
+    }
+  }, [updateSettings?.result]);
+
+  const id = useMemo(() => v4(), []);
+  const defaultValues = useMemo(() => {
+    const workflow = parseWorkflowSettings(findSettingsValue(settingsArray, WORKFLOW_SETTINGS_KEY));
+    return {
+      enabled: workflow.enabled,
+      definition: stringifyDefinition(workflow),
+    };
+  }, [JSON.stringify(settingsArray)]);
+
+  const { control, watch, handleSubmit } = useForm({
+    defaultValues,
+  });
+  const [values, setValues] = useState<any>(defaultValues);
+
+  useEffect(() => {
+    watch((val: any) => {
+      setValues(val);
+    });
+  }, []);
+
+  return (
+    <Stack tokens={{ childrenGap: 8, maxWidth: 600 }}>
+      <ControlledCheckbox control={control} name="enabled" label="Require approval before publishing" />
+      <Stack tokens={{ childrenGap: 4 }}>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <Label>States and transitions (json)</Label>
+          <ActionButton
+            text="Copy example"
+            onClick={() => {
+              copy(stringifyDefinition(DefaultWorkflow));
+              openSnackbar({
+                message: 'Copied to clipboard',
+                messageBarType: MessageBarType.success,
+              });
+            }}
+          />
+        </div>
+        <Controller
+          name="definition"
+          control={control}
+          render={({ field: { onChange, value } }) => (
+            <AceEditor
+              className={classes.editor}
+              name={id}
+              mode="json"
+              style={{
+                marginLeft: 0,
+                marginRight: 0,
+                width: '100%',
+              }}
+              defaultValue={value}
+              theme="github"
+              onChange={onChange}
+              height="400px"
+              editorProps={{ $blockScrolling: true }}
+              setOptions={{
+                useWorker: false,
+              }}
+            />
+          )}
+        />
+      </Stack>
+      <Stack horizontal horizontalAlign="end">
+        <PrimaryButton
+          disabled={_.isEqual(values, defaultValues)}
+          onClick={() => {
+            handleSubmit((val) => {
+              try {
+                const definition = JSON.parse(val?.definition);
+                updateSettings.execute(
+                  WORKFLOW_SETTINGS_KEY,
+                  JSON.stringify({
+                    ...definition,
+                    enabled: isTrue(val?.enabled),
+                  })
+                );
+              } catch (err) {
+                openSnackbar({
+                  message: 'Invalid JSON type',
+                  messageBarType: MessageBarType.error,
+                });
+              }
+            })();
+          }}
+        >
+          Update
+        </PrimaryButton>
+      </Stack>
+    </Stack>
+  );
+};
+
+export default WorkflowSettings;
@@ -8,7 +8,12 @@ import { useAuth } from '@admin/features/authentication/context/auth.context';
 import ErrorBoundary from '@admin/components/error-boundary';
 import BackupSettings from "@admin/features/settings/tabs/backup.tab";
 import ApiSettings from '@admin/features/settings/tabs/api.tab';
+import WebhooksSettings from '@admin/features/settings/tabs/webhooks.tab';
 import PreviewEditorTab from '@admin/features/settings/tabs/preview.tab';
+import LocalizationTab from '@admin/features/settings/tabs/localization.tab';
+import WorkflowTab from '@admin/features/settings/tabs/workflow.tab';
+import MailTab from '@admin/features/settings/tabs/mail.tab';
+import AuditLogTab from '@admin/features/settings/tabs/audit-log.tab';
 
 const Settings = () => {
   const history = useHistory();
@@ -23,6 +28,12 @@ const Settings = () => {
         permissions: ['settings'],
         component: GeneralSettings
       },
+      {
+        key: 'localization',
+        name: 'Localization',
+        permissions: ['settings'],
+        component: LocalizationTab
+      },
       {
         key: 'backups',
         name: 'Backups',
@@ -41,6 +52,30 @@ const Settings = () => {
         permissions: ['all'],
         component: ApiSettings
       },
+      {
+        key: 'webhooks',
+        name: 'Webhooks',
+        permissions: ['all'],
+        component: WebhooksSettings
+      },
+      {
+        key: 'mail',
+        name: 'Email',
+        permissions: ['all'],
+        component: MailTab
+      },
+      {
+        key: 'workflow',
+        name: 'Workflow',
+        permissions: ['all'],
+        component: WorkflowTab
+      },
+      {
+        key: 'audit-log',
+        name: 'Audit Log',
+        permissions: ['all'],
+        component: AuditLogTab
+      },
       {
         key: 'preview-editor',
         name: 'Preview Editor',
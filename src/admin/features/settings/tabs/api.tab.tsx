@@ -5,6 +5,7 @@ import AccessTokensCommandBar from '@admin/features/api-security/components/acce
 import AccessTokensList from '@admin/features/api-security/components/access-tokens-list';
 import { ApiSecurityContextProvider } from '@admin/features/api-security/context/api-security.context';
 import ApiAccessSettings from '@admin/features/api-security/components/api-access';
+import TrustedOriginsSettings from '@admin/features/api-security/components/trusted-origins';
 
 const ApiSettings = () => {
   return (
@@ -14,9 +15,16 @@ const ApiSettings = () => {
       </Heading>
       <ApiAccessSettings />
 
+      <Heading title="Trusted Origins" noPadding>
+        Websites allowed to call the API from a browser. Origins from the CORS_ORIGINS and
+        CORS_ADMIN_ORIGINS environment variables are trusted as well
+      </Heading>
+      <TrustedOriginsSettings />
+
       <Heading title="Access Tokens" noPadding>
-        Generate and delete access tokens which are used to get posts content
-        and search for posts
+        Generate, scope, rotate and delete access tokens which are used to get
+        posts content and search for posts. Tokens are only shown once, right
+        after they are generated or rotated
       </Heading>
       <AccessTokensCommandBar />
       <AccessTokensList />
@@ -0,0 +1,25 @@
+import React from 'react';
+import Heading from '@admin/components/heading';
+import { composeWrappers } from '@admin/helpers/hoc';
+import { AuditLogContextProvider } from '@admin/features/audit-log/context/audit-log.context';
+import AuditLogFilters from '@admin/features/audit-log/components/audit-log-filters';
+import AuditLogList from '@admin/features/audit-log/components/audit-log-list';
+import AuditSettings from '@admin/features/settings/components/audit-settings';
+
+const AuditLogTab = () => {
+  return (
+    <div>
+      <Heading title="Audit Log" noPadding>
+        Changes made by users to content, assets, users, groups, settings, tokens and backups, with a summary
+        of the target before and after the change.
+      </Heading>
+      <AuditSettings />
+      <AuditLogFilters />
+      <AuditLogList />
+    </div>
+  );
+};
+
+export default composeWrappers({
+  auditLogContext: AuditLogContextProvider,
+})(AuditLogTab);
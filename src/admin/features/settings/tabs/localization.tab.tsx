@@ -0,0 +1,16 @@
+import React from 'react';
+import Heading from '@admin/components/heading';
+import LocalizationSettings from '@admin/features/settings/components/localization-settings';
+
+const LocalizationTab = () => {
+  return (
+    <div>
+      <Heading title="Localization" noPadding>
+        Configure locales available for content and the default locale used as fallback
+      </Heading>
+      <LocalizationSettings />
+    </div>
+  );
+};
+
+export default LocalizationTab;
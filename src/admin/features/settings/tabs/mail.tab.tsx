@@ -0,0 +1,17 @@
+import React from 'react';
+import Heading from '@admin/components/heading';
+import MailSettings from '@admin/features/settings/components/mail-settings';
+
+const MailTab = () => {
+  return (
+    <div>
+      <Heading title="Email" noPadding>
+        Configure the sender and templates of emails sent to users. Templates have subject, html and
+        text parts, variables such as {'{{user.email}}'} or {'{{link}}'} are replaced when sending.
+      </Heading>
+      <MailSettings />
+    </div>
+  );
+};
+
+export default MailTab;
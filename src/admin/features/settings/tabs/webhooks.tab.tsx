@@ -0,0 +1,23 @@
+import React from 'react';
+import Heading from '@admin/components/heading';
+import { composeWrappers } from '@admin/helpers/hoc';
+import { WebhooksContextProvider } from '@admin/features/webhooks/context/webhooks.context';
+import WebhooksCommandBar from '@admin/features/webhooks/components/webhooks-command-bar';
+import WebhooksList from '@admin/features/webhooks/components/webhooks-list';
+
+const WebhooksSettings = () => {
+  return (
+    <div>
+      <Heading title="Webhooks" noPadding>
+        Notify external services (e.g. static site builds) when content changes. Requests are signed with
+        HMAC SHA-256 of &quot;timestamp.body&quot; in the X-Burdy-Signature header.
+      </Heading>
+      <WebhooksCommandBar />
+      <WebhooksList />
+    </div>
+  );
+};
+
+export default composeWrappers({
+  webhooksContext: WebhooksContextProvider,
+})(WebhooksSettings);
@@ -0,0 +1,17 @@
+import React from 'react';
+import Heading from '@admin/components/heading';
+import WorkflowSettings from '@admin/features/settings/components/workflow-settings';
+
+const WorkflowTab = () => {
+  return (
+    <div>
+      <Heading title="Editorial workflow" noPadding>
+        Configure review states and transitions posts have to go through before they can be published.
+        Each transition is granted through group permissions.
+      </Heading>
+      <WorkflowSettings />
+    </div>
+  );
+};
+
+export default WorkflowTab;
@@ -0,0 +1,137 @@
+import {
+  DefaultButton,
+  Dialog,
+  DialogFooter,
+  DialogType,
+  MessageBar,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import {
+  ControlledDatePicker,
+  ControlledTextField,
+} from '@admin/components/rhf-components';
+import { useUsers } from '@admin/features/users/context/users.context';
+import AccessTokenReveal from '@admin/features/api-security/components/access-token-reveal';
+
+interface IProfileAccessTokensGenerateDialogProps {
+  isOpen?: boolean;
+  onDismiss?: () => void;
+  onGenerate?: () => void;
+}
+
+const ProfileAccessTokensGenerateDialog: React.FC<IProfileAccessTokensGenerateDialogProps> =
+  ({ isOpen, onDismiss, onGenerate }) => {
+    const { generatePersonalAccessToken } = useUsers();
+
+    const { control, handleSubmit, reset } = useForm({
+      mode: 'all',
+      defaultValues: {
+        name: '',
+        expiresAt: '',
+      },
+    });
+
+    useEffect(() => {
+      if (isOpen) {
+        generatePersonalAccessToken?.reset?.();
+        reset({ name: '', expiresAt: '' });
+      }
+    }, [isOpen]);
+
+    const generated = generatePersonalAccessToken?.result;
+
+    return (
+      <Dialog
+        hidden={!isOpen}
+        onDismiss={onDismiss}
+        dialogContentProps={{
+          type: DialogType.close,
+          title: 'Generate API token',
+        }}
+        modalProps={{
+          styles: { main: { maxWidth: 450 } },
+        }}
+      >
+        <Stack tokens={{ childrenGap: 8 }}>
+          {generatePersonalAccessToken.error?.message && (
+            <MessageBar messageBarType={MessageBarType.error}>
+              {generatePersonalAccessToken.error.message}
+            </MessageBar>
+          )}
+          {generated?.token ? (
+            <>
+              <AccessTokenReveal token={generated.token} />
+              <Text variant="small">
+                Send it in the Authorization header, e.g.
+                {' '}
+                <code>Authorization: Bearer &lt;token&gt;</code>
+                . It has the same permissions as your account.
+              </Text>
+            </>
+          ) : (
+            <>
+              <ControlledTextField
+                control={control}
+                rules={{
+                  required: 'Name is required',
+                  maxLength: {
+                    value: 255,
+                    message: 'Name is too long',
+                  },
+                }}
+                name="name"
+                label="Name"
+                placeholder="e.g. Deploy script"
+                autoComplete="off"
+                data-cy="profile-tokens-name"
+              />
+              <ControlledDatePicker
+                control={control}
+                name="expiresAt"
+                label="Expires at"
+                placeholder="Never"
+                minDate={new Date()}
+              />
+            </>
+          )}
+        </Stack>
+        <DialogFooter>
+          {generated?.token ? (
+            <PrimaryButton
+              onClick={onGenerate}
+              text="Done"
+              data-cy="dialog-confirm"
+            />
+          ) : (
+            <>
+              <DefaultButton
+                onClick={onDismiss}
+                text="Cancel"
+                data-cy="dialog-cancel"
+              />
+              <PrimaryButton
+                onClick={() => {
+                  handleSubmit((val) => {
+                    generatePersonalAccessToken.execute({
+                      name: val.name,
+                      expiresAt: (val.expiresAt || null) as any,
+                    });
+                  })();
+                }}
+                text="Generate"
+                disabled={generatePersonalAccessToken?.loading}
+                data-cy="dialog-confirm"
+              />
+            </>
+          )}
+        </DialogFooter>
+      </Dialog>
+    );
+  };
+
+export default ProfileAccessTokensGenerateDialog;
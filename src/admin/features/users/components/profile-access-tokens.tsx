@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CommandBar,
+  IColumn,
+  ICommandBarItemProps,
+  makeStyles,
+  Selection,
+  SelectionMode,
+  ShimmeredDetailsList,
+} from '@fluentui/react';
+import { IPersonalAccessToken } from '@shared/interfaces/model';
+import { useUsers } from '@admin/features/users/context/users.context';
+import { useDialog } from '@admin/context/dialog';
+import { formatDate } from '@admin/helpers/misc';
+import StatusBar from '@admin/components/status-bar';
+import ProfileAccessTokensGenerateDialog from '@admin/features/users/components/profile-access-tokens-generate-dialog';
+
+const useStyles = makeStyles({
+  detailList: {
+    ':global(.ms-DetailsRow-check)': {
+      height: '100% !important',
+    },
+  },
+});
+
+const ProfileAccessTokens: React.FC = () => {
+  const styles = useStyles();
+  const dialog = useDialog();
+  const { listPersonalAccessTokens, revokePersonalAccessTokens } = useUsers();
+  const [generateOpen, setGenerateOpen] = useState(false);
+  const [selectedTokens, setSelectedTokens] = useState<IPersonalAccessToken[]>([]);
+  const selection = useMemo(
+    () =>
+      new Selection<IPersonalAccessToken>({
+        getKey: (item) => item.id,
+        onSelectionChanged: () => setSelectedTokens(selection.getSelection()),
+      }),
+    []
+  );
+
+  useEffect(() => {
+    listPersonalAccessTokens.execute();
+  }, []);
+
+  const commandActions = useMemo<ICommandBarItemProps[]>(
+    () => [
+      {
+        key: 'generate',
+        text: 'Generate',
+        'data-cy': 'profile-tokens-generate',
+        iconProps: { iconName: 'Add' },
+        onClick: () => setGenerateOpen(true),
+      },
+      {
+        key: 'revoke',
+        text: 'Revoke',
+        'data-cy': 'profile-tokens-revoke',
+        iconProps: { iconName: 'Blocked2' },
+        disabled: selectedTokens.length === 0,
+        onClick: () => {
+          (async () => {
+            try {
+              await dialog.confirm(
+                'Revoke API tokens',
+                'Requests using the selected tokens will be rejected. Are you sure you would like to proceed?'
+              );
+              await revokePersonalAccessTokens.execute(selectedTokens.map((token) => token.id));
+              listPersonalAccessTokens.execute();
+            } catch (e) {
+              //
+            }
+          })();
+        },
+      },
+      {
+        key: 'refresh',
+        text: 'Refresh',
+        iconProps: { iconName: 'Refresh' },
+        onClick: () => {
+          listPersonalAccessTokens.execute();
+        },
+      },
+    ],
+    [selectedTokens]
+  );
+
+  const columns = useMemo<IColumn[]>(
+    () => [
+      {
+        key: 'name',
+        name: 'Name',
+        fieldName: 'name',
+        minWidth: 120,
+      },
+      {
+        key: 'tokenPreview',
+        name: 'Token',
+        minWidth: 80,
+        maxWidth: 100,
+        onRender: ({ tokenPreview }: IPersonalAccessToken) => <div>{`...${tokenPreview ?? ''}`}</div>,
+      },
+      {
+        key: 'expiresAt',
+        name: 'Expires',
+        minWidth: 120,
+        onRender: ({ expiresAt }: IPersonalAccessToken) => {
+          if (!expiresAt) return 'Never';
+          const formatted = formatDate(expiresAt);
+          return new Date(expiresAt) <= new Date() ? `${formatted} (expired)` : formatted;
+        },
+      },
+      {
+        key: 'lastUsedAt',
+        name: 'Last used',
+        minWidth: 120,
+        onRender: ({ lastUsedAt }: IPersonalAccessToken) => (lastUsedAt ? formatDate(lastUsedAt) : 'Never'),
+      },
+      {
+        key: 'createdAt',
+        name: 'Created',
+        minWidth: 120,
+        onRender: ({ createdAt }: IPersonalAccessToken) => <div>{formatDate(createdAt)}</div>,
+      },
+    ],
+    []
+  );
+
+  return (
+    <>
+      <CommandBar items={commandActions} style={{ marginTop: 12 }} />
+      <StatusBar controller={revokePersonalAccessTokens} />
+      <ShimmeredDetailsList
+        className={styles.detailList}
+        enableShimmer={listPersonalAccessTokens.loading && !listPersonalAccessTokens.result}
+        setKey="multiple"
+        items={listPersonalAccessTokens.result ?? []}
+        columns={columns}
+        selection={selection}
+        selectionMode={SelectionMode.multiple}
+        selectionPreservedOnEmptyClick
+      />
+      <ProfileAccessTokensGenerateDialog
+        isOpen={generateOpen}
+        onDismiss={() => setGenerateOpen(false)}
+        onGenerate={() => {
+          setGenerateOpen(false);
+          listPersonalAccessTokens.execute();
+        }}
+      />
+    </>
+  );
+};
+
+export default ProfileAccessTokens;
@@ -0,0 +1,205 @@
+import React, { useEffect } from 'react';
+import {
+  DefaultButton,
+  MessageBar,
+  MessageBarType,
+  PanelType,
+  PrimaryButton,
+  Separator,
+  Shimmer,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import { useHistory } from 'react-router';
+import { useForm } from 'react-hook-form';
+import BackPanel from '@admin/components/back-panel';
+import StatusBar from '@admin/components/status-bar';
+import { ControlledTextField } from '@admin/components/rhf-components';
+import { useAuth } from '@admin/features/authentication/context/auth.context';
+import TwoFactorSetup from '@admin/features/authentication/components/two-factor-setup';
+import RecoveryCodes from '@admin/features/authentication/components/recovery-codes';
+
+interface IProfileTwoFactorProps {
+  isOpen: boolean;
+  setOpen: (open: boolean) => void;
+}
+
+const ProfileTwoFactor: React.FC<IProfileTwoFactorProps> = ({ isOpen, setOpen }) => {
+  const history = useHistory();
+  const {
+    getTwoFactor,
+    setupTwoFactor,
+    enableTwoFactor,
+    regenerateRecoveryCodes,
+    disableTwoFactor,
+  } = useAuth();
+
+  const { control, handleSubmit, reset } = useForm({
+    defaultValues: {
+      code: '',
+      password: '',
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      [setupTwoFactor, enableTwoFactor, regenerateRecoveryCodes, disableTwoFactor].forEach(
+        (controller) => controller.reset()
+      );
+      reset();
+      getTwoFactor.execute();
+    }
+  }, [isOpen]);
+
+  const status = getTwoFactor.result;
+  const recoveryCodes =
+    enableTwoFactor.result?.recoveryCodes ?? regenerateRecoveryCodes.result?.recoveryCodes;
+
+  const onEnable = handleSubmit(async (data) => {
+    try {
+      await enableTwoFactor.execute({ code: data.code });
+      reset();
+      getTwoFactor.execute();
+    } catch (e) {
+      //
+    }
+  });
+
+  const onRegenerate = handleSubmit(async (data) => {
+    try {
+      await regenerateRecoveryCodes.execute({ code: data.code });
+      reset();
+      getTwoFactor.execute();
+    } catch (e) {
+      //
+    }
+  });
+
+  const onDisable = handleSubmit(async (data) => {
+    try {
+      await disableTwoFactor.execute({ password: data.password });
+      reset();
+      setupTwoFactor.reset();
+      getTwoFactor.execute();
+    } catch (e) {
+      //
+    }
+  });
+
+  return (
+    <BackPanel
+      title="Two-factor authentication"
+      isOpen={isOpen}
+      onBack={() => setOpen(false)}
+      onDismiss={() => history.push('/users/')}
+      type={PanelType.medium}
+    >
+      <Stack tokens={{ childrenGap: 12 }} style={{ marginTop: 12 }}>
+        <StatusBar controller={setupTwoFactor} />
+        <StatusBar
+          controller={enableTwoFactor}
+          successMessage="Two-factor authentication has been enabled."
+        />
+        <StatusBar controller={regenerateRecoveryCodes} />
+        <StatusBar
+          controller={disableTwoFactor}
+          successMessage="Two-factor authentication has been disabled."
+        />
+        <Shimmer isDataLoaded={!!status}>
+          {status?.enabled ? (
+            <Text block>
+              {`Two-factor authentication is enabled, ${status.recoveryCodes} recovery code(s) left.`}
+            </Text>
+          ) : (
+            <Text block>Two-factor authentication is disabled.</Text>
+          )}
+        </Shimmer>
+        {status?.required && (
+          <MessageBar messageBarType={MessageBarType.info}>
+            Two-factor authentication is required by one of your groups.
+          </MessageBar>
+        )}
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+        {status && !status.enabled && !setupTwoFactor.result && (
+          <Stack horizontal>
+            <PrimaryButton
+              onClick={() => setupTwoFactor.execute()}
+              disabled={setupTwoFactor.loading}
+            >
+              Set up
+            </PrimaryButton>
+          </Stack>
+        )}
+        {status && !status.enabled && setupTwoFactor.result && (
+          <form onSubmit={onEnable}>
+            <Stack tokens={{ childrenGap: 8 }}>
+              <TwoFactorSetup setup={setupTwoFactor.result} />
+              <ControlledTextField
+                control={control}
+                name="code"
+                label="Code"
+                autoComplete="one-time-code"
+                inputMode="numeric"
+              />
+              <Stack horizontal>
+                <PrimaryButton type="submit" disabled={enableTwoFactor.loading}>
+                  Enable
+                </PrimaryButton>
+              </Stack>
+            </Stack>
+          </form>
+        )}
+        {status?.enabled && (
+          <>
+            <Separator />
+            <form onSubmit={onRegenerate}>
+              <Stack tokens={{ childrenGap: 8 }}>
+                <Text variant="mediumPlus">Recovery codes</Text>
+                <Text variant="small" block>
+                  Generating new codes invalidates the remaining ones.
+                </Text>
+                <ControlledTextField
+                  control={control}
+                  name="code"
+                  label="Code from the authenticator app"
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                />
+                <Stack horizontal>
+                  <DefaultButton type="submit" disabled={regenerateRecoveryCodes.loading}>
+                    Generate new codes
+                  </DefaultButton>
+                </Stack>
+              </Stack>
+            </form>
+            {!status.required && (
+              <>
+                <Separator />
+                <form onSubmit={onDisable}>
+                  <Stack tokens={{ childrenGap: 8 }}>
+                    <Text variant="mediumPlus">Disable</Text>
+                    <ControlledTextField
+                      control={control}
+                      name="password"
+                      label="Current Password"
+                      autoComplete="off"
+                      type="password"
+                      canRevealPassword
+                    />
+                    <Stack horizontal>
+                      <DefaultButton type="submit" disabled={disableTwoFactor.loading}>
+                        Disable
+                      </DefaultButton>
+                    </Stack>
+                  </Stack>
+                </form>
+              </>
+            )}
+          </>
+        )}
+      </Stack>
+    </BackPanel>
+  );
+};
+
+export default ProfileTwoFactor;
@@ -46,7 +46,13 @@ const useStyles = makeStyles({
 });
 
 const schema = yup.object({
-  password: yup.string().min(6).required().label('Password'),
+  // Invited users can set their password themselves
+  password: yup
+    .string()
+    .transform((value) => value || undefined)
+    .min(6)
+    .label('Password')
+    .when('notify', { is: false, then: (schema) => schema.required() }),
   email: yup.string().email().required().label('Email'),
   firstName: yup.string().label('First name'),
   lastName: yup.string().label('Last name'),
@@ -230,7 +236,7 @@ const UserAdd = () => {
                   </Stack>
                   <ControlledCheckbox
                     control={control}
-                    label="Send email to user"
+                    label="Send invitation email"
                     name="notify"
                     styles={{
                       root: {
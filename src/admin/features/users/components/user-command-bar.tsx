@@ -18,6 +18,7 @@ type ColumnType =
   | 'edit'
   | 'activate'
   | 'deactivate'
+  | 'unlock'
   | 'delete'
   | 'refresh'
   | 'search';
@@ -32,6 +33,7 @@ const UserCommandBar: React.FC<IUserCommandBarProps> = ({
     'edit',
     'activate',
     'deactivate',
+    'unlock',
     'delete',
     'refresh',
     'search',
@@ -44,6 +46,7 @@ const UserCommandBar: React.FC<IUserCommandBarProps> = ({
     updateMany,
     selectedUsers,
     deleteMany,
+    unlock,
     list,
     setListParams,
     listParams,
@@ -137,6 +140,25 @@ const UserCommandBar: React.FC<IUserCommandBarProps> = ({
             iconName: 'UserRemove',
           },
         },
+        {
+          key: 'unlock',
+          text: 'Unlock',
+          permissions: ['users_administration'],
+          'data-cy': 'users-commandBar-unlock',
+          disabled: !selectedUsers.some((u) => u.lockedUntil),
+          onClick: async () => {
+            try {
+              await unlock.execute(
+                selectedUsers.filter((u) => u.lockedUntil).map(({ id }) => id)
+              );
+            } catch (e) {
+              //
+            }
+          },
+          iconProps: {
+            iconName: 'Unlock',
+          },
+        },
         {
           key: 'delete',
           text: 'Delete',
@@ -33,6 +33,9 @@ import {
 } from '@admin/components/rhf-components';
 import StatusBar from '@admin/components/status-bar';
 import UserGroups from '@admin/features/users/components/user-groups';
+import ProfileTwoFactor from '@admin/features/users/components/profile-two-factor';
+import UserSessions from '@admin/features/users/components/user-sessions';
+import ProfileAccessTokens from '@admin/features/users/components/profile-access-tokens';
 import { IGroup, UserStatus } from '@shared/interfaces/model';
 import generator from 'generate-password-browser';
 import copy from 'copy-text-to-clipboard';
@@ -271,7 +274,7 @@ const UserPasswordReset = ({ resetOpen, setResetOpen }) => {
   );
 };
 
-const ProfileActions = ({ setResetOpen }) => (
+const ProfileActions = ({ setResetOpen, setTwoFactorOpen }) => (
   <>
     <ActionButton
       iconProps={{ iconName: 'Lock' }}
@@ -279,6 +282,13 @@ const ProfileActions = ({ setResetOpen }) => (
     >
       Change Password
     </ActionButton>
+    <Separator vertical />
+    <ActionButton
+      iconProps={{ iconName: 'Permissions' }}
+      onClick={() => setTwoFactorOpen(true)}
+    >
+      Two-factor Authentication
+    </ActionButton>
   </>
 );
 
@@ -295,6 +305,25 @@ const UserActions = ({ currentUser, setOpen, id, setResetOpen }) => {
         Reset Password
       </ActionButton>
       <Separator vertical />
+      <ActionButton
+        iconProps={{ iconName: 'Permissions' }}
+        onClick={() => {
+          (async () => {
+            try {
+              await dialog.confirm(
+                `Reset two-factor authentication of ${currentUser.email}?`,
+                'The user will be able to log in with the password only, unless a group requires a new setup.'
+              );
+              await users.resetTwoFactor.execute(currentUser.id);
+            } catch (e) {
+              //
+            }
+          })();
+        }}
+      >
+        Reset 2FA
+      </ActionButton>
+      <Separator vertical />
       <ActionButton
         iconProps={{
           iconName:
@@ -365,6 +394,7 @@ const UserEdit = () => {
   const { id } = useParams<any>();
   const currentUser = users.get.result;
   const [resetOpen, setResetOpen] = useState(false);
+  const [twoFactorOpen, setTwoFactorOpen] = useState(false);
   const isProfile = useMemo(
     () => auth.user?.id === currentUser?.id,
     [currentUser, auth.user]
@@ -446,10 +476,13 @@ const UserEdit = () => {
     >
       <LoadingBar loading={!currentUser}>
         {isProfile ? (
-          <ProfilePasswordReset
-            resetOpen={resetOpen}
-            setResetOpen={setResetOpen}
-          />
+          <>
+            <ProfilePasswordReset
+              resetOpen={resetOpen}
+              setResetOpen={setResetOpen}
+            />
+            <ProfileTwoFactor isOpen={twoFactorOpen} setOpen={setTwoFactorOpen} />
+          </>
         ) : (
           <UserPasswordReset
             resetOpen={resetOpen}
@@ -489,7 +522,10 @@ const UserEdit = () => {
             tokens={{ childrenGap: 8 }}
           >
             {isProfile ? (
-              <ProfileActions setResetOpen={setResetOpen} />
+              <ProfileActions
+                setResetOpen={setResetOpen}
+                setTwoFactorOpen={setTwoFactorOpen}
+              />
             ) : (
               <UserActions
                 id={id}
@@ -526,6 +562,14 @@ const UserEdit = () => {
                 </Stack>
               </Stack>
             </PivotItem>
+            <PivotItem headerText="Sessions" className={styles.content}>
+              <UserSessions user={currentUser} isProfile={isProfile} />
+            </PivotItem>
+            {isProfile && (
+              <PivotItem headerText="API Tokens" className={styles.content}>
+                <ProfileAccessTokens />
+              </PivotItem>
+            )}
             {auth.hasPermission(['users_administration']) && <PivotItem headerText="Groups" className={styles.content}>
               <UserGroups
                 close={close}
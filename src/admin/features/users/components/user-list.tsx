@@ -128,6 +128,11 @@ const UserList: React.FC<IUserListProps> = ({
         fieldName: 'status',
         name: 'Status',
         minWidth: 0,
+        onRender: ({ status, lockedUntil }: IUser) => (
+          <div title={lockedUntil ? `Locked until ${formatDate(lockedUntil)}` : undefined}>
+            {lockedUntil ? `${status}, locked` : status}
+          </div>
+        ),
       },
       {
         key: 'createdAt',
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CommandBar,
+  IColumn,
+  ICommandBarItemProps,
+  makeStyles,
+  Selection,
+  SelectionMode,
+  ShimmeredDetailsList,
+  Stack,
+  Text,
+} from '@fluentui/react';
+import { IUser, IUserSession } from '@shared/interfaces/model';
+import { useUsers } from '@admin/features/users/context/users.context';
+import { useDialog } from '@admin/context/dialog';
+import { formatDate } from '@admin/helpers/misc';
+import StatusBar from '@admin/components/status-bar';
+
+const useStyles = makeStyles({
+  detailList: {
+    ':global(.ms-DetailsRow-check)': {
+      height: '100% !important',
+    },
+  },
+  userAgent: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+});
+
+interface UserSessionsProps {
+  user: IUser;
+  isProfile?: boolean;
+}
+
+const UserSessions: React.FC<UserSessionsProps> = ({ user, isProfile }) => {
+  const styles = useStyles();
+  const dialog = useDialog();
+  const { listSessions, revokeSession, revokeSessions } = useUsers();
+  const [selectedSessions, setSelectedSessions] = useState<IUserSession[]>([]);
+  const selection = useMemo(
+    () =>
+      new Selection<IUserSession>({
+        selectionMode: SelectionMode.single,
+        getKey: (item) => item.id,
+        onSelectionChanged: () => setSelectedSessions(selection.getSelection()),
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (user?.id) {
+      listSessions.execute(user.id);
+    }
+  }, [user?.id]);
+
+  const commandActions = useMemo<ICommandBarItemProps[]>(
+    () => [
+      {
+        key: 'revoke',
+        text: 'Revoke',
+        'data-cy': 'users-sessions-revoke',
+        iconProps: { iconName: 'SignOut' },
+        disabled: selectedSessions.length !== 1 || selectedSessions[0]?.current,
+        onClick: () => {
+          (async () => {
+            try {
+              const [session] = selectedSessions;
+              await dialog.confirm(
+                'Revoke session',
+                'The device will be logged out. Are you sure you would like to proceed?'
+              );
+              await revokeSession.execute(user.id, session.id);
+              listSessions.execute(user.id);
+            } catch (e) {
+              //
+            }
+          })();
+        },
+      },
+      {
+        key: 'revokeAll',
+        text: isProfile ? 'Revoke other sessions' : 'Revoke all sessions',
+        'data-cy': 'users-sessions-revokeAll',
+        iconProps: { iconName: 'Blocked2' },
+        disabled: !(listSessions.result ?? []).some((session) => !session.current),
+        onClick: () => {
+          (async () => {
+            try {
+              await dialog.confirm(
+                isProfile ? 'Revoke other sessions' : 'Revoke all sessions',
+                isProfile
+                  ? 'All other devices will be logged out. Are you sure you would like to proceed?'
+                  : `${user.email} will be logged out on all devices. Are you sure you would like to proceed?`
+              );
+              await revokeSessions.execute(user.id);
+              listSessions.execute(user.id);
+            } catch (e) {
+              //
+            }
+          })();
+        },
+      },
+      {
+        key: 'refresh',
+        text: 'Refresh',
+        iconProps: { iconName: 'Refresh' },
+        onClick: () => {
+          listSessions.execute(user.id);
+        },
+      },
+    ],
+    [selectedSessions, listSessions.result, user, isProfile]
+  );
+
+  const columns = useMemo<IColumn[]>(
+    () => [
+      {
+        key: 'userAgent',
+        name: 'Device',
+        minWidth: 160,
+        isMultiline: true,
+        onRender: (item: IUserSession) => (
+          <Stack>
+            <Text className={styles.userAgent} title={item.userAgent}>
+              {item.userAgent || 'Unknown'}
+            </Text>
+            {item.current && (
+              <Text variant="small" style={{ opacity: 0.9 }}>
+                This device
+              </Text>
+            )}
+          </Stack>
+        ),
+      },
+      {
+        key: 'ip',
+        name: 'IP address',
+        fieldName: 'ip',
+        minWidth: 100,
+        maxWidth: 120,
+      },
+      {
+        key: 'lastSeenAt',
+        name: 'Last seen',
+        minWidth: 140,
+        maxWidth: 160,
+        onRender: ({ lastSeenAt }: IUserSession) => <div>{formatDate(lastSeenAt)}</div>,
+      },
+      {
+        key: 'createdAt',
+        name: 'Created',
+        minWidth: 140,
+        maxWidth: 160,
+        onRender: ({ createdAt }: IUserSession) => <div>{formatDate(createdAt)}</div>,
+      },
+    ],
+    []
+  );
+
+  return (
+    <>
+      <CommandBar items={commandActions} style={{ marginTop: 12 }} />
+      <StatusBar controller={revokeSession} />
+      <StatusBar controller={revokeSessions} />
+      <ShimmeredDetailsList
+        className={styles.detailList}
+        enableShimmer={listSessions.loading && !listSessions.result}
+        setKey="single"
+        items={listSessions.result ?? []}
+        columns={columns}
+        selection={selection}
+        selectionMode={SelectionMode.single}
+        selectionPreservedOnEmptyClick
+      />
+    </>
+  );
+};
+
+export default UserSessions;
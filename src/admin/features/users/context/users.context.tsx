@@ -7,7 +7,7 @@ import React, {
   useEffect,
   useState,
 } from 'react';
-import { IUser } from '@shared/interfaces/model';
+import { IPersonalAccessToken, IUser, IUserSession } from '@shared/interfaces/model';
 import { SelectionMode } from '@fluentui/react';
 import apiAxios, { useApiCallback } from '@admin/helpers/api';
 import { ModelState, useModelState } from '@admin/helpers/hooks';
@@ -29,6 +29,17 @@ export interface IUsersContext {
     password: string;
     notify: boolean;
   }>;
+  resetTwoFactor: UseAsyncReturn<any, [id: number]>;
+  unlock: UseAsyncReturn<any, [ids: number[]]>;
+  listSessions: UseAsyncReturn<IUserSession[], [id: number]>;
+  revokeSession: UseAsyncReturn<any, [id: number, sessionId: number]>;
+  revokeSessions: UseAsyncReturn<any, [id: number]>;
+  listPersonalAccessTokens: UseAsyncReturn<IPersonalAccessToken[], []>;
+  generatePersonalAccessToken: UseAsyncReturn<
+    IPersonalAccessToken,
+    [params: Partial<IPersonalAccessToken>]
+  >;
+  revokePersonalAccessTokens: UseAsyncReturn<any, [ids: number[]]>;
   selectedUsers: IUser[];
   selection: ExtendedSelection<IUser>;
   users: IUser[];
@@ -108,6 +119,44 @@ const UsersContextProvider: React.FC<IUsersContextProviderProps> = ({
     apiAxios.post(`/users/reset-password/${data.id}`, data)
   );
 
+  const resetTwoFactor = useApiCallback(async (id: number) =>
+    apiAxios.post(`/users/${id}/two-factor/reset`)
+  );
+
+  const unlock = useApiCallback(async (ids: number[]) => {
+    const response = await apiAxios.post('/users/unlock', { ids });
+    usersState.update(
+      usersState.arrayState
+        .filter((user) => ids.includes(user.id))
+        .map((user) => ({ ...user, lockedUntil: undefined }))
+    );
+    return response;
+  });
+
+  const listSessions = useApiCallback(async (id: number) =>
+    apiAxios.get(`/users/${id}/sessions`)
+  );
+
+  const revokeSession = useApiCallback(async (id: number, sessionId: number) =>
+    apiAxios.delete(`/users/${id}/sessions/${sessionId}`)
+  );
+
+  const revokeSessions = useApiCallback(async (id: number) =>
+    apiAxios.delete(`/users/${id}/sessions`)
+  );
+
+  const listPersonalAccessTokens = useApiCallback(async () =>
+    apiAxios.get('/personal-access-tokens')
+  );
+
+  const generatePersonalAccessToken = useApiCallback(async (params) =>
+    apiAxios.post('/personal-access-tokens', params)
+  );
+
+  const revokePersonalAccessTokens = useApiCallback(async (ids: number[]) =>
+    apiAxios.delete('/personal-access-tokens', { data: ids })
+  );
+
   return (
     <UsersContext.Provider
       value={{
@@ -120,6 +169,14 @@ const UsersContextProvider: React.FC<IUsersContextProviderProps> = ({
         update,
         updateMany,
         resetPassword,
+        resetTwoFactor,
+        unlock,
+        listSessions,
+        revokeSession,
+        revokeSessions,
+        listPersonalAccessTokens,
+        generatePersonalAccessToken,
+        revokePersonalAccessTokens,
         users: usersState.arrayState,
         usersState,
         listParams,
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CommandBar,
+  IColumn,
+  ICommandBarItemProps,
+  MessageBar,
+  MessageBarType,
+  NeutralColors,
+  Panel,
+  PanelType,
+  SelectionMode,
+  ShimmeredDetailsList,
+} from '@fluentui/react';
+import { IWebhook, IWebhookDelivery } from '@shared/interfaces/model';
+import { useWebhooks } from '@admin/features/webhooks/context/webhooks.context';
+import { useSelection } from '@admin/helpers/selection';
+
+interface IWebhookDeliveriesPanelProps {
+  isOpen?: boolean;
+  webhook?: IWebhook;
+  onDismiss?: () => void;
+}
+
+const WebhookDeliveriesPanel: React.FC<IWebhookDeliveriesPanelProps> = ({ isOpen, webhook, onDismiss }) => {
+  const { listDeliveries, pingWebhook, redeliver } = useWebhooks();
+  const [selected, setSelected] = useState<IWebhookDelivery>();
+
+  const selection = useSelection<IWebhookDelivery>({
+    onSelectionChanged: () => {
+      setSelected(selection.getSelection()?.[0]);
+    },
+    getKey: (delivery) => delivery.id,
+    selectionMode: SelectionMode.single,
+  });
+
+  const refresh = () => {
+    if (webhook?.id) {
+      listDeliveries.execute(webhook.id);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      pingWebhook.reset();
+      redeliver.reset();
+      refresh();
+    }
+  }, [isOpen, webhook]);
+
+  useEffect(() => {
+    if (pingWebhook?.result || redeliver?.result) {
+      refresh();
+    }
+  }, [pingWebhook?.result, redeliver?.result]);
+
+  const toolbarItems = useMemo<ICommandBarItemProps[]>(
+    () => [
+      {
+        key: 'refresh',
+        text: 'Refresh',
+        iconProps: { iconName: 'Refresh' },
+        onClick: () => refresh(),
+      },
+      {
+        key: 'ping',
+        text: 'Send ping',
+        iconProps: { iconName: 'Send' },
+        disabled: pingWebhook?.loading,
+        onClick: () => {
+          pingWebhook.execute(webhook?.id);
+        },
+      },
+      {
+        key: 'redeliver',
+        text: 'Redeliver',
+        iconProps: { iconName: 'Redo' },
+        disabled: !selected || redeliver?.loading,
+        onClick: () => {
+          redeliver.execute(selected?.id);
+        },
+      },
+    ],
+    [webhook, selected, pingWebhook?.loading, redeliver?.loading]
+  );
+
+  const columns = useMemo<IColumn[]>(
+    () => [
+      {
+        key: 'event',
+        name: 'Event',
+        fieldName: 'event',
+        minWidth: 120,
+        isPadded: true,
+      },
+      {
+        key: 'status',
+        name: 'Status',
+        minWidth: 80,
+        onRender: ({ status, responseStatus }) => (
+          <span>
+            {status}
+            {responseStatus ? ` (${responseStatus})` : ''}
+          </span>
+        ),
+        isPadded: true,
+      },
+      {
+        key: 'attempts',
+        name: 'Attempts',
+        fieldName: 'attempts',
+        minWidth: 60,
+        isPadded: true,
+      },
+      {
+        key: 'error',
+        name: 'Error',
+        fieldName: 'error',
+        minWidth: 100,
+        isPadded: true,
+      },
+      {
+        key: 'createdAt',
+        name: 'Created At',
+        fieldName: 'createdAt',
+        minWidth: 120,
+        isPadded: true,
+      },
+    ],
+    []
+  );
+
+  const error = listDeliveries?.error?.message ?? pingWebhook?.error?.message ?? redeliver?.error?.message;
+
+  return (
+    <Panel
+      isOpen={isOpen}
+      headerText={`Deliveries - ${webhook?.name ?? ''}`}
+      onDismiss={onDismiss}
+      type={PanelType.medium}
+    >
+      <CommandBar items={toolbarItems} style={{ borderBottom: `1px solid ${NeutralColors.gray30}` }} />
+      {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+      <ShimmeredDetailsList
+        setKey="items"
+        items={listDeliveries?.result?.results || []}
+        columns={columns}
+        selectionMode={SelectionMode.single}
+        selection={selection as any}
+        enableShimmer={listDeliveries?.loading}
+        ariaLabelForShimmer="Deliveries are being fetched"
+        ariaLabelForGrid="Item details"
+      />
+    </Panel>
+  );
+};
+
+export default WebhookDeliveriesPanel;
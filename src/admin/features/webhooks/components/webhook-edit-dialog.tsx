@@ -0,0 +1,136 @@
+import {
+  DefaultButton,
+  Dialog,
+  DialogFooter,
+  DialogType,
+  MessageBar,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+} from '@fluentui/react';
+import React, { useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { IWebhook } from '@shared/interfaces/model';
+import { ControlledCheckbox, ControlledDropdown, ControlledTextField } from '@admin/components/rhf-components';
+import { useWebhooks } from '@admin/features/webhooks/context/webhooks.context';
+import WebhookEvents from '@shared/features/webhooks';
+import { isTrue } from '@admin/helpers/utility';
+
+interface IWebhookEditDialogProps {
+  isOpen?: boolean;
+  webhook?: IWebhook;
+  onDismiss?: () => void;
+  onSaved?: (webhook?: IWebhook) => void;
+}
+
+const getDefaultValues = (webhook?: IWebhook) => ({
+  name: webhook?.name ?? '',
+  url: webhook?.url ?? '',
+  events: (webhook?.events ?? []).join(','),
+  enabled: `${webhook?.enabled ?? true}`,
+  rotateSecret: 'false',
+});
+
+const WebhookEditDialog: React.FC<IWebhookEditDialogProps> = ({ isOpen, webhook, onDismiss, onSaved }) => {
+  const { createWebhook, updateWebhook } = useWebhooks();
+  const request = webhook ? updateWebhook : createWebhook;
+
+  const { control, handleSubmit, reset } = useForm({
+    mode: 'all',
+    defaultValues: getDefaultValues(webhook),
+  });
+
+  const eventOptions = useMemo(
+    () => [
+      { key: '*', text: 'All events' },
+      ...WebhookEvents.map((event) => ({ key: event.id, text: event.name })),
+    ],
+    []
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      createWebhook.reset();
+      updateWebhook.reset();
+      reset(getDefaultValues(webhook));
+    }
+  }, [isOpen, webhook]);
+
+  useEffect(() => {
+    if (request?.result) {
+      onSaved(request?.result);
+    }
+  }, [request?.result]);
+
+  return (
+    <Dialog
+      hidden={!isOpen}
+      onDismiss={onDismiss}
+      dialogContentProps={{
+        type: DialogType.close,
+        title: webhook ? 'Edit webhook' : 'Create webhook',
+      }}
+      modalProps={{
+        styles: { main: { maxWidth: 450 } },
+      }}
+    >
+      <Stack tokens={{ childrenGap: 8 }}>
+        {request?.error?.message && (
+          <MessageBar messageBarType={MessageBarType.error}>
+            {request.error.message}
+          </MessageBar>
+        )}
+        <ControlledTextField
+          control={control}
+          name="name"
+          label="Name"
+          rules={{ required: 'Name is required' }}
+        />
+        <ControlledTextField
+          control={control}
+          name="url"
+          label="URL"
+          placeholder="https://example.com/hooks/burdy"
+          rules={{ required: 'URL is required' }}
+        />
+        <ControlledDropdown
+          control={control}
+          name="events"
+          label="Events"
+          multiSelect
+          options={eventOptions}
+        />
+        <ControlledCheckbox control={control} name="enabled" label="Enabled" />
+        {webhook && <ControlledCheckbox control={control} name="rotateSecret" label="Rotate secret" />}
+      </Stack>
+      <DialogFooter>
+        <DefaultButton onClick={onDismiss} text="Cancel" data-cy="dialog-cancel" />
+        <PrimaryButton
+          onClick={() => {
+            handleSubmit((val) => {
+              const data = {
+                name: val?.name,
+                url: val?.url,
+                events: (val?.events ?? '').split(',').filter((event) => event?.length > 0),
+                enabled: isTrue(val?.enabled),
+              };
+              if (webhook) {
+                updateWebhook.execute(webhook.id, {
+                  ...data,
+                  rotateSecret: isTrue(val?.rotateSecret),
+                });
+              } else {
+                createWebhook.execute(data);
+              }
+            })();
+          }}
+          text={webhook ? 'Update' : 'Create'}
+          disabled={request?.loading}
+          data-cy="dialog-confirm"
+        />
+      </DialogFooter>
+    </Dialog>
+  );
+};
+
+export default WebhookEditDialog;
@@ -0,0 +1,93 @@
+import { CommandBar, ICommandBarItemProps, NeutralColors } from '@fluentui/react';
+import React, { useMemo, useState } from 'react';
+import { useWebhooks } from '@admin/features/webhooks/context/webhooks.context';
+import WebhookEditDialog from '@admin/features/webhooks/components/webhook-edit-dialog';
+import WebhooksDeleteDialog from '@admin/features/webhooks/components/webhooks-delete-dialog';
+import WebhookDeliveriesPanel from '@admin/features/webhooks/components/webhook-deliveries-panel';
+
+const WebhooksCommandBar = () => {
+  const { selectedWebhooks } = useWebhooks();
+
+  const [openCreate, setOpenCreate] = useState(false);
+  const [openEdit, setOpenEdit] = useState(false);
+  const [openDelete, setOpenDelete] = useState(false);
+  const [openDeliveries, setOpenDeliveries] = useState(false);
+
+  const toolbarItems = useMemo<ICommandBarItemProps[]>(
+    () => [
+      {
+        key: 'create',
+        text: 'Create',
+        iconProps: {
+          iconName: 'Add',
+        },
+        onClick: () => {
+          setOpenCreate(true);
+        },
+      },
+      {
+        key: 'edit',
+        text: 'Edit',
+        iconProps: {
+          iconName: 'Edit',
+        },
+        disabled: selectedWebhooks?.length !== 1,
+        onClick: () => {
+          setOpenEdit(true);
+        },
+      },
+      {
+        key: 'deliveries',
+        text: 'Deliveries',
+        iconProps: {
+          iconName: 'History',
+        },
+        disabled: selectedWebhooks?.length !== 1,
+        onClick: () => {
+          setOpenDeliveries(true);
+        },
+      },
+      {
+        key: 'delete',
+        text: 'Delete',
+        iconProps: {
+          iconName: 'Delete',
+        },
+        disabled: !(selectedWebhooks?.length > 0),
+        onClick: () => {
+          setOpenDelete(true);
+        },
+      },
+    ],
+    [selectedWebhooks]
+  );
+
+  return (
+    <div>
+      <CommandBar items={toolbarItems} style={{ borderBottom: `1px solid ${NeutralColors.gray30}` }} />
+      <WebhookEditDialog
+        isOpen={openCreate}
+        onDismiss={() => setOpenCreate(false)}
+        onSaved={() => setOpenCreate(false)}
+      />
+      <WebhookEditDialog
+        isOpen={openEdit}
+        webhook={selectedWebhooks?.[0]}
+        onDismiss={() => setOpenEdit(false)}
+        onSaved={() => setOpenEdit(false)}
+      />
+      <WebhooksDeleteDialog
+        isOpen={openDelete}
+        onDismiss={() => setOpenDelete(false)}
+        onDeleted={() => setOpenDelete(false)}
+      />
+      <WebhookDeliveriesPanel
+        isOpen={openDeliveries}
+        webhook={selectedWebhooks?.[0]}
+        onDismiss={() => setOpenDeliveries(false)}
+      />
+    </div>
+  );
+};
+
+export default WebhooksCommandBar;
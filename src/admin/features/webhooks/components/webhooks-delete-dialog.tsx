@@ -0,0 +1,68 @@
+import {
+  DefaultButton,
+  Dialog,
+  DialogFooter,
+  DialogType,
+  MessageBar,
+  MessageBarType,
+  PrimaryButton,
+  Stack,
+} from '@fluentui/react';
+import React, { useEffect } from 'react';
+import { useWebhooks } from '@admin/features/webhooks/context/webhooks.context';
+
+interface IWebhooksDeleteDialogProps {
+  isOpen?: boolean;
+  onDismiss?: () => void;
+  onDeleted?: (ids?: string[] | number[]) => void;
+}
+
+const WebhooksDeleteDialog: React.FC<IWebhooksDeleteDialogProps> = ({ isOpen, onDismiss, onDeleted }) => {
+  const { deleteWebhooks, selectedWebhooks } = useWebhooks();
+
+  useEffect(() => {
+    deleteWebhooks?.reset?.();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (deleteWebhooks?.result) {
+      onDeleted(deleteWebhooks?.result);
+    }
+  }, [deleteWebhooks?.result]);
+
+  return (
+    <Dialog
+      hidden={!isOpen}
+      onDismiss={onDismiss}
+      dialogContentProps={{
+        type: DialogType.close,
+        title: 'Delete?',
+      }}
+      modalProps={{
+        styles: { main: { maxWidth: 450 } },
+      }}
+    >
+      <Stack tokens={{ childrenGap: 8 }}>
+        Are you sure you would like to delete these item(s)? Delivery log will be deleted as well.
+        {deleteWebhooks?.error?.message && (
+          <MessageBar messageBarType={MessageBarType.error}>
+            {deleteWebhooks?.error.message}
+          </MessageBar>
+        )}
+      </Stack>
+      <DialogFooter>
+        <DefaultButton onClick={onDismiss} text="Cancel" data-cy="dialog-cancel" />
+        <PrimaryButton
+          onClick={() => {
+            deleteWebhooks.execute(selectedWebhooks?.map((webhook) => webhook?.id));
+          }}
+          text="Delete"
+          disabled={deleteWebhooks?.loading}
+          data-cy="dialog-confirm"
+        />
+      </DialogFooter>
+    </Dialog>
+  );
+};
+
+export default WebhooksDeleteDialog;
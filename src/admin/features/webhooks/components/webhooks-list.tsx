@@ -0,0 +1,117 @@
+import {
+  DefaultButton,
+  makeStyles,
+  MarqueeSelection,
+  ShimmeredDetailsList,
+  Stack,
+  TextField,
+} from '@fluentui/react';
+import React, { useEffect } from 'react';
+import copy from 'copy-text-to-clipboard';
+import { useWebhooks } from '@admin/features/webhooks/context/webhooks.context';
+import WebhookEvents from '@shared/features/webhooks';
+
+const useStyles = makeStyles({
+  webhooksList: {
+    ':global(.ms-DetailsRow-fields)': {
+      alignItems: 'center !important',
+    },
+    ':global(.ms-DetailsRow-check)': {
+      height: '100% !important',
+    },
+  },
+});
+
+const getEventName = (id: string) => {
+  if (id === '*') return 'All events';
+  return WebhookEvents.find((event) => event.id === id)?.name ?? id;
+};
+
+const WebhooksList = () => {
+  const { selection, listWebhooks, webhooks } = useWebhooks();
+
+  const styles = useStyles();
+
+  useEffect(() => {
+    listWebhooks.execute();
+  }, []);
+
+  const columns = [
+    {
+      key: 'name',
+      name: 'Name',
+      fieldName: 'name',
+      minWidth: 120,
+    },
+    {
+      key: 'url',
+      name: 'URL',
+      fieldName: 'url',
+      minWidth: 200,
+    },
+    {
+      key: 'events',
+      name: 'Events',
+      minWidth: 160,
+      onRender: (item) => (item?.events ?? []).map(getEventName).join(', '),
+    },
+    {
+      key: 'enabled',
+      name: 'Enabled',
+      minWidth: 60,
+      onRender: (item) => (item?.enabled ? 'Yes' : 'No'),
+    },
+    {
+      key: 'secret',
+      name: 'Signing secret',
+      minWidth: 260,
+      onRender: (item) => {
+        return (
+          <TextField
+            readOnly
+            id={`webhook-secret-${item?.id}`}
+            value={item?.secret}
+            type="password"
+            styles={{
+              suffix: {
+                padding: 0,
+              },
+              fieldGroup: {
+                borderRight: 'none',
+              },
+            }}
+            onRenderSuffix={() => (
+              <Stack horizontal>
+                <DefaultButton
+                  iconProps={{ iconName: 'Copy' }}
+                  style={{ minWidth: 0, padding: '0 4px' }}
+                  onClick={() => {
+                    copy(item?.secret);
+                  }}
+                />
+              </Stack>
+            )}
+          />
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className={styles.webhooksList}>
+      <MarqueeSelection selection={selection as any} isDraggingConstrainedToRoot>
+        <ShimmeredDetailsList
+          enableShimmer={listWebhooks?.loading}
+          selection={selection as any}
+          selectionMode={selection.mode}
+          setKey="multiple"
+          selectionPreservedOnEmptyClick
+          items={webhooks ?? []}
+          columns={columns}
+        />
+      </MarqueeSelection>
+    </div>
+  );
+};
+
+export default WebhooksList;
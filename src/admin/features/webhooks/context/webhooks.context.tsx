@@ -0,0 +1,112 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { UseAsyncReturn } from 'react-async-hook';
+import { IWebhook, IWebhookDelivery } from '@shared/interfaces/model';
+import apiAxios, { useApiCallback } from '@admin/helpers/api';
+import ExtendedSelection, { useSelection } from '@admin/helpers/selection';
+import { ModelState, useModelState } from '@admin/helpers/hooks';
+
+export interface IWebhookDeliveries {
+  results: IWebhookDelivery[];
+  count: number;
+  page: number;
+  limit: number;
+}
+
+export interface IWebhooksContext {
+  selection: ExtendedSelection<IWebhook>;
+  webhooksState: ModelState<IWebhook>;
+  webhooks: IWebhook[];
+  selectedWebhooks: IWebhook[];
+  listWebhooks: UseAsyncReturn<IWebhook[], []>;
+  createWebhook: UseAsyncReturn<IWebhook, [data: Partial<IWebhook>]>;
+  updateWebhook: UseAsyncReturn<IWebhook, [id: number, data: Partial<IWebhook> & { rotateSecret?: boolean }]>;
+  deleteWebhooks: UseAsyncReturn<number[], [ids: number[]]>;
+  pingWebhook: UseAsyncReturn<IWebhookDelivery, [id: number]>;
+  listDeliveries: UseAsyncReturn<IWebhookDeliveries, [id: number, params?: { page?: number }]>;
+  redeliver: UseAsyncReturn<IWebhookDelivery, [deliveryId: number]>;
+}
+
+const WebhooksContext = createContext<IWebhooksContext>({} as any);
+
+export interface IWebhooksContextProviderProps {}
+
+const WebhooksContextProvider: React.FC<IWebhooksContextProviderProps> = ({ children }) => {
+  const [selectedWebhooks, setSelectedWebhooks] = useState<IWebhook[]>([]);
+
+  const selection = useSelection<IWebhook>({
+    onSelectionChanged: () => {
+      setSelectedWebhooks(selection.getSelection());
+    },
+    getKey: (webhook) => webhook.id,
+  });
+
+  const webhooksState = useModelState<IWebhook>([], (a, b) => {
+    return b.id - a.id;
+  });
+
+  useEffect(() => {
+    // Refresh selection
+    selection.setItems(webhooksState.arrayState, false);
+    setSelectedWebhooks(selection.getSelection());
+  }, [webhooksState.arrayState]);
+
+  const listWebhooks = useApiCallback(async () => {
+    const response = await apiAxios.get('/webhooks');
+    webhooksState.setArrayState(response.data);
+    return response;
+  });
+
+  const createWebhook = useApiCallback(async (data: Partial<IWebhook>) => {
+    const response = await apiAxios.post('/webhooks', data);
+    webhooksState.create([response?.data]);
+    return response;
+  });
+
+  const updateWebhook = useApiCallback(async (id: number, data) => {
+    const response = await apiAxios.put(`/webhooks/${id}`, data);
+    webhooksState.update([response?.data]);
+    return response;
+  });
+
+  const deleteWebhooks = useApiCallback(async (ids: number[]) => {
+    const response = await apiAxios.delete('/webhooks', {
+      data: ids,
+    });
+    webhooksState.delete(ids);
+    return response;
+  });
+
+  const pingWebhook = useApiCallback(async (id: number) => apiAxios.post(`/webhooks/${id}/ping`));
+
+  const listDeliveries = useApiCallback(async (id: number, params?: { page?: number }) =>
+    apiAxios.get(`/webhooks/${id}/deliveries`, { params })
+  );
+
+  const redeliver = useApiCallback(async (deliveryId: number) =>
+    apiAxios.post(`/webhooks/deliveries/${deliveryId}/redeliver`)
+  );
+
+  return (
+    <WebhooksContext.Provider
+      value={{
+        selection,
+        webhooksState,
+        webhooks: webhooksState.arrayState,
+        selectedWebhooks,
+        listWebhooks,
+        createWebhook,
+        updateWebhook,
+        deleteWebhooks,
+        pingWebhook,
+        listDeliveries,
+        redeliver,
+      }}
+    >
+      {children}
+    </WebhooksContext.Provider>
+  );
+};
+
+const useWebhooks = () => useContext(WebhooksContext);
+
+export { WebhooksContextProvider, useWebhooks };
@@ -4,6 +4,11 @@ import { convertModelArrayToObject, ModelObject } from '@admin/helpers/misc';
 import { useRefEffect } from '@fluentui/react-hooks';
 import { findSettingsValue, isTrue } from '@admin/helpers/utility';
 import { useSettings } from '@admin/context/settings';
+import {
+  LOCALIZATION_SETTINGS_KEY,
+  parseLocalizationSettings,
+} from '@shared/features/localization';
+import { parseWorkflowSettings, WORKFLOW_SETTINGS_KEY } from '@shared/features/workflow';
 
 const useButtonHover = (debounce = 300) => {
   const [value, setValue] = useState(false);
@@ -163,11 +168,25 @@ const useAllowedPaths = () => {
   return allowedPaths;
 };
 
+const useLocalization = () => {
+  const { settingsArray } = useSettings();
+  const localization = findSettingsValue(settingsArray, LOCALIZATION_SETTINGS_KEY);
+  return useMemo(() => parseLocalizationSettings(localization), [localization]);
+};
+
+const useWorkflow = () => {
+  const { settingsArray } = useSettings();
+  const workflow = findSettingsValue(settingsArray, WORKFLOW_SETTINGS_KEY);
+  return useMemo(() => parseWorkflowSettings(workflow), [workflow]);
+};
+
 export {
   useRefChange,
   useButtonHover,
   useStorageState,
   useModelState,
   useAllowedPaths,
+  useLocalization,
+  useWorkflow,
   ModelState,
 };
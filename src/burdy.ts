@@ -59,6 +59,19 @@ const exportContentTypes = async () => {
   require(ctScriptPath);
 }
 
+const syncContentTypes = async (patterns: string[], options: any) => {
+  process.env.NODE_ENV = process.env.NODE_ENV ?? 'development';
+
+  const ctScriptPath = PathUtil.cache('ct-build', 'main.js');
+
+  await require('@scripts/content-types').default('sync', patterns ?? [], {
+    apply: options?.apply || false,
+    check: options?.check || false,
+    migrate: options?.migrate || false
+  });
+  require(ctScriptPath);
+}
+
 const handleDbAction = async (action: DbAction) => {
   process.env.NODE_ENV = process.env.NODE_ENV ?? 'development';
 
@@ -85,9 +98,27 @@ const exportContent = async (file: string, options: any) => handleDbAction({
   }
 });
 
-const generateApiKey = async (name: string) => handleDbAction({
+const splitList = (value?: string) => (value ? value.split(',') : []);
+
+const generateApiKey = async (name: string, options: any) => handleDbAction({
   type: 'generateApiKey',
-  payload: { name }
+  payload: {
+    name,
+    contentTypes: splitList(options?.contentTypes),
+    slugPaths: splitList(options?.slugPaths),
+    drafts: options?.drafts || false,
+    versions: options?.versions || false,
+    search: options?.search ?? true,
+    expiresAt: options?.expiresAt
+  }
+});
+
+const generateTypings = async (file: string, options: any) => handleDbAction({
+  type: 'generateTypings',
+  payload: {
+    file: file ?? 'burdy-content.d.ts',
+    contentTypes: splitList(options?.contentTypes)
+  }
 });
 
 // Initial program setup
@@ -128,6 +159,12 @@ program.command('import')
 
 program.command('generate:key')
   .addArgument(new Argument('<name>', 'api key name.').argRequired())
+  .addOption(new Option('-c, --content-types <names>', 'comma separated content types the key can read'))
+  .addOption(new Option('-s, --slug-paths <prefixes>', 'comma separated slug path prefixes the key can read'))
+  .addOption(new Option('-d, --drafts', 'allows reading drafts').default(false))
+  .addOption(new Option('--versions', 'allows reading post versions').default(false))
+  .addOption(new Option('--no-search', 'disallows listing and searching posts'))
+  .addOption(new Option('-e, --expires-at <date>', 'expiry date of the key (ISO 8601)'))
   .action(generateApiKey)
 
 const contentTypeCommands = program.command('ct').description('Content type helpers')
@@ -135,5 +172,19 @@ contentTypeCommands
   .command('export')
   .description('Exports content type defined in components')
   .action(exportContentTypes)
+contentTypeCommands
+  .command('sync')
+  .description('Compares content types defined in components with the database')
+  .addArgument(new Argument('[patterns...]', 'glob patterns of component files.'))
+  .addOption(new Option('-a, --apply', 'creates and updates content types').default(false))
+  .addOption(new Option('-c, --check', 'exits with an error when content types differ').default(false))
+  .addOption(new Option('-m, --migrate', 'migrates content of changed fields when applying').default(false))
+  .action(syncContentTypes)
+contentTypeCommands
+  .command('types')
+  .description('Generates TypeScript definitions of the content API from stored content types')
+  .addArgument(new Argument('<file>', 'output file, defaults to burdy-content.d.ts.').argOptional())
+  .addOption(new Option('-c, --content-types <names>', 'comma separated content types to generate'))
+  .action(generateTypings)
 
 program.parseAsync(process.argv);
@@ -1,6 +1,11 @@
 import '@server/listeners/controllers.listener';
 import '@server/listeners/core.listener';
 import '@server/listeners/model.listener';
+import '@server/listeners/webhooks.listener';
+import '@server/listeners/scheduler.listener';
+import '@server/listeners/workflow.listener';
+import '@server/listeners/search.listener';
+import '@server/listeners/mail.listener';
 
 declare const PROJECT_ENTRY: string;
 
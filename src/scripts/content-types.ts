@@ -6,8 +6,13 @@ import webpack from "webpack";
 import {compilerRun} from "@scripts/util/webpack.util";
 import glob from 'fast-glob';
 import path from 'path';
+import {ContentTypesOptions} from "@scripts/interfaces/content-types";
 
-const scriptContentTypes = async (subcommand = 'export', pattern: string[] = []) => {
+const scriptContentTypes = async (
+  subcommand = 'export',
+  pattern: string[] = [],
+  options: ContentTypesOptions = {}
+) => {
   const ctBuildDirectory = PathUtil.cache('ct-build');
 
   await rimraf(ctBuildDirectory, (error) => error && console.log(error));
@@ -108,7 +113,8 @@ const scriptContentTypes = async (subcommand = 'export', pattern: string[] = [])
     webpackConfig.plugins.push(
       new webpack.DefinePlugin({
         REQUIRE_STATEMENTS: `[${requireStatements}]`,
-        COMMAND: JSON.stringify(subcommand)
+        COMMAND: JSON.stringify(subcommand),
+        OPTIONS: JSON.stringify(options)
       })
     )
     return webpackConfig;
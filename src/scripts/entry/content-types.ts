@@ -1,13 +1,32 @@
+import '../util/env.util';
+import chalk from 'chalk';
+import {getManager} from "typeorm";
 import {joinContentTypes, writeContentTypes} from "@scripts/util/content-type.util";
+import ConsoleOutput from "@scripts/util/console-output.util";
+import {ContentTypesOptions} from "@scripts/interfaces/content-types";
+import {connectDatabaseDriver} from "@server/drivers/database.driver";
+import {
+  applyContentTypeSync,
+  hasContentTypeDrift,
+  IContentTypeSyncPlan,
+  planContentTypeSync
+} from "@server/business-logic/content-type-bl";
 
 declare const COMMAND: string;
+declare const OPTIONS: ContentTypesOptions;
 declare const REQUIRE_STATEMENTS: {
   require: () => any;
   file: string;
 }[];
 
+const ACTION_LABELS = {
+  create: chalk.green('+ create'),
+  update: chalk.yellow('~ update'),
+  unchanged: chalk.gray('  unchanged'),
+  conflict: chalk.red('! conflict'),
+};
 
-const exportContentTypes = async () => {
+const loadContentTypes = () => {
   const components = [];
 
   REQUIRE_STATEMENTS.forEach(requireStatement => {
@@ -19,12 +38,90 @@ const exportContentTypes = async () => {
     }
   });
 
-  const contentTypes = joinContentTypes(components);
+  return joinContentTypes(components);
+}
+
+const exportContentTypes = async () => {
+  const contentTypes = loadContentTypes();
   await writeContentTypes(contentTypes);
 }
 
+const printSyncPlan = (plan: IContentTypeSyncPlan) => {
+  plan.items.forEach(item => {
+    const reason = item.reason ? ` (${item.reason})` : '';
+    console.log(`${ACTION_LABELS[item.action]} ${item.name} [${item.type}]${reason}`);
+
+    item.operations.forEach(operation => {
+      if (operation.action === 'drop') {
+        const reason = operation.reason ? `, ${operation.reason}` : '';
+        console.log(chalk.red(`    would orphan ${operation.from}${reason}`));
+      } else {
+        const toType = operation.toType ? ` (${operation.toType})` : '';
+        console.log(`    ${operation.action} ${operation.from} -> ${operation.to}${toType}`);
+      }
+    });
+    if (item.affectedPosts > 0) {
+      console.log(`    content of ${item.affectedPosts} post(s) affected`);
+    }
+  });
+
+  if (plan.untracked.length > 0) {
+    ConsoleOutput.info(`Not defined in code: ${plan.untracked.join(', ')}.`);
+  }
+}
+
+/**
+ * Prints what differs between code and the database. `--check` exits with 1 on drift, `--apply` creates
+ * and updates content types and exits with 1 when conflicts were left.
+ */
+const syncContentTypes = async () => {
+  if (OPTIONS?.apply && OPTIONS?.check) {
+    ConsoleOutput.error('Options --apply and --check can not be used together.');
+    process.exit(1);
+  }
+
+  const contentTypes = loadContentTypes();
+
+  require('../../index');
+  await connectDatabaseDriver();
+
+  const plan = await planContentTypeSync({entityManager: getManager(), data: contentTypes});
+  printSyncPlan(plan);
+
+  const drift = hasContentTypeDrift(plan);
+  const conflicts = plan.items.filter(item => item.action === 'conflict');
+
+  if (!drift) {
+    ConsoleOutput.success('Content types are in sync.');
+    process.exit(0);
+  }
+
+  if (OPTIONS?.apply) {
+    const saved = await applyContentTypeSync({
+      entityManager: getManager(),
+      plan,
+      options: {migrate: OPTIONS?.migrate}
+    });
+    ConsoleOutput.success(`Synced ${saved.length} content type(s).`);
+    if (conflicts.length > 0) {
+      ConsoleOutput.error(`${conflicts.length} conflict(s) have to be resolved by hand.`);
+    }
+    process.exit(conflicts.length > 0 ? 1 : 0);
+  }
+
+  if (OPTIONS?.check) {
+    ConsoleOutput.error('Content types defined in code differ from the database.');
+    process.exit(1);
+  }
+
+  ConsoleOutput.info(`Run with ${chalk.magentaBright('--apply')} to sync the content types.`);
+  process.exit(0);
+}
+
 (async () => {
   switch (COMMAND) {
+    case 'sync':
+      return syncContentTypes();
     case 'export':
     default:
       return exportContentTypes();
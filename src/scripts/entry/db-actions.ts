@@ -3,10 +3,16 @@ import { connectDatabaseDriver } from '@server/drivers/database.driver';
 import { exportContent, importContent } from '@server/business-logic/server.bl';
 import ConsoleOutput from '@scripts/util/console-output.util';
 import PathUtil from '@scripts/util/path.util';
-import {DbAction, ExportAction, GenerateApiKeyAction, ImportAction} from "@scripts/interfaces/db-actions";
-import { nanoid } from 'nanoid';
-import {getEnhancedRepository} from "@server/common/orm-helpers";
-import AccessToken from "@server/models/access-token";
+import fs from 'fs-extra';
+import {
+  DbAction,
+  ExportAction,
+  GenerateApiKeyAction,
+  GenerateTypingsAction,
+  ImportAction
+} from "@scripts/interfaces/db-actions";
+import { generateAccessToken } from '@server/business-logic/access-token.bl';
+import { getContentTypings } from '@server/common/content-type-typings';
 
 declare const action: DbAction;
 
@@ -27,18 +33,30 @@ const handleExport = async () => {
 
 const handleGenerateApiKey = async () => {
   const { payload } = action as GenerateApiKeyAction;
-  const token = nanoid();
 
-  const accessTokenRepository = getEnhancedRepository(AccessToken);
-
-  await accessTokenRepository.save({
+  const { token } = await generateAccessToken({
     name: payload.name,
-    token,
+    scopes: {
+      contentTypes: payload.contentTypes,
+      slugPaths: payload.slugPaths,
+      drafts: payload.drafts,
+      versions: payload.versions,
+      search: payload.search,
+    },
+    expiresAt: payload.expiresAt,
   });
 
   process.stdout.write(`GENERATED_KEY="${token}"\n`);
 };
 
+const handleGenerateTypings = async () => {
+  const { payload } = action as GenerateTypingsAction;
+  const file = PathUtil.processRoot(payload.file);
+
+  await fs.outputFile(file, await getContentTypings(payload.contentTypes));
+  ConsoleOutput.info(`Content type definitions generated in ${file}.`);
+};
+
 (async () => {
   require('../../index');
 
@@ -54,6 +72,9 @@ const handleGenerateApiKey = async () => {
     case 'generateApiKey':
       await handleGenerateApiKey();
       break;
+    case 'generateTypings':
+      await handleGenerateTypings();
+      break;
     default:
       ConsoleOutput.info('Not action specified.');
   }
@@ -0,0 +1,9 @@
+/**
+ * Options of `burdy ct` commands, passed to the build via webpack, so they have to be JSON serializable.
+ */
+export type ContentTypesOptions = {
+  // Sync
+  apply?: boolean;
+  check?: boolean;
+  migrate?: boolean;
+};
@@ -21,9 +21,21 @@ export type ExportAction = AbstractDbAction<'export', {
 
 export type GenerateApiKeyAction = AbstractDbAction<'generateApiKey', {
   name: string;
+  contentTypes?: string[];
+  slugPaths?: string[];
+  drafts?: boolean;
+  versions?: boolean;
+  search?: boolean;
+  expiresAt?: string;
+}>;
+
+export type GenerateTypingsAction = AbstractDbAction<'generateTypings', {
+  file: string;
+  contentTypes?: string[];
 }>;
 
 export type DbAction =
   ImportAction |
   ExportAction |
-  GenerateApiKeyAction;
+  GenerateApiKeyAction |
+  GenerateTypingsAction;
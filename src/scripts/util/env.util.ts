@@ -12,6 +12,24 @@ const envDefaults = {
   ADMIN_PORT: '4001',
   PUBLIC_API_URL: '/api',
   REQ_LIMIT: '128mb',
+  POST_SCHEDULER_INTERVAL: '60',
+  SESSION_CLEANUP_INTERVAL: '3600',
+  IMAGE_SRCSET_WIDTHS: '320,640,960,1280,1920',
+  IMAGE_TRANSFORM_MAX_SIZE: '4096',
+  SEARCH_MAX_RESULTS: '1000',
+  TWO_FACTOR_ISSUER: 'Burdy',
+  MAIL_PORT: '587',
+  OIDC_SCOPES: 'openid email profile',
+  OIDC_GROUPS_CLAIM: 'groups',
+  OIDC_LABEL: 'Log in with SSO',
+  LOGIN_MAX_ATTEMPTS: '5',
+  LOGIN_IP_MAX_ATTEMPTS: '20',
+  FORGOT_MAX_ATTEMPTS: '3',
+  FORGOT_IP_MAX_ATTEMPTS: '10',
+  LOGIN_ATTEMPTS_WINDOW: '15',
+  LOGIN_LOCKOUT_DURATION: '15',
+  LOGIN_LOCKOUT_MAX_DURATION: '1440',
+  HSTS_MAX_AGE: '15552000',
   SIGNED_COOKIE: 'eK0hL1oG1bL8yL4z'
 }
 
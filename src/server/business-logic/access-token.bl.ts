@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+import _ from 'lodash';
+import { nanoid } from 'nanoid';
+import { Brackets, EntityManager, getManager, IsNull, SelectQueryBuilder } from 'typeorm';
+import AccessToken from '@server/models/access-token';
+import ContentType from '@server/models/content-type.model';
+import BadRequestError from '@server/errors/bad-request-error';
+import ForbiddenError from '@server/errors/forbidden-error';
+import UnauthorizedError from '@server/errors/unauthorized-error';
+import { IAccessToken, IAccessTokenScopes } from '@shared/interfaces/model';
+import logger from '@shared/features/logger';
+
+export type AccessTokenScope = 'drafts' | 'versions' | 'search';
+
+export interface IAccessTokenParams {
+  name?: string;
+  scopes?: IAccessTokenScopes;
+  expiresAt?: Date | string | null;
+}
+
+// Tokens generated before scopes existed keep their unrestricted access
+export const FULL_ACCESS_SCOPES: IAccessTokenScopes = {
+  contentTypes: [],
+  slugPaths: [],
+  drafts: true,
+  versions: true,
+  search: true,
+};
+
+const LAST_USED_INTERVAL = 60 * 1000;
+const PREVIEW_LENGTH = 4;
+
+export const hashAccessToken = (token: string) =>
+  crypto.createHash('sha256').update(`${token}`).digest('hex');
+
+const getTokenPreview = (token: string) => token.slice(-PREVIEW_LENGTH);
+
+export const normalizeSlugPath = (slugPath: string) =>
+  `${slugPath ?? ''}`.trim().toLowerCase().replace(/^\/+|\/+$/g, '');
+
+export const toStringList = (value: any, normalize: (item: string) => string) =>
+  _.uniq(
+    (Array.isArray(value) ? value : `${value ?? ''}`.split(','))
+      .map((item) => normalize(`${item ?? ''}`))
+      .filter((item) => item.length > 0)
+  );
+
+/**
+ * Empty content type and slug path lists do not restrict the token, drafts and versions have to be
+ * granted explicitly.
+ */
+export const normalizeScopes = (scopes?: any): IAccessTokenScopes => ({
+  contentTypes: toStringList(scopes?.contentTypes, (item) => item.trim()),
+  slugPaths: toStringList(scopes?.slugPaths, normalizeSlugPath),
+  drafts: Boolean(scopes?.drafts),
+  versions: Boolean(scopes?.versions),
+  search: Boolean(scopes?.search ?? true),
+});
+
+export const getAccessTokenScopes = (accessToken?: IAccessToken): IAccessTokenScopes =>
+  accessToken?.scopes ? normalizeScopes(accessToken.scopes) : FULL_ACCESS_SCOPES;
+
+const parseExpiresAt = (expiresAt?: Date | string | null) => {
+  if (!expiresAt) return null;
+  const date = new Date(expiresAt);
+  if (Number.isNaN(date.getTime())) throw new BadRequestError('invalid_expires_at');
+  return date;
+};
+
+export const isAccessTokenExpired = (accessToken: IAccessToken, date = new Date()) =>
+  !!accessToken?.expiresAt && new Date(accessToken.expiresAt).getTime() <= date.getTime();
+
+export const mapAccessToken = (accessToken: IAccessToken): IAccessToken => ({
+  ..._.omit(accessToken, ['token']),
+  scopes: getAccessTokenScopes(accessToken),
+});
+
+/**
+ * Stores only the hash of a new token. The plain token is part of the returned object and can not
+ * be retrieved again.
+ */
+export const generateAccessToken = async (
+  params: IAccessTokenParams,
+  entityManager: EntityManager = getManager()
+): Promise<IAccessToken> => {
+  const token = nanoid();
+  const accessToken = await entityManager.getRepository(AccessToken).save({
+    name: params?.name,
+    token: hashAccessToken(token),
+    tokenPreview: getTokenPreview(token),
+    scopes: normalizeScopes(params?.scopes),
+    expiresAt: parseExpiresAt(params?.expiresAt),
+  });
+
+  return {
+    ...mapAccessToken(accessToken),
+    token,
+  };
+};
+
+export const updateAccessToken = async (
+  id: number,
+  params: IAccessTokenParams,
+  entityManager: EntityManager = getManager()
+): Promise<IAccessToken> => {
+  const accessTokenRepository = entityManager.getRepository(AccessToken);
+  const accessToken = await accessTokenRepository.findOne(id);
+  if (!accessToken) throw new BadRequestError('invalid_access_token');
+
+  if (params?.name !== undefined) accessToken.name = params.name;
+  if (params?.scopes !== undefined) accessToken.scopes = normalizeScopes(params.scopes);
+  if (params?.expiresAt !== undefined) accessToken.expiresAt = parseExpiresAt(params.expiresAt);
+
+  return mapAccessToken(await accessTokenRepository.save(accessToken));
+};
+
+/**
+ * Replaces the token while keeping its name, scopes and expiry, the previous token stops working
+ * immediately.
+ */
+export const rotateAccessToken = async (
+  id: number,
+  entityManager: EntityManager = getManager()
+): Promise<IAccessToken> => {
+  const accessTokenRepository = entityManager.getRepository(AccessToken);
+  const accessToken = await accessTokenRepository.findOne(id);
+  if (!accessToken) throw new BadRequestError('invalid_access_token');
+
+  const token = nanoid();
+  accessToken.token = hashAccessToken(token);
+  accessToken.tokenPreview = getTokenPreview(token);
+  accessToken.lastUsedAt = null;
+  // Rotating an untouched legacy token pins down its unrestricted scopes
+  accessToken.scopes = getAccessTokenScopes(accessToken);
+
+  return {
+    ...mapAccessToken(await accessTokenRepository.save(accessToken)),
+    token,
+  };
+};
+
+/**
+ * Hashes tokens stored in plain text before tokens were hashed at rest.
+ */
+export const hashLegacyAccessTokens = async (entityManager: EntityManager = getManager()) => {
+  const accessTokenRepository = entityManager.getRepository(AccessToken);
+  const legacyTokens = await accessTokenRepository
+    .createQueryBuilder('accessToken')
+    .addSelect('accessToken.token')
+    .where({ tokenPreview: IsNull() })
+    .getMany();
+  if (legacyTokens.length === 0) return;
+
+  await accessTokenRepository.save(
+    legacyTokens.map((accessToken) => ({
+      ...accessToken,
+      token: hashAccessToken(accessToken.token),
+      tokenPreview: getTokenPreview(accessToken.token),
+    }))
+  );
+  logger.info(`${legacyTokens.length} access token(s) hashed.`);
+};
+
+const touchAccessToken = async (entityManager: EntityManager, accessToken: AccessToken) => {
+  const now = new Date();
+  if (
+    accessToken.lastUsedAt &&
+    now.getTime() - new Date(accessToken.lastUsedAt).getTime() < LAST_USED_INTERVAL
+  ) {
+    return;
+  }
+
+  try {
+    await entityManager.getRepository(AccessToken).update(accessToken.id, { lastUsedAt: now });
+    accessToken.lastUsedAt = now;
+  } catch (err) {
+    logger.error({
+      type: 'access-token',
+      message: 'Unable to update last usage of access token',
+      data: err.toString(),
+    });
+  }
+};
+
+/**
+ * Finds the token by its hash and rejects expired ones. Last usage is tracked at most once a minute.
+ */
+export const findValidAccessToken = async (
+  token: string,
+  entityManager: EntityManager = getManager()
+): Promise<AccessToken> => {
+  if (!token) throw new UnauthorizedError('unauthorized');
+
+  const accessToken = await entityManager.getRepository(AccessToken).findOne({
+    where: {
+      token: hashAccessToken(token),
+    },
+  });
+  if (!accessToken || isAccessTokenExpired(accessToken)) throw new UnauthorizedError('unauthorized');
+
+  await touchAccessToken(entityManager, accessToken);
+  return accessToken;
+};
+
+export const hasAccessTokenScope = (accessToken: IAccessToken, scope: AccessTokenScope) =>
+  !accessToken || Boolean(getAccessTokenScopes(accessToken)[scope]);
+
+export const assertAccessTokenScope = (accessToken: IAccessToken, scope: AccessTokenScope) => {
+  if (!hasAccessTokenScope(accessToken, scope)) {
+    throw new ForbiddenError('insufficient_scope', { scope });
+  }
+};
+
+export const matchesSlugPath = (slugPath: string, prefixes: string[]) => {
+  const normalized = normalizeSlugPath(slugPath);
+  return prefixes.some((prefix) => normalized === prefix || normalized.startsWith(`${prefix}/`));
+};
+
+/**
+ * Checks the post against content type and slug path restrictions of the token. Posts without a
+ * token, e.g. served by the public API, are always accessible.
+ */
+export const canAccessPost = (
+  accessToken: IAccessToken,
+  post: { slugPath?: string; contentType?: { name?: string } }
+) => {
+  if (!accessToken || !post) return true;
+  const { contentTypes, slugPaths } = getAccessTokenScopes(accessToken);
+
+  if (contentTypes.length > 0 && !contentTypes.includes(post?.contentType?.name)) return false;
+  return !(slugPaths.length > 0 && !matchesSlugPath(post?.slugPath, slugPaths));
+};
+
+// `!` escapes wildcards the same way in every supported database, unlike a backslash
+export const escapeLike = (value: string) => value.replace(/[!%_]/g, (char) => `!${char}`);
+
+/**
+ * Narrows a post query down to content the token is allowed to read.
+ */
+export const applyAccessTokenScopes = <T>(
+  qb: SelectQueryBuilder<T>,
+  accessToken: IAccessToken,
+  alias = 'post'
+) => {
+  if (!accessToken) return qb;
+  const { contentTypes, slugPaths } = getAccessTokenScopes(accessToken);
+
+  if (contentTypes.length > 0) {
+    const subQuery = qb
+      .subQuery()
+      .select('scopeContentType.id')
+      .from(ContentType, 'scopeContentType')
+      .where('scopeContentType.name IN (:...scopeContentTypes)')
+      .getQuery();
+    qb.andWhere(`${alias}.contentTypeId IN ${subQuery}`, { scopeContentTypes: contentTypes });
+  }
+
+  if (slugPaths.length > 0) {
+    qb.andWhere(
+      new Brackets((subQb) => {
+        slugPaths.forEach((slugPath, index) => {
+          subQb
+            .orWhere(`${alias}.slugPath = :scopeSlugPath${index}`, {
+              [`scopeSlugPath${index}`]: slugPath,
+            })
+            .orWhere(`${alias}.slugPath LIKE :scopeSlugPathPrefix${index} ESCAPE '!'`, {
+              [`scopeSlugPathPrefix${index}`]: `${escapeLike(slugPath)}/%`,
+            });
+        });
+      })
+    );
+  }
+
+  return qb;
+};
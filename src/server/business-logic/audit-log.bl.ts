@@ -0,0 +1,356 @@
+import express from 'express';
+import _ from 'lodash';
+import { EntityManager, EntityTarget, getManager, getRepository, In, LessThan } from 'typeorm';
+import AuditLog from '@server/models/audit-log.model';
+import AccessToken from '@server/models/access-token';
+import Asset from '@server/models/asset.model';
+import Backup from '@server/models/backup.model';
+import ContentType from '@server/models/content-type.model';
+import Group from '@server/models/group.model';
+import PersonalAccessToken from '@server/models/personal-access-token.model';
+import Post from '@server/models/post.model';
+import SiteSettings from '@server/models/site-settings.model';
+import Tag from '@server/models/tag.model';
+import User from '@server/models/user.model';
+import Webhook from '@server/models/webhook.model';
+import { verify } from '@server/common/jwt';
+import { extractAuthToken } from '@server/middleware/auth.middleware';
+import Hooks from '@shared/features/hooks';
+import logger from '@shared/features/logger';
+import { AUDIT_SETTINGS_KEY, parseAuditSettings } from '@shared/features/audit';
+import { AuditAction } from '@shared/interfaces/model';
+
+export interface IAuditResource {
+  type: string;
+  // First segment of the API path, e.g. `posts` for `/posts/:id/content`
+  path: string;
+  model: EntityTarget<any>;
+  // Column targets are identified by, defaults to `id`
+  key?: string;
+  relations?: string[];
+  summarize: (entity: any) => any;
+  // Overrides the target taken from the path or ids in the body, `undefined` falls back to them
+  getTargetIds?: (req: express.Request, segments: string[]) => string[] | undefined;
+  // Paths of routes which do not change anything, ids may be given as `:id`
+  ignore?: string[];
+}
+
+export interface IAuditContext {
+  resource: IAuditResource;
+  targetIds: string[];
+  before?: any[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_CLEANUP_INTERVAL = 60 * 60 * 1000;
+const MAX_TARGETS = 50;
+const MAX_VALUE_LENGTH = 1000;
+
+let timer: NodeJS.Timeout;
+
+const truncate = (value: any) =>
+  typeof value === 'string' && value.length > MAX_VALUE_LENGTH
+    ? `${value.slice(0, MAX_VALUE_LENGTH)}...`
+    : value;
+
+const getFieldNames = (fields: any) => {
+  try {
+    const parsed = typeof fields === 'string' ? JSON.parse(fields) : fields;
+    return (Array.isArray(parsed) ? parsed : []).map((field) => field?.name);
+  } catch {
+    return [];
+  }
+};
+
+const summarizeUser = (user: User) => ({
+  ..._.pick(user, ['id', 'email', 'firstName', 'lastName', 'status']),
+  groups: user.groups?.map((group) => group.name),
+});
+
+const getSessionUserIds = (req: express.Request) => {
+  try {
+    const { userId } = verify(extractAuthToken(req));
+    return userId ? [`${userId}`] : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Summaries only hold fields worth comparing, secrets and content are never stored.
+ */
+export const DefaultAuditResources: IAuditResource[] = [
+  {
+    type: 'posts',
+    path: 'posts',
+    model: Post,
+    relations: ['contentType', 'tags'],
+    ignore: ['/posts/compile'],
+    summarize: (post: Post) => ({
+      ..._.pick(post, ['id', 'name', 'slugPath', 'type', 'status', 'publishedFrom', 'publishedUntil']),
+      contentType: post.contentType?.name,
+      tags: post.tags?.map((tag) => tag.slugPath),
+    }),
+  },
+  {
+    type: 'assets',
+    path: 'assets',
+    model: Asset,
+    summarize: (asset: Asset) => _.pick(asset, ['id', 'name', 'npath', 'mimeType', 'contentLength']),
+  },
+  {
+    type: 'content-types',
+    path: 'content-types',
+    model: ContentType,
+    ignore: ['/content-types/:id/migration-plan'],
+    summarize: (contentType: ContentType) => ({
+      ..._.pick(contentType, ['id', 'name', 'type']),
+      fields: getFieldNames(contentType.fields),
+    }),
+  },
+  {
+    type: 'tags',
+    path: 'tags',
+    model: Tag,
+    summarize: (tag: Tag) => _.pick(tag, ['id', 'name', 'slugPath']),
+  },
+  {
+    type: 'users',
+    path: 'users',
+    model: User,
+    relations: ['groups'],
+    summarize: summarizeUser,
+  },
+  {
+    type: 'users',
+    path: 'profile',
+    model: User,
+    relations: ['groups'],
+    summarize: summarizeUser,
+    getTargetIds: getSessionUserIds,
+  },
+  {
+    type: 'groups',
+    path: 'groups',
+    model: Group,
+    summarize: (group: Group) =>
+      _.pick(group, ['id', 'name', 'description', 'permissions', 'contentScopes', 'requireTwoFactor']),
+  },
+  {
+    type: 'settings',
+    path: 'settings',
+    model: SiteSettings,
+    key: 'key',
+    getTargetIds: (req) => (typeof req.body?.key === 'string' ? [req.body.key] : []),
+    summarize: (settings: SiteSettings) => ({
+      key: settings.key,
+      value: truncate(settings.value),
+    }),
+  },
+  {
+    type: 'access-tokens',
+    path: 'access-tokens',
+    model: AccessToken,
+    summarize: (accessToken: AccessToken) =>
+      _.pick(accessToken, ['id', 'name', 'tokenPreview', 'scopes', 'expiresAt']),
+  },
+  {
+    type: 'personal-access-tokens',
+    path: 'personal-access-tokens',
+    model: PersonalAccessToken,
+    summarize: (personalAccessToken: PersonalAccessToken) =>
+      _.pick(personalAccessToken, ['id', 'name', 'tokenPreview', 'expiresAt']),
+  },
+  {
+    type: 'webhooks',
+    path: 'webhooks',
+    model: Webhook,
+    // Deliveries are not webhooks
+    getTargetIds: (req, segments) => (segments[1] === 'deliveries' ? [] : undefined),
+    summarize: (webhook: Webhook) => _.pick(webhook, ['id', 'name', 'url', 'events', 'enabled']),
+  },
+  {
+    type: 'backups',
+    path: 'backups',
+    model: Backup,
+    summarize: (backup: Backup) => _.pick(backup, ['id', 'name', 'state', 'includes']),
+  },
+];
+
+export const getAuditResources = async (): Promise<IAuditResource[]> =>
+  Hooks.applyFilters('audit/resources', DefaultAuditResources);
+
+const getSegments = (path: string) => (path || '').split('/').filter((segment) => segment.length > 0);
+
+const isId = (segment: any) => /^\d+$/.test(`${segment}`);
+
+const getAuditPath = (segments: string[]) =>
+  `/${segments.map((segment) => (isId(segment) ? ':id' : segment)).join('/')}`;
+
+export const getAuditRoute = (req: express.Request) => `${req.method} ${getAuditPath(getSegments(req.path))}`;
+
+const getAuditAction = (method: string): AuditAction => {
+  if (method === 'POST') return 'create';
+  if (method === 'DELETE') return 'delete';
+  return 'update';
+};
+
+/**
+ * Targets come from the first id in the path, e.g. `/users/:id/sessions`, or from ids in the body
+ * of bulk routes.
+ */
+const getTargetIds = (resource: IAuditResource, req: express.Request, segments: string[]) => {
+  const custom = resource.getTargetIds?.(req, segments);
+  if (custom) return custom.slice(0, MAX_TARGETS);
+
+  const id = segments.slice(1).find(isId);
+  if (id) return [id];
+
+  const ids = Array.isArray(req.body) ? req.body : req.body?.ids;
+  return (Array.isArray(ids) ? ids : [])
+    .filter(isId)
+    .map((item) => `${item}`)
+    .slice(0, MAX_TARGETS);
+};
+
+const getResponseIds = (resource: IAuditResource, body: any) => {
+  let parsed = body;
+  if (typeof body === 'string') {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return [];
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Buffer.isBuffer(parsed)) return [];
+
+  return (Array.isArray(parsed) ? parsed : [parsed])
+    .map((item) => item?.[resource.key ?? 'id'])
+    .filter((id) => id !== undefined && id !== null)
+    .map((id) => `${id}`)
+    .slice(0, MAX_TARGETS);
+};
+
+const loadSummaries = async (
+  resource: IAuditResource,
+  ids: string[],
+  entityManager: EntityManager
+) => {
+  if (ids.length === 0) return undefined;
+
+  const entities = await entityManager.getRepository(resource.model).find({
+    relations: resource.relations,
+    where: {
+      [resource.key ?? 'id']: In(ids),
+    },
+  });
+  return entities.length > 0 ? entities.map(resource.summarize) : undefined;
+};
+
+/**
+ * Matches the request to an audited resource and takes a summary of its targets before the change.
+ */
+export const createAuditContext = async (
+  req: express.Request,
+  entityManager: EntityManager = getManager()
+): Promise<IAuditContext | undefined> => {
+  const segments = getSegments(req.path);
+  const resources = await getAuditResources();
+  const resource = resources.find((item) => item.path === segments[0]);
+  const ignore = resource?.ignore ?? [];
+  if (!resource || ignore.includes(req.path) || ignore.includes(getAuditPath(segments))) return undefined;
+
+  const targetIds = getTargetIds(resource, req, segments);
+  return {
+    resource,
+    targetIds,
+    before: await loadSummaries(resource, targetIds, entityManager),
+  };
+};
+
+/**
+ * Records successful mutations of authenticated users. Created targets are identified by the
+ * response body.
+ */
+export const recordAuditLog = async (
+  req: express.Request,
+  res: express.Response,
+  { resource, targetIds, before }: IAuditContext,
+  responseBody?: any,
+  entityManager: EntityManager = getManager()
+) => {
+  const user = req.data?.user;
+  if (!user || res.statusCode >= 400) return;
+
+  const ids = targetIds.length > 0 ? targetIds : getResponseIds(resource, responseBody);
+  const auditLogRepository = entityManager.getRepository(AuditLog);
+
+  const auditLog = await Hooks.applyFilters(
+    'audit/record',
+    auditLogRepository.create({
+      action: getAuditAction(req.method),
+      route: getAuditRoute(req),
+      targetType: resource.type,
+      targetIds: ids.length > 0 ? ids : null,
+      before,
+      after: await loadSummaries(resource, ids, entityManager),
+      actor: user,
+      actorEmail: user.email,
+      ip: req.ip,
+      statusCode: res.statusCode,
+    }),
+    req
+  );
+  if (!auditLog) return;
+
+  await auditLogRepository.save(auditLog);
+  await Hooks.doAction('audit/postRecord', auditLog);
+};
+
+export const getAuditSettings = async (entityManager?: EntityManager) => {
+  const settings = await (entityManager ?? getManager())
+    .getRepository(SiteSettings)
+    .findOne({
+      where: {
+        key: AUDIT_SETTINGS_KEY,
+      },
+    });
+  return parseAuditSettings(settings?.value);
+};
+
+export const removeExpiredAuditLogs = async () => {
+  const { retentionDays } = await getAuditSettings();
+  if (!retentionDays) return 0;
+
+  const result = await getRepository(AuditLog).delete({
+    createdAt: LessThan(new Date(Date.now() - retentionDays * DAY)),
+  });
+  return result?.affected ?? 0;
+};
+
+export const startAuditCleanup = () => {
+  if (timer) return;
+
+  const tick = async () => {
+    try {
+      await removeExpiredAuditLogs();
+    } catch (err) {
+      logger.error({
+        type: 'audit',
+        message: 'error removing expired audit logs',
+        data: err?.toString(),
+      });
+    }
+  };
+
+  timer = setInterval(tick, DEFAULT_CLEANUP_INTERVAL);
+  timer.unref?.();
+  tick();
+};
+
+export const stopAuditCleanup = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+};
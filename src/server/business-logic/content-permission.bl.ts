@@ -0,0 +1,207 @@
+import _ from 'lodash';
+import { Brackets, EntityManager, getManager, SelectQueryBuilder } from 'typeorm';
+import Post from '@server/models/post.model';
+import User from '@server/models/user.model';
+import ContentType from '@server/models/content-type.model';
+import ForbiddenError from '@server/errors/forbidden-error';
+import Hooks from '@shared/features/hooks';
+import { IGroupContentScopes } from '@shared/interfaces/model';
+import {
+  escapeLike,
+  matchesSlugPath,
+  normalizeSlugPath,
+  toStringList,
+} from '@server/business-logic/access-token.bl';
+
+export type SitesAction = 'list' | 'create' | 'update' | 'publish' | 'delete';
+
+type IScopedPost = {
+  id?: number;
+  type?: string;
+  slugPath?: string;
+  contentType?: { name?: string };
+};
+
+interface IContentGrantOptions {
+  // Ancestors of granted subtrees are listed as well, so the tree can be navigated down to them
+  navigable?: boolean;
+}
+
+/**
+ * Empty lists do not restrict the group, same as with content API tokens.
+ */
+export const normalizeContentScopes = (scopes?: any): IGroupContentScopes => ({
+  contentTypes: toStringList(scopes?.contentTypes, (item) => item.trim()),
+  slugPaths: toStringList(scopes?.slugPaths, normalizeSlugPath),
+});
+
+const isUnrestricted = ({ contentTypes, slugPaths }: IGroupContentScopes) =>
+  contentTypes.length === 0 && slugPaths.length === 0;
+
+const getAncestors = (slugPaths: string[]) =>
+  _.uniq(
+    slugPaths.flatMap((slugPath) => {
+      const components = slugPath.split('/');
+      return components.slice(0, -1).map((_component, index) => components.slice(0, index + 1).join('/'));
+    })
+  );
+
+/**
+ * Returns scopes of all groups granting `sites_<action>` to the user, or `undefined` when the user
+ * may perform the action on any post. Permissions added through the `auth/permissions` filter are
+ * not bound to a group and stay unrestricted.
+ */
+export const getContentGrants = async (
+  user: User,
+  action: SitesAction
+): Promise<IGroupContentScopes[] | undefined> => {
+  const permission = `sites_${action}`;
+  const groups = user?.groups ?? [];
+  const permissions: string[] = await Hooks.applyFilters(
+    'auth/permissions',
+    _.flatMap(groups, 'permissions'),
+    user
+  );
+
+  if (permissions.includes('all')) return undefined;
+  if (!permissions.includes(permission)) return [];
+
+  const granting = groups.filter((group) => (group.permissions ?? []).includes(permission));
+  const scopes = granting.map((group) => normalizeContentScopes(group.contentScopes));
+  if (scopes.length === 0 || scopes.some(isUnrestricted)) return undefined;
+  return scopes;
+};
+
+const matchesScopes = (
+  { contentTypes, slugPaths }: IGroupContentScopes,
+  action: SitesAction,
+  post: IScopedPost
+) => {
+  // Folders have no content type, they can be listed but only managed by groups without the restriction
+  if (contentTypes.length > 0) {
+    const isListedFolder = action === 'list' && post?.type === 'folder';
+    if (!isListedFolder && !contentTypes.includes(post?.contentType?.name)) return false;
+  }
+  return slugPaths.length === 0 || matchesSlugPath(post?.slugPath, slugPaths);
+};
+
+export const hasContentGrant = (
+  grants: IGroupContentScopes[] | undefined,
+  action: SitesAction,
+  post: IScopedPost
+) => !grants || grants.some((scopes) => matchesScopes(scopes, action, post));
+
+/**
+ * Posts need their content type loaded.
+ */
+export const assertContentPermission = async (
+  user: User,
+  action: SitesAction,
+  posts: IScopedPost[]
+) => {
+  const grants = await getContentGrants(user, action);
+  const denied = (posts ?? []).filter((post) => !hasContentGrant(grants, action, post));
+  if (denied.length > 0) {
+    throw new ForbiddenError('forbidden', {
+      action,
+      ids: denied.map((post) => post?.id).filter((id) => id !== undefined),
+    });
+  }
+};
+
+/**
+ * Narrows a post query down to posts the grants allow the action on.
+ */
+export const applyContentGrants = <T>(
+  qb: SelectQueryBuilder<T>,
+  grants: IGroupContentScopes[] | undefined,
+  action: SitesAction,
+  alias = 'post',
+  options?: IContentGrantOptions
+) => {
+  if (!grants) return qb;
+  if (grants.length === 0) return qb.andWhere('1 = 0');
+
+  qb.andWhere(
+    new Brackets((grantsQb) => {
+      grants.forEach(({ contentTypes, slugPaths }, grantIndex) => {
+        grantsQb.orWhere(
+          new Brackets((scopeQb) => {
+            scopeQb.where('1 = 1');
+
+            if (contentTypes.length > 0) {
+              const subQuery = qb
+                .subQuery()
+                .select('grantContentType.id')
+                .from(ContentType, 'grantContentType')
+                .where(`grantContentType.name IN (:...grantContentTypes${grantIndex})`)
+                .getQuery();
+              scopeQb.andWhere(
+                new Brackets((contentTypeQb) => {
+                  contentTypeQb.where(`${alias}.contentTypeId IN ${subQuery}`, {
+                    [`grantContentTypes${grantIndex}`]: contentTypes,
+                  });
+                  if (action === 'list') {
+                    contentTypeQb.orWhere(`${alias}.type = :grantFolderType`, { grantFolderType: 'folder' });
+                  }
+                })
+              );
+            }
+
+            if (slugPaths.length > 0) {
+              const ancestors = options?.navigable ? getAncestors(slugPaths) : [];
+              scopeQb.andWhere(
+                new Brackets((slugPathQb) => {
+                  slugPaths.forEach((slugPath, index) => {
+                    const key = `grantSlugPath${grantIndex}_${index}`;
+                    slugPathQb
+                      .orWhere(`${alias}.slugPath = :${key}`, { [key]: slugPath })
+                      .orWhere(`${alias}.slugPath LIKE :${key}Prefix ESCAPE '!'`, {
+                        [`${key}Prefix`]: `${escapeLike(slugPath)}/%`,
+                      });
+                  });
+                  if (ancestors.length > 0) {
+                    slugPathQb.orWhere(`${alias}.slugPath IN (:...grantAncestors${grantIndex})`, {
+                      [`grantAncestors${grantIndex}`]: ancestors,
+                    });
+                  }
+                })
+              );
+            }
+          })
+        );
+      });
+    })
+  );
+
+  return qb;
+};
+
+/**
+ * Returns the posts together with all their descendants, which are removed along with them.
+ */
+export const findPostSubtrees = async (
+  posts: IScopedPost[],
+  entityManager: EntityManager = getManager()
+) => {
+  const slugPaths = _.uniq((posts ?? []).map((post) => post.slugPath).filter(Boolean));
+  if (slugPaths.length === 0) return [];
+
+  return entityManager
+    .getRepository(Post)
+    .createQueryBuilder('post')
+    .leftJoinAndSelect('post.contentType', 'contentType')
+    .where('post.type != :postVersion', { postVersion: 'post_version' })
+    .andWhere(
+      new Brackets((subQb) => {
+        slugPaths.forEach((slugPath, index) => {
+          subQb
+            .orWhere(`post.slugPath = :slugPath${index}`, { [`slugPath${index}`]: slugPath })
+            .orWhere(`post.slugPath LIKE :slugPathPrefix${index} ESCAPE '!'`, {
+              [`slugPathPrefix${index}`]: `${escapeLike(slugPath)}/%`,
+            });
+        });
+      })
+    )
+    .getMany();
+};
@@ -1,7 +1,21 @@
+import _ from 'lodash';
 import ContentType from '@server/models/content-type.model';
-import { EntityManager, In } from 'typeorm';
-import { IContentType } from '@shared/interfaces/model';
+import PostMeta from '@server/models/post-meta.model';
+import { Brackets, EntityManager, In } from 'typeorm';
+import { IContentMigrationOperation, IContentMigrationPlan, IContentType } from '@shared/interfaces/model';
 import logger from '@shared/features/logger';
+import Hooks from '@shared/features/hooks';
+import { isEmptyString } from '@admin/helpers/utility';
+import {
+  createComponentMetaMigrator,
+  createMetaMigrator,
+  embedsComponent,
+  ensureFieldUids,
+  findDuplicateFieldUids,
+  inheritFieldUids,
+  parseFields,
+  planContentTypeMigration,
+} from '@server/common/content-type-migration';
 
 export type IImportContentTypes = {
   entityManager: EntityManager;
@@ -84,3 +98,274 @@ export const exportContentTypes = async ({
   });
   return mappedContentTypes as any;
 };
+
+const MIGRATION_CHUNK_SIZE = 200;
+
+export type IMigrateContentTypePosts = {
+  entityManager: EntityManager;
+  contentType: ContentType;
+  fields: any[];
+  dryRun?: boolean;
+};
+
+const findContentMeta = (entityManager: EntityManager, contentTypeIds: number[]) =>
+  entityManager
+    .getRepository(PostMeta)
+    .createQueryBuilder('meta')
+    .innerJoin('meta.post', 'post')
+    .addSelect(['post.id', 'post.contentTypeId'])
+    .where('post.contentTypeId IN (:...contentTypeIds)', { contentTypeIds })
+    .andWhere(
+      new Brackets((subQb) => {
+        subQb
+          .where('meta.key LIKE :contentKey', { contentKey: 'content.%' })
+          .orWhere('meta.key LIKE :localesKey', { localesKey: 'locales.%' });
+      })
+    )
+    .getMany();
+
+/**
+ * Components are migrated in content of the content types embedding them.
+ */
+const prepareComponentMigration = async (entityManager: EntityManager, contentType: ContentType, fields: any[]) => {
+  const contentTypes = await entityManager.find(ContentType);
+  const components = contentTypes
+    .filter((item) => item.type === 'component')
+    .reduce((acc, component) => {
+      acc[component.name] = parseFields(component.fields);
+      return acc;
+    }, {});
+  const hosts = contentTypes.filter(
+    (item) => item.type !== 'component' && embedsComponent(item.fields, contentType.name, components)
+  );
+  if (hosts.length === 0) return { metas: [], migrate: () => undefined };
+
+  const metas = await findContentMeta(entityManager, hosts.map((host) => host.id));
+  const values = new Map(metas.map((meta) => [`${meta.post.id}:${meta.key}`, meta.value]));
+  const hostFields = new Map(hosts.map((host) => [host.id, host.fields]));
+  const migrateMeta = createComponentMetaMigrator(contentType.name, contentType.fields, fields, components);
+
+  return {
+    metas,
+    migrate: (meta: PostMeta) =>
+      migrateMeta(meta, hostFields.get(meta.post.contentTypeId), (key) => values.get(`${meta.post.id}:${key}`)),
+  };
+};
+
+/**
+ * Rewrites post meta of all posts and versions of the content type to the new fields, for components
+ * of all posts embedding them. Run it in a transaction together with saving the fields.
+ */
+export const migrateContentTypePosts = async ({
+  entityManager,
+  contentType,
+  fields,
+  dryRun,
+}: IMigrateContentTypePosts): Promise<IContentMigrationPlan> => {
+  const operations = planContentTypeMigration(contentType.fields, fields);
+  if (operations.length === 0) {
+    return { operations, affectedPosts: 0 };
+  }
+
+  const { metas, migrate } =
+    contentType.type === 'component'
+      ? await prepareComponentMigration(entityManager, contentType, fields)
+      : {
+          metas: await findContentMeta(entityManager, [contentType.id]),
+          migrate: createMetaMigrator(contentType.fields, fields),
+        };
+
+  const changes = metas
+    .map((meta) => ({ meta, result: migrate(meta) }))
+    .filter(({ result }) => result !== undefined);
+  const affectedPosts = _.uniq(changes.map(({ meta }) => meta.post.id)).length;
+  if (dryRun || changes.length === 0) return { operations, affectedPosts };
+
+  const inserts = _.uniqBy(
+    changes
+      .filter(({ result }) => result)
+      .reverse()
+      .map(({ meta, result }) => ({
+        key: result.key,
+        value: result.value,
+        post: { id: meta.post.id },
+      })),
+    (meta) => `${meta.post.id}:${meta.key}`
+  );
+
+  // Rewritten meta replaces leftovers already stored under the new keys
+  const changedIds = new Set(changes.map(({ meta }) => meta.id));
+  const insertedKeys = new Set(inserts.map((meta) => `${meta.post.id}:${meta.key}`));
+  const removed = [
+    ...changes.map(({ meta }) => meta.id),
+    ...metas
+      .filter((meta) => !changedIds.has(meta.id) && insertedKeys.has(`${meta.post.id}:${meta.key}`))
+      .map((meta) => meta.id),
+  ];
+
+  const metaRepository = entityManager.getRepository(PostMeta);
+  await _.chunk(removed, MIGRATION_CHUNK_SIZE).reduce(async (promise, ids) => {
+    await promise;
+    await metaRepository.delete({ id: In(ids) });
+  }, Promise.resolve());
+  await _.chunk(inserts, MIGRATION_CHUNK_SIZE).reduce(async (promise, chunk) => {
+    await promise;
+    await metaRepository.insert(chunk as any[]);
+  }, Promise.resolve());
+
+  logger.info(`Migrated content of ${affectedPosts} post(s) of content type ${contentType.name}.`);
+  return { operations, affectedPosts };
+};
+
+export type ContentTypeSyncAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+export interface IContentTypeSyncItem {
+  name: string;
+  type: string;
+  action: ContentTypeSyncAction;
+  reason?: 'type_mismatch' | 'duplicate_name' | 'duplicate_field_uid';
+  // Fields defined in code, with uids of the stored fields
+  fields: any[];
+  contentType?: ContentType;
+  // Dropped fields are the ones whose content would be orphaned
+  operations: IContentMigrationOperation[];
+  affectedPosts: number;
+}
+
+export interface IContentTypeSyncPlan {
+  items: IContentTypeSyncItem[];
+  // Stored content types which are not defined in code
+  untracked: string[];
+}
+
+export type IPlanContentTypeSync = {
+  entityManager: EntityManager;
+  data: any[];
+};
+
+export type IApplyContentTypeSync = {
+  entityManager: EntityManager;
+  plan: IContentTypeSyncPlan;
+  user?: any;
+  options?: {
+    // Moves content of renamed, moved and retyped fields and removes content of dropped ones
+    migrate?: boolean;
+  };
+};
+
+const toComparable = (fields: any[]) => JSON.parse(JSON.stringify(fields ?? []));
+
+export const hasContentTypeDrift = (plan: IContentTypeSyncPlan) =>
+  plan.items.some((item) => item.action !== 'unchanged');
+
+/**
+ * Compares content types defined in code with the stored ones. Content types are matched by name, the
+ * type of a stored content type is never changed.
+ */
+export const planContentTypeSync = async ({
+  entityManager,
+  data: list,
+}: IPlanContentTypeSync): Promise<IContentTypeSyncPlan> => {
+  const filtered = (list ?? []).filter(
+    (contentType) => !isEmptyString(contentType?.name) && !isEmptyString(contentType?.type)
+  );
+  const contentTypes = await entityManager.find(ContentType, { order: { id: 'ASC' } });
+  const names = filtered.map((contentType) => contentType.name);
+
+  const items = await Promise.all(
+    filtered.map(async (item, index): Promise<IContentTypeSyncItem> => {
+      const contentType = contentTypes.find((ct) => ct.name === item.name);
+      const fields = ensureFieldUids(inheritFieldUids(item.fields ?? [], contentType?.fields));
+      const base = {
+        name: item.name,
+        type: item.type,
+        fields,
+        contentType,
+        operations: [],
+        affectedPosts: 0,
+      };
+
+      if (names.indexOf(item.name) !== index) {
+        return { ...base, action: 'conflict', reason: 'duplicate_name' };
+      }
+      if (findDuplicateFieldUids(fields).length > 0) {
+        return { ...base, action: 'conflict', reason: 'duplicate_field_uid' };
+      }
+      if (!contentType) {
+        return { ...base, action: 'create' };
+      }
+      if (contentType.type !== item.type) {
+        return { ...base, action: 'conflict', reason: 'type_mismatch' };
+      }
+      if (_.isEqual(toComparable(fields), toComparable(ensureFieldUids(contentType.fields)))) {
+        return { ...base, action: 'unchanged' };
+      }
+
+      const { operations, affectedPosts } = await migrateContentTypePosts({
+        entityManager,
+        contentType,
+        fields,
+        dryRun: true,
+      });
+      return { ...base, action: 'update', operations, affectedPosts };
+    })
+  );
+
+  return {
+    items,
+    untracked: contentTypes
+      .filter((contentType) => !names.includes(contentType.name))
+      .map((contentType) => contentType.name),
+  };
+};
+
+/**
+ * Creates and updates content types of the plan, conflicts are left alone. Content of posts is kept as
+ * it is unless `migrate` is set.
+ */
+export const applyContentTypeSync = async ({
+  entityManager,
+  plan,
+  user,
+  options,
+}: IApplyContentTypeSync): Promise<ContentType[]> => {
+  const created: ContentType[] = [];
+  const updated: { contentType: ContentType; migration?: IContentMigrationPlan }[] = [];
+
+  await entityManager.transaction(async (transactionManager) => {
+    await plan.items.reduce(async (promise, item) => {
+      await promise;
+      if (item.action === 'create') {
+        const contentType = await transactionManager.save(ContentType, {
+          name: item.name,
+          type: item.type,
+          author: user,
+          fields: JSON.stringify(item.fields),
+        });
+        logger.info(`Created new content type ${item.name}.`);
+        created.push(contentType);
+      } else if (item.action === 'update') {
+        const { contentType } = item;
+        const migration = options?.migrate
+          ? await migrateContentTypePosts({ entityManager: transactionManager, contentType, fields: item.fields })
+          : undefined;
+        contentType.fields = JSON.stringify(item.fields);
+        await transactionManager.save(ContentType, contentType);
+        logger.info(`Updated content type ${item.name}.`);
+        updated.push({ contentType, migration });
+      }
+    }, Promise.resolve());
+  });
+
+  await Promise.all(created.map((contentType) => Hooks.doAction('contentType/postCreate', contentType)));
+  await Promise.all(
+    updated.map(async ({ contentType, migration }) => {
+      await Hooks.doAction('contentType/postUpdate', contentType);
+      if (migration?.affectedPosts > 0) {
+        await Hooks.doAction('contentType/postMigrate', contentType, migration);
+      }
+    })
+  );
+
+  return [...created, ...updated.map(({ contentType }) => contentType)];
+};
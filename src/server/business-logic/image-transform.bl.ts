@@ -0,0 +1,291 @@
+import sharp from 'sharp';
+import _ from 'lodash';
+import { EntityManager, getManager } from 'typeorm';
+import Asset from '@server/models/asset.model';
+import AssetMeta from '@server/models/asset-meta.model';
+import FileDriver from '@server/drivers/file.driver';
+import logger from '@shared/features/logger';
+import BadRequestError from '@server/errors/bad-request-error';
+import {
+  CROPS_META_KEY,
+  CROP_NAME_REGEX,
+  FOCAL_POINT_META_KEY,
+  ICropPreset,
+  IFocalPoint,
+  parseCrops,
+  parseFocalPoint,
+} from '@shared/features/image-focus';
+
+export const TRANSFORMABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const IMAGE_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'];
+export const IMAGE_FORMATS = ['webp', 'avif', 'jpeg', 'png'];
+
+export const DERIVATIVE_META_PREFIX = 'derivative.';
+
+// Used when no srcset widths are configured
+const DEFAULT_IMAGE_SIZES = [320, 640, 960, 1280, 1920];
+const IMAGE_QUALITIES = [30, 50, 70, 80, 90, 100];
+
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+export type ImageFormat = 'webp' | 'avif' | 'jpeg' | 'png' | 'gif';
+
+export interface IImageTransformOptions {
+  width?: number;
+  height?: number;
+  fit?: ImageFit;
+  format?: ImageFormat;
+  quality?: number;
+  crop?: string;
+}
+
+export interface IImageRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ITransformedImage {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+const toInteger = (value: any) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+export const getImageMaxSize = () => {
+  const size = Number(process.env.IMAGE_TRANSFORM_MAX_SIZE);
+  return Number.isNaN(size) || size <= 0 ? 4096 : size;
+};
+
+export const getSrcsetWidths = (): number[] =>
+  (process.env.IMAGE_SRCSET_WIDTHS ?? '')
+    .split(',')
+    .map((width) => toInteger(width.trim()))
+    .filter((width) => width > 0)
+    .sort((a, b) => a - b);
+
+/**
+ * Sizes transformed images snap to, so anonymous requests can only produce a bounded number of
+ * derived files: the srcset widths up to the maximum size, and the maximum size itself.
+ */
+export const getImageSizes = (): number[] => {
+  const maxSize = getImageMaxSize();
+  const widths = getSrcsetWidths();
+  return _.uniq([...(widths.length > 0 ? widths : DEFAULT_IMAGE_SIZES), maxSize])
+    .filter((size) => size <= maxSize)
+    .sort((a, b) => a - b);
+};
+
+// Rounds up to the closest step, values above the last step get the last one
+const snapTo = (value: number, steps: number[]) =>
+  value === undefined ? undefined : steps.find((step) => step >= value) ?? steps[steps.length - 1];
+
+export const isTransformable = (asset: Asset) =>
+  TRANSFORMABLE_MIME_TYPES.indexOf(asset?.mimeType) > -1;
+
+/**
+ * Maps `w`, `h`, `fit`, `format`, `q` and `crop` query parameters to transform options. Returns undefined
+ * when none of them is present, in which case the original file should be served. Sizes snap up to
+ * `getImageSizes` and quality up to a few steps.
+ */
+export const getImageTransformOptions = (query: any): IImageTransformOptions | undefined => {
+  const sizes = getImageSizes();
+  const options: IImageTransformOptions = {
+    width: toInteger(query?.w) > 0 ? snapTo(toInteger(query.w), sizes) : undefined,
+    height: toInteger(query?.h) > 0 ? snapTo(toInteger(query.h), sizes) : undefined,
+    fit: IMAGE_FITS.indexOf(query?.fit) > -1 ? query.fit : undefined,
+    format: IMAGE_FORMATS.indexOf(query?.format) > -1 ? query.format : undefined,
+    quality: toInteger(query?.q) > 0 ? snapTo(toInteger(query.q), IMAGE_QUALITIES) : undefined,
+    crop: CROP_NAME_REGEX.test(query?.crop ?? '') ? query.crop : undefined,
+  };
+
+  if (Object.values(options).every((value) => value === undefined)) return undefined;
+  return options;
+};
+
+const getOutputFormat = (asset: Asset, options: IImageTransformOptions): ImageFormat =>
+  options.format ?? (asset.mimeType.split('/').pop() as ImageFormat);
+
+/**
+ * Derived files live next to the original and are flat, as some drivers keep only the last
+ * segment of the key.
+ */
+export const getDerivativeName = (asset: Asset, options: IImageTransformOptions) => {
+  const components = [
+    options.crop && `c${options.crop}`,
+    options.width && `w${options.width}`,
+    options.height && `h${options.height}`,
+    (options.width || options.height) && (options.fit ?? 'cover'),
+    options.quality && `q${options.quality}`,
+  ].filter((component) => !!component);
+  return `${[asset.document, ...components].join('_')}.${getOutputFormat(asset, options)}`;
+};
+
+const getAssetMeta = (asset: Asset, key: string) =>
+  (asset?.meta || []).find((meta) => meta?.key === key)?.value;
+
+export const getAssetFocalPoint = (asset: Asset) =>
+  parseFocalPoint(getAssetMeta(asset, FOCAL_POINT_META_KEY));
+
+export const getAssetCrops = (asset: Asset) => parseCrops(getAssetMeta(asset, CROPS_META_KEY));
+
+/**
+ * Computes the part of the image to extract before resizing. A crop preset narrows the image down
+ * first, then for `cover` resizes the focal point decides which part of the region is kept instead
+ * of the center. Returns undefined when the whole image should be used.
+ */
+export const getImageRegion = (
+  width: number,
+  height: number,
+  options: IImageTransformOptions,
+  crop?: ICropPreset,
+  focalPoint?: IFocalPoint
+): IImageRegion | undefined => {
+  let region: IImageRegion = { left: 0, top: 0, width, height };
+  if (crop) {
+    const left = Math.min(Math.round(crop.x * width), width - 1);
+    const top = Math.min(Math.round(crop.y * height), height - 1);
+    region = {
+      left,
+      top,
+      width: Math.max(Math.min(Math.round(crop.width * width), width - left), 1),
+      height: Math.max(Math.min(Math.round(crop.height * height), height - top), 1),
+    };
+  }
+
+  if (focalPoint && options.width && options.height && (options.fit ?? 'cover') === 'cover') {
+    const ratio = options.width / options.height;
+    const regionWidth = Math.max(Math.min(region.width, Math.round(region.height * ratio)), 1);
+    const regionHeight = Math.max(Math.min(region.height, Math.round(regionWidth / ratio)), 1);
+    const left = Math.round(focalPoint.x * width - region.left - regionWidth / 2);
+    const top = Math.round(focalPoint.y * height - region.top - regionHeight / 2);
+    region = {
+      left: region.left + Math.min(Math.max(left, 0), region.width - regionWidth),
+      top: region.top + Math.min(Math.max(top, 0), region.height - regionHeight),
+      width: regionWidth,
+      height: regionHeight,
+    };
+  }
+
+  if (region.width === width && region.height === height) return undefined;
+  return region;
+};
+
+const readCached = async (key: string) => {
+  try {
+    return await FileDriver.getInstance().read(key);
+  } catch (err) {
+    return null;
+  }
+};
+
+const trackDerivative = async (entityManager: EntityManager, asset: Asset, name: string) => {
+  const key = `${DERIVATIVE_META_PREFIX}${name.substring(asset.document.length + 1)}`;
+  try {
+    const existing = await entityManager
+      .getRepository(AssetMeta)
+      .createQueryBuilder('meta')
+      .where('meta.assetId = :id', { id: asset.id })
+      .andWhere('meta.key = :key', { key })
+      .getOne();
+    if (!existing) {
+      await entityManager.save(AssetMeta, { asset, key, value: name });
+    }
+  } catch (err) {
+    // Parallel requests for the same variant race to insert the same key
+    logger.error({
+      type: 'assets',
+      message: `Unable to track derived file: ${name}`,
+      data: err.toString(),
+    });
+  }
+};
+
+export const transformImage = async (
+  asset: Asset,
+  options: IImageTransformOptions,
+  entityManager: EntityManager = getManager()
+): Promise<ITransformedImage> => {
+  const crop = options.crop
+    ? getAssetCrops(asset).find((preset) => preset.name === options.crop)
+    : undefined;
+  if (options.crop && !crop) throw new BadRequestError('invalid_crop');
+
+  const format = getOutputFormat(asset, options);
+  const mimeType = `image/${format}`;
+  const name = getDerivativeName(asset, options);
+
+  const cached = await readCached(name);
+  if (cached) return { buffer: cached, mimeType };
+
+  const original = await FileDriver.getInstance().read(asset.document);
+  const metadata = await sharp(original).metadata();
+  // EXIF orientations 5-8 swap the sides once the image is auto-rotated
+  const rotated = metadata.orientation >= 5;
+  const region = getImageRegion(
+    rotated ? metadata.height : metadata.width,
+    rotated ? metadata.width : metadata.height,
+    options,
+    crop,
+    getAssetFocalPoint(asset)
+  );
+
+  let image = sharp(original, { animated: asset.mimeType === 'image/gif' }).rotate();
+  if (region) {
+    image = image.extract(region);
+  }
+  if (options.width || options.height) {
+    image = image.resize({
+      width: options.width,
+      height: options.height,
+      fit: options.fit ?? 'cover',
+      withoutEnlargement: true,
+    });
+  }
+  const buffer = await image.toFormat(format, { quality: options.quality }).toBuffer();
+
+  await FileDriver.getInstance().write(name, buffer);
+  await trackDerivative(entityManager, asset, name);
+
+  return { buffer, mimeType };
+};
+
+export const findImageDerivatives = async (
+  entityManager: EntityManager,
+  assets: Asset | Asset[]
+): Promise<AssetMeta[]> => {
+  const ids = (Array.isArray(assets) ? assets : [assets])
+    .filter((asset) => asset?.id && asset?.document)
+    .map((asset) => asset.id);
+  if (ids.length === 0) return [];
+
+  return entityManager
+    .getRepository(AssetMeta)
+    .createQueryBuilder('meta')
+    .where('meta.assetId IN (:...ids)', { ids })
+    .andWhere('meta.key LIKE :prefix', { prefix: `${DERIVATIVE_META_PREFIX}%` })
+    .getMany();
+};
+
+/**
+ * Removes every derived file of the asset, should be called whenever the original, its focal point
+ * or crops change. Loaded meta of the asset is updated as well, so it can be saved afterwards.
+ */
+export const deleteImageDerivatives = async (entityManager: EntityManager, asset: Asset) => {
+  const derivatives = await findImageDerivatives(entityManager, asset);
+  if (derivatives.length > 0) {
+    await FileDriver.getInstance().delete(derivatives.map((meta) => meta.value));
+    await entityManager.delete(
+      AssetMeta,
+      derivatives.map((meta) => meta.id)
+    );
+  }
+
+  if (asset?.meta) {
+    asset.meta = asset.meta.filter((meta) => !meta?.key?.startsWith(DERIVATIVE_META_PREFIX));
+  }
+};
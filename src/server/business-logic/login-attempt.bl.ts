@@ -0,0 +1,175 @@
+import { EntityManager, getManager } from 'typeorm';
+import LoginAttempt from '@server/models/login-attempt.model';
+import User from '@server/models/user.model';
+import TooManyRequestsError from '@server/errors/too-many-requests-error';
+import Hooks from '@shared/features/hooks';
+import logger from '@shared/features/logger';
+import { LoginAttemptScope, LoginAttemptSubject } from '@shared/interfaces/model';
+
+export interface ILoginAttemptContext {
+  email?: string;
+  ip?: string;
+}
+
+interface ILoginAttemptKey {
+  subject: LoginAttemptSubject;
+  value: string;
+}
+
+const MINUTE = 60 * 1000;
+
+const getMaxAttempts = (scope: LoginAttemptScope, subject: LoginAttemptSubject) => {
+  const key = {
+    login: { email: 'LOGIN_MAX_ATTEMPTS', ip: 'LOGIN_IP_MAX_ATTEMPTS' },
+    forgot: { email: 'FORGOT_MAX_ATTEMPTS', ip: 'FORGOT_IP_MAX_ATTEMPTS' },
+  }[scope][subject];
+  return Number(process.env[key]);
+};
+
+const getMinutes = (key: string) => Number(process.env[key]) * MINUTE;
+
+const getKeys = ({ email, ip }: ILoginAttemptContext): ILoginAttemptKey[] =>
+  [
+    typeof email === 'string' && email.length > 0 && { subject: 'email', value: email.trim().toLowerCase() },
+    typeof ip === 'string' && ip.length > 0 && { subject: 'ip', value: ip },
+  ].filter(Boolean) as ILoginAttemptKey[];
+
+const isLocked = (attempt: LoginAttempt, now = Date.now()) =>
+  Boolean(attempt?.lockedUntil) && new Date(attempt.lockedUntil).getTime() > now;
+
+/**
+ * Lockout duration doubles with each consecutive lockout, up to the configured maximum.
+ */
+export const getLockoutDuration = (lockouts: number) =>
+  Math.min(
+    getMinutes('LOGIN_LOCKOUT_DURATION') * 2 ** Math.max(lockouts - 1, 0),
+    getMinutes('LOGIN_LOCKOUT_MAX_DURATION')
+  );
+
+const findAttempts = async (
+  scope: LoginAttemptScope,
+  keys: ILoginAttemptKey[],
+  entityManager: EntityManager
+) => {
+  if (keys.length === 0) return [];
+
+  const attempts = await entityManager
+    .getRepository(LoginAttempt)
+    .createQueryBuilder('loginAttempt')
+    .where('loginAttempt.scope = :scope', { scope })
+    .andWhere('loginAttempt.value IN (:...values)', { values: keys.map((key) => key.value) })
+    .getMany();
+
+  return attempts.filter((attempt) =>
+    keys.some((key) => key.subject === attempt.subject && key.value === attempt.value)
+  );
+};
+
+export const assertNotLockedOut = async (
+  scope: LoginAttemptScope,
+  context: ILoginAttemptContext,
+  entityManager: EntityManager = getManager()
+) => {
+  const now = Date.now();
+  const attempts = await findAttempts(scope, getKeys(context), entityManager);
+  const lockedUntil = Math.max(
+    0,
+    ...attempts
+      .filter((attempt) => isLocked(attempt, now))
+      .map((attempt) => new Date(attempt.lockedUntil).getTime())
+  );
+
+  if (lockedUntil > now) {
+    throw new TooManyRequestsError('too_many_attempts', {
+      retryAfter: Math.ceil((lockedUntil - now) / 1000),
+    });
+  }
+};
+
+const lockOut = async (attempt: LoginAttempt, context: ILoginAttemptContext) => {
+  logger.warn({
+    type: 'auth',
+    message: `Locked out ${attempt.scope} by ${attempt.subject} ${attempt.value}`,
+    data: {
+      scope: attempt.scope,
+      subject: attempt.subject,
+      value: attempt.value,
+      lockouts: attempt.lockouts,
+      lockedUntil: attempt.lockedUntil,
+      ip: context?.ip,
+    },
+  });
+  await Hooks.doAction('auth/lockout', attempt, context);
+};
+
+/**
+ * Counts an attempt for both the email and the IP address. Counters reset once no attempt was made
+ * within the window, consecutive lockouts are forgotten after the maximum lockout duration.
+ */
+export const registerAttempt = async (
+  scope: LoginAttemptScope,
+  context: ILoginAttemptContext,
+  entityManager: EntityManager = getManager()
+) => {
+  const now = Date.now();
+  const keys = getKeys(context);
+  const existing = await findAttempts(scope, keys, entityManager);
+
+  const locked: LoginAttempt[] = [];
+  const attempts = keys.map((key) => {
+    const attempt =
+      existing.find((item) => item.subject === key.subject && item.value === key.value) ??
+      entityManager.create(LoginAttempt, { scope, ...key, attempts: 0, lockouts: 0 });
+
+    const idle = attempt.updatedAt ? now - new Date(attempt.updatedAt).getTime() : 0;
+    if (!isLocked(attempt, now) && idle > getMinutes('LOGIN_ATTEMPTS_WINDOW')) attempt.attempts = 0;
+    if (idle > getMinutes('LOGIN_LOCKOUT_MAX_DURATION')) attempt.lockouts = 0;
+
+    attempt.attempts += 1;
+    if (attempt.attempts >= getMaxAttempts(scope, key.subject)) {
+      attempt.attempts = 0;
+      attempt.lockouts += 1;
+      attempt.lockedUntil = new Date(now + getLockoutDuration(attempt.lockouts));
+      locked.push(attempt);
+    }
+    return attempt;
+  });
+
+  await entityManager.save(attempts);
+  await Promise.all(locked.map((attempt) => lockOut(attempt, context)));
+};
+
+/**
+ * Successful login resets the counters of the email, the IP address keeps its history.
+ */
+export const clearAttempts = async (
+  scope: LoginAttemptScope,
+  email: string,
+  entityManager: EntityManager = getManager()
+) => {
+  const attempts = await findAttempts(scope, getKeys({ email }), entityManager);
+  if (attempts.length > 0) await entityManager.remove(attempts);
+};
+
+export const unlockUser = async (user: User, entityManager: EntityManager = getManager()) => {
+  const keys = getKeys({ email: user.email });
+  const attempts = [
+    ...(await findAttempts('login', keys, entityManager)),
+    ...(await findAttempts('forgot', keys, entityManager)),
+  ];
+  if (attempts.length > 0) await entityManager.remove(attempts);
+};
+
+export const mapUserLockouts = async (users: User[], entityManager: EntityManager = getManager()) => {
+  const now = Date.now();
+  const keys = users.flatMap((user) => getKeys({ email: user.email }));
+  const attempts = (await findAttempts('login', keys, entityManager)).filter((attempt) =>
+    isLocked(attempt, now)
+  );
+
+  return users.map((user) => {
+    const attempt = attempts.find((item) => item.value === user.email);
+    if (attempt) user.lockedUntil = attempt.lockedUntil;
+    return user;
+  });
+};
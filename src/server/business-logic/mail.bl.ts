@@ -0,0 +1,110 @@
+import { EntityManager, getManager } from 'typeorm';
+import { format } from 'date-fns';
+import SiteSettings from '@server/models/site-settings.model';
+import User from '@server/models/user.model';
+import UserToken from '@server/models/user-token.model';
+import Hooks from '@shared/features/hooks';
+import { sendMail } from '@server/drivers/mail.driver';
+import { getAdminUrl, getBurdyHost } from '@server/common/host';
+import {
+  DefaultMailTemplates,
+  IMailTemplate,
+  MAIL_SETTINGS_KEY,
+  parseMailSettings,
+  renderMailTemplate,
+} from '@shared/features/mail';
+
+export interface ISendTemplateMailOptions {
+  to: string;
+  variables?: any;
+  entityManager?: EntityManager;
+}
+
+export const getMailSettings = async (entityManager?: EntityManager) => {
+  const settings = await (entityManager ?? getManager())
+    .getRepository(SiteSettings)
+    .findOne({
+      where: {
+        key: MAIL_SETTINGS_KEY,
+      },
+    });
+  return parseMailSettings(settings?.value);
+};
+
+const getDefaultSender = () => `no-reply@${new URL(getBurdyHost()).hostname}`;
+
+/**
+ * Resolves the template from defaults, overrides stored in site settings and the `mail/template`
+ * filter, in that order.
+ */
+export const getMailTemplate = async (
+  name: string,
+  entityManager?: EntityManager
+): Promise<IMailTemplate> => {
+  const { templates } = await getMailSettings(entityManager);
+  const template = {
+    subject: '',
+    html: '',
+    text: '',
+    ...(DefaultMailTemplates[name] ?? {}),
+    ...(templates[name] ?? {}),
+  };
+  return Hooks.applyFilters('mail/template', template, name);
+};
+
+export const sendTemplateMail = async (
+  name: string,
+  { to, variables = {}, entityManager }: ISendTemplateMailOptions
+) => {
+  const [settings, template] = await Promise.all([
+    getMailSettings(entityManager),
+    getMailTemplate(name, entityManager),
+  ]);
+  const rendered = renderMailTemplate(template, {
+    host: getBurdyHost(),
+    adminUrl: getAdminUrl(),
+    ...variables,
+  });
+
+  await sendMail({
+    from: settings.sender ?? getDefaultSender(),
+    to,
+    ...rendered,
+  });
+};
+
+const formatExpiresAt = (token: UserToken) => format(new Date(token.expiresAt), 'PPpp');
+
+const getUserVariables = (user: User) => ({
+  user,
+  name: user.firstName || user.email,
+});
+
+export const sendPasswordResetMail = (user: User, token: UserToken) =>
+  sendTemplateMail('password-reset', {
+    to: user.email,
+    variables: {
+      ...getUserVariables(user),
+      link: getAdminUrl(`/forgot-verify/${token.token}`),
+      expiresAt: formatExpiresAt(token),
+    },
+  });
+
+export const sendInvitationMail = (user: User, token: UserToken) =>
+  sendTemplateMail('user-invitation', {
+    to: user.email,
+    variables: {
+      ...getUserVariables(user),
+      link: getAdminUrl(`/invite/${token.token}`),
+      expiresAt: formatExpiresAt(token),
+    },
+  });
+
+export const sendPasswordChangedMail = (user: User) =>
+  sendTemplateMail('password-changed', {
+    to: user.email,
+    variables: {
+      ...getUserVariables(user),
+      link: getAdminUrl('/login'),
+    },
+  });
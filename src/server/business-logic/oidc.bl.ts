@@ -0,0 +1,252 @@
+import express from 'express';
+import crypto from 'crypto';
+import _ from 'lodash';
+import { Client, generators, Issuer, UserinfoResponse } from 'openid-client';
+import { EntityManager, getManager } from 'typeorm';
+import User from '@server/models/user.model';
+import UserMeta from '@server/models/user-meta.model';
+import Group from '@server/models/group.model';
+import BadRequestError from '@server/errors/bad-request-error';
+import { getApiUrl } from '@server/common/host';
+import { getEnhancedRepository } from '@server/common/orm-helpers';
+import Hooks from '@shared/features/hooks';
+import { IOidcConfig, UserStatus } from '@shared/interfaces/model';
+
+export const OIDC_SUBJECT_META = 'oidcSubject';
+
+export interface IOidcAuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+let clientPromise: Promise<Client>;
+
+export const isOidcEnabled = () =>
+  Boolean(process.env.OIDC_ISSUER?.length > 0 && process.env.OIDC_CLIENT_ID?.length > 0);
+
+/**
+ * Password login can only be turned off while single sign-on is configured, so nobody gets locked
+ * out by a misconfiguration.
+ */
+export const isPasswordLoginEnabled = () =>
+  process.env.PASSWORD_LOGIN !== 'false' || !isOidcEnabled();
+
+export const getOidcConfig = (): IOidcConfig => ({
+  enabled: isOidcEnabled(),
+  label: process.env.OIDC_LABEL,
+  passwordLogin: isPasswordLoginEnabled(),
+});
+
+export const getOidcRedirectUri = () => getApiUrl('/oidc/callback');
+
+const splitList = (value?: string) =>
+  (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Parses `OIDC_GROUP_MAPPING`, eg. `burdy-admins=Admin,writers=Editor`, into IdP group to Burdy group
+ * name pairs.
+ */
+export const getGroupMapping = () =>
+  splitList(process.env.OIDC_GROUP_MAPPING)
+    .map((pair) => pair.split('='))
+    .filter(([claim, group]) => claim?.trim().length > 0 && group?.trim().length > 0)
+    .map(([claim, group]) => ({ claim: claim.trim(), group: group.trim() }));
+
+export const getOidcClient = () => {
+  if (!clientPromise) {
+    clientPromise = Issuer.discover(process.env.OIDC_ISSUER)
+      .then(
+        (issuer) =>
+          new issuer.Client({
+            client_id: process.env.OIDC_CLIENT_ID,
+            client_secret: process.env.OIDC_CLIENT_SECRET || undefined,
+            redirect_uris: [getOidcRedirectUri()],
+            response_types: ['code'],
+            token_endpoint_auth_method: process.env.OIDC_CLIENT_SECRET ? 'client_secret_basic' : 'none',
+          })
+      )
+      .catch((err) => {
+        // Allows retrying discovery once the provider is reachable
+        clientPromise = undefined;
+        throw err;
+      });
+  }
+  return clientPromise;
+};
+
+export const createAuthorizationRequest = async () => {
+  const client = await getOidcClient();
+  const request: IOidcAuthorizationRequest = {
+    state: generators.state(),
+    nonce: generators.nonce(),
+    codeVerifier: generators.codeVerifier(),
+  };
+
+  const url = client.authorizationUrl({
+    scope: process.env.OIDC_SCOPES,
+    state: request.state,
+    nonce: request.nonce,
+    code_challenge: generators.codeChallenge(request.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  return { url, request };
+};
+
+/**
+ * Exchanges the authorization code, validating state, nonce and PKCE verifier of the request, and
+ * returns claims of the ID token merged with the userinfo response.
+ */
+export const handleAuthorizationCallback = async (
+  req: express.Request,
+  request: IOidcAuthorizationRequest
+) => {
+  if (!request?.state || !request?.codeVerifier) throw new BadRequestError('invalid_sso_request');
+
+  const client = await getOidcClient();
+  const params = client.callbackParams(req);
+
+  let claims: UserinfoResponse;
+  try {
+    const tokenSet = await client.callback(getOidcRedirectUri(), params, {
+      state: request.state,
+      nonce: request.nonce,
+      code_verifier: request.codeVerifier,
+    });
+    claims = tokenSet.claims();
+    if (client.issuer.metadata.userinfo_endpoint && tokenSet.access_token) {
+      claims = { ...(await client.userinfo(tokenSet)), ...claims };
+    }
+  } catch (err) {
+    throw new BadRequestError('sso_failed', { error: err?.error ?? err?.message });
+  }
+
+  return claims;
+};
+
+const getClaimGroups = (claims: UserinfoResponse): string[] => {
+  const value = _.get(claims, process.env.OIDC_GROUPS_CLAIM);
+  if (Array.isArray(value)) return value.map((item) => `${item}`);
+  if (typeof value === 'string') return splitList(value);
+  return [];
+};
+
+/**
+ * Groups targeted by the mapping are managed by the identity provider and replaced on every login,
+ * other memberships are kept. New users without any mapped group get `OIDC_DEFAULT_GROUPS`.
+ */
+const resolveGroups = async (
+  user: User | undefined,
+  claims: UserinfoResponse,
+  entityManager: EntityManager
+) => {
+  const mapping = getGroupMapping();
+  const claimGroups = getClaimGroups(claims);
+  const mappedNames = _.uniq(
+    mapping.filter(({ claim }) => claimGroups.includes(claim)).map(({ group }) => group)
+  );
+  const managedNames = _.uniq(mapping.map(({ group }) => group));
+  const defaultNames = user || mappedNames.length > 0 ? [] : splitList(process.env.OIDC_DEFAULT_GROUPS);
+
+  const names = _.uniq([...managedNames, ...defaultNames]);
+  const groups = names.length > 0
+    ? await entityManager
+      .getRepository(Group)
+      .createQueryBuilder('group')
+      .where('group.name IN (:...names)', { names })
+      .getMany()
+    : [];
+
+  const keptGroups = (user?.groups || []).filter((group) => !managedNames.includes(group.name));
+  return _.uniqBy(
+    [
+      ...keptGroups,
+      ...groups.filter((group) => mappedNames.includes(group.name) || defaultNames.includes(group.name)),
+    ],
+    'id'
+  );
+};
+
+const findUser = async (subject: string, email: string, entityManager: EntityManager) => {
+  const query = () =>
+    entityManager
+      .getRepository(User)
+      .createQueryBuilder('user')
+      .leftJoinAndSelect('user.groups', 'groups')
+      .leftJoinAndSelect('user.meta', 'meta');
+
+  const meta = await entityManager
+    .getRepository(UserMeta)
+    .createQueryBuilder('meta')
+    .leftJoinAndSelect('meta.user', 'user')
+    .where('meta.key = :key', { key: OIDC_SUBJECT_META })
+    .andWhere('meta.value = :subject', { subject })
+    .getOne();
+
+  if (meta?.user) {
+    return query().where('user.id = :id', { id: meta.user.id }).getOne();
+  }
+  return query().where('user.email = :email', { email }).getOne();
+};
+
+const isLinkedTo = (user: User, subject: string) =>
+  user?.meta?.some((meta) => meta.key === OIDC_SUBJECT_META && meta.value === subject);
+
+/**
+ * Finds the user linked to the IdP subject or with the same email, provisioning a new user just in
+ * time when allowed, and synchronizes name and group memberships. Existing users are linked by email
+ * only when the IdP vouches for the address.
+ */
+export const provisionOidcUser = async (
+  claims: UserinfoResponse,
+  entityManager: EntityManager = getManager()
+) => {
+  const email = typeof claims?.email === 'string' ? claims.email.trim().toLowerCase() : undefined;
+  if (!claims?.sub || !email) throw new BadRequestError('sso_missing_email');
+  if (claims.email_verified === false) throw new BadRequestError('sso_email_not_verified');
+
+  const existing = await findUser(claims.sub, email, entityManager);
+  const linkedSubject = existing?.meta?.find((meta) => meta.key === OIDC_SUBJECT_META)?.value;
+  if (linkedSubject && linkedSubject !== claims.sub) throw new BadRequestError('sso_account_mismatch');
+  if (existing && !isLinkedTo(existing, claims.sub) && claims.email_verified !== true) {
+    throw new BadRequestError('sso_email_not_verified');
+  }
+  if (!existing && process.env.OIDC_PROVISION === 'false') throw new BadRequestError('sso_user_not_found');
+  if (existing && existing.status !== UserStatus.ACTIVE) throw new BadRequestError('inactive_user');
+
+  const groups = await resolveGroups(existing, claims, entityManager);
+
+  const userId = await entityManager.transaction(async (transactionManager) => {
+    const userRepository = getEnhancedRepository(User, transactionManager);
+    let user = existing;
+
+    if (!user) {
+      user = userRepository.create({
+        email,
+        status: UserStatus.ACTIVE,
+      });
+      // Users provisioned by the identity provider have no usable password
+      await user.setPassword(crypto.randomBytes(32).toString('hex'));
+    }
+
+    user.firstName = claims.given_name ?? user.firstName;
+    user.lastName = claims.family_name ?? user.lastName;
+    user.applyMeta({ [OIDC_SUBJECT_META]: claims.sub });
+    await transactionManager.save(user);
+
+    await userRepository.sync(user.id, 'groups', groups.map((group) => group.id));
+    return user.id;
+  });
+
+  const user = await entityManager.getRepository(User).findOne({
+    relations: ['groups', 'meta'],
+    where: { id: userId },
+  });
+
+  if (!existing) await Hooks.doAction('user/postCreate', user);
+  return user;
+};
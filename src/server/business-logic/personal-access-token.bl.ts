@@ -0,0 +1,153 @@
+import _ from 'lodash';
+import { nanoid } from 'nanoid';
+import { EntityManager, getManager, In } from 'typeorm';
+import PersonalAccessToken from '@server/models/personal-access-token.model';
+import User from '@server/models/user.model';
+import BadRequestError from '@server/errors/bad-request-error';
+import UnauthorizedError from '@server/errors/unauthorized-error';
+import { hashAccessToken } from '@server/business-logic/access-token.bl';
+import { IPersonalAccessToken, UserStatus } from '@shared/interfaces/model';
+import logger from '@shared/features/logger';
+
+export interface IPersonalAccessTokenParams {
+  name?: string;
+  expiresAt?: Date | string | null;
+}
+
+// Prefix tells personal tokens apart from content API tokens, e.g. in secret scanners
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'bpat_';
+
+const LAST_USED_INTERVAL = 60 * 1000;
+const PREVIEW_LENGTH = 4;
+const MAX_NAME_LENGTH = 255;
+
+const parseExpiresAt = (expiresAt?: Date | string | null) => {
+  if (!expiresAt) return null;
+  const date = new Date(expiresAt);
+  if (Number.isNaN(date.getTime())) throw new BadRequestError('invalid_expires_at');
+  if (date.getTime() <= Date.now()) throw new BadRequestError('invalid_expires_at');
+  return date;
+};
+
+export const isPersonalAccessTokenExpired = (
+  personalAccessToken: IPersonalAccessToken,
+  date = new Date()
+) =>
+  !!personalAccessToken?.expiresAt &&
+  new Date(personalAccessToken.expiresAt).getTime() <= date.getTime();
+
+export const mapPersonalAccessToken = (
+  personalAccessToken: IPersonalAccessToken
+): IPersonalAccessToken => _.omit(personalAccessToken, ['token', 'user']);
+
+export const listPersonalAccessTokens = async (
+  user: User,
+  entityManager: EntityManager = getManager()
+) => {
+  const personalAccessTokens = await entityManager.getRepository(PersonalAccessToken).find({
+    where: {
+      user: { id: user.id },
+    },
+    order: {
+      createdAt: 'DESC',
+    },
+  });
+  return personalAccessTokens.map(mapPersonalAccessToken);
+};
+
+/**
+ * Stores only the hash of a new token. The plain token is part of the returned object and can not
+ * be retrieved again.
+ */
+export const generatePersonalAccessToken = async (
+  user: User,
+  params: IPersonalAccessTokenParams,
+  entityManager: EntityManager = getManager()
+): Promise<IPersonalAccessToken> => {
+  const name = `${params?.name ?? ''}`.trim();
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) throw new BadRequestError('invalid_name');
+
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${nanoid(32)}`;
+  const personalAccessToken = await entityManager.getRepository(PersonalAccessToken).save({
+    name,
+    token: hashAccessToken(token),
+    tokenPreview: token.slice(-PREVIEW_LENGTH),
+    expiresAt: parseExpiresAt(params?.expiresAt),
+    user,
+  });
+
+  return {
+    ...mapPersonalAccessToken(personalAccessToken),
+    token,
+  };
+};
+
+export const revokePersonalAccessTokens = async (
+  user: User,
+  ids: number[],
+  entityManager: EntityManager = getManager()
+) => {
+  if (!Array.isArray(ids) || ids.length === 0) return;
+
+  await entityManager.getRepository(PersonalAccessToken).delete({
+    id: In(ids),
+    user: { id: user.id },
+  });
+};
+
+const touchPersonalAccessToken = async (
+  entityManager: EntityManager,
+  personalAccessToken: PersonalAccessToken
+) => {
+  const now = new Date();
+  if (
+    personalAccessToken.lastUsedAt &&
+    now.getTime() - new Date(personalAccessToken.lastUsedAt).getTime() < LAST_USED_INTERVAL
+  ) {
+    return;
+  }
+
+  try {
+    await entityManager
+      .getRepository(PersonalAccessToken)
+      .update(personalAccessToken.id, { lastUsedAt: now });
+    personalAccessToken.lastUsedAt = now;
+  } catch (err) {
+    logger.error({
+      type: 'personal-access-token',
+      message: 'Unable to update last usage of personal access token',
+      data: err.toString(),
+    });
+  }
+};
+
+/**
+ * Finds the token by its hash together with its user, groups included. Expired tokens and tokens
+ * of deactivated users are rejected.
+ */
+export const findValidPersonalAccessToken = async (
+  token: string,
+  entityManager: EntityManager = getManager()
+): Promise<PersonalAccessToken> => {
+  if (!token?.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) throw new UnauthorizedError('unauthorized');
+
+  const personalAccessToken = await entityManager
+    .getRepository(PersonalAccessToken)
+    .createQueryBuilder('personalAccessToken')
+    .innerJoinAndSelect('personalAccessToken.user', 'user')
+    .leftJoinAndSelect('user.meta', 'meta')
+    .leftJoinAndSelect('user.groups', 'groups')
+    .where('personalAccessToken.token = :token', { token: hashAccessToken(token) })
+    .getOne();
+
+  if (
+    !personalAccessToken ||
+    isPersonalAccessTokenExpired(personalAccessToken) ||
+    personalAccessToken.user?.status !== UserStatus.ACTIVE
+  ) {
+    throw new UnauthorizedError('unauthorized');
+  }
+
+  await touchPersonalAccessToken(entityManager, personalAccessToken);
+  return personalAccessToken;
+};
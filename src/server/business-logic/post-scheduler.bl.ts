@@ -0,0 +1,148 @@
+import { getRepository, In, LessThan, LessThanOrEqual, MoreThan } from 'typeorm';
+import Post from '@server/models/post.model';
+import { PostStatus } from '@shared/interfaces/model';
+import logger from '@shared/features/logger';
+import Hooks from '@shared/features/hooks';
+
+const DEFAULT_INTERVAL = 60 * 1000;
+
+let timer: NodeJS.Timeout;
+let running = false;
+let backfilled = false;
+
+/**
+ * Moves posts between statuses by id, guarded by the previous status, so posts already transitioned
+ * by another instance are skipped.
+ */
+const transitionPosts = async (posts: Post[], from: PostStatus, to: PostStatus) => {
+  const postRepository = getRepository(Post);
+  const transitioned: number[] = [];
+
+  await posts.reduce(async (promise, post) => {
+    await promise;
+    const result = await postRepository.update({ id: post.id, status: from }, { status: to });
+    if (result?.affected === undefined || result.affected > 0) {
+      transitioned.push(post.id);
+    }
+  }, Promise.resolve());
+
+  if (transitioned.length === 0) return [];
+
+  return postRepository.find({
+    relations: ['contentType'],
+    where: {
+      id: In(transitioned),
+    },
+  });
+};
+
+/**
+ * Publishes scheduled posts whose publishedFrom has passed and expires published posts whose
+ * publishedUntil has passed.
+ */
+export const processScheduledPosts = async () => {
+  const postRepository = getRepository(Post);
+  const now = new Date();
+
+  const toPublish = await postRepository.find({
+    where: {
+      status: PostStatus.SCHEDULED,
+      publishedFrom: LessThanOrEqual(now),
+    },
+  });
+  const published = await transitionPosts(toPublish, PostStatus.SCHEDULED, PostStatus.PUBLISHED);
+  if (published.length > 0) {
+    logger.info(`Scheduler published ${published.length} post(s).`);
+    await Hooks.doAction('post/postPublish', published);
+  }
+
+  const toExpire = await postRepository.find({
+    where: [
+      {
+        status: PostStatus.PUBLISHED,
+        publishedUntil: LessThan(now),
+      },
+      {
+        status: PostStatus.SCHEDULED,
+        publishedUntil: LessThan(now),
+      },
+    ],
+  });
+  const expired = [
+    ...(await transitionPosts(
+      toExpire.filter((post) => post.status === PostStatus.PUBLISHED),
+      PostStatus.PUBLISHED,
+      PostStatus.EXPIRED
+    )),
+    ...(await transitionPosts(
+      toExpire.filter((post) => post.status === PostStatus.SCHEDULED),
+      PostStatus.SCHEDULED,
+      PostStatus.EXPIRED
+    )),
+  ];
+  if (expired.length > 0) {
+    logger.info(`Scheduler expired ${expired.length} post(s).`);
+    await Hooks.doAction('post/postExpire', expired);
+  }
+
+  return { published, expired };
+};
+
+/**
+ * Posts published with publishedFrom in the future before scheduling existed are still `published`,
+ * they are moved to `scheduled`. Published posts past their publishedUntil are expired by
+ * processScheduledPosts right after.
+ */
+export const backfillScheduledPosts = async () => {
+  const toSchedule = await getRepository(Post).find({
+    where: {
+      status: PostStatus.PUBLISHED,
+      publishedFrom: MoreThan(new Date()),
+    },
+  });
+  const scheduled = await transitionPosts(toSchedule, PostStatus.PUBLISHED, PostStatus.SCHEDULED);
+  if (scheduled.length > 0) {
+    logger.info(`Scheduler moved ${scheduled.length} post(s) published ahead of time to scheduled.`);
+  }
+  return scheduled;
+};
+
+export const startPostScheduler = () => {
+  if (timer) return;
+
+  let interval = DEFAULT_INTERVAL;
+  if (process.env.POST_SCHEDULER_INTERVAL && !Number.isNaN(Number(process.env.POST_SCHEDULER_INTERVAL))) {
+    interval = Number(process.env.POST_SCHEDULER_INTERVAL) * 1000;
+  }
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      if (!backfilled) {
+        await backfillScheduledPosts();
+        backfilled = true;
+      }
+      await processScheduledPosts();
+    } catch (err) {
+      logger.error({
+        type: 'scheduler',
+        message: 'error processing scheduled posts',
+        data: err?.toString(),
+      });
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(tick, interval);
+  timer.unref?.();
+  tick();
+};
+
+export const stopPostScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+};
@@ -8,6 +8,8 @@ import ContentType from '@server/models/content-type.model';
 import logger from '@shared/features/logger';
 import { importTag } from '@server/business-logic/tags.bl';
 import { mapContentType, mapPost } from '@server/common/mappers';
+import { assertValidMetaContent } from '@server/common/content-validator';
+import { resetWorkflowApproval } from '@server/business-logic/workflow.bl';
 
 const POST_FOLDER_TYPE = 'folder';
 const POST_HIERARCHICAL_TYPE = 'hierarchical_post';
@@ -151,7 +153,14 @@ export const importPost = async ({
   }
 
   if (saved) {
+    await assertValidMetaContent({
+      entityManager: manager,
+      contentType: saved.contentType,
+      meta: newMeta,
+      postId: saved.id,
+    });
     await createPostVersion(manager.getRepository(Post), saved, user);
+    await resetWorkflowApproval(manager, saved, newMeta);
     await updateMeta(manager, Post, saved, newMeta);
     if (tags?.length > 0) {
       saved.tags = tags;
@@ -178,6 +187,12 @@ export const importPost = async ({
     });
   }
 
+  await assertValidMetaContent({
+    entityManager: manager,
+    contentType,
+    meta: newMeta,
+  });
+
   let parent;
   const slugComponents = post.slugPath
     .split('/')
@@ -0,0 +1,271 @@
+import _ from 'lodash';
+import { EntityManager, getManager, In } from 'typeorm';
+import Post from '@server/models/post.model';
+import SearchIndex from '@server/models/search-index.model';
+import SearchDriver, { ISearchHit } from '@server/drivers/search.driver';
+import { parseContent } from '@server/common/post.parser';
+import { loadComponentFields } from '@server/common/post.utility';
+import {
+  ILocaleOptions,
+  isDefaultLocale,
+  LOCALES_META_PREFIX,
+  localizePost,
+} from '@server/common/locale.utility';
+import { IPost } from '@shared/interfaces/model';
+import logger from '@shared/features/logger';
+
+export const DEFAULT_SEARCH_LOCALE = '';
+
+const TYPE_SUFFIX = '_$type';
+const NON_TEXT_FIELDS = [
+  'images',
+  'assets',
+  'relation',
+  'reference_single',
+  'reference_multiple',
+  'checkbox',
+];
+const MAX_TERMS = 10;
+const SNIPPET_LENGTH = 160;
+const REINDEX_BATCH = 100;
+
+export interface ISearchResult extends ISearchHit {
+  title?: string;
+  snippet?: string;
+}
+
+export const getSearchMaxResults = () => {
+  const max = Number(process.env.SEARCH_MAX_RESULTS);
+  return Number.isNaN(max) || max <= 0 ? 1000 : max;
+};
+
+export const getSearchTerms = (search?: string): string[] =>
+  _.uniq(
+    (search || '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length > 0)
+  ).slice(0, MAX_TERMS);
+
+const getRichtextText = (value: any): string[] | undefined => {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!Array.isArray(parsed?.blocks)) return undefined;
+  return parsed.blocks.map((block) => block?.text).filter((text) => text?.length > 0);
+};
+
+const collectText = (value: any, fieldType?: string): string[] => {
+  if (value === undefined || value === null || NON_TEXT_FIELDS.includes(fieldType)) return [];
+
+  if (fieldType === 'richtext') return getRichtextText(value) ?? [];
+
+  if (Array.isArray(value)) return value.flatMap((item) => collectText(item));
+
+  if (_.isPlainObject(value)) {
+    return Object.keys(value)
+      .filter((key) => !key.endsWith(TYPE_SUFFIX))
+      .flatMap((key) => collectText(value[key], value[`${key}${TYPE_SUFFIX}`]));
+  }
+
+  if (typeof value !== 'string' || value.trim().length === 0) return [];
+  // Richtext nested in components without a type hint is still stored as raw Draft.js content
+  return getRichtextText(value) ?? [value];
+};
+
+/**
+ * Builds the indexed document from post content: text fields, plain text of richtext blocks and tag
+ * names. Assets, references and other non-text fields are skipped, as are fields hidden by their
+ * visibility conditions.
+ */
+export const buildSearchDocument = (post: IPost, components?: { [name: string]: any[] }) => {
+  const { content } = parseContent(post, undefined, components);
+  const tags = (post?.tags || []).map((tag) => tag.name);
+
+  return {
+    title: post?.name ?? '',
+    content: [...collectText(content), ...tags].join('\n'),
+  };
+};
+
+const getPostLocales = (post: IPost) => {
+  const localesPrefix = `${LOCALES_META_PREFIX}.`;
+  return _.uniq(
+    (post?.meta || [])
+      .filter((meta) => meta?.key?.startsWith(localesPrefix))
+      .map((meta) => meta.key.slice(localesPrefix.length).split('.')[0])
+  );
+};
+
+export const indexPosts = async (ids: number[], entityManager: EntityManager = getManager()) => {
+  if (!(ids?.length > 0)) return;
+
+  const posts = await entityManager.getRepository(Post).find({
+    relations: ['meta', 'tags', 'contentType'],
+    where: {
+      id: In(ids),
+    },
+  });
+  const components = await loadComponentFields(entityManager);
+
+  await entityManager.transaction(async (transactionManager) => {
+    await transactionManager.delete(SearchIndex, { postId: In(ids) });
+
+    const entries = posts
+      .filter((post) => post.type !== 'post_version' && post.type !== 'folder')
+      .flatMap((post) => [
+        {
+          postId: post.id,
+          locale: DEFAULT_SEARCH_LOCALE,
+          ...buildSearchDocument(localizePost(post), components),
+        },
+        ...getPostLocales(post).map((locale) => ({
+          postId: post.id,
+          locale,
+          ...buildSearchDocument(localizePost(post, { locale, fallback: false }), components),
+        })),
+      ]);
+
+    if (entries.length > 0) {
+      await transactionManager.save(SearchIndex, entries, { chunk: REINDEX_BATCH });
+    }
+  });
+};
+
+export const removeFromSearchIndex = async (
+  ids: number[],
+  entityManager: EntityManager = getManager()
+) => {
+  if (!(ids?.length > 0)) return;
+  await entityManager.delete(SearchIndex, { postId: In(ids) });
+};
+
+export const rebuildSearchIndex = async (entityManager: EntityManager = getManager()) => {
+  const posts = await entityManager
+    .getRepository(Post)
+    .createQueryBuilder('post')
+    .select('post.id', 'id')
+    .where('post.type NOT IN (:...types)', { types: ['post_version', 'folder'] })
+    .getRawMany();
+
+  await entityManager.clear(SearchIndex);
+  await _.chunk(posts, REINDEX_BATCH).reduce(async (promise, chunk) => {
+    await promise;
+    await indexPosts(
+      chunk.map((post) => post.id),
+      entityManager
+    );
+  }, Promise.resolve());
+
+  logger.info(`Search index rebuilt, ${posts.length} posts indexed.`);
+  return posts.length;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Escapes the text and wraps every occurrence of the terms in `<mark>`.
+ */
+export const highlight = (text: string, terms: string[]) => {
+  if (!text || terms.length === 0) return escapeHtml(text ?? '');
+  const pattern = new RegExp(`(${terms.map(_.escapeRegExp).join('|')})`, 'giu');
+  return text
+    .split(pattern)
+    .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+    .join('');
+};
+
+/**
+ * Cuts a window of the content around the first matching term.
+ */
+export const buildSnippet = (content: string, terms: string[], length = SNIPPET_LENGTH) => {
+  const text = (content || '').replace(/\s+/g, ' ').trim();
+  const lower = text.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((position) => position > -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - Math.floor(length / 3));
+  const end = Math.min(text.length, start + length);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return `${prefix}${highlight(text.slice(start, end), terms)}${suffix}`;
+};
+
+/**
+ * Ranks posts matching the search. Posts translated to the requested locale are matched on their
+ * translation only, others on the default locale content they fall back to.
+ */
+export const searchPosts = async (
+  search: string,
+  localeOptions: ILocaleOptions = {},
+  entityManager: EntityManager = getManager()
+): Promise<ISearchHit[]> => {
+  const terms = getSearchTerms(search);
+  if (terms.length === 0) return [];
+
+  const locale = isDefaultLocale(localeOptions) ? DEFAULT_SEARCH_LOCALE : localeOptions.locale;
+  const locales = _.uniq([locale, DEFAULT_SEARCH_LOCALE]);
+
+  const hits = await SearchDriver.getInstance().search(entityManager, {
+    terms,
+    locales,
+    limit: getSearchMaxResults(),
+  });
+
+  let translated = new Set<number>();
+  if (locale !== DEFAULT_SEARCH_LOCALE) {
+    const fallbackIds = hits
+      .filter((hit) => hit.locale === DEFAULT_SEARCH_LOCALE)
+      .map((hit) => hit.postId);
+    if (fallbackIds.length > 0) {
+      const entries = await entityManager.getRepository(SearchIndex).find({
+        select: ['postId'],
+        where: {
+          locale,
+          postId: In(fallbackIds),
+        },
+      });
+      translated = new Set(entries.map((entry) => entry.postId));
+    }
+  }
+
+  return _.uniqBy(
+    hits.filter((hit) => hit.locale === locale || !translated.has(hit.postId)),
+    'postId'
+  );
+};
+
+/**
+ * Adds highlighted title and content snippet to the hits.
+ */
+export const getSearchResults = async (
+  search: string,
+  hits: ISearchHit[],
+  entityManager: EntityManager = getManager()
+): Promise<ISearchResult[]> => {
+  if (hits.length === 0) return [];
+  const terms = getSearchTerms(search);
+
+  const entries = await entityManager.getRepository(SearchIndex).find({
+    where: {
+      postId: In(hits.map((hit) => hit.postId)),
+    },
+  });
+
+  return hits.map((hit) => {
+    const entry = entries.find(
+      (item) => item.postId === hit.postId && item.locale === hit.locale
+    );
+    return {
+      ...hit,
+      title: highlight(entry?.title, terms),
+      snippet: buildSnippet(entry?.content, terms),
+    };
+  });
+};
@@ -0,0 +1,178 @@
+import { EntityManager, getManager } from 'typeorm';
+import SiteSettings from '@server/models/site-settings.model';
+import logger from '@shared/features/logger';
+import { getBurdyHost } from '@server/common/host';
+import {
+  ISecuritySettings,
+  normalizeOrigin,
+  parseSecuritySettings,
+  SECURITY_SETTINGS_KEY,
+  toOriginList,
+} from '@shared/features/security';
+
+export type ApiSurface = 'admin' | 'content';
+
+export interface ISecurityPolicy {
+  adminOrigins: string[];
+  frontendOrigins: string[];
+}
+
+// Routes meant for frontends, everything else belongs to the admin
+const CONTENT_PATHS = ['/content', '/search', '/graphql', '/uploads'];
+
+const ALLOWED_HEADERS = 'content-type, auth-token, authorization, x-content-token';
+const ALLOWED_METHODS = 'GET,PUT,POST,DELETE,PATCH';
+const PREFLIGHT_MAX_AGE = 600;
+const CACHE_DURATION = 60 * 1000;
+
+// Fluent UI loads its icon font from the CDN
+const ADMIN_FONT_SOURCES = ['https://spoppe-b.azureedge.net'];
+
+let cache: { settings: ISecuritySettings; expiresAt: number };
+
+export const getSecuritySettings = async (entityManager?: EntityManager) => {
+  const settings = await (entityManager ?? getManager())
+    .getRepository(SiteSettings)
+    .findOne({
+      where: {
+        key: SECURITY_SETTINGS_KEY,
+      },
+    });
+  return parseSecuritySettings(settings?.value);
+};
+
+export const clearSecuritySettingsCache = () => {
+  cache = undefined;
+};
+
+export const getSecurityPolicyFromSettings = (settings?: ISecuritySettings): ISecurityPolicy => ({
+  adminOrigins: toOriginList([
+    getBurdyHost(),
+    ...toOriginList(process.env.CORS_ADMIN_ORIGINS),
+    ...(settings?.adminOrigins ?? []),
+  ]),
+  frontendOrigins: toOriginList([
+    ...toOriginList(process.env.CORS_ORIGINS),
+    ...(settings?.frontendOrigins ?? []),
+  ]),
+});
+
+/**
+ * Settings are read on every request, they are cached for a minute or until they are updated.
+ * Origins from the environment are merged with them.
+ */
+export const getSecurityPolicy = async (): Promise<ISecurityPolicy> => {
+  if (!cache || cache.expiresAt <= Date.now()) {
+    try {
+      cache = {
+        settings: await getSecuritySettings(),
+        expiresAt: Date.now() + CACHE_DURATION,
+      };
+    } catch (err) {
+      logger.error({
+        type: 'security',
+        message: 'Unable to load security settings',
+        data: err?.toString(),
+      });
+      return getSecurityPolicyFromSettings(cache?.settings);
+    }
+  }
+
+  return getSecurityPolicyFromSettings(cache.settings);
+};
+
+export const getApiSurface = (path: string): ApiSurface =>
+  CONTENT_PATHS.some((prefix) => path === prefix || path.startsWith(`${prefix}/`))
+    ? 'content'
+    : 'admin';
+
+/**
+ * Only admin origins may send credentials. Frontends are listed explicitly, without any listed the
+ * content API stays open to every origin, as content is authorized by tokens rather than cookies.
+ */
+export const getCorsHeaders = (
+  origin: string | undefined,
+  surface: ApiSurface,
+  policy: ISecurityPolicy
+): Record<string, string> => {
+  const headers: Record<string, string> = {
+    Vary: 'Origin',
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Expose-Headers': 'content-type, auth-token',
+    'Access-Control-Allow-Methods': ALLOWED_METHODS,
+    'Access-Control-Max-Age': `${PREFLIGHT_MAX_AGE}`,
+  };
+
+  const normalized = normalizeOrigin(origin);
+  if (!normalized) return headers;
+
+  if (policy.adminOrigins.includes(normalized)) {
+    return {
+      ...headers,
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Credentials': 'true',
+    };
+  }
+
+  if (surface !== 'content') return headers;
+
+  if (policy.frontendOrigins.length === 0) {
+    return {
+      ...headers,
+      'Access-Control-Allow-Origin': '*',
+    };
+  }
+
+  if (policy.frontendOrigins.includes(normalized)) {
+    return {
+      ...headers,
+      'Access-Control-Allow-Origin': origin,
+    };
+  }
+
+  return headers;
+};
+
+const serializeCsp = (directives: Record<string, string[]>) =>
+  Object.keys(directives)
+    .map((directive) => [directive, ...directives[directive]].join(' '))
+    .join('; ');
+
+/**
+ * Preview editor embeds frontends, any of them can be embedded until trusted origins are listed.
+ */
+export const getAdminContentSecurityPolicy = (policy: ISecurityPolicy) =>
+  serializeCsp({
+    'default-src': ["'self'"],
+    'script-src': ["'self'"],
+    'style-src': ["'self'", "'unsafe-inline'"],
+    'img-src': ["'self'", 'data:', 'blob:', 'https:'],
+    'media-src': ["'self'", 'data:', 'blob:', 'https:'],
+    'font-src': ["'self'", 'data:', ...ADMIN_FONT_SOURCES],
+    'connect-src': ["'self'"],
+    'frame-src':
+      policy.frontendOrigins.length > 0
+        ? ["'self'", ...policy.frontendOrigins]
+        : ["'self'", 'http:', 'https:'],
+    'frame-ancestors': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+  });
+
+/**
+ * Responses of the API are never rendered as documents, frontends may still embed assets.
+ */
+export const getApiContentSecurityPolicy = (policy: ISecurityPolicy) =>
+  serializeCsp({
+    'default-src': ["'none'"],
+    ...(policy.frontendOrigins.length > 0
+      ? { 'frame-ancestors': ["'self'", ...policy.frontendOrigins] }
+      : {}),
+  });
+
+export const getStrictTransportSecurity = (secure: boolean) => {
+  const maxAge = Number(process.env.HSTS_MAX_AGE);
+  if (!secure || Number.isNaN(maxAge) || maxAge <= 0) return undefined;
+  return `max-age=${Math.floor(maxAge)}; includeSubDomains`;
+};
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import _ from 'lodash';
+import QRCode from 'qrcode';
+import { addMinutes } from 'date-fns';
+import { EntityManager, getManager } from 'typeorm';
+import User from '@server/models/user.model';
+import UserToken, { UserTokenType } from '@server/models/user-token.model';
+import BadRequestError from '@server/errors/bad-request-error';
+import { ITwoFactorSetup, ITwoFactorStatus } from '@shared/interfaces/model';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_LENGTH = 20;
+const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+// Accepts codes of the neighbouring periods to tolerate clock drift of the device
+const TOTP_WINDOW = 1;
+const RECOVERY_CODES_COUNT = 10;
+const CHALLENGE_EXPIRES_MINUTES = 5;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+export interface ITwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export const encodeBase32 = (buffer: Buffer) => {
+  const bits = Array.from(buffer)
+    .map((byte) => byte.toString(2).padStart(8, '0'))
+    .join('');
+  return (bits.match(/.{1,5}/g) || [])
+    .map((chunk) => BASE32_ALPHABET[parseInt(chunk.padEnd(5, '0'), 2)])
+    .join('');
+};
+
+export const decodeBase32 = (value: string) => {
+  const bits = (value || '')
+    .toUpperCase()
+    .replace(/[^A-Z2-7]/g, '')
+    .split('')
+    .map((char) => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  return Buffer.from(
+    (bits.match(/.{8}/g) || []).map((byte) => parseInt(byte, 2))
+  );
+};
+
+export const getTotpStep = (time = Date.now()) => Math.floor(time / 1000 / TOTP_PERIOD);
+
+/**
+ * HOTP (RFC 4226) code of the counter, TOTP (RFC 6238) uses the current time step as the counter.
+ */
+export const generateHotp = (secret: string, counter: number) => {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter % 2 ** 32, 4);
+
+  const digest = crypto.createHmac('sha1', decodeBase32(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] % 16;
+  const code = (digest.readUInt32BE(offset) % 2 ** 31) % 10 ** TOTP_DIGITS;
+  return `${code}`.padStart(TOTP_DIGITS, '0');
+};
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Returns the time step the code was generated for. Steps up to `lastStep` are rejected, so a code
+ * can not be replayed.
+ */
+export const verifyTotp = (secret: string, code: string, lastStep = -1): number | undefined => {
+  const normalized = `${code ?? ''}`.replace(/\s/g, '');
+  if (!new RegExp(`^[0-9]{${TOTP_DIGITS}}$`).test(normalized)) return undefined;
+
+  const step = getTotpStep();
+  return _.range(step - TOTP_WINDOW, step + TOTP_WINDOW + 1)
+    .filter((candidate) => candidate > lastStep)
+    .find((candidate) => safeEqual(generateHotp(secret, candidate), normalized));
+};
+
+export const getOtpAuthUri = (secret: string, account: string) => {
+  const issuer = process.env.TWO_FACTOR_ISSUER || 'Burdy';
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: `${TOTP_DIGITS}`,
+    period: `${TOTP_PERIOD}`,
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+const hashRecoveryCode = (code: string) =>
+  crypto
+    .createHash('sha256')
+    .update(`${code ?? ''}`.toLowerCase().replace(/[^a-z2-7]/g, ''))
+    .digest('hex');
+
+const generateRecoveryCode = () => {
+  const code = encodeBase32(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+const findUserTokens = (entityManager: EntityManager, user: User, types: UserTokenType[]) =>
+  entityManager
+    .getRepository(UserToken)
+    .createQueryBuilder('userToken')
+    .where('userToken.user = :userId', { userId: user.id })
+    .andWhere('userToken.type IN (:...types)', { types })
+    .getMany();
+
+const findTotpToken = async (entityManager: EntityManager, user: User) => {
+  const [totpToken] = await findUserTokens(entityManager, user, [UserTokenType.TOTP]);
+  return totpToken;
+};
+
+export const isTwoFactorRequired = (user: User) =>
+  (user?.groups || []).some((group) => group?.requireTwoFactor);
+
+export const isTwoFactorEnabled = async (user: User, entityManager: EntityManager = getManager()) => {
+  const totpToken = await findTotpToken(entityManager, user);
+  return Boolean(totpToken?.data?.enabled);
+};
+
+export const getTwoFactorStatus = async (
+  user: User,
+  entityManager: EntityManager = getManager()
+): Promise<ITwoFactorStatus> => {
+  const tokens = await findUserTokens(entityManager, user, [
+    UserTokenType.TOTP,
+    UserTokenType.RECOVERY,
+  ]);
+  return {
+    enabled: tokens.some((token) => token.type === UserTokenType.TOTP && token.data?.enabled),
+    required: isTwoFactorRequired(user),
+    recoveryCodes: tokens.filter((token) => token.type === UserTokenType.RECOVERY).length,
+  };
+};
+
+/**
+ * Generates a new secret, which stays pending until confirmed by `enableTwoFactor`.
+ */
+export const startTwoFactorSetup = async (
+  user: User,
+  entityManager: EntityManager = getManager()
+): Promise<ITwoFactorSetup> => {
+  const totpToken = await findTotpToken(entityManager, user);
+  if (totpToken?.data?.enabled) throw new BadRequestError('two_factor_enabled');
+
+  const secret = encodeBase32(crypto.randomBytes(SECRET_LENGTH));
+  await entityManager.save(UserToken, {
+    ...(totpToken || {}),
+    user,
+    type: UserTokenType.TOTP,
+    data: { secret, enabled: false },
+  });
+
+  const uri = getOtpAuthUri(secret, user.email);
+  return {
+    secret,
+    uri,
+    qrCode: await QRCode.toDataURL(uri),
+  };
+};
+
+/**
+ * Replaces recovery codes of the user. Only hashes are stored, plain codes are returned once.
+ */
+export const generateRecoveryCodes = async (
+  user: User,
+  entityManager: EntityManager = getManager()
+) => {
+  const codes = _.times(RECOVERY_CODES_COUNT, generateRecoveryCode);
+  await entityManager.transaction(async (transactionManager) => {
+    const existing = await findUserTokens(transactionManager, user, [UserTokenType.RECOVERY]);
+    if (existing.length > 0) await transactionManager.remove(existing);
+
+    await transactionManager.save(
+      UserToken,
+      codes.map((code) => ({
+        user,
+        type: UserTokenType.RECOVERY,
+        data: { hash: hashRecoveryCode(code) },
+      }))
+    );
+  });
+  return codes;
+};
+
+export const enableTwoFactor = async (
+  user: User,
+  code: string,
+  entityManager: EntityManager = getManager()
+) => {
+  const totpToken = await findTotpToken(entityManager, user);
+  if (!totpToken?.data?.secret) throw new BadRequestError('two_factor_not_started');
+  if (totpToken.data.enabled) throw new BadRequestError('two_factor_enabled');
+
+  const step = verifyTotp(totpToken.data.secret, code);
+  if (step === undefined) throw new BadRequestError('invalid_two_factor_code');
+
+  totpToken.data = { ...totpToken.data, enabled: true, lastStep: step };
+  await entityManager.save(totpToken);
+  return generateRecoveryCodes(user, entityManager);
+};
+
+export const disableTwoFactor = async (user: User, entityManager: EntityManager = getManager()) => {
+  const tokens = await findUserTokens(entityManager, user, [
+    UserTokenType.TOTP,
+    UserTokenType.RECOVERY,
+  ]);
+  if (tokens.length > 0) await entityManager.remove(tokens);
+};
+
+/**
+ * Accepts either a code from the authenticator app or an unused recovery code, which is consumed.
+ */
+export const verifyTwoFactor = async (
+  user: User,
+  credentials: ITwoFactorCredentials,
+  entityManager: EntityManager = getManager()
+) => {
+  if (credentials?.recoveryCode) {
+    const hash = hashRecoveryCode(credentials.recoveryCode);
+    const recoveryTokens = await findUserTokens(entityManager, user, [UserTokenType.RECOVERY]);
+    const recoveryToken = recoveryTokens.find((token) => safeEqual(`${token.data?.hash}`, hash));
+    if (!recoveryToken) return false;
+
+    await entityManager.remove(recoveryToken);
+    return true;
+  }
+
+  const totpToken = await findTotpToken(entityManager, user);
+  if (!totpToken?.data?.enabled) return false;
+
+  const step = verifyTotp(totpToken.data.secret, credentials?.code, totpToken.data.lastStep);
+  if (step === undefined) return false;
+
+  totpToken.data = { ...totpToken.data, lastStep: step };
+  await entityManager.save(totpToken);
+  return true;
+};
+
+/**
+ * Short lived token identifying a login which passed the password check and waits for the second
+ * factor.
+ */
+export const createTwoFactorChallenge = async (
+  user: User,
+  entityManager: EntityManager = getManager()
+) => {
+  const challenge = await entityManager.save(UserToken, {
+    user,
+    type: UserTokenType.TWO_FACTOR,
+    expiresAt: addMinutes(new Date(), CHALLENGE_EXPIRES_MINUTES),
+    data: { attempts: 0 },
+  });
+  return challenge.token;
+};
+
+export const findTwoFactorChallenge = async (
+  token: string,
+  entityManager: EntityManager = getManager()
+) => {
+  if (!token) throw new BadRequestError('invalid_token');
+
+  const challenge = await entityManager
+    .getRepository(UserToken)
+    .createQueryBuilder('userToken')
+    .leftJoinAndSelect('userToken.user', 'user')
+    .leftJoinAndSelect('user.groups', 'groups')
+    .leftJoinAndSelect('user.meta', 'meta')
+    .where('userToken.token = :token', { token })
+    .andWhere('userToken.type = :type', { type: UserTokenType.TWO_FACTOR })
+    .getOne();
+
+  if (!challenge || new Date(challenge.expiresAt).getTime() < Date.now()) {
+    throw new BadRequestError('invalid_token');
+  }
+  return challenge;
+};
+
+/**
+ * Counts a failed attempt, the challenge is dropped once the limit is reached and the login has to
+ * start over.
+ */
+export const failTwoFactorChallenge = async (
+  challenge: UserToken,
+  entityManager: EntityManager = getManager()
+) => {
+  const attempts = (challenge.data?.attempts ?? 0) + 1;
+  if (attempts >= CHALLENGE_MAX_ATTEMPTS) {
+    await entityManager.remove(challenge);
+    throw new BadRequestError('invalid_token');
+  }
+
+  challenge.data = { ...challenge.data, attempts };
+  await entityManager.save(challenge);
+  throw new BadRequestError('invalid_two_factor_code', {
+    attemptsLeft: CHALLENGE_MAX_ATTEMPTS - attempts,
+  });
+};
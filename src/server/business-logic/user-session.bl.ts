@@ -0,0 +1,156 @@
+import express from 'express';
+import { EntityManager, getManager, getRepository, LessThan } from 'typeorm';
+import User from '@server/models/user.model';
+import UserSession from '@server/models/user-session.model';
+import { getExpires, sign } from '@server/common/jwt';
+import logger from '@shared/features/logger';
+
+const LAST_SEEN_INTERVAL = 60 * 1000;
+const DEFAULT_CLEANUP_INTERVAL = 60 * 60 * 1000;
+const USER_AGENT_MAX_LENGTH = 512;
+
+let timer: NodeJS.Timeout;
+
+export const createUserSession = async (
+  user: User,
+  req?: express.Request,
+  entityManager: EntityManager = getManager()
+) => {
+  const repository = entityManager.getRepository(UserSession);
+  return repository.save(
+    repository.create({
+      user,
+      expiresAt: getExpires(),
+      lastSeenAt: new Date(),
+      ip: req?.ip,
+      userAgent: req?.get?.('user-agent')?.slice(0, USER_AGENT_MAX_LENGTH),
+    })
+  );
+};
+
+/**
+ * Signs the auth token of the session and sets it as the cookie read by the auth middleware.
+ */
+export const setSessionCookie = (res: express.Response, user: User, session: UserSession) => {
+  const token = sign({
+    sessionId: session.id,
+    userId: user.id,
+  });
+
+  res.cookie('token', token, {
+    maxAge: getExpires().getTime() * 1000,
+    httpOnly: true,
+  });
+  return token;
+};
+
+export const isSessionExpired = (session: UserSession) =>
+  !session?.expiresAt || new Date(session.expiresAt).getTime() < Date.now();
+
+/**
+ * Keeps last seen time and IP address of the session up to date, throttled to avoid a write on
+ * every request.
+ */
+export const touchUserSession = async (
+  session: UserSession,
+  req: express.Request,
+  entityManager: EntityManager = getManager()
+) => {
+  const now = new Date();
+  if (
+    session.lastSeenAt &&
+    now.getTime() - new Date(session.lastSeenAt).getTime() < LAST_SEEN_INTERVAL
+  ) {
+    return;
+  }
+
+  await entityManager.getRepository(UserSession).update(session.id, { lastSeenAt: now, ip: req.ip });
+  session.lastSeenAt = now;
+  session.ip = req.ip;
+};
+
+const findUserSessions = (user: User, entityManager: EntityManager) =>
+  entityManager
+    .getRepository(UserSession)
+    .createQueryBuilder('session')
+    .where('session.user = :userId', { userId: user.id });
+
+export const listUserSessions = async (
+  user: User,
+  currentSession?: UserSession,
+  entityManager: EntityManager = getManager()
+) => {
+  const sessions = await findUserSessions(user, entityManager)
+    .orderBy('session.lastSeenAt', 'DESC')
+    .addOrderBy('session.createdAt', 'DESC')
+    .getMany();
+
+  return sessions
+    .filter((session) => !isSessionExpired(session))
+    .map((session) => ({
+      ...session,
+      current: session.id === currentSession?.id,
+    }));
+};
+
+export const revokeUserSession = async (
+  user: User,
+  sessionId: number,
+  entityManager: EntityManager = getManager()
+) => {
+  const session = await findUserSessions(user, entityManager)
+    .andWhere('session.id = :sessionId', { sessionId })
+    .getOne();
+  if (session) await entityManager.remove(session);
+};
+
+/**
+ * Revokes all sessions of the user, except the one given, so users can log out other devices
+ * without logging themselves out.
+ */
+export const revokeUserSessions = async (
+  user: User,
+  exceptSession?: UserSession,
+  entityManager: EntityManager = getManager()
+) => {
+  const sessions = await findUserSessions(user, entityManager).getMany();
+  const revoked = sessions.filter((session) => session.id !== exceptSession?.id);
+  if (revoked.length > 0) await entityManager.remove(revoked);
+};
+
+export const removeExpiredSessions = async () => {
+  const result = await getRepository(UserSession).delete({ expiresAt: LessThan(new Date()) });
+  return result?.affected ?? 0;
+};
+
+export const startSessionCleanup = () => {
+  if (timer) return;
+
+  let interval = DEFAULT_CLEANUP_INTERVAL;
+  if (process.env.SESSION_CLEANUP_INTERVAL && !Number.isNaN(Number(process.env.SESSION_CLEANUP_INTERVAL))) {
+    interval = Number(process.env.SESSION_CLEANUP_INTERVAL) * 1000;
+  }
+
+  const tick = async () => {
+    try {
+      await removeExpiredSessions();
+    } catch (err) {
+      logger.error({
+        type: 'session',
+        message: 'error removing expired sessions',
+        data: err?.toString(),
+      });
+    }
+  };
+
+  timer = setInterval(tick, interval);
+  timer.unref?.();
+  tick();
+};
+
+export const stopSessionCleanup = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+};
@@ -0,0 +1,202 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getRepository, In, LessThan } from 'typeorm';
+import Webhook from '@server/models/webhook.model';
+import WebhookDelivery from '@server/models/webhook-delivery.model';
+import { IWebhookDeliveryStatus } from '@shared/interfaces/model';
+import logger from '@shared/features/logger';
+import Hooks from '@shared/features/hooks';
+
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE = 10 * 1000;
+const REQUEST_TIMEOUT = 10 * 1000;
+const MAX_RESPONSE_LENGTH = 2000;
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout;
+
+export const signWebhookPayload = (secret: string, timestamp: number, body: string) => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+const getBackoff = (attempts: number) => BACKOFF_BASE * 2 ** (attempts - 1);
+
+const truncate = (value: any) => {
+  if (value === undefined || value === null) return null;
+  const str = typeof value === 'string' ? value : JSON.stringify(value);
+  return str.length > MAX_RESPONSE_LENGTH ? str.slice(0, MAX_RESPONSE_LENGTH) : str;
+};
+
+const scheduleDelivery = (deliveryId: number, delay = 0) => {
+  setTimeout(() => {
+    deliverWebhook(deliveryId).catch((err) => {
+      logger.error({
+        type: 'webhook',
+        message: 'error delivering webhook',
+        data: err?.toString(),
+      });
+    });
+  }, delay);
+};
+
+/**
+ * Sends a single delivery attempt, failed attempts are rescheduled with an exponential backoff
+ * until MAX_ATTEMPTS is reached.
+ */
+export const deliverWebhook = async (deliveryId: number) => {
+  const deliveryRepository = getRepository(WebhookDelivery);
+  const delivery = await deliveryRepository.findOne({
+    relations: ['webhook'],
+    where: { id: deliveryId },
+  });
+  if (!delivery?.webhook) return null;
+
+  const { webhook } = delivery;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Date.now();
+
+  delivery.attempts += 1;
+
+  try {
+    const response = await axios.post(webhook.url, body, {
+      timeout: REQUEST_TIMEOUT,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Burdy-Webhooks',
+        'X-Burdy-Event': delivery.event,
+        'X-Burdy-Delivery': `${delivery.id}`,
+        'X-Burdy-Timestamp': `${timestamp}`,
+        'X-Burdy-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+    });
+
+    delivery.responseStatus = response.status;
+    delivery.responseBody = truncate(response.data);
+    delivery.error = response.status >= 200 && response.status < 300 ? null : `status_${response.status}`;
+  } catch (err) {
+    delivery.responseStatus = null;
+    delivery.responseBody = null;
+    delivery.error = truncate(err?.message ?? err?.toString());
+  }
+
+  if (!delivery.error) {
+    delivery.status = IWebhookDeliveryStatus.SUCCESS;
+    delivery.nextAttemptAt = null;
+  } else if (delivery.attempts < MAX_ATTEMPTS) {
+    const backoff = getBackoff(delivery.attempts);
+    delivery.status = IWebhookDeliveryStatus.RETRYING;
+    delivery.nextAttemptAt = new Date(Date.now() + backoff);
+    scheduleDelivery(delivery.id, backoff);
+  } else {
+    delivery.status = IWebhookDeliveryStatus.FAILED;
+    delivery.nextAttemptAt = null;
+    logger.warn({
+      type: 'webhook',
+      message: `webhook ${webhook.name} failed after ${delivery.attempts} attempts`,
+      data: delivery.error,
+    });
+  }
+
+  await deliveryRepository.save(delivery);
+  await Hooks.doAction('webhook/postDelivery', delivery);
+  return delivery;
+};
+
+export const createWebhookDelivery = async (webhook: Webhook, event: string, data: any) => {
+  const deliveryRepository = getRepository(WebhookDelivery);
+  const delivery = await deliveryRepository.save({
+    webhook,
+    event,
+    status: IWebhookDeliveryStatus.PENDING,
+    attempts: 0,
+    payload: {
+      event,
+      createdAt: new Date(),
+      data,
+    },
+  });
+  scheduleDelivery(delivery.id);
+  return delivery;
+};
+
+/**
+ * Queues deliveries for every enabled webhook subscribed to the event. Deliveries are sent in the background,
+ * so callers are never blocked by slow or failing endpoints.
+ */
+export const triggerWebhooks = async (event: string, data: any) => {
+  try {
+    const webhooks = await getRepository(Webhook).find({ where: { enabled: true } });
+    const subscribed = webhooks.filter(
+      (webhook) => (webhook.events || []).includes(event) || (webhook.events || []).includes('*')
+    );
+    await Promise.all(subscribed.map((webhook) => createWebhookDelivery(webhook, event, data)));
+  } catch (err) {
+    logger.error({
+      type: 'webhook',
+      message: `error triggering webhooks for ${event}`,
+      data: err?.toString(),
+    });
+  }
+};
+
+/**
+ * Picks up deliveries which were pending or waiting for a retry when the server stopped.
+ */
+export const resumeWebhookDeliveries = async () => {
+  const deliveries = await getRepository(WebhookDelivery).find({
+    where: {
+      status: In([IWebhookDeliveryStatus.PENDING, IWebhookDeliveryStatus.RETRYING]),
+    },
+  });
+  deliveries.forEach((delivery) => {
+    const delay = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() - Date.now() : 0;
+    scheduleDelivery(delivery.id, Math.max(delay, 0));
+  });
+};
+
+export const getWebhookDeliveryRetentionDays = () => {
+  const days = Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS);
+  return Number.isNaN(days) || days <= 0 ? DEFAULT_RETENTION_DAYS : days;
+};
+
+/**
+ * Removes finished deliveries older than the retention, pending and retrying ones are kept.
+ */
+export const removeExpiredWebhookDeliveries = async () => {
+  const result = await getRepository(WebhookDelivery).delete({
+    status: In([IWebhookDeliveryStatus.SUCCESS, IWebhookDeliveryStatus.FAILED]),
+    createdAt: LessThan(new Date(Date.now() - getWebhookDeliveryRetentionDays() * DAY)),
+  });
+  return result?.affected ?? 0;
+};
+
+export const startWebhookDeliveryCleanup = () => {
+  if (timer) return;
+
+  const tick = async () => {
+    try {
+      await removeExpiredWebhookDeliveries();
+    } catch (err) {
+      logger.error({
+        type: 'webhook',
+        message: 'error removing expired webhook deliveries',
+        data: err?.toString(),
+      });
+    }
+  };
+
+  timer = setInterval(tick, DEFAULT_CLEANUP_INTERVAL);
+  timer.unref?.();
+  tick();
+};
+
+export const stopWebhookDeliveryCleanup = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+};
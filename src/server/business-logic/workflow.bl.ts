@@ -0,0 +1,136 @@
+import { EntityManager, getManager } from 'typeorm';
+import _ from 'lodash';
+import Post from '@server/models/post.model';
+import PostComment from '@server/models/post-comment.model';
+import SiteSettings from '@server/models/site-settings.model';
+import BadRequestError from '@server/errors/bad-request-error';
+import ForbiddenError from '@server/errors/forbidden-error';
+import User from '@server/models/user.model';
+import { IPost } from '@shared/interfaces/model';
+import Hooks from '@shared/features/hooks';
+import {
+  getTransitionPermission,
+  getWorkflowState,
+  IWorkflowSettings,
+  parseWorkflowSettings,
+  WORKFLOW_SETTINGS_KEY,
+} from '@shared/features/workflow';
+
+export const getWorkflowSettings = async (entityManager?: EntityManager) => {
+  const settings = await (entityManager ?? getManager())
+    .getRepository(SiteSettings)
+    .findOne({
+      where: {
+        key: WORKFLOW_SETTINGS_KEY,
+      },
+    });
+  return parseWorkflowSettings(settings?.value);
+};
+
+export const isPostApproved = (settings: IWorkflowSettings, post: IPost) =>
+  Boolean(getWorkflowState(settings, post?.workflowState)?.approved);
+
+const hasMetaChanges = (
+  meta: { key: string; value: any }[],
+  nextMeta: { key: string; value: any }[],
+  pattern?: RegExp
+) => {
+  const toMap = (items: { key: string; value: any }[]) =>
+    _.fromPairs(
+      (items || [])
+        .filter((item) => !pattern || pattern.test(item?.key ?? ''))
+        .map((item) => [item.key, `${item.value ?? ''}`])
+    );
+  return !_.isEqual(toMap(meta), toMap(nextMeta));
+};
+
+/**
+ * Approval covers the reviewed content. Approved posts go back to the initial state when their meta
+ * changes, so they have to be reviewed again before they are published. Should be called before the new
+ * meta is applied, `pattern` limits the comparison as in `updateMeta`.
+ */
+export const resetWorkflowApproval = async (
+  entityManager: EntityManager,
+  post: IPost,
+  nextMeta: { key: string; value: any }[],
+  pattern?: RegExp
+) => {
+  const settings = await getWorkflowSettings(entityManager);
+  if (!settings.enabled || !isPostApproved(settings, post)) return false;
+  if (!hasMetaChanges(post.meta, nextMeta, pattern)) return false;
+
+  post.workflowState = settings.initialState;
+  await entityManager.getRepository(Post).update({ id: post.id }, { workflowState: settings.initialState });
+  return true;
+};
+
+/**
+ * Lists transitions available from the current state of the post that the user is allowed to perform.
+ */
+export const getAvailableTransitions = async (
+  settings: IWorkflowSettings,
+  post: IPost,
+  user: User
+) => {
+  const userPermissions: string[] = await Hooks.applyFilters(
+    'auth/permissions',
+    _.flatMap(user?.groups ?? [], 'permissions'),
+    user
+  );
+  const state = getWorkflowState(settings, post?.workflowState);
+
+  return settings.transitions.filter(
+    (transition) =>
+      transition.from.includes(state?.id) &&
+      (userPermissions.includes('all') ||
+        userPermissions.includes(getTransitionPermission(transition)))
+  );
+};
+
+interface ITransitionPostParams {
+  entityManager: EntityManager;
+  post: Post;
+  transitionId: string;
+  user: User;
+  comment?: string;
+}
+
+export const transitionPost = async ({
+  entityManager,
+  post,
+  transitionId,
+  user,
+  comment,
+}: ITransitionPostParams) => {
+  const settings = await getWorkflowSettings(entityManager);
+  if (!settings.enabled) throw new BadRequestError('workflow_disabled');
+
+  const transition = settings.transitions.find((item) => item.id === transitionId);
+  if (!transition) throw new BadRequestError('invalid_transition');
+
+  const fromState = getWorkflowState(settings, post.workflowState)?.id;
+  if (!transition.from.includes(fromState)) {
+    throw new BadRequestError('invalid_transition', { from: fromState, transition: transitionId });
+  }
+
+  const available = await getAvailableTransitions(settings, post, user);
+  if (!available.find((item) => item.id === transition.id)) {
+    throw new ForbiddenError('forbidden');
+  }
+
+  post.workflowState = transition.to;
+  await entityManager.getRepository(Post).update({ id: post.id }, { workflowState: transition.to });
+
+  const postComment = await entityManager.getRepository(PostComment).save({
+    post,
+    author: user,
+    comment: comment?.length > 0 ? comment : null,
+    transition: transition.id,
+    fromState,
+    toState: transition.to,
+  });
+
+  await Hooks.doAction('post/postTransition', post, transition, postComment);
+
+  return postComment;
+};
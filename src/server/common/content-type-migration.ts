@@ -0,0 +1,451 @@
+import _ from 'lodash';
+import md5Hex from '@shared/md5';
+import { isTrue } from '@admin/helpers/utility';
+import { IContentMigrationOperation } from '@shared/interfaces/model';
+
+type IFieldNode = {
+  uid: string;
+  name: string;
+  type: string;
+  parentUid?: string;
+  // Ancestors of the field, the field included
+  chain: IFieldNode[];
+  path: string;
+};
+
+type IKeyToken = {
+  name?: string;
+  index?: string;
+};
+
+type IMetaEntry = {
+  key: string;
+  value: any;
+};
+
+const CONTAINER_TYPES = ['group', 'repeatable'];
+
+// Values of these types are stored as a single string and can be converted to each other
+const SCALAR_TYPES = [
+  'text',
+  'number',
+  'checkbox',
+  'colorpicker',
+  'datepicker',
+  'dropdown',
+  'choicegroup',
+  'text-editor',
+];
+const ASSET_TYPES = ['images', 'assets'];
+
+const TOGGLE_SUFFIX = '_$enabled';
+// Every field keeps its type next to its value, content is compiled by it
+const TYPE_SUFFIX = '_$type';
+
+const CONTENT_KEY_REGEX = /^(content|locales\.[^.]+\.content)((?:\.|\[).*)$/;
+const KEY_TOKEN_REGEX = /\.([^.[\]]+)|\[(\d*)\]/g;
+
+export const parseFields = (fields: any): any[] => {
+  if (Array.isArray(fields)) return fields;
+  if (typeof fields === 'string') {
+    try {
+      const parsed = JSON.parse(fields);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const getLegacyUid = (path: string) => md5Hex(path).slice(0, 12);
+
+/**
+ * Gives every field a stable `uid` which renames and moves are tracked by. Fields saved before uids
+ * existed, or sent without them, get one derived from their path, so unchanged fields keep matching.
+ */
+export const ensureFieldUids = (fields: any, parentPath = ''): any[] =>
+  parseFields(fields).map((field) => {
+    if (!_.isPlainObject(field) || !field?.name) return field;
+
+    const path = field.type === 'tab' ? `${parentPath}#${field.name}` : `${parentPath}.${field.name}`;
+    return {
+      ...field,
+      uid: field.uid || getLegacyUid(path),
+      ...(Array.isArray(field.fields) && CONTAINER_TYPES.includes(field.type)
+        ? { fields: ensureFieldUids(field.fields, path) }
+        : {}),
+    };
+  });
+
+/**
+ * Fields defined in code usually come without uids, they take the uid of the stored field of the same
+ * name on the same level, so they are not mistaken for new fields.
+ */
+export const inheritFieldUids = (fields: any, storedFields: any): any[] => {
+  const stored = parseFields(storedFields);
+  return parseFields(fields).map((field) => {
+    if (!_.isPlainObject(field) || !field?.name) return field;
+
+    const match = stored.find((item) => item?.name === field.name && (item?.type === 'tab') === (field.type === 'tab'));
+    return {
+      ...field,
+      ...(!field.uid && match?.uid ? { uid: match.uid } : {}),
+      ...(Array.isArray(field.fields) && CONTAINER_TYPES.includes(field.type)
+        ? { fields: inheritFieldUids(field.fields, match?.fields) }
+        : {}),
+    };
+  });
+};
+
+export const findDuplicateFieldUids = (fields: any[]) => {
+  const uids: string[] = [];
+  const walk = (items: any[]) =>
+    (items || []).forEach((field) => {
+      if (field?.uid) uids.push(field.uid);
+      if (CONTAINER_TYPES.includes(field?.type)) walk(field.fields);
+    });
+  walk(fields);
+  return _.uniq(uids.filter((uid, index) => uids.indexOf(uid) !== index));
+};
+
+const formatPath = (chain: IFieldNode[]) =>
+  chain
+    .map((node, index) => (node.type === 'repeatable' && index < chain.length - 1 ? `${node.name}[]` : node.name))
+    .join('.');
+
+const collectFields = (fields: any[]) => {
+  const nodes = new Map<string, IFieldNode>();
+  const walk = (items: any[], parents: IFieldNode[]) =>
+    (items || []).forEach((field) => {
+      if (!field?.uid || !field?.name || field.type === 'tab') return;
+
+      const node: IFieldNode = {
+        uid: field.uid,
+        name: field.name,
+        type: field.type,
+        parentUid: _.last(parents)?.uid,
+        chain: [],
+        path: '',
+      };
+      node.chain = [...parents, node];
+      node.path = formatPath(node.chain);
+      nodes.set(node.uid, node);
+
+      if (CONTAINER_TYPES.includes(field.type)) walk(field.fields, node.chain);
+    });
+  walk(fields, []);
+  return nodes;
+};
+
+// Items of a repeatable are kept by index, fields can only move between the same repeatables
+const getListUids = (node: IFieldNode) =>
+  node.chain
+    .slice(0, -1)
+    .filter((item) => item.type === 'repeatable')
+    .map((item) => item.uid);
+
+export const isCoercible = (fromType: string, toType: string) =>
+  fromType === toType ||
+  (SCALAR_TYPES.includes(fromType) && SCALAR_TYPES.includes(toType)) ||
+  (ASSET_TYPES.includes(fromType) && ASSET_TYPES.includes(toType));
+
+/**
+ * Converts a stored value to the new field type, `undefined` means the value can not be kept.
+ */
+export const coerceValue = (value: any, toType: string) => {
+  if (value === null || value === undefined) return value;
+
+  switch (toType) {
+    case 'number': {
+      const number = Number(value);
+      return `${value}`.trim().length > 0 && Number.isFinite(number) ? `${number}` : undefined;
+    }
+    case 'checkbox':
+      return isTrue(value) ? 'true' : 'false';
+    case 'datepicker': {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+    default:
+      return `${value}`;
+  }
+};
+
+/**
+ * Diffs old and new field trees by uid. Fields inside a renamed, moved or dropped field are not
+ * listed on their own, their content follows the parent.
+ */
+export const planContentTypeMigration = (oldFields: any, newFields: any): IContentMigrationOperation[] => {
+  const oldNodes = collectFields(ensureFieldUids(oldFields));
+  const newNodes = collectFields(ensureFieldUids(newFields));
+  const operations: IContentMigrationOperation[] = [];
+  const dropped = new Set<string>();
+
+  oldNodes.forEach((oldNode) => {
+    if (oldNode.chain.slice(0, -1).some((parent) => dropped.has(parent.uid))) {
+      dropped.add(oldNode.uid);
+      return;
+    }
+
+    const newNode = newNodes.get(oldNode.uid);
+    const base = {
+      uid: oldNode.uid,
+      from: oldNode.path,
+      fromType: oldNode.type,
+    };
+
+    if (!newNode) {
+      dropped.add(oldNode.uid);
+      operations.push({ ...base, action: 'drop' });
+      return;
+    }
+
+    if (newNode.parentUid !== oldNode.parentUid || newNode.name !== oldNode.name) {
+      if (!_.isEqual(getListUids(oldNode), getListUids(newNode))) {
+        dropped.add(oldNode.uid);
+        operations.push({ ...base, action: 'drop', to: newNode.path, reason: 'incompatible_move' });
+        return;
+      }
+      operations.push({
+        ...base,
+        action: newNode.parentUid === oldNode.parentUid ? 'rename' : 'move',
+        to: newNode.path,
+      });
+    }
+
+    if (newNode.type !== oldNode.type) {
+      if (!isCoercible(oldNode.type, newNode.type)) {
+        dropped.add(oldNode.uid);
+        operations.push({ ...base, action: 'drop', toType: newNode.type, reason: 'incompatible_type' });
+        return;
+      }
+      operations.push({
+        ...base,
+        action: 'coerce',
+        to: newNode.path,
+        toType: newNode.type,
+      });
+    }
+  });
+
+  return operations;
+};
+
+const tokenize = (value: string): IKeyToken[] =>
+  Array.from(value.matchAll(KEY_TOKEN_REGEX)).map((match) =>
+    match[1] !== undefined ? { name: match[1] } : { index: match[2] }
+  );
+
+const formatTokens = (tokens: IKeyToken[]) =>
+  tokens.map((token) => (token.name !== undefined ? `.${token.name}` : `[${token.index}]`)).join('');
+
+// Maps the key tokens of a value of the old fields to the new path, see createMetaMigrator
+const createTokenMigrator = (oldFields: any, newFields: any) => {
+  const oldTree = ensureFieldUids(oldFields);
+  const newNodes = collectFields(ensureFieldUids(newFields));
+
+  return (tokens: IKeyToken[], value: any): { path: string; value: any } | null | undefined => {
+    const chain: { field: any; index?: string }[] = [];
+    let level = oldTree;
+    let toggle = false;
+    let typeKey = false;
+    let position = 0;
+
+    while (position < tokens.length && tokens[position].name !== undefined) {
+      const { name } = tokens[position];
+      let field = level.find((item) => item?.name === name && item?.type !== 'tab');
+      if (!field && name.endsWith(TOGGLE_SUFFIX)) {
+        field = level.find((item) => item?.type === 'custom' && `${item.name}${TOGGLE_SUFFIX}` === name);
+        toggle = !!field;
+      }
+      if (!field && name.endsWith(TYPE_SUFFIX)) {
+        field = level.find((item) => item?.type !== 'tab' && `${item?.name}${TYPE_SUFFIX}` === name);
+        typeKey = !!field;
+      }
+      if (!field?.uid) break;
+
+      const entry: { field: any; index?: string } = { field };
+      chain.push(entry);
+      position += 1;
+
+      if (field.type === 'repeatable' && tokens[position]?.index !== undefined) {
+        entry.index = tokens[position].index;
+        position += 1;
+      }
+      if (toggle || typeKey || !CONTAINER_TYPES.includes(field.type)) break;
+      if (field.type === 'repeatable' && !entry.index) break;
+      level = field.fields ?? [];
+    }
+
+    if (chain.length === 0) return undefined;
+
+    const last = _.last(chain);
+    const newNode = newNodes.get(last.field.uid);
+    if (!newNode) return null;
+
+    const oldLists = chain
+      .slice(0, -1)
+      .filter((entry) => entry.field.type === 'repeatable')
+      .map((entry) => entry.field.uid);
+    if (!_.isEqual(oldLists, getListUids(newNode))) return null;
+
+    const suffix = tokens.slice(position);
+    let nextValue = value;
+    if (newNode.type !== last.field.type) {
+      if (!isCoercible(last.field.type, newNode.type)) return null;
+      if (typeKey) {
+        nextValue = newNode.type;
+      } else {
+        if (toggle || suffix.length > 0) return null;
+        nextValue = coerceValue(value, newNode.type);
+        if (nextValue === undefined) return null;
+      }
+    }
+    if (toggle && newNode.type !== 'custom') return null;
+
+    const indexes = new Map(
+      chain.filter((entry) => entry.index !== undefined).map((entry) => [entry.field.uid, entry.index])
+    );
+    const path = newNode.chain
+      .map((node) => {
+        let name = node.name;
+        if (node === newNode && toggle) name = `${node.name}${TOGGLE_SUFFIX}`;
+        if (node === newNode && typeKey) name = `${node.name}${TYPE_SUFFIX}`;
+        return indexes.has(node.uid) ? `.${name}[${indexes.get(node.uid)}]` : `.${name}`;
+      })
+      .join('');
+
+    return { path: `${path}${formatTokens(suffix)}`, value: nextValue };
+  };
+};
+
+/**
+ * Returns a function mapping flattened content meta (`content.*` and `locales.<code>.content.*`)
+ * of the old fields to the new ones. It returns `undefined` for unchanged meta and `null` for meta
+ * which has to be removed. Keys of fields not in the old tree are left alone.
+ */
+export const createMetaMigrator = (oldFields: any, newFields: any) => {
+  const migrate = createTokenMigrator(oldFields, newFields);
+
+  return ({ key, value }: IMetaEntry): IMetaEntry | null | undefined => {
+    const match = CONTENT_KEY_REGEX.exec(key ?? '');
+    if (!match) return undefined;
+
+    const result = migrate(tokenize(match[2]), value);
+    if (result === null) return null;
+    if (result === undefined) return undefined;
+
+    const nextKey = `${match[1]}${result.path}`;
+    if (nextKey === key && result.value === value) return undefined;
+    return { key: nextKey, value: result.value };
+  };
+};
+
+/**
+ * Whether content of the fields can hold the component, directly or through other components.
+ * Zones without a list of components accept any of them.
+ */
+export const embedsComponent = (
+  fields: any,
+  name: string,
+  components: { [name: string]: any[] },
+  visited: string[] = []
+): boolean =>
+  parseFields(fields).some((field) => {
+    if (CONTAINER_TYPES.includes(field?.type)) return embedsComponent(field.fields, name, components, visited);
+
+    let embedded: string[] = [];
+    if (field?.type === 'custom') embedded = [field.component];
+    if (field?.type === 'zone') {
+      embedded = Array.isArray(field.components) && field.components.length > 0
+        ? field.components
+        : Object.keys(components);
+    }
+    return embedded.some(
+      (component) =>
+        component === name ||
+        (!visited.includes(component) &&
+          embedsComponent(components[component], name, components, [...visited, component]))
+    );
+  });
+
+// Position of the first token inside content of the component, `undefined` when the key is not in it
+const findComponentRoot = (
+  tokens: IKeyToken[],
+  fields: any[],
+  name: string,
+  components: { [name: string]: any[] },
+  getZoneComponent: (tokens: IKeyToken[]) => string
+) => {
+  let level = fields;
+  let position = 0;
+
+  while (position < tokens.length && tokens[position].name !== undefined) {
+    const token = tokens[position];
+    const field = level.find((item) => item?.name === token.name && item?.type !== 'tab');
+    if (!field) return undefined;
+    position += 1;
+
+    if (['repeatable', 'zone'].includes(field.type)) {
+      if (!tokens[position]?.index) return undefined;
+      position += 1;
+    }
+
+    let component: string;
+    if (field.type === 'custom') component = field.component;
+    if (field.type === 'zone') component = getZoneComponent(tokens.slice(0, position));
+    if (component === name) return position;
+
+    if (CONTAINER_TYPES.includes(field.type)) {
+      level = field.fields ?? [];
+    } else if (component) {
+      level = components[component] ?? [];
+    } else {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Same as createMetaMigrator for content of a component, which is embedded in content of other
+ * content types by custom and zone fields. Fields of the content type and of the stored components
+ * locate the component in the key, `getValue` returns other meta of the post, zone items keep the
+ * name of their component in it.
+ */
+export const createComponentMetaMigrator = (
+  name: string,
+  oldFields: any,
+  newFields: any,
+  components: { [name: string]: any[] }
+) => {
+  const migrate = createTokenMigrator(oldFields, newFields);
+
+  return (
+    { key, value }: IMetaEntry,
+    fields: any,
+    getValue: (key: string) => any
+  ): IMetaEntry | null | undefined => {
+    const match = CONTENT_KEY_REGEX.exec(key ?? '');
+    if (!match) return undefined;
+
+    const tokens = tokenize(match[2]);
+    const position = findComponentRoot(
+      tokens,
+      parseFields(fields),
+      name,
+      components,
+      (itemTokens) => getValue(`${match[1]}${formatTokens(itemTokens)}.component`)
+    );
+    if (position === undefined) return undefined;
+
+    const result = migrate(tokens.slice(position), value);
+    if (result === null) return null;
+    if (result === undefined) return undefined;
+
+    const nextKey = `${match[1]}${formatTokens(tokens.slice(0, position))}${result.path}`;
+    if (nextKey === key && result.value === value) return undefined;
+    return { key: nextKey, value: result.value };
+  };
+};
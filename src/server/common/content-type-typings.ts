@@ -0,0 +1,329 @@
+import _ from 'lodash';
+import { EntityManager, getManager, In } from 'typeorm';
+import camelCase from 'camelcase';
+import ContentType from '@server/models/content-type.model';
+import Hooks from '@shared/features/hooks';
+import { IContentType } from '@shared/interfaces/model';
+import { isTrue } from '@admin/helpers/utility';
+import { parseFields } from '@server/common/content-type-migration';
+
+const CONTENT_TYPES = ['page', 'post', 'fragment', 'component', 'hierarchical_post'];
+
+const TYPE_SUFFIXES = {
+  page: 'Page',
+  post: 'Post',
+  fragment: 'Fragment',
+  component: 'Component',
+  hierarchical_post: 'HierarchicalPost',
+};
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Shapes produced by `compilePost`, assets follow the `assets/public-mapping` filter and richtext the raw
+ * draft-js state with image sources and component values resolved.
+ */
+const BASE_TYPINGS = `export interface BurdyAuthor {
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface BurdyTag {
+  id: number;
+  name: string;
+  slug: string;
+  slugPath: string;
+  parent?: BurdyTag;
+  author?: BurdyAuthor;
+}
+
+export interface BurdyFocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface BurdyAssetCrop {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  src: string;
+}
+
+export interface BurdyAssetVariant {
+  width: number;
+  src: string;
+}
+
+export interface BurdyAsset {
+  id?: number;
+  name: string;
+  npath: string;
+  mimeType: string;
+  src: string;
+  srcset?: string;
+  /** Meta values are kept as strings */
+  width?: string;
+  height?: string;
+  alt?: string;
+  copyright?: string;
+  meta: Record<string, string>;
+  tags?: BurdyTag[];
+  focalPoint?: BurdyFocalPoint;
+  crops: BurdyAssetCrop[];
+  variants: BurdyAssetVariant[];
+}
+
+export interface BurdyRichtextBlock {
+  key: string;
+  type: string;
+  text: string;
+  depth: number;
+  inlineStyleRanges: { offset: number; length: number; style: string }[];
+  entityRanges: { offset: number; length: number; key: number }[];
+  data?: Record<string, any>;
+}
+
+export interface BurdyRichtextEntity {
+  /** \`IMAGE\` entities get \`data.src\`, \`COMPONENT\` entities their compiled \`data.value\` */
+  type: string;
+  mutability: string;
+  data: Record<string, any>;
+}
+
+export interface BurdyRichtext {
+  blocks: BurdyRichtextBlock[];
+  entityMap: Record<string, BurdyRichtextEntity>;
+}
+
+export interface BurdyContentType<TName extends string = string> {
+  id: number;
+  name: TName;
+  type: string;
+  fields: any[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BurdyPost<TContent = Record<string, any>, TContentType extends string = string> {
+  id: number;
+  type: string;
+  name: string;
+  slug: string;
+  slugPath: string;
+  status: string;
+  locale?: string;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt?: string;
+  publishedFrom?: string;
+  publishedUntil?: string;
+  parent?: BurdyPost;
+  contentType: BurdyContentType<TContentType>;
+  author?: BurdyAuthor;
+  tags?: BurdyTag[];
+  meta: Record<string, any> & { content: TContent | null };
+}
+
+/** Hierarchical posts requested with \`includeChildren\` */
+export type BurdyPostContainer<TContent = Record<string, any>, TContentType extends string = string> =
+  BurdyPost<TContent, TContentType> & {
+    posts?: BurdyPost[];
+    paginate?: { pageSize: number; current: number; total: number };
+  };
+
+/** Items of dynamic zones, discriminated by \`component\` */
+export type BurdyZoneItem<TName extends string, TComponent> = TComponent & {
+  component: TName;
+  component_name?: TName;
+};`;
+
+const toTypeName = (value: string) => {
+  const name = camelCase((value || '').replace(/[^a-zA-Z0-9]+/g, ' ').trim(), {
+    pascalCase: true,
+  });
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+};
+
+const toPropertyName = (value: string) => (IDENTIFIER_REGEX.test(value) ? value : `'${value.replace(/'/g, "\\'")}'`);
+
+const toLiteral = (value: string) => `'${`${value}`.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const toComment = (value: any) => `${value ?? ''}`.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim();
+
+const toList = (value: any): string[] => {
+  if (Array.isArray(value)) return value.filter((item) => typeof item === 'string' && item.length > 0);
+  if (typeof value === 'string' && value.length > 0) return value.split(',');
+  return [];
+};
+
+const getOptionsType = (field: any) => {
+  const options = `${field?.options ?? ''}`
+    .split('\n')
+    .filter((option) => option.length > 0);
+  return options.length > 0 ? options.map(toLiteral).join(' | ') : 'string';
+};
+
+/**
+ * Builds `.d.ts` definitions of the `/content/*` payloads from the stored content type fields. Fields are
+ * optional, as posts saved before a field was added do not have it.
+ */
+export const buildContentTypings = (contentTypes: IContentType[]): string => {
+  const parsedContentTypes = contentTypes
+    .filter((contentType) => contentType?.name && CONTENT_TYPES.includes(contentType.type))
+    .map((contentType) => ({ ...contentType, fields: parseFields(contentType.fields) }));
+
+  const usedTypeNames = new Set<string>([
+    'BurdyContentTypes',
+    'BurdyComponents',
+    'BurdyAnyPost',
+  ]);
+  const uniqueTypeName = (name: string) => {
+    let unique = name || '_';
+    let counter = 1;
+    while (usedTypeNames.has(unique)) {
+      unique = `${name}${counter++}`;
+    }
+    usedTypeNames.add(unique);
+    return unique;
+  };
+
+  const components: { [name: string]: string } = {};
+  const postTypes: { [name: string]: string } = {};
+
+  parsedContentTypes
+    .filter((contentType) => contentType.type === 'component')
+    .forEach((contentType) => {
+      components[contentType.name] = uniqueTypeName(`${toTypeName(contentType.name)}${TYPE_SUFFIXES.component}`);
+    });
+
+  parsedContentTypes
+    .filter((contentType) => contentType.type !== 'component')
+    .forEach((contentType) => {
+      postTypes[contentType.name] = uniqueTypeName(
+        `${toTypeName(contentType.name)}${TYPE_SUFFIXES[contentType.type] ?? toTypeName(contentType.type)}`
+      );
+    });
+
+  const declarations: string[] = [];
+
+  const getReferenceType = (field: any) => {
+    const allowed = toList(field?.posts).filter((name) => postTypes[name]);
+    return allowed.length > 0 ? allowed.map((name) => postTypes[name]).join(' | ') : 'BurdyPost';
+  };
+
+  const buildInterface = (typeName: string, fields: any[]) => {
+    const lines: string[] = [];
+    const named = fields.filter((field) => field?.name && field?.type !== 'tab');
+    _.uniqBy(named, 'name').forEach((field) => {
+      const type = buildFieldType(typeName, field);
+      if (field?.label) {
+        lines.push(`  /** ${toComment(field.label)} */`);
+      }
+      lines.push(`  ${toPropertyName(field.name)}?: ${type};`);
+    });
+    declarations.push(`export interface ${typeName} {${lines.map((line) => `\n${line}`).join('')}\n}`);
+  };
+
+  const buildGroupType = (typeName: string, field: any) => {
+    const groupTypeName = uniqueTypeName(`${typeName}${toTypeName(field.name)}`);
+    buildInterface(groupTypeName, parseFields(field.fields));
+    return groupTypeName;
+  };
+
+  const buildFieldType = (typeName: string, field: any): string => {
+    switch (field.type) {
+      // Numbers are entered in a text field and kept as strings
+      case 'number':
+      case 'text':
+      case 'colorpicker':
+      case 'datepicker':
+      case 'text-editor':
+        return 'string';
+      case 'choicegroup':
+        return getOptionsType(field);
+      case 'dropdown':
+        // Selected options are joined by a comma
+        return isTrue(field?.multiSelect) ? 'string' : getOptionsType(field);
+      case 'checkbox':
+        return 'boolean';
+      case 'richtext':
+        return 'BurdyRichtext | null';
+      case 'images':
+      case 'assets':
+        return 'BurdyAsset[] | null';
+      case 'reference_single':
+        return getReferenceType(field);
+      case 'reference_multiple':
+      case 'relation':
+        return `Array<${getReferenceType(field)}> | null`;
+      case 'group':
+        return `${buildGroupType(typeName, field)} | null`;
+      case 'repeatable':
+        return `Array<${buildGroupType(typeName, field)}>`;
+      case 'custom':
+        return `${components[field?.component] ?? 'Record<string, any>'} | null`;
+      case 'zone': {
+        const allowed = toList(field?.components);
+        const names = (allowed.length > 0 ? allowed : Object.keys(components)).filter((name) => components[name]);
+        if (names.length === 0) return 'Array<BurdyZoneItem<string, Record<string, any>>>';
+        return `Array<${names.map((name) => `BurdyZoneItem<${toLiteral(name)}, ${components[name]}>`).join(' | ')}>`;
+      }
+      default:
+        return Hooks.applySyncFilters('typings/fieldType', 'unknown', field) ?? 'unknown';
+    }
+  };
+
+  parsedContentTypes
+    .filter((contentType) => contentType.type === 'component')
+    .forEach((contentType) => {
+      buildInterface(components[contentType.name], contentType.fields);
+    });
+
+  parsedContentTypes
+    .filter((contentType) => contentType.type !== 'component')
+    .forEach((contentType) => {
+      const typeName = postTypes[contentType.name];
+      const contentTypeName = uniqueTypeName(`${typeName}Content`);
+      buildInterface(contentTypeName, contentType.fields);
+
+      const container = contentType.type === 'hierarchical_post' ? 'BurdyPostContainer' : 'BurdyPost';
+      declarations.push(
+        `export type ${typeName} = ${container}<${contentTypeName}, ${toLiteral(contentType.name)}>;`
+      );
+    });
+
+  const toMap = (typeName: string, types: { [name: string]: string }) => {
+    const lines = Object.keys(types).map((name) => `  ${toPropertyName(name)}: ${types[name]};`);
+    return `export interface ${typeName} {${lines.map((line) => `\n${line}`).join('')}\n}`;
+  };
+
+  const anyPost = Object.keys(postTypes).length > 0 ? 'BurdyContentTypes[keyof BurdyContentTypes]' : 'BurdyPost';
+
+  const blocks = [
+    '/* eslint-disable */\n// Generated by Burdy from the stored content types, do not edit.',
+    BASE_TYPINGS,
+    ...declarations,
+    toMap('BurdyContentTypes', postTypes),
+    toMap('BurdyComponents', components),
+    `export type BurdyAnyPost = ${anyPost};`,
+  ];
+  return `${blocks.join('\n\n')}\n`;
+};
+
+/**
+ * Content types can be narrowed down by name, components used by them are always included.
+ */
+export const getContentTypings = async (names: string[] = [], entityManager?: EntityManager) => {
+  const contentTypes = await (entityManager ?? getManager()).getRepository(ContentType).find({
+    where: { type: In(CONTENT_TYPES) },
+    order: { id: 'ASC' },
+  });
+
+  if (names.length === 0) return buildContentTypings(contentTypes);
+
+  return buildContentTypings(
+    contentTypes.filter((contentType) => contentType.type === 'component' || names.includes(contentType.name))
+  );
+};
@@ -0,0 +1,339 @@
+import { EntityManager } from 'typeorm';
+import _ from 'lodash';
+import ContentType from '@server/models/content-type.model';
+import PostMeta from '@server/models/post-meta.model';
+import BadRequestError from '@server/errors/bad-request-error';
+import { IContentType } from '@shared/interfaces/model';
+import Hooks from '@shared/features/hooks';
+import { isTrue } from '@admin/helpers/utility';
+import { unflatten } from '@server/common/object';
+import {
+  LIST_FIELD_TYPES,
+  parseFieldValidation,
+  validateFieldValue,
+} from '@shared/features/field-validation';
+import { isFieldVisible } from '@shared/features/field-visibility';
+
+export interface IContentValidationError {
+  path: string;
+  message: string;
+  data?: any;
+}
+
+type IValidationContext = {
+  entityManager: EntityManager;
+  contentType?: IContentType;
+  // Post being saved, left out of unique checks
+  postId?: number;
+  metaPrefix: string;
+  // Unique values are not checked inside lists
+  listDepth: number;
+  components?: { [name: string]: any[] };
+  errors: IContentValidationError[];
+};
+
+export interface IValidateContentParams {
+  entityManager: EntityManager;
+  contentType: IContentType;
+  content: any;
+  postId?: number;
+  // Prefix of the content meta keys, `content` or `locales.<code>.content`
+  metaPrefix?: string;
+}
+
+const parseFields = (fields: any): any[] => {
+  if (Array.isArray(fields)) return fields;
+  if (typeof fields === 'string') {
+    try {
+      const parsed = JSON.parse(fields);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const parseOptions = (options: any): string[] => {
+  if (Array.isArray(options)) return options.map((option) => `${option}`);
+  return `${options ?? ''}`
+    .split('\n')
+    .filter((option) => option.length > 0);
+};
+
+const parseList = (value: any) => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+const isEmptyValue = (value: any) => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+const joinPath = (path: string, key: string | number) => (path?.length > 0 ? `${path}.${key}` : `${key}`);
+
+const getComponentFields = async (context: IValidationContext, name: string) => {
+  if (!context.components) {
+    const components = await context.entityManager.getRepository(ContentType).find({
+      where: { type: 'component' },
+    });
+    context.components = components.reduce((acc, component) => {
+      acc[component.name] = parseFields(component.fields);
+      return acc;
+    }, {});
+  }
+  return context.components[name];
+};
+
+const addError = (context: IValidationContext, path: string, message: string, data?: any) => {
+  context.errors.push({
+    path,
+    message,
+    ...(data ? { data } : {}),
+  });
+};
+
+/**
+ * Scopes hold values of the ancestor groups, hidden fields are not validated.
+ */
+const validateFields = async (
+  context: IValidationContext,
+  fields: any[],
+  content: any,
+  path: string,
+  scopes: any[] = []
+) => {
+  const values = _.isPlainObject(content) ? content : {};
+  const fieldScopes = [values, ...scopes];
+  await (fields || []).reduce(async (promise, field) => {
+    await promise;
+    if (field?.name && field?.type !== 'tab' && isFieldVisible(field, fieldScopes)) {
+      await validateField(context, field, values[field.name], joinPath(path, field.name), fieldScopes);
+    }
+  }, Promise.resolve());
+};
+
+const validateList = async (
+  context: IValidationContext,
+  field: any,
+  value: any,
+  path: string,
+  validateItem: (item: any, itemPath: string) => Promise<void>
+) => {
+  if (value !== undefined && value !== null && !Array.isArray(value)) {
+    addError(context, path, 'invalid_list');
+    return;
+  }
+  const items = value || [];
+  if (isTrue(field?.required) && items.length === 0) {
+    addError(context, path, 'required');
+  }
+  context.listDepth += 1;
+  await items.reduce(async (promise, item, index) => {
+    await promise;
+    await validateItem(item, joinPath(path, index));
+  }, Promise.resolve());
+  context.listDepth -= 1;
+};
+
+const validateUnique = async (context: IValidationContext, field: any, value: any, path: string) => {
+  if (!parseFieldValidation(field).unique || context.listDepth > 0 || !context.contentType?.id) return;
+
+  // References are stored by their slug path
+  const isReference = field.type === 'reference_single';
+  const stored = isReference ? value?.slugPath : value;
+  if (isEmptyValue(stored) || typeof stored === 'object') return;
+
+  const qb = context.entityManager
+    .getRepository(PostMeta)
+    .createQueryBuilder('meta')
+    .innerJoin('meta.post', 'post')
+    .where('post.contentTypeId = :contentTypeId', { contentTypeId: context.contentType.id })
+    .andWhere('post.type != :postVersion', { postVersion: 'post_version' })
+    .andWhere('meta.key = :key', { key: `${context.metaPrefix}.${isReference ? joinPath(path, 'slugPath') : path}` })
+    .andWhere('meta.value = :value', { value: `${stored}` });
+  if (context.postId) {
+    qb.andWhere('post.id != :postId', { postId: context.postId });
+  }
+
+  if ((await qb.getCount()) > 0) {
+    addError(context, path, 'unique');
+  }
+};
+
+/**
+ * Rules of the field are checked once its value passed the checks of the type.
+ */
+const validateField = async (context: IValidationContext, field: any, value: any, path: string, scopes: any[]) => {
+  await validateFieldType(context, field, value, path, scopes);
+  if (['group', 'custom'].includes(field.type) || context.errors.some((error) => error.path === path)) return;
+
+  const error = validateFieldValue(field, LIST_FIELD_TYPES.includes(field.type) ? parseList(value) : value);
+  if (error) {
+    addError(context, path, error.message, error.data);
+    return;
+  }
+  await validateUnique(context, field, value, path);
+};
+
+const validateFieldType = async (
+  context: IValidationContext,
+  field: any,
+  value: any,
+  path: string,
+  scopes: any[]
+) => {
+  switch (field.type) {
+    case 'group':
+      await validateFields(context, field.fields, value, path, scopes);
+      break;
+    case 'custom': {
+      if (isTrue(field?.allowToggle) && !isTrue(scopes[0]?.[`${field.name}_$enabled`])) break;
+      const componentFields = await getComponentFields(context, field.component);
+      if (!componentFields) {
+        addError(context, path, 'invalid_component', { component: field.component });
+        break;
+      }
+      await validateFields(context, componentFields, value, path, scopes);
+      break;
+    }
+    case 'repeatable':
+      await validateList(context, field, value, path, (item, itemPath) =>
+        validateFields(context, field.fields, item, itemPath, scopes)
+      );
+      break;
+    case 'zone': {
+      const allowed: string[] = Array.isArray(field?.components) ? field.components : [];
+      await validateList(context, field, value, path, async (item, itemPath) => {
+        const component = item?.component;
+        if (!component || (allowed.length > 0 && !allowed.includes(component))) {
+          addError(context, joinPath(itemPath, 'component'), 'invalid_component', { component });
+          return;
+        }
+        const componentFields = await getComponentFields(context, component);
+        if (!componentFields) {
+          addError(context, joinPath(itemPath, 'component'), 'invalid_component', { component });
+          return;
+        }
+        await validateFields(context, componentFields, item, itemPath, scopes);
+      });
+      break;
+    }
+    case 'number':
+      if (isEmptyValue(value)) {
+        if (isTrue(field?.required)) addError(context, path, 'required');
+      } else if (Number.isNaN(Number(value))) {
+        addError(context, path, 'invalid_number');
+      }
+      break;
+    case 'dropdown':
+    case 'choicegroup': {
+      if (isEmptyValue(value)) {
+        if (isTrue(field?.required)) addError(context, path, 'required');
+        break;
+      }
+      const options = parseOptions(field?.options);
+      const multiSelect = field.type === 'dropdown' && isTrue(field?.multiSelect);
+      // Multi select dropdown stores selected options as comma separated string
+      let selected = Array.isArray(value) ? value : [value];
+      if (multiSelect && typeof value === 'string') {
+        selected = value.split(',').filter((option) => option.length > 0);
+      }
+      if (Array.isArray(value) && !multiSelect) {
+        addError(context, path, 'invalid_option', { options });
+      } else if (options.length > 0 && selected.some((option) => !options.includes(`${option}`))) {
+        addError(context, path, 'invalid_option', { options });
+      }
+      break;
+    }
+    case 'images':
+    case 'assets':
+    case 'relation':
+    case 'reference_multiple':
+      if (isTrue(field?.required) && isEmptyValue(parseList(value))) {
+        addError(context, path, 'required');
+      }
+      break;
+    case 'reference_single':
+      if (isTrue(field?.required) && !value?.slugPath) {
+        addError(context, path, 'required');
+      }
+      break;
+    default:
+      if (isTrue(field?.required) && isEmptyValue(value)) {
+        addError(context, path, 'required');
+      }
+      break;
+  }
+};
+
+/**
+ * Validates post content (as sent by the admin, unflattened) against the content type fields.
+ * Paths of returned errors match form field names, e.g. `items.0.title`.
+ */
+export const validateContent = async ({
+  entityManager,
+  contentType,
+  content,
+  postId,
+  metaPrefix = 'content',
+}: IValidateContentParams): Promise<IContentValidationError[]> => {
+  const context: IValidationContext = {
+    entityManager,
+    contentType,
+    postId,
+    metaPrefix,
+    listDepth: 0,
+    errors: [],
+  };
+
+  await validateFields(context, parseFields(contentType?.fields), content, '');
+
+  return Hooks.applyFilters('content/validate', context.errors, content, contentType);
+};
+
+export const assertValidContent = async (params: IValidateContentParams) => {
+  if (!params?.contentType) return;
+  const errors = await validateContent(params);
+  if (errors?.length > 0) {
+    throw new BadRequestError('invalid_content', { errors });
+  }
+};
+
+/**
+ * Same as assertValidContent, for content stored as flattened post meta (`content.*` keys).
+ */
+export const assertValidMetaContent = async ({
+  entityManager,
+  contentType,
+  meta,
+  postId,
+}: {
+  entityManager: EntityManager;
+  contentType: IContentType;
+  meta: { key: string; value: any }[];
+  postId?: number;
+}) => {
+  const flat = {};
+  (meta || []).forEach((item) => {
+    if (item?.key?.startsWith('content.')) {
+      flat[item.key] = item.value;
+    }
+  });
+
+  await assertValidContent({
+    entityManager,
+    contentType,
+    postId,
+    content: unflatten(flat)?.content ?? {},
+  });
+};
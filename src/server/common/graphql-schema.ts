@@ -0,0 +1,775 @@
+import {
+  GraphQLBoolean,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldConfigMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInt,
+  GraphQLInterfaceType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  GraphQLUnionType,
+  Kind,
+  ValueNode,
+} from 'graphql';
+import { Brackets, getManager, getRepository, In } from 'typeorm';
+import camelCase from 'camelcase';
+import _ from 'lodash';
+import Post from '@server/models/post.model';
+import Asset from '@server/models/asset.model';
+import ContentType from '@server/models/content-type.model';
+import { IContentType, IPost } from '@shared/interfaces/model';
+import { parseContent } from '@server/common/post.parser';
+import { publishedQuery } from '@server/common/post.utility';
+import {
+  mapPublicAsset,
+  mapPublicTags,
+  mapPublicUser,
+} from '@server/common/mappers';
+import { verifyContentToken } from '@server/middleware/content.middleware';
+import AccessToken from '@server/models/access-token';
+import {
+  AccessTokenScope,
+  applyAccessTokenScopes,
+  assertAccessTokenScope,
+  canAccessPost,
+} from '@server/business-logic/access-token.bl';
+import BadRequestError from '@server/errors/bad-request-error';
+import Hooks from '@shared/features/hooks';
+import { ILocaleOptions, localizePost, resolveLocale } from '@server/common/locale.utility';
+
+export interface IGraphqlContext {
+  token?: string;
+  authorized?: boolean;
+  accessToken?: AccessToken;
+  posts: Map<string, Promise<Post | undefined>>;
+  assets: Map<string, Promise<any>>;
+}
+
+const POST_TYPES = ['page', 'post', 'fragment', 'hierarchical_post'];
+const ORDER_BY_COLUMNS = ['slugPath', 'name', 'createdAt', 'updatedAt', 'publishedAt'];
+const MAX_LIMIT = 100;
+
+const TYPE_SUFFIXES = {
+  page: 'Page',
+  post: 'Post',
+  fragment: 'Fragment',
+  component: 'Component',
+};
+
+export const createGraphqlContext = (token?: string, accessToken?: AccessToken): IGraphqlContext => ({
+  token,
+  authorized: !!accessToken,
+  accessToken,
+  posts: new Map(),
+  assets: new Map(),
+});
+
+/**
+ * Drafts, versions and collection queries always require a valid content token,
+ * same as /content/* and /search/posts.
+ */
+const authorize = async (context: IGraphqlContext, scopes: AccessTokenScope[] = []) => {
+  if (!context.authorized) {
+    context.accessToken = await verifyContentToken({
+      token: context.token,
+      entityManager: getManager(),
+    });
+    context.authorized = true;
+  }
+  scopes.forEach((scope) => assertAccessTokenScope(context.accessToken, scope));
+};
+
+const toTypeName = (value: string) => {
+  const name = camelCase((value || '').replace(/[^a-zA-Z0-9]+/g, ' ').trim(), {
+    pascalCase: true,
+  });
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+};
+
+const toFieldName = (value: string) => {
+  const name = (value || '').replace(/[^_a-zA-Z0-9]/g, '_');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+};
+
+const parseLiteral = (ast: ValueNode, variables?: any): any => {
+  switch (ast.kind) {
+    case Kind.STRING:
+    case Kind.BOOLEAN:
+      return ast.value;
+    case Kind.INT:
+    case Kind.FLOAT:
+      return Number(ast.value);
+    case Kind.LIST:
+      return ast.values.map((value) => parseLiteral(value, variables));
+    case Kind.OBJECT:
+      return ast.fields.reduce((obj, field) => {
+        obj[field.name.value] = parseLiteral(field.value, variables);
+        return obj;
+      }, {});
+    case Kind.VARIABLE:
+      return variables?.[ast.name.value];
+    default:
+      return null;
+  }
+};
+
+const GraphQLJSON = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value',
+  serialize: (value) => value,
+  parseValue: (value) => value,
+  parseLiteral,
+});
+
+const dateField = (key: string) => ({
+  type: GraphQLString,
+  resolve: (source) => (source?.[key] ? new Date(source[key]).toISOString() : null),
+});
+
+const TagType = new GraphQLObjectType({
+  name: 'Tag',
+  fields: {
+    id: { type: GraphQLID },
+    name: { type: GraphQLString },
+    slug: { type: GraphQLString },
+    slugPath: { type: GraphQLString },
+  },
+});
+
+const AuthorType = new GraphQLObjectType({
+  name: 'Author',
+  fields: {
+    firstName: { type: GraphQLString },
+    lastName: { type: GraphQLString },
+  },
+});
+
+const AssetVariantType = new GraphQLObjectType({
+  name: 'AssetVariant',
+  fields: {
+    width: { type: GraphQLInt },
+    src: { type: GraphQLString },
+  },
+});
+
+const FocalPointType = new GraphQLObjectType({
+  name: 'FocalPoint',
+  fields: {
+    x: { type: GraphQLFloat },
+    y: { type: GraphQLFloat },
+  },
+});
+
+const AssetCropType = new GraphQLObjectType({
+  name: 'AssetCrop',
+  fields: {
+    name: { type: GraphQLString },
+    x: { type: GraphQLFloat },
+    y: { type: GraphQLFloat },
+    width: { type: GraphQLFloat },
+    height: { type: GraphQLFloat },
+    src: { type: GraphQLString },
+  },
+});
+
+const AssetType = new GraphQLObjectType({
+  name: 'Asset',
+  fields: {
+    name: { type: GraphQLString },
+    npath: { type: GraphQLString },
+    src: { type: GraphQLString },
+    srcset: { type: GraphQLString },
+    variants: { type: new GraphQLList(AssetVariantType) },
+    focalPoint: { type: FocalPointType },
+    crops: { type: new GraphQLList(AssetCropType) },
+    mimeType: { type: GraphQLString },
+    width: { type: GraphQLInt },
+    height: { type: GraphQLInt },
+    alt: { type: GraphQLString },
+    copyright: { type: GraphQLString },
+    meta: { type: GraphQLJSON },
+    tags: { type: new GraphQLList(TagType) },
+  },
+});
+
+const loadPost = async (
+  context: IGraphqlContext,
+  slugPath: string,
+  draft?: boolean
+): Promise<Post | undefined> => {
+  const key = `${draft ? 'draft' : 'published'}:${slugPath}`;
+  if (!context.posts.has(key)) {
+    const qb = getRepository(Post)
+      .createQueryBuilder('post')
+      .leftJoinAndSelect('post.meta', 'meta')
+      .leftJoinAndSelect('post.author', 'author')
+      .leftJoinAndSelect('post.contentType', 'contentType')
+      .leftJoinAndSelect('post.tags', 'tags')
+      .where('post.slugPath = :slugPath', { slugPath });
+    publishedQuery(qb, draft);
+    context.posts.set(
+      key,
+      qb.getOne().then((post) => (canAccessPost(context.accessToken, post) ? post : undefined))
+    );
+  }
+  return context.posts.get(key);
+};
+
+const loadAsset = async (context: IGraphqlContext, npath: string) => {
+  if (!context.assets.has(npath)) {
+    context.assets.set(
+      npath,
+      getRepository(Asset)
+        .findOne({ relations: ['meta', 'tags'], where: { npath } })
+        .then((asset) => mapPublicAsset(asset))
+    );
+  }
+  return context.assets.get(npath);
+};
+
+/**
+ * Nodes keep the source post, so content is parsed only when requested and references stay unresolved
+ * until a query selects them.
+ */
+const toNode = (post: IPost, draft?: boolean, localeOptions?: ILocaleOptions) => {
+  if (!post) return null;
+  return {
+    ...localizePost(post, localeOptions),
+    contentTypeName: post.contentType?.name,
+    author: mapPublicUser(post.author),
+    tags: mapPublicTags(post.tags),
+    isDraft: draft,
+    localeOptions,
+  };
+};
+
+const resolveNodeContent = (node, components: { [name: string]: any[] }) => {
+  const { content, references } = parseContent(node, undefined, components);
+  if (!content) return null;
+  Object.keys(references).forEach((key) => {
+    if (references[key]) {
+      _.set(content, key, {
+        slugPath: references[key],
+        isDraft: node.isDraft,
+        localeOptions: node.localeOptions,
+      });
+    }
+  });
+  return content;
+};
+
+const resolveReference = async (reference, context: IGraphqlContext) => {
+  if (!reference?.slugPath) return null;
+  const post = await loadPost(context, reference.slugPath, reference.isDraft);
+  return toNode(post, reference.isDraft, reference.localeOptions);
+};
+
+const resolveAssets = async (assets, context: IGraphqlContext) => {
+  if (!Array.isArray(assets)) return null;
+  const resolved = await Promise.all(
+    assets.map(async (asset) => {
+      if (!asset?.npath) return null;
+      const mapped = await loadAsset(context, asset.npath);
+      return mapped ? { ...asset, ...mapped } : null;
+    })
+  );
+  return resolved.filter((asset) => asset);
+};
+
+const contentArgs: GraphQLFieldConfigArgumentMap = {
+  slugPath: { type: new GraphQLNonNull(GraphQLString) },
+  draft: { type: GraphQLBoolean },
+  versionId: { type: GraphQLID },
+  locale: { type: GraphQLString },
+};
+
+const collectionArgs: GraphQLFieldConfigArgumentMap = {
+  parent: { type: GraphQLString },
+  onlyOrphans: { type: GraphQLBoolean },
+  tags: { type: new GraphQLList(GraphQLString) },
+  search: { type: GraphQLString },
+  limit: { type: GraphQLInt },
+  page: { type: GraphQLInt },
+  orderBy: { type: GraphQLString },
+  order: { type: GraphQLString },
+  draft: { type: GraphQLBoolean },
+  locale: { type: GraphQLString },
+};
+
+const retrieveNode = async (args, context: IGraphqlContext, contentTypeName?: string) => {
+  const draft = Boolean(args?.draft);
+  if (draft) {
+    await authorize(context, ['drafts']);
+  }
+  if (args?.versionId) {
+    await authorize(context, ['versions']);
+  }
+  const localeOptions = await resolveLocale(args?.locale);
+
+  let post = await loadPost(context, args.slugPath, draft);
+  if (!post) return null;
+  if (contentTypeName && post.contentType?.name !== contentTypeName) return null;
+
+  if (!draft) {
+    await Hooks.doAction('public/getPost', post);
+  }
+
+  if (args?.versionId) {
+    const postVersion = await getRepository(Post).findOne({
+      relations: ['meta', 'contentType', 'author', 'tags'],
+      where: {
+        id: args.versionId,
+        parentId: post.id,
+        type: 'post_version',
+      },
+    });
+    if (!postVersion) throw new BadRequestError('invalid_post_version');
+    post = postVersion;
+  }
+
+  return toNode(post, draft, localeOptions);
+};
+
+const retrieveCollection = async (
+  args,
+  context: IGraphqlContext,
+  filters: { contentTypeNames?: string[]; types?: string[] }
+) => {
+  const draft = Boolean(args?.draft);
+  await authorize(context, draft ? ['search', 'drafts'] : ['search']);
+
+  const localeOptions = await resolveLocale(args?.locale);
+  const limit = Math.min(Math.max(args?.limit ?? MAX_LIMIT, 1), MAX_LIMIT);
+  const page = Math.max(args?.page ?? 1, 1);
+
+  const qb = getRepository(Post)
+    .createQueryBuilder('post')
+    .leftJoinAndSelect('post.meta', 'meta')
+    .leftJoinAndSelect('post.author', 'author')
+    .leftJoinAndSelect('post.contentType', 'contentType')
+    .leftJoinAndSelect('post.tags', 'tags')
+    .leftJoin('post.parent', 'parent')
+    .where('post.type IN (:...types)', {
+      types: filters?.types?.length > 0 ? filters.types : POST_TYPES,
+    });
+
+  if (filters?.contentTypeNames?.length > 0) {
+    qb.andWhere('contentType.name IN (:...contentTypeNames)', {
+      contentTypeNames: filters.contentTypeNames,
+    });
+  }
+
+  if (args?.tags?.length > 0) {
+    qb.andWhere('tags.slugPath IN (:...tagsSlugPaths)', {
+      tagsSlugPaths: args.tags,
+    });
+  }
+
+  if (args?.onlyOrphans) {
+    if (args?.parent) {
+      qb.andWhere('parent.slugPath = :parentSlugPath', {
+        parentSlugPath: args.parent,
+      });
+    } else {
+      qb.andWhere('post.parentId IS NULL');
+    }
+  } else if (args?.parent) {
+    qb.andWhere('post.slugPath LIKE :parentSlugPath', {
+      parentSlugPath: `${args.parent.toLowerCase()}/%`,
+    });
+  }
+
+  if (args?.search?.length > 0) {
+    qb.andWhere(
+      new Brackets((subQb) => {
+        subQb
+          .where('LOWER(post.name) LIKE :search', {
+            search: `%${args.search.toLowerCase()}%`,
+          })
+          .orWhere('LOWER(post.slugPath) LIKE :search', {
+            search: `%${args.search.toLowerCase()}%`,
+          });
+      })
+    );
+  }
+
+  applyAccessTokenScopes(qb, context.accessToken);
+  publishedQuery(qb, draft);
+
+  const orderBy = ORDER_BY_COLUMNS.includes(args?.orderBy) ? args.orderBy : 'slugPath';
+  qb.addOrderBy(`post.${orderBy}`, args?.order === 'DESC' ? 'DESC' : 'ASC');
+
+  const [results, count] = await qb
+    .take(limit)
+    .skip((page - 1) * limit)
+    .getManyAndCount();
+
+  return {
+    count,
+    page,
+    limit,
+    results: results.map((post) => toNode(post, draft, localeOptions)),
+  };
+};
+
+const contentInterfaceFields = (): GraphQLFieldConfigMap<any, IGraphqlContext> => ({
+  id: { type: new GraphQLNonNull(GraphQLID) },
+  name: { type: GraphQLString },
+  slug: { type: GraphQLString },
+  slugPath: { type: GraphQLString },
+  type: { type: GraphQLString },
+  status: { type: GraphQLString },
+  locale: { type: GraphQLString },
+  contentTypeName: { type: GraphQLString },
+  createdAt: dateField('createdAt'),
+  updatedAt: dateField('updatedAt'),
+  publishedAt: dateField('publishedAt'),
+  publishedFrom: dateField('publishedFrom'),
+  publishedUntil: dateField('publishedUntil'),
+  author: { type: AuthorType },
+  tags: { type: new GraphQLList(TagType) },
+});
+
+const parseList = (value) => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+export const buildContentSchema = (contentTypes: IContentType[]): GraphQLSchema => {
+  const parsedContentTypes = contentTypes.map((contentType) => {
+    let fields = contentType.fields;
+    if (typeof fields === 'string') {
+      try {
+        fields = JSON.parse(fields);
+      } catch {
+        fields = [];
+      }
+    }
+    return { ...contentType, fields: Array.isArray(fields) ? fields : [] };
+  });
+
+  const componentFields = parsedContentTypes
+    .filter((contentType) => contentType.type === 'component')
+    .reduce((acc, contentType) => ({ ...acc, [contentType.name]: contentType.fields }), {});
+  const resolveContent = (node) => resolveNodeContent(node, componentFields);
+
+  const usedTypeNames = new Set<string>([
+    'Query',
+    'Content',
+    'GenericContent',
+    'ContentCollection',
+    'Tag',
+    'Author',
+    'Asset',
+    'JSON',
+  ]);
+  const uniqueTypeName = (name: string) => {
+    let unique = name || '_';
+    let counter = 1;
+    while (usedTypeNames.has(unique)) {
+      unique = `${name}${counter++}`;
+    }
+    usedTypeNames.add(unique);
+    return unique;
+  };
+
+  const ContentInterface: GraphQLInterfaceType = new GraphQLInterfaceType({
+    name: 'Content',
+    fields: () => ({
+      ...contentInterfaceFields(),
+      parent: { type: ContentInterface },
+    }),
+    resolveType: (node) => postTypes[node?.contentTypeName]?.name ?? 'GenericContent',
+  });
+
+  const parentField = {
+    type: ContentInterface,
+    resolve: async (node, args, context: IGraphqlContext) => {
+      if (!node?.parentId) return null;
+      const parent = await getRepository(Post).findOne({ id: node.parentId });
+      if (!parent) return null;
+      return resolveReference(
+        { slugPath: parent.slugPath, isDraft: node.isDraft, localeOptions: node.localeOptions },
+        context
+      );
+    },
+  };
+
+  const GenericContentType = new GraphQLObjectType({
+    name: 'GenericContent',
+    interfaces: [ContentInterface],
+    fields: () => ({
+      ...contentInterfaceFields(),
+      parent: parentField,
+      content: { type: GraphQLJSON, resolve: resolveContent },
+    }),
+  });
+
+  const components: { [name: string]: GraphQLObjectType } = {};
+  const postTypes: { [name: string]: GraphQLObjectType } = {};
+
+  const buildFields = (
+    typeName: string,
+    fields: any[] = []
+  ): GraphQLFieldConfigMap<any, IGraphqlContext> => {
+    const result: GraphQLFieldConfigMap<any, IGraphqlContext> = {};
+    fields
+      .filter((field) => field?.name && field?.type !== 'tab')
+      .forEach((field) => {
+        let fieldName = toFieldName(field.name);
+        while (result[fieldName]) {
+          fieldName = `${fieldName}_`;
+        }
+        const config = buildField(typeName, field);
+        if (!config) return;
+        result[fieldName] = {
+          ...config,
+          resolve: config.resolve
+            ? (source, args, context, info) => config.resolve(source?.[field.name], args, context, info)
+            : (source) => source?.[field.name],
+        };
+      });
+
+    if (Object.keys(result).length === 0) {
+      result.empty = { type: GraphQLBoolean, resolve: () => null };
+    }
+    return result;
+  };
+
+  const buildGroupType = (typeName: string, field: any) => {
+    return new GraphQLObjectType({
+      name: uniqueTypeName(`${typeName}${toTypeName(field.name)}`),
+      fields: () => buildFields(`${typeName}${toTypeName(field.name)}`, field.fields),
+    });
+  };
+
+  const buildField = (typeName: string, field: any): {
+    type: GraphQLOutputType;
+    resolve?: (value, args, context: IGraphqlContext, info) => any;
+  } => {
+    switch (field.type) {
+      case 'text':
+      case 'colorpicker':
+      case 'choicegroup':
+      case 'datepicker':
+      case 'text-editor':
+        return { type: GraphQLString };
+      case 'dropdown':
+        if (field?.multiSelect === true || field?.multiSelect === 'true') {
+          return {
+            type: new GraphQLList(GraphQLString),
+            resolve: (value) => {
+              if (Array.isArray(value)) return value;
+              return `${value ?? ''}`.split(',').filter((option) => option.length > 0);
+            },
+          };
+        }
+        return { type: GraphQLString };
+      case 'number':
+        return {
+          type: GraphQLFloat,
+          resolve: (value) => {
+            if (value === null || value === undefined || value === '') return null;
+            const number = Number(value);
+            return Number.isNaN(number) ? null : number;
+          },
+        };
+      case 'checkbox':
+        return { type: GraphQLBoolean };
+      case 'richtext':
+        return { type: GraphQLJSON };
+      case 'images':
+      case 'assets':
+        return {
+          type: new GraphQLList(AssetType),
+          resolve: (value, args, context) => resolveAssets(value, context),
+        };
+      case 'reference_single':
+        return {
+          type: ContentInterface,
+          resolve: (value, args, context) => resolveReference(value, context),
+        };
+      case 'reference_multiple':
+      case 'relation':
+        return {
+          type: new GraphQLList(ContentInterface),
+          resolve: async (value, args, context) => {
+            const references = parseList(value);
+            if (!Array.isArray(references)) return null;
+            const nodes = await Promise.all(
+              references.map((reference) => resolveReference(reference, context))
+            );
+            return nodes.filter((node) => node);
+          },
+        };
+      case 'group':
+        return { type: buildGroupType(typeName, field) };
+      case 'repeatable':
+        return { type: new GraphQLList(buildGroupType(typeName, field)) };
+      case 'custom': {
+        const component = components[field?.component];
+        return { type: component ?? GraphQLJSON };
+      }
+      case 'zone': {
+        const allowed: string[] = Array.isArray(field?.components)
+          ? field.components
+          : Object.keys(components);
+        const types = allowed.map((name) => components[name]).filter((type) => type);
+        if (types.length === 0) {
+          return { type: new GraphQLList(GraphQLJSON) };
+        }
+        const union = new GraphQLUnionType({
+          name: uniqueTypeName(`${typeName}${toTypeName(field.name)}Zone`),
+          types,
+          resolveType: (item) => (components[item?.component] ?? types[0]).name,
+        });
+        return { type: new GraphQLList(union) };
+      }
+      default:
+        return {
+          type: Hooks.applySyncFilters('graphql/fieldType', GraphQLJSON, field) ?? GraphQLJSON,
+        };
+    }
+  };
+
+  parsedContentTypes
+    .filter((contentType) => contentType.type === 'component')
+    .forEach((contentType) => {
+      const typeName = uniqueTypeName(
+        `${toTypeName(contentType.name)}${TYPE_SUFFIXES.component}`
+      );
+      components[contentType.name] = new GraphQLObjectType({
+        name: typeName,
+        fields: () => ({
+          component: { type: GraphQLString, resolve: () => contentType.name },
+          ...buildFields(typeName, contentType.fields),
+        }),
+      });
+    });
+
+  const queryFields: GraphQLFieldConfigMap<any, IGraphqlContext> = {};
+
+  parsedContentTypes
+    .filter((contentType) => contentType.type !== 'component')
+    .forEach((contentType) => {
+      const typeName = uniqueTypeName(
+        `${toTypeName(contentType.name)}${TYPE_SUFFIXES[contentType.type] ?? toTypeName(contentType.type)}`
+      );
+      const contentTypeName = uniqueTypeName(`${typeName}Content`);
+
+      const ContentObjectType = new GraphQLObjectType({
+        name: contentTypeName,
+        fields: () => buildFields(contentTypeName, contentType.fields),
+      });
+
+      const PostObjectType = new GraphQLObjectType({
+        name: typeName,
+        interfaces: [ContentInterface],
+        fields: () => ({
+          ...contentInterfaceFields(),
+          parent: parentField,
+          content: { type: ContentObjectType, resolve: resolveContent },
+        }),
+      });
+      postTypes[contentType.name] = PostObjectType;
+
+      const CollectionType = new GraphQLObjectType({
+        name: uniqueTypeName(`${typeName}Collection`),
+        fields: {
+          count: { type: GraphQLInt },
+          page: { type: GraphQLInt },
+          limit: { type: GraphQLInt },
+          results: { type: new GraphQLList(PostObjectType) },
+        },
+      });
+
+      const queryName = camelCase(typeName);
+      queryFields[queryName] = {
+        type: PostObjectType,
+        args: contentArgs,
+        resolve: (root, args, context) => retrieveNode(args, context, contentType.name),
+      };
+      queryFields[`${queryName}Collection`] = {
+        type: CollectionType,
+        args: collectionArgs,
+        resolve: (root, args, context) =>
+          retrieveCollection(args, context, { contentTypeNames: [contentType.name] }),
+      };
+    });
+
+  const ContentCollectionType = new GraphQLObjectType({
+    name: 'ContentCollection',
+    fields: {
+      count: { type: GraphQLInt },
+      page: { type: GraphQLInt },
+      limit: { type: GraphQLInt },
+      results: { type: new GraphQLList(ContentInterface) },
+    },
+  });
+
+  const Query = new GraphQLObjectType({
+    name: 'Query',
+    fields: {
+      content: {
+        type: ContentInterface,
+        args: contentArgs,
+        resolve: (root, args, context) => retrieveNode(args, context),
+      },
+      search: {
+        type: ContentCollectionType,
+        args: {
+          ...collectionArgs,
+          contentTypeName: { type: new GraphQLList(GraphQLString) },
+          type: { type: new GraphQLList(GraphQLString) },
+        },
+        resolve: (root, args, context) =>
+          retrieveCollection(args, context, {
+            contentTypeNames: args?.contentTypeName,
+            types: (args?.type || []).filter((type) => POST_TYPES.includes(type)),
+          }),
+      },
+      ...queryFields,
+    },
+  });
+
+  return new GraphQLSchema({
+    query: Query,
+    types: [GenericContentType, ...Object.values(postTypes), ...Object.values(components)],
+  });
+};
+
+let cachedSchema: { signature: string; schema: GraphQLSchema };
+
+/**
+ * Schema is rebuilt only when content types are created, updated or deleted.
+ */
+export const getContentSchema = async (): Promise<GraphQLSchema> => {
+  const contentTypes = await getRepository(ContentType).find({
+    where: { type: In(['page', 'post', 'fragment', 'component', 'hierarchical_post']) },
+    order: { id: 'ASC' },
+  });
+
+  const signature = contentTypes
+    .map((contentType) => `${contentType.id}:${new Date(contentType.updatedAt).getTime()}`)
+    .join(',');
+
+  if (cachedSchema?.signature !== signature) {
+    const schema = await Hooks.applyFilters('graphql/schema', buildContentSchema(contentTypes));
+    cachedSchema = { signature, schema };
+  }
+
+  return cachedSchema.schema;
+};
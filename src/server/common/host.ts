@@ -0,0 +1,9 @@
+export const getBurdyHost = () =>
+  (process.env.BURDY_HOST?.length > 0
+    ? process.env.BURDY_HOST
+    : `http://localhost:${process.env.SERVER_PORT}`
+  ).replace(/\/+$/, '');
+
+export const getAdminUrl = (path = '') => `${getBurdyHost()}/admin${path}`;
+
+export const getApiUrl = (path = '') => `${getBurdyHost()}/api${path}`;
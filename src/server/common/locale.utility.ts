@@ -0,0 +1,103 @@
+import { EntityManager, getManager } from 'typeorm';
+import _ from 'lodash';
+import SiteSettings from '@server/models/site-settings.model';
+import BadRequestError from '@server/errors/bad-request-error';
+import { IPost } from '@shared/interfaces/model';
+import {
+  LOCALIZATION_SETTINGS_KEY,
+  parseLocalizationSettings,
+} from '@shared/features/localization';
+
+export const LOCALES_META_PREFIX = 'locales';
+
+export interface ILocaleOptions {
+  locale?: string;
+  defaultLocale?: string;
+}
+
+export interface ILocalizePostOptions extends ILocaleOptions {
+  fallback?: boolean;
+}
+
+export const getLocalizationSettings = async (entityManager?: EntityManager) => {
+  const settings = await (entityManager ?? getManager())
+    .getRepository(SiteSettings)
+    .findOne({
+      where: {
+        key: LOCALIZATION_SETTINGS_KEY,
+      },
+    });
+  return parseLocalizationSettings(settings?.value);
+};
+
+/**
+ * Checks the requested locale against site settings, resolving to the default locale when none is requested.
+ */
+export const resolveLocale = async (
+  locale?: string,
+  entityManager?: EntityManager
+): Promise<ILocaleOptions> => {
+  const { locales, defaultLocale } = await getLocalizationSettings(entityManager);
+  if (locale && !locales.find((item) => item.code === locale)) {
+    throw new BadRequestError('invalid_locale', { locale });
+  }
+  return {
+    locale: locale || defaultLocale,
+    defaultLocale,
+  };
+};
+
+export const isDefaultLocale = ({ locale, defaultLocale }: ILocaleOptions = {}) =>
+  !locale || locale === defaultLocale;
+
+/**
+ * Default locale content is stored under `content.*`, other locales under `locales.<code>.content.*`.
+ */
+export const getContentMetaPrefix = (options?: ILocaleOptions) =>
+  isDefaultLocale(options) ? 'content' : `${LOCALES_META_PREFIX}.${options.locale}.content`;
+
+export const getContentMetaPattern = (options?: ILocaleOptions) =>
+  new RegExp(`^${_.escapeRegExp(getContentMetaPrefix(options))}`);
+
+/**
+ * Returns a copy of the post with the meta of the requested locale in place of the default content.
+ * Posts without content for the locale fall back to the default locale unless `fallback` is false,
+ * in which case the content is left empty.
+ */
+export const localizePost = <T extends IPost>(post: T, options: ILocalizePostOptions = {}): T => {
+  if (!post?.meta) return post;
+  const { locale, defaultLocale, fallback = true } = options;
+
+  const localesPrefix = `${LOCALES_META_PREFIX}.`;
+  const baseMeta = post.meta.filter((meta) => !meta?.key?.startsWith(localesPrefix));
+
+  if (isDefaultLocale(options)) {
+    return {
+      ...post,
+      meta: baseMeta,
+      locale: defaultLocale,
+    };
+  }
+
+  const localePrefix = `${localesPrefix}${locale}.`;
+  const localeMeta = post.meta
+    .filter((meta) => meta?.key?.startsWith(localePrefix))
+    .map((meta) => ({
+      ...meta,
+      key: meta.key.slice(localePrefix.length),
+    }));
+
+  if (localeMeta.length === 0 && fallback) {
+    return {
+      ...post,
+      meta: baseMeta,
+      locale: defaultLocale,
+    };
+  }
+
+  return {
+    ...post,
+    meta: [...baseMeta.filter((meta) => !meta?.key?.match(/^content/)), ...localeMeta],
+    locale,
+  };
+};
@@ -1,6 +1,14 @@
 import Hooks from '@shared/features/hooks';
 import { unflatten } from '@server/common/object';
 import { parseInternalMetaContent } from '@server/common/post.parser';
+import {
+  DERIVATIVE_META_PREFIX,
+  getAssetCrops,
+  getAssetFocalPoint,
+  getImageMaxSize,
+  getSrcsetWidths,
+  isTransformable,
+} from '@server/business-logic/image-transform.bl';
 
 export const getAssetsSrc = (npath: string) => {
   return `${
@@ -12,9 +20,21 @@ Hooks.addSyncFilter(
   'assets/public-mapping',
   (asset) => {
     const meta: any = {};
-    (asset?.meta || []).forEach((m) => {
-      meta[m.key] = m?.value;
-    });
+    (asset?.meta || [])
+      .filter((m) => !m?.key?.startsWith(DERIVATIVE_META_PREFIX))
+      .forEach((m) => {
+        meta[m.key] = m?.value;
+      });
+    const src = getAssetsSrc(asset.npath);
+    const variants = isTransformable(asset)
+      ? getSrcsetWidths()
+          // Wider requests are snapped down to the maximum size, they would not match the advertised width
+          .filter((width) => width <= getImageMaxSize() && (!meta?.width || width < Number(meta.width)))
+          .map((width) => ({ width, src: `${src}?w=${width}` }))
+      : [];
+    if (variants.length > 0 && meta?.width) {
+      variants.push({ width: Number(meta.width), src });
+    }
     return {
       name: asset.name,
       npath: asset.npath,
@@ -25,9 +45,19 @@ Hooks.addSyncFilter(
       meta,
       mimeType: asset.mimeType,
       tags: mapPublicTags(asset.tags),
-      src: `${
-        process.env.BURDY_HOST?.length > 0 ? process.env.BURDY_HOST : ''
-      }/api/uploads/${asset.npath}`,
+      src,
+      focalPoint: getAssetFocalPoint(asset),
+      crops: isTransformable(asset)
+        ? getAssetCrops(asset).map((crop) => ({
+            ...crop,
+            src: `${src}?crop=${crop.name}`,
+          }))
+        : [],
+      variants,
+      srcset:
+        variants.length > 0
+          ? variants.map((variant) => `${variant.src} ${variant.width}w`).join(', ')
+          : undefined,
     };
   },
   { id: 'resolve', priority: 10 }
@@ -102,6 +132,7 @@ export const mapPublicPostWithMeta = (post) => {
     publishedFrom: post.publishedFrom,
     publishedUntil: post.publishedUntil,
     status: post.status,
+    locale: post.locale,
     parent: mapPublicPostWithMeta(post.parent),
     contentType: mapContentType(post.contentType),
     author: mapPublicUser(post.author),
@@ -0,0 +1,187 @@
+import _ from 'lodash';
+import { validate as isUuid } from 'uuid';
+import { IPost } from '@shared/interfaces/model';
+import { parseInternalMetaContent } from '@server/common/post.parser';
+
+export type DiffChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface IRichtextBlockDiff {
+  key: string;
+  type: DiffChangeType;
+  before?: { type: string; text: string };
+  after?: { type: string; text: string };
+}
+
+export interface IContentDiff {
+  path: string;
+  type: DiffChangeType;
+  fieldType?: string;
+  before?: any;
+  after?: any;
+  blocks?: IRichtextBlockDiff[];
+}
+
+export interface IValueDiff<T> {
+  before?: T;
+  after?: T;
+}
+
+export interface IPostDiff {
+  name?: IValueDiff<string>;
+  slug?: IValueDiff<string>;
+  tags?: {
+    added: string[];
+    removed: string[];
+  };
+  content: IContentDiff[];
+}
+
+const TYPE_SUFFIX = '_$type';
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || (_.isObject(value) && _.isEmpty(value));
+
+const getChangeType = (before: any, after: any): DiffChangeType => {
+  if (isEmpty(before)) return 'added';
+  if (isEmpty(after)) return 'removed';
+  return 'changed';
+};
+
+const joinPath = (path: string, key: string | number) => (path ? `${path}.${key}` : `${key}`);
+
+const parseRichtext = (value: any) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Matches Draft.js blocks by key, keeping the order of the newer content and placing removed blocks
+ * right after the block that preceded them before.
+ */
+export const diffRichtextBlocks = (before: any, after: any): IRichtextBlockDiff[] => {
+  const mapBlock = (block) => ({ type: block?.type, text: block?.text ?? '' });
+  const beforeBlocks: any[] = parseRichtext(before)?.blocks || [];
+  const afterBlocks: any[] = parseRichtext(after)?.blocks || [];
+  const afterKeys = new Set(afterBlocks.map((block) => block?.key));
+  const beforeByKey = _.keyBy(beforeBlocks, 'key');
+
+  const removedAfter: { [key: string]: any[] } = {};
+  let previousKey = '';
+  beforeBlocks.forEach((block) => {
+    if (afterKeys.has(block?.key)) {
+      previousKey = block.key;
+      return;
+    }
+    removedAfter[previousKey] = [...(removedAfter[previousKey] || []), block];
+  });
+
+  const toRemoved = (block): IRichtextBlockDiff => ({
+    key: block?.key,
+    type: 'removed',
+    before: mapBlock(block),
+  });
+
+  const result: IRichtextBlockDiff[] = (removedAfter[''] || []).map(toRemoved);
+  afterBlocks.forEach((block) => {
+    const previous = beforeByKey[block?.key];
+    if (!previous) {
+      result.push({ key: block?.key, type: 'added', after: mapBlock(block) });
+    } else {
+      const unchanged = previous.text === block.text && previous.type === block.type;
+      result.push({
+        key: block.key,
+        type: unchanged ? 'unchanged' : 'changed',
+        before: mapBlock(previous),
+        after: mapBlock(block),
+      });
+    }
+    (removedAfter[block?.key] || []).forEach((removed) => result.push(toRemoved(removed)));
+  });
+
+  return result;
+};
+
+/**
+ * Walks unflattened content of both posts and lists leaf changes by dot path.
+ */
+export const diffContent = (before: any, after: any, path = '', fieldType?: string): IContentDiff[] => {
+  if (_.isEqual(before, after) || (isEmpty(before) && isEmpty(after))) return [];
+
+  if (fieldType === 'richtext') {
+    return [
+      {
+        path,
+        fieldType,
+        type: getChangeType(before, after),
+        blocks: diffRichtextBlocks(before, after),
+      },
+    ];
+  }
+
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const beforeArray = Array.isArray(before) ? before : [];
+    const afterArray = Array.isArray(after) ? after : [];
+    return _.range(Math.max(beforeArray.length, afterArray.length)).flatMap((index) =>
+      diffContent(beforeArray[index], afterArray[index], joinPath(path, index))
+    );
+  }
+
+  if (_.isPlainObject(before) || _.isPlainObject(after)) {
+    const beforeObject = _.isPlainObject(before) ? before : {};
+    const afterObject = _.isPlainObject(after) ? after : {};
+    const keys = _.uniq([...Object.keys(beforeObject), ...Object.keys(afterObject)]).filter(
+      (key) => !key.endsWith(TYPE_SUFFIX)
+    );
+    return keys.flatMap((key) =>
+      diffContent(
+        beforeObject[key],
+        afterObject[key],
+        joinPath(path, key),
+        afterObject[`${key}${TYPE_SUFFIX}`] ?? beforeObject[`${key}${TYPE_SUFFIX}`]
+      )
+    );
+  }
+
+  return [
+    {
+      path,
+      type: getChangeType(before, after),
+      fieldType,
+      before,
+      after,
+    },
+  ];
+};
+
+const getSlug = (post: IPost) => {
+  // Versions created before slugs were copied hold a generated uuid instead
+  if (post?.type === 'post_version' && isUuid(post?.slug ?? '')) return undefined;
+  return post?.slug;
+};
+
+const diffValue = <T>(before: T, after: T): IValueDiff<T> | undefined => {
+  if (before === undefined || after === undefined || _.isEqual(before, after)) return undefined;
+  return { before, after };
+};
+
+export const diffPosts = (before: IPost, after: IPost): IPostDiff => {
+  const beforeTags = (before?.tags || []).map((tag) => tag.slugPath);
+  const afterTags = (after?.tags || []).map((tag) => tag.slugPath);
+
+  return {
+    name: diffValue(before?.name, after?.name),
+    slug: diffValue(getSlug(before), getSlug(after)),
+    tags: {
+      added: _.difference(afterTags, beforeTags),
+      removed: _.difference(beforeTags, afterTags),
+    },
+    content: diffContent(
+      parseInternalMetaContent(before)?.content,
+      parseInternalMetaContent(after)?.content
+    ),
+  };
+};
@@ -2,8 +2,14 @@ import { unflatten } from '@server/common/object';
 import { IPost } from '@shared/interfaces/model';
 import _ from 'lodash';
 import { getAssetsSrc } from '@server/common/mappers';
-
-export const parseContent = (post: IPost, path?: string) => {
+import { parseFields } from '@server/common/content-type-migration';
+import { isFieldVisible } from '@shared/features/field-visibility';
+
+/**
+ * Values of fields hidden by their visibility conditions are left out. Fields are taken from the content type
+ * of the post, `components` holds fields of components by name, without them component content is kept as is.
+ */
+export const parseContent = (post: IPost, path?: string, components?: { [name: string]: any[] }) => {
   const metaObjFlattened = {};
   (post?.meta || []).forEach((item) => {
     metaObjFlattened[item.key] = item.value;
@@ -53,20 +59,20 @@ export const parseContent = (post: IPost, path?: string) => {
     }
   };
 
-  const parseRepeatable = (content, path) => {
+  const parseRepeatable = (content, path, fields?: any[], scopes?: any[]) => {
     const array = [];
     (content || []).forEach((elContent, index) => {
       const itemPath = path ? `${path}.[${index}]` : `[${index}]`;
-      array.push(parseGroup(elContent, itemPath));
+      array.push(parseGroup(elContent, itemPath, fields, scopes));
     });
     return array;
   };
 
-  const parseZone = (content, path) => {
+  const parseZone = (content, path, scopes?: any[]) => {
     const array = [];
     (content || []).forEach((elContent, index) => {
       const itemPath = path ? `${path}.[${index}]` : `[${index}]`;
-      array.push(parseGroup(elContent, itemPath));
+      array.push(parseGroup(elContent, itemPath, components?.[elContent?.component], scopes));
     });
     return array;
   };
@@ -96,32 +102,45 @@ export const parseContent = (post: IPost, path?: string) => {
     return null;
   };
 
-  const parseGroup = (content = {}, path?: string) => {
+  const parseGroup = (content = {}, path?: string, fields?: any[], scopes: any[] = []) => {
     if (_.isEmpty(content)) return null;
     const groupContent = _.cloneDeep(content);
+    const fieldScopes = [content, ...scopes];
     Object.keys(content).forEach(key => {
       if (key.endsWith('_$type')) {
         const contentKey = key.slice(0, key.indexOf('_$type'));
         const newPath = path ? `${path}.${contentKey}` : contentKey;
+        const field = (fields || []).find((item) => item?.name === contentKey && item?.type !== 'tab');
+        if (field && !isFieldVisible(field, fieldScopes)) {
+          delete groupContent[contentKey];
+          delete groupContent[key];
+          delete groupContent[`${contentKey}_$enabled`];
+          return;
+        }
         switch (content[key]) {
           case 'images':
           case 'assets':
             groupContent[contentKey] = parseAssets(content?.[contentKey], newPath);
             break;
           case 'group':
-            groupContent[contentKey] = parseGroup(content?.[contentKey], newPath);
+            groupContent[contentKey] = parseGroup(content?.[contentKey], newPath, field?.fields, fieldScopes);
             break;
           case 'repeatable':
-            groupContent[contentKey] = parseRepeatable(content?.[contentKey], newPath);
+            groupContent[contentKey] = parseRepeatable(content?.[contentKey], newPath, field?.fields, fieldScopes);
             break;
           case 'custom':
-            groupContent[contentKey] = parseGroup(content?.[contentKey], newPath);
+            groupContent[contentKey] = parseGroup(
+              content?.[contentKey],
+              newPath,
+              components?.[field?.component],
+              fieldScopes
+            );
             break;
           case 'richtext':
             groupContent[contentKey] = parseRichtext(content?.[contentKey]);
             break;
           case 'zone':
-            groupContent[contentKey] = parseZone(content?.[contentKey], newPath);
+            groupContent[contentKey] = parseZone(content?.[contentKey], newPath, fieldScopes);
             break;
           case 'relation':
             groupContent[contentKey] = parseRelation(content?.[contentKey], newPath);
@@ -143,7 +162,8 @@ export const parseContent = (post: IPost, path?: string) => {
     return groupContent;
   };
 
-  const group = parseGroup(metaObj?.content, path);
+  const fields = parseFields(post?.contentType?.fields);
+  const group = parseGroup(metaObj?.content, path, fields.length > 0 ? fields : undefined);
 
   return {
     content: group,
@@ -1,6 +1,7 @@
-import { Brackets, getRepository, In } from 'typeorm';
+import { Brackets, EntityManager, getManager, getRepository, In } from 'typeorm';
 import Post from '@server/models/post.model';
 import Asset from '@server/models/asset.model';
+import ContentType from '@server/models/content-type.model';
 import BadRequestError from '@server/errors/bad-request-error';
 import { parseContent } from '@server/common/post.parser';
 import {
@@ -12,15 +13,19 @@ import { IPost } from '@shared/interfaces/model';
 import Hooks from '@shared/features/hooks';
 import { Key, pathToRegexp } from 'path-to-regexp';
 import deepcopy from 'deepcopy';
+import { ILocaleOptions, localizePost } from '@server/common/locale.utility';
+import { parseFields } from '@server/common/content-type-migration';
 
 const MAX_RELATIONS_DEPTH = 3;
 
-export interface ICompilePostOptions {
+export interface ICompilePostOptions extends ILocaleOptions {
   depth?: number;
   relationsDepth?: number;
   nullable?: boolean;
   draft?: boolean;
   query?: any;
+  // Fields of components by name, loaded once and passed on to compiled references and children
+  components?: { [name: string]: any[] };
 }
 
 export interface ICompilePostParams {
@@ -50,6 +55,21 @@ export const publishedQuery = (qb: any, draft?: boolean) => {
   }
 };
 
+/**
+ * Fields of components by name, visibility conditions of component fields are evaluated against them.
+ */
+export const loadComponentFields = async (
+  entityManager: EntityManager = getManager()
+): Promise<{ [name: string]: any[] }> => {
+  const components = await entityManager.getRepository(ContentType).find({
+    where: { type: 'component' },
+  });
+  return components.reduce((acc, component) => {
+    acc[component.name] = parseFields(component.fields);
+    return acc;
+  }, {});
+};
+
 export const retrievePostAndCompile = async ({ id, slugPath, versionId }: ICompilePostParams, options?: ICompilePostOptions) => {
   const postRepository = getRepository(Post);
   const where: any = {};
@@ -111,6 +131,7 @@ export const compilePostContainer = async (post: IPost, options?: ICompilePostOp
 
   const page = options?.query?.page ?? 1;
   const perPage = options?.query?.perPage ?? 10;
+  const components = options?.components ?? await loadComponentFields();
 
   const childPostQuery = postRepository.createQueryBuilder('post')
     .leftJoinAndSelect('post.meta', 'meta')
@@ -141,8 +162,8 @@ export const compilePostContainer = async (post: IPost, options?: ICompilePostOp
   ]);
 
   const [postContainer, ...posts] = await Promise.all([
-    compilePost(post),
-    ...childPosts.map(post => compilePost(post, options)),
+    compilePost(post, { ..._.pick(options, ['locale', 'defaultLocale']), components }),
+    ...childPosts.map(post => compilePost(post, { ...options, components })),
   ]);
 
   return {
@@ -161,11 +182,15 @@ export const compilePost = async (post: IPost, options?: ICompilePostOptions) =>
   const relationsDepth = _.isNil(options?.relationsDepth) ? MAX_RELATIONS_DEPTH : options?.relationsDepth;
   const depth = options?.depth || 0;
 
+  const components = options?.components ?? await loadComponentFields();
+
+  post = localizePost(post, options);
+
   const {
     content,
     assets: assetsRefs,
     references
-  } = parseContent(post);
+  } = parseContent(post, undefined, components);
 
   const mappedPost = mapPublicPostWithMeta(post);
 
@@ -178,7 +203,8 @@ export const compilePost = async (post: IPost, options?: ICompilePostOptions) =>
         ...(options || {}),
         nullable: true,
         depth: depth + 1,
-        relationsDepth
+        relationsDepth,
+        components
       });
     }));
     const postsObj = {};
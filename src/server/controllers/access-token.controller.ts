@@ -1,20 +1,40 @@
 import express from 'express';
+import * as yup from 'yup';
 import authMiddleware from '@server/middleware/auth.middleware';
 import asyncMiddleware from '@server/middleware/async.middleware';
 import { getEnhancedRepository } from '@server/common/orm-helpers';
 import { In } from 'typeorm';
 import AccessToken from '@server/models/access-token';
-import { nanoid } from 'nanoid';
+import {
+  generateAccessToken,
+  mapAccessToken,
+  rotateAccessToken,
+  updateAccessToken,
+} from '@server/business-logic/access-token.bl';
 
 const app = express();
 
+const accessTokenValidation = {
+  name: yup.string().max(256).nullable(),
+  scopes: yup
+    .object({
+      contentTypes: yup.array().of(yup.string().max(256)),
+      slugPaths: yup.array().of(yup.string().max(2048)),
+      drafts: yup.boolean(),
+      versions: yup.boolean(),
+      search: yup.boolean(),
+    })
+    .nullable(),
+  expiresAt: yup.date().nullable(),
+};
+
 app.get(
   '/access-tokens',
   authMiddleware(['all']),
   asyncMiddleware(async (req, res) => {
     const accessTokenRepository = getEnhancedRepository(AccessToken);
     const accessTokens = await accessTokenRepository.find();
-    res.send(accessTokens);
+    res.send(accessTokens.map(mapAccessToken));
   })
 );
 
@@ -22,15 +42,41 @@ app.post(
   '/access-tokens',
   authMiddleware(['all']),
   asyncMiddleware(async (req, res) => {
-    const accessTokenRepository = getEnhancedRepository(AccessToken);
-    const accessToken = await accessTokenRepository.save({
+    await req.validate(accessTokenValidation, 'body');
+
+    const accessToken = await generateAccessToken({
       name: req?.body?.name,
-      token: nanoid()
+      scopes: req?.body?.scopes,
+      expiresAt: req?.body?.expiresAt,
     });
     res.send(accessToken);
   })
 );
 
+app.put(
+  '/access-tokens/:accessTokenId',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    await req.validate(accessTokenValidation, 'body');
+
+    const accessToken = await updateAccessToken(Number(req.params.accessTokenId), {
+      name: req?.body?.name,
+      scopes: req?.body?.scopes,
+      expiresAt: req?.body?.expiresAt,
+    });
+    res.send(accessToken);
+  })
+);
+
+app.post(
+  '/access-tokens/:accessTokenId/rotate',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    const accessToken = await rotateAccessToken(Number(req.params.accessTokenId));
+    res.send(accessToken);
+  })
+);
+
 app.delete(
   '/access-tokens',
   authMiddleware(['all']),
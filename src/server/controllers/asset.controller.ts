@@ -23,6 +23,23 @@ import {
 } from '@server/common/orm-helpers';
 import { mapAsset } from '@server/common/mappers';
 import Hooks from '@shared/features/hooks';
+import {
+  deleteImageDerivatives,
+  findImageDerivatives,
+  getImageMaxSize,
+  getImageTransformOptions,
+  IMAGE_FITS,
+  IMAGE_FORMATS,
+  isTransformable,
+  transformImage,
+} from '@server/business-logic/image-transform.bl';
+import {
+  CROPS_META_KEY,
+  CROP_NAME_REGEX,
+  FOCAL_POINT_META_KEY,
+  parseCrops,
+  parseFocalPoint,
+} from '@shared/features/image-focus';
 
 const app = express();
 
@@ -268,9 +285,8 @@ app.post(
 
     const { duplicateName } = params;
 
+    let asset;
     try {
-      let asset;
-
       await entityManager.transaction(async (tManager) => {
         let parent;
         if (params.parentId) {
@@ -346,13 +362,17 @@ app.post(
 
         asset = await tManager.save(Asset, assetObj);
       });
-      return res.send(mapAsset(asset));
     } catch (err) {
       await FileDriver.getInstance().delete(
         req?.file?.filename || getKeyName(req?.file?.key)
       );
       throw err;
     }
+
+    if (asset?.mimeType !== FOLDER_MIME_TYPE) {
+      await Hooks.doAction('asset/postUpload', asset);
+    }
+    return res.send(mapAsset(asset));
   })
 );
 
@@ -408,6 +428,22 @@ app.put(
       {
         alt: yup.string().max(256),
         copyright: yup.string().max(256),
+        focalPoint: yup
+          .object({
+            x: yup.number().min(0).max(1).required(),
+            y: yup.number().min(0).max(1).required(),
+          })
+          .nullable()
+          .default(undefined),
+        crops: yup.array().of(
+          yup.object({
+            name: yup.string().matches(CROP_NAME_REGEX).required(),
+            x: yup.number().min(0).max(1).required(),
+            y: yup.number().min(0).max(1).required(),
+            width: yup.number().moreThan(0).max(1).required(),
+            height: yup.number().moreThan(0).max(1).required(),
+          })
+        ),
       },
       'body'
     );
@@ -422,6 +458,17 @@ app.put(
       });
       if (!asset) throw new BadRequestError('invalid_asset');
 
+      // Meta left out of the body is kept as it is, empty values remove it
+      const metaKeys = {
+        alt: 'alt',
+        copyright: 'copyright',
+        focalPoint: FOCAL_POINT_META_KEY,
+        crops: CROPS_META_KEY,
+      };
+      const updatedKeys = Object.keys(metaKeys)
+        .filter((name) => req?.body?.[name] !== undefined)
+        .map((name) => metaKeys[name]);
+
       const meta = [];
       if (req?.body?.alt) {
         meta.push({
@@ -436,7 +483,35 @@ app.put(
         });
       }
 
-      await updateMeta(tManager, Asset, asset, meta, /^(alt|copyright)/);
+      const focalPoint = parseFocalPoint(req?.body?.focalPoint);
+      if (focalPoint) {
+        meta.push({
+          key: FOCAL_POINT_META_KEY,
+          value: JSON.stringify(focalPoint),
+        });
+      }
+      const crops = parseCrops(req?.body?.crops);
+      if (crops.length > 0) {
+        meta.push({
+          key: CROPS_META_KEY,
+          value: JSON.stringify(crops),
+        });
+      }
+
+      const focusChanged = [FOCAL_POINT_META_KEY, CROPS_META_KEY]
+        .filter((key) => updatedKeys.includes(key))
+        .some(
+          (key) =>
+            asset.meta.find((item) => item.key === key)?.value !==
+            meta.find((item) => item.key === key)?.value
+        );
+      if (focusChanged) {
+        await deleteImageDerivatives(tManager, asset);
+      }
+
+      if (updatedKeys.length > 0) {
+        await updateMeta(tManager, Asset, asset, meta, new RegExp(`^(${updatedKeys.join('|')})$`));
+      }
 
       if (Array.isArray(req?.body?.tags)) {
         const tags = await tManager.getRepository(Tag).find({
@@ -453,6 +528,76 @@ app.put(
   })
 );
 
+app.put(
+  '/assets/:id/file',
+  authMiddleware(['assets_update']),
+  FileDriver.getInstance().getUpload().single('file'),
+  asyncMiddleware(async (req, res) => {
+    const document = req?.file?.filename || getKeyName(req?.file?.key);
+    const entityManager = getManager();
+
+    let asset: Asset;
+    let previousDocument: string;
+    try {
+      await entityManager.transaction(async (tManager) => {
+        asset = await tManager.findOne(Asset, {
+          relations: ['meta'],
+          where: {
+            id: req?.params?.id,
+          },
+        });
+        if (!asset || asset.mimeType === FOLDER_MIME_TYPE)
+          throw new BadRequestError('invalid_asset');
+        if (!req.file) throw new BadRequestError('invalid_file');
+
+        const stat = await FileDriver.getInstance().stat(document);
+        if (!stat) throw new BadRequestError('invalid_file');
+
+        await deleteImageDerivatives(tManager, asset);
+
+        const mimeType = req?.body?.mimeType || req?.file?.mimetype || asset.mimeType;
+        const meta = [];
+        if (IMAGE_MIME_TYPES.indexOf(mimeType) > -1) {
+          const file = await FileDriver.getInstance().read(document);
+          const dimensions = sizeOf(file);
+          meta.push(
+            {
+              key: 'height',
+              value: dimensions.height,
+            },
+            {
+              key: 'width',
+              value: dimensions.width,
+            }
+          );
+        }
+        await updateMeta(tManager, Asset, asset, meta, /^(height|width)$/);
+
+        previousDocument = asset.document;
+        asset.mimeType = mimeType;
+        asset.provider = FileDriver.getInstance().getName();
+        asset.contentLength = stat.contentLength;
+        asset.document = document;
+        await tManager.save(Asset, asset);
+
+        asset = await tManager.findOne(Asset, {
+          relations: ['meta', 'tags'],
+          where: {
+            id: asset.id,
+          },
+        });
+      });
+    } catch (err) {
+      await FileDriver.getInstance().delete(document);
+      throw err;
+    }
+
+    await FileDriver.getInstance().delete(previousDocument);
+    await Hooks.doAction('asset/postUpload', asset);
+    return res.send(mapAsset(asset));
+  })
+);
+
 app.delete(
   '/assets',
   authMiddleware(['assets_delete']),
@@ -479,6 +624,9 @@ app.delete(
         next();
       });
 
+      const derivatives = await findImageDerivatives(tManager, toDeleteAssets);
+      documents.push(...derivatives.map((meta) => meta.value));
+
       return tManager.delete(Asset, {
         id: In(toDeleteAssets.map((asset) => asset.id)),
       });
@@ -486,6 +634,7 @@ app.delete(
 
     FileDriver.getInstance().delete(documents);
 
+    await Hooks.doAction('asset/postDelete', toDeleteAssets);
     return res.send(toDeleteAssets.map((asset) => asset.id));
   })
 );
@@ -493,6 +642,18 @@ app.delete(
 app.get(
   '/uploads/*',
   asyncMiddleware(async (req, res) => {
+    await req.validate(
+      {
+        w: yup.number().integer().min(1).max(getImageMaxSize()),
+        h: yup.number().integer().min(1).max(getImageMaxSize()),
+        fit: yup.string().oneOf(IMAGE_FITS),
+        format: yup.string().oneOf(IMAGE_FORMATS),
+        q: yup.number().integer().min(1).max(100),
+        crop: yup.string().matches(CROP_NAME_REGEX),
+      },
+      'query'
+    );
+
     const assetRepository = getRepository(Asset);
 
     const videoRange = req.headers.range;
@@ -503,7 +664,19 @@ app.get(
       throw new BadRequestError('invalid_asset');
     await Hooks.doAction('public/getAsset', asset);
 
-    if (videoRange) {
+    const transformOptions = getImageTransformOptions(req.query);
+    if (transformOptions && isTransformable(asset)) {
+      const image = await transformImage(asset, transformOptions);
+      res.writeHead(200, {
+        'Content-Length': image.buffer.length,
+        'Content-Type': image.mimeType,
+        'Cache-Control':
+          process.env.ASSETS_CACHE_CONTROL?.length > 0
+            ? process.env.ASSETS_CACHE_CONTROL
+            : 'no-cache',
+      });
+      res.end(image.buffer);
+    } else if (videoRange) {
       const parts = videoRange.replace(/bytes=/, '').split('-');
       const start = parseInt(parts[0], 10);
       const end = parts[1] ? parseInt(parts[1], 10) : asset.contentLength - 1;
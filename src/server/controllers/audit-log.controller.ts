@@ -0,0 +1,101 @@
+import express from 'express';
+import { Brackets, getRepository } from 'typeorm';
+import authMiddleware from '@server/middleware/auth.middleware';
+import asyncMiddleware from '@server/middleware/async.middleware';
+import AuditLog from '@server/models/audit-log.model';
+import BadRequestError from '@server/errors/bad-request-error';
+
+const app = express();
+
+const parseDate = (value: any) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new BadRequestError('invalid_date');
+  return date;
+};
+
+app.get(
+  '/audit-logs',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    const actor = req?.query?.actor as string;
+    const action = req?.query?.action as string;
+    const targetType = req?.query?.targetType as string;
+    const targetId = req?.query?.targetId as string;
+    const search = req?.query?.search as string;
+    const from = parseDate(req?.query?.from);
+    const to = parseDate(req?.query?.to);
+
+    let limit = 50;
+    if (req?.query?.limit && !Number.isNaN(Number(req?.query?.limit))) {
+      limit = Math.min(Number(req?.query?.limit), 500);
+    }
+    let page = 1;
+    if (req?.query?.page && !Number.isNaN(Number(req?.query?.page))) {
+      page = Number(req?.query?.page);
+    }
+
+    const qb = getRepository(AuditLog).createQueryBuilder('auditLog');
+
+    if (actor?.length > 0) {
+      qb.andWhere('LOWER(auditLog.actorEmail) LIKE :actor', {
+        actor: `%${actor.toLowerCase()}%`,
+      });
+    }
+
+    if (action) {
+      qb.andWhere('auditLog.action IN (:...actions)', {
+        actions: action.split(','),
+      });
+    }
+
+    if (targetType) {
+      qb.andWhere('auditLog.targetType IN (:...targetTypes)', {
+        targetTypes: targetType.split(','),
+      });
+    }
+
+    // Ids are stored comma separated
+    if (targetId) {
+      qb.andWhere(
+        new Brackets((subQb) => {
+          subQb
+            .where('auditLog.targetIds = :targetId', { targetId })
+            .orWhere('auditLog.targetIds LIKE :targetIdFirst', { targetIdFirst: `${targetId},%` })
+            .orWhere('auditLog.targetIds LIKE :targetIdLast', { targetIdLast: `%,${targetId}` })
+            .orWhere('auditLog.targetIds LIKE :targetIdMiddle', { targetIdMiddle: `%,${targetId},%` });
+        })
+      );
+    }
+
+    if (search?.length > 0) {
+      qb.andWhere('LOWER(auditLog.route) LIKE :search', {
+        search: `%${search.toLowerCase()}%`,
+      });
+    }
+
+    if (from) {
+      qb.andWhere('auditLog.createdAt >= :from', { from });
+    }
+
+    if (to) {
+      qb.andWhere('auditLog.createdAt <= :to', { to });
+    }
+
+    const [results, count] = await qb
+      .orderBy('auditLog.createdAt', 'DESC')
+      .addOrderBy('auditLog.id', 'DESC')
+      .take(limit)
+      .skip((page - 1) * limit)
+      .getManyAndCount();
+
+    res.send({
+      results,
+      count,
+      page,
+      limit,
+    });
+  })
+);
+
+export default app;
@@ -8,12 +8,36 @@ import BadRequestError from '@server/errors/bad-request-error';
 import InternalServerError from '@server/errors/internal-server-error';
 import Post from '@server/models/post.model';
 import Hooks from '@shared/features/hooks';
+import { IContentMigrationPlan } from '@shared/interfaces/model';
 import { mapContentType } from '@server/common/mappers';
-import { isEmptyString } from '@admin/helpers/utility';
-import { importContentTypes } from '@server/business-logic/content-type-bl';
+import { isEmptyString, isTrue } from '@admin/helpers/utility';
+import { importContentTypes, migrateContentTypePosts } from '@server/business-logic/content-type-bl';
+import { ensureFieldUids, findDuplicateFieldUids } from '@server/common/content-type-migration';
+import { getContentTypings } from '@server/common/content-type-typings';
+import { isSafePattern } from '@shared/features/field-validation';
 
 const app = express();
 
+const findUnsafePatterns = (fields: any[]): string[] =>
+  (fields || []).flatMap((field) => {
+    const pattern = field?.validation?.pattern;
+    const unsafe = typeof pattern === 'string' && pattern.length > 0 && !isSafePattern(pattern);
+    return [...(unsafe ? [field.name] : []), ...findUnsafePatterns(field?.fields)];
+  });
+
+const assertSafePatterns = (fields: any[]) => {
+  const unsafe = findUnsafePatterns(fields);
+  if (unsafe.length > 0) throw new BadRequestError('unsafe_pattern', { fields: unsafe });
+  return fields;
+};
+
+const getFieldsWithUids = (fields: any) => {
+  const withUids = ensureFieldUids(fields);
+  const duplicates = findDuplicateFieldUids(withUids);
+  if (duplicates.length > 0) throw new BadRequestError('duplicate_field_uid', { uids: duplicates });
+  return assertSafePatterns(withUids);
+};
+
 app.get(
   '/content-types',
   authMiddleware(),
@@ -72,20 +96,23 @@ app.post(
     );
 
     const contentTypeRepository = getRepository(ContentType);
+    let contentType;
     try {
-      const contentType = await contentTypeRepository.save({
+      contentType = await contentTypeRepository.save({
         name: req.body.name,
         type: req.body.type,
         author: req?.data?.user,
-        fields: JSON.stringify(req.body.fields ?? []),
+        fields: JSON.stringify(assertSafePatterns(ensureFieldUids(req.body.fields ?? []))),
       });
-      res.send(mapContentType(contentType));
     } catch (err) {
       if (err?.code === '23505') {
         throw new BadRequestError('duplicate_name');
       }
       throw new InternalServerError('unknown_error');
     }
+
+    await Hooks.doAction('contentType/postCreate', contentType);
+    res.send(mapContentType(contentType));
   })
 );
 
@@ -107,10 +134,12 @@ app.delete(
     if (postCount > 0 && !force) throw new BadRequestError('posts_exist');
 
     const contentTypeRepository = getRepository(ContentType);
+    const contentTypes = await contentTypeRepository.findByIds(ids);
     const deleted = await contentTypeRepository.delete({
       id: In(ids),
     });
 
+    await Hooks.doAction('contentType/postDelete', contentTypes);
     return res.send(deleted);
   })
 );
@@ -140,15 +169,51 @@ app.put(
       contentType.name = req.body.name;
     }
 
-    if (req.body.fields) {
-      contentType.fields = JSON.stringify(req.body.fields);
-    }
+    // Content of posts is migrated to renamed, moved and retyped fields only when asked for
+    let plan: IContentMigrationPlan;
+    await getManager().transaction(async (transactionManager) => {
+      if (req.body.fields) {
+        const fields = getFieldsWithUids(req.body.fields);
+        if (isTrue(req.body.migrate)) {
+          plan = await migrateContentTypePosts({
+            entityManager: transactionManager,
+            contentType,
+            fields,
+          });
+        }
+        contentType.fields = JSON.stringify(fields);
+      }
 
-    await contentTypeRepository.save(contentType);
+      await transactionManager.getRepository(ContentType).save(contentType);
+    });
+
+    await Hooks.doAction('contentType/postUpdate', contentType);
+    if (plan?.affectedPosts > 0) {
+      await Hooks.doAction('contentType/postMigrate', contentType, plan);
+    }
     res.send(mapContentType(contentType));
   })
 );
 
+app.post(
+  '/content-types/:contentTypeId/migration-plan',
+  authMiddleware(['content_types_update']),
+  asyncMiddleware(async (req, res) => {
+    const contentType = await getRepository(ContentType).findOne({
+      id: req.params.contentTypeId,
+    });
+    if (!contentType) throw new BadRequestError('invalid_content_type');
+
+    const plan = await migrateContentTypePosts({
+      entityManager: getManager(),
+      contentType,
+      fields: getFieldsWithUids(req.body?.fields),
+      dryRun: true,
+    });
+    res.send(plan);
+  })
+);
+
 app.post(
   '/content-types/import',
   authMiddleware(),
@@ -214,6 +279,22 @@ app.get(
   })
 );
 
+app.get(
+  '/content-types/typings',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const name = req?.query?.name as string;
+    const typings = await getContentTypings(name ? name.split(',') : []);
+
+    res.setHeader(
+      'Content-disposition',
+      `attachment; filename=burdy-content.d.ts`
+    );
+    res.setHeader('Content-type', 'text/plain; charset=utf-8');
+    res.send(typings);
+  })
+);
+
 app.get(
   '/content-types/single',
   authMiddleware(),
@@ -251,7 +332,11 @@ app.get(
       id: req.params.contentTypeId,
     });
     if (!contentType) throw new BadRequestError('invalid_content_type');
-    res.send(mapContentType(contentType));
+    // Editor keeps uids of fields saved before they existed, renames are tracked by them
+    res.send({
+      ...mapContentType(contentType),
+      fields: ensureFieldUids(contentType.fields),
+    });
   })
 );
 
@@ -531,6 +616,150 @@ const fields = [
   },
 ];
 
+const PATTERN_RULES = [
+  {
+    name: 'pattern',
+    type: 'text',
+    label: 'Pattern',
+    placeholder: '^[a-z0-9-]+$',
+    description: 'Up to 200 characters, without nested quantifiers like (a+)+ or backreferences',
+  },
+  {
+    name: 'patternMessage',
+    type: 'text',
+    label: 'Pattern error message',
+  },
+];
+
+const LENGTH_RULES = [
+  {
+    name: 'minLength',
+    type: 'number',
+    label: 'Minimum length',
+  },
+  {
+    name: 'maxLength',
+    type: 'number',
+    label: 'Maximum length',
+  },
+];
+
+const rangeRules = (type: string) => [
+  {
+    name: 'min',
+    type,
+    label: 'Minimum',
+  },
+  {
+    name: 'max',
+    type,
+    label: 'Maximum',
+  },
+];
+
+const MIN_ITEMS_RULE = {
+  name: 'minItems',
+  type: 'number',
+  label: 'Minimum items',
+};
+
+const ITEMS_RULES = [
+  MIN_ITEMS_RULE,
+  {
+    name: 'maxItems',
+    type: 'number',
+    label: 'Maximum items',
+  },
+];
+
+const UNIQUE_RULE = {
+  name: 'unique',
+  type: 'checkbox',
+  label: 'Unique across content type',
+};
+
+// Repeatables keep their own `max` option
+const validationRules = {
+  text: [...PATTERN_RULES, ...LENGTH_RULES, UNIQUE_RULE],
+  'text-editor': [...PATTERN_RULES, ...LENGTH_RULES],
+  richtext: LENGTH_RULES,
+  number: [...rangeRules('number'), UNIQUE_RULE],
+  datepicker: [...rangeRules('datepicker'), UNIQUE_RULE],
+  colorpicker: [UNIQUE_RULE],
+  dropdown: [UNIQUE_RULE],
+  choicegroup: [UNIQUE_RULE],
+  reference_single: [UNIQUE_RULE],
+  images: ITEMS_RULES,
+  assets: ITEMS_RULES,
+  relation: ITEMS_RULES,
+  reference_multiple: ITEMS_RULES,
+  zone: ITEMS_RULES,
+  repeatable: [MIN_ITEMS_RULE],
+};
+
+/**
+ * Rules are stored in `validation` of the field, see `parseFieldValidation`.
+ */
+const withValidationRules = (field) => {
+  if (!validationRules[field.type]) return field;
+  return {
+    ...field,
+    fields: [
+      ...(field.fields ?? []),
+      {
+        name: 'validation',
+        type: 'group',
+        label: 'Validation rules',
+        fields: validationRules[field.type],
+      },
+    ],
+  };
+};
+
+// Fields are shown only when all conditions match, see `isFieldVisible`
+const VISIBILITY_CONDITIONS = {
+  name: 'conditions',
+  type: 'repeatable',
+  label: 'Visibility conditions',
+  fields: [
+    {
+      name: 'field',
+      type: 'text',
+      label: 'Field',
+      placeholder: 'linkType',
+      required: 'true',
+    },
+    {
+      name: 'operator',
+      type: 'dropdown',
+      label: 'Operator',
+      options: 'equals\nin\nnot_empty',
+      defaultValue: 'equals',
+      required: true,
+    },
+    {
+      name: 'value',
+      type: 'text',
+      label: 'Value',
+      multiline: true,
+      placeholder: 'external',
+      description: 'Values of the in operator go on separate lines',
+      conditions: [{ field: 'operator', operator: 'in', value: 'equals\nin' }],
+    },
+  ],
+};
+
+const withVisibilityConditions = (field) => {
+  if (field.type === 'tab') return field;
+  return {
+    ...field,
+    fields: [...(field.fields ?? []), VISIBILITY_CONDITIONS],
+  };
+};
+
+const getFieldTypes = () =>
+  Hooks.applyFilters('contentType/fields', fields.map(withValidationRules).map(withVisibilityConditions));
+
 const mapComponent = (component) => {
   return {
     id: component.id,
@@ -557,9 +786,7 @@ app.get(
   '/fields',
   authMiddleware(),
   asyncMiddleware(async (req, res) => {
-    const allFields = await Hooks.applyFilters('contentType/fields', [
-      ...fields,
-    ]);
+    const allFields = await getFieldTypes();
     res.send(allFields);
   })
 );
@@ -568,9 +795,7 @@ app.get(
   '/fields/:fieldType',
   authMiddleware(),
   asyncMiddleware(async (req, res) => {
-    const allFields = await Hooks.applyFilters('contentType/fields', [
-      ...fields,
-    ]);
+    const allFields = await getFieldTypes();
     const field = allFields.find(
       (field) => field.type === req.params.fieldType
     );
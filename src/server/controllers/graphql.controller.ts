@@ -0,0 +1,59 @@
+import express from 'express';
+import { graphql } from 'graphql';
+import contentMiddleware, { extractContentToken } from '@server/middleware/content.middleware';
+import asyncMiddleware from '@server/middleware/async.middleware';
+import { createGraphqlContext, getContentSchema } from '@server/common/graphql-schema';
+import BadRequestError from '@server/errors/bad-request-error';
+import BaseError from '@server/errors/base-error';
+import logger from '@shared/features/logger';
+
+const app = express();
+
+const parseVariables = (variables) => {
+  if (!variables || typeof variables !== 'string') return variables;
+  try {
+    return JSON.parse(variables);
+  } catch {
+    throw new BadRequestError('invalid_variables');
+  }
+};
+
+app.all(
+  '/graphql',
+  contentMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const params = req.method === 'GET' ? req.query : req.body;
+    const query = params?.query as string;
+    if (!query) throw new BadRequestError('invalid_query');
+
+    const schema = await getContentSchema();
+    const result = await graphql({
+      schema,
+      source: query,
+      variableValues: parseVariables(params?.variables),
+      operationName: params?.operationName as string,
+      contextValue: createGraphqlContext(extractContentToken(req), req.data?.accessToken),
+    });
+
+    const errors = (result.errors || []).map((error) => {
+      if (error.originalError instanceof BaseError) {
+        return {
+          ...error.toJSON(),
+          ...error.originalError.toJson(),
+        };
+      }
+      if (error.originalError) {
+        logger.error(error.originalError);
+        return { ...error.toJSON(), message: 'internal_server_error' };
+      }
+      return error.toJSON();
+    });
+
+    res.send({
+      data: result.data,
+      ...(errors.length > 0 ? { errors } : {}),
+    });
+  })
+);
+
+export default app;
@@ -11,6 +11,7 @@ import * as yup from 'yup';
 import NotFoundError from '@server/errors/not-found-error';
 import authMiddleware from '@server/middleware/auth.middleware';
 import { IUser } from '@shared/interfaces/model';
+import { normalizeContentScopes } from '@server/business-logic/content-permission.bl';
 
 const app = express();
 
@@ -43,7 +44,10 @@ app.post(
   '/groups',
   authMiddleware(['users_administration']),
   asyncMiddleware(async (req, res) => {
-    const group = _.pick(req.body, ['name', 'permissions', 'description']);
+    const group: Partial<Group> = _.pick(req.body, ['name', 'permissions', 'description', 'requireTwoFactor']);
+    if (req.body?.contentScopes !== undefined) {
+      group.contentScopes = normalizeContentScopes(req.body.contentScopes);
+    }
 
     await req.validate({
       name: yup
@@ -55,6 +59,8 @@ app.post(
         }),
       permissions: yup.array(),
       description: yup.string(),
+      requireTwoFactor: yup.boolean(),
+      contentScopes: yup.object().nullable(),
       userIds: yup.array(),
     });
 
@@ -79,7 +85,10 @@ app.put(
   authMiddleware(['users_administration']),
   asyncMiddleware(async (req, res) => {
     const id = req.params?.id;
-    const group = _.pick(req.body, ['name', 'permissions', 'description']);
+    const group: Partial<Group> = _.pick(req.body, ['name', 'permissions', 'description']);
+    if (req.body?.contentScopes !== undefined) {
+      group.contentScopes = normalizeContentScopes(req.body.contentScopes);
+    }
     const groupModel = await Group.findOne({ id });
 
     if (!groupModel) throw new NotFoundError('not_found');
@@ -94,6 +103,8 @@ app.put(
         }),
       permissions: yup.array(),
       description: yup.string(),
+      requireTwoFactor: yup.boolean(),
+      contentScopes: yup.object().nullable(),
       userIds: yup.array(),
     });
 
@@ -113,6 +124,10 @@ app.put(
     await getManager().transaction(async (entityManager) => {
       const groupRepository = getEnhancedRepository(Group, entityManager);
       await groupRepository.update({ id, protected: false }, group);
+      // Protected groups can still enforce two-factor authentication
+      if (typeof req.body?.requireTwoFactor === 'boolean') {
+        await groupRepository.update({ id }, { requireTwoFactor: req.body.requireTwoFactor });
+      }
 
       if (Array.isArray(userIds)) {
         await groupRepository.sync(id, 'users', userIds);
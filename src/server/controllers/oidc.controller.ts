@@ -0,0 +1,86 @@
+import express from 'express';
+import asyncMiddleware from '@server/middleware/async.middleware';
+import NotFoundError from '@server/errors/not-found-error';
+import BaseError from '@server/errors/base-error';
+import logger from '@shared/features/logger';
+import Hooks from '@shared/features/hooks';
+import { getAdminUrl } from '@server/common/host';
+import {
+  createAuthorizationRequest,
+  getOidcConfig,
+  handleAuthorizationCallback,
+  isOidcEnabled,
+  provisionOidcUser,
+} from '@server/business-logic/oidc.bl';
+import { createUserSession, setSessionCookie } from '@server/business-logic/user-session.bl';
+
+const app = express();
+
+const OIDC_COOKIE = 'oidc';
+const OIDC_COOKIE_MAX_AGE = 10 * 60 * 1000;
+
+const oidcCookieOptions: express.CookieOptions = {
+  httpOnly: true,
+  signed: true,
+  sameSite: 'lax',
+  path: '/api/oidc',
+};
+
+app.get(
+  '/oidc/config',
+  asyncMiddleware(async (req, res) => {
+    res.send(getOidcConfig());
+  })
+);
+
+app.get(
+  '/oidc/login',
+  asyncMiddleware(async (req, res) => {
+    if (!isOidcEnabled()) throw new NotFoundError('not_found');
+
+    const { url, request } = await createAuthorizationRequest();
+    res.cookie(OIDC_COOKIE, JSON.stringify(request), {
+      ...oidcCookieOptions,
+      maxAge: OIDC_COOKIE_MAX_AGE,
+    });
+    res.redirect(url);
+  })
+);
+
+// Errors are passed to the login page, the browser arrives here through a redirect of the provider
+app.get(
+  '/oidc/callback',
+  asyncMiddleware(async (req, res) => {
+    if (!isOidcEnabled()) throw new NotFoundError('not_found');
+
+    let request;
+    try {
+      request = JSON.parse(req.signedCookies?.[OIDC_COOKIE] || '{}');
+    } catch {
+      request = {};
+    }
+    res.clearCookie(OIDC_COOKIE, oidcCookieOptions);
+
+    try {
+      const claims = await handleAuthorizationCallback(req, request);
+      const user = await provisionOidcUser(claims);
+
+      // Second factor is left to the identity provider
+      const userSession = await createUserSession(user, req);
+      setSessionCookie(res, user, userSession);
+
+      await Hooks.doAction('user/postLogin', user);
+      res.redirect(getAdminUrl('/'));
+    } catch (err) {
+      const error = err instanceof BaseError ? err.toJson() : { message: 'sso_failed' };
+      logger.warn({
+        type: 'auth',
+        message: 'Single sign-on failed',
+        data: { ...error, reason: err?.toString() },
+      });
+      res.redirect(getAdminUrl(`/login?error=${encodeURIComponent(error.message)}`));
+    }
+  })
+);
+
+export default app;
@@ -0,0 +1,56 @@
+import express from 'express';
+import authMiddleware from '@server/middleware/auth.middleware';
+import asyncMiddleware from '@server/middleware/async.middleware';
+import ForbiddenError from '@server/errors/forbidden-error';
+import {
+  generatePersonalAccessToken,
+  listPersonalAccessTokens,
+  revokePersonalAccessTokens,
+} from '@server/business-logic/personal-access-token.bl';
+
+const app = express();
+
+// Tokens can not be used to issue or revoke tokens, only a logged in session can
+const sessionMiddleware = (
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) => {
+  if (req.data?.personalAccessToken) return next(new ForbiddenError('session_required'));
+  return next();
+};
+
+app.get(
+  '/personal-access-tokens',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const personalAccessTokens = await listPersonalAccessTokens(req.data.user);
+    res.send(personalAccessTokens);
+  })
+);
+
+app.post(
+  '/personal-access-tokens',
+  authMiddleware(),
+  sessionMiddleware,
+  asyncMiddleware(async (req, res) => {
+    const personalAccessToken = await generatePersonalAccessToken(req.data.user, {
+      name: req?.body?.name,
+      expiresAt: req?.body?.expiresAt,
+    });
+    res.send(personalAccessToken);
+  })
+);
+
+app.delete(
+  '/personal-access-tokens',
+  authMiddleware(),
+  sessionMiddleware,
+  asyncMiddleware(async (req, res) => {
+    const ids: number[] = Array.isArray(req?.body) ? req.body : [];
+    await revokePersonalAccessTokens(req.data.user, ids);
+    res.send(ids);
+  })
+);
+
+export default app;
@@ -9,8 +9,9 @@ import Post from '@server/models/post.model';
 import ContentType from '@server/models/content-type.model';
 import { flatten } from '@server/common/object';
 import logger from '@shared/features/logger';
+import Hooks from '@shared/features/hooks';
 import Tag from '@server/models/tag.model';
-import { IPost, IUser } from '@shared/interfaces/model';
+import { IPost, IUser, PostStatus } from '@shared/interfaces/model';
 import {
   getReplaceChildrenQuery,
   updateMeta,
@@ -28,6 +29,27 @@ import {
   verifyContentToken,
 } from '@server/middleware/content.middleware';
 import { isTrue } from '@admin/helpers/utility';
+import ForbiddenError from '@server/errors/forbidden-error';
+import { AccessTokenScope, canAccessPost } from '@server/business-logic/access-token.bl';
+import { assertValidContent } from '@server/common/content-validator';
+import { diffPosts } from '@server/common/post.diff';
+import {
+  getWorkflowSettings,
+  isPostApproved,
+  resetWorkflowApproval,
+} from '@server/business-logic/workflow.bl';
+import {
+  getContentMetaPattern,
+  getContentMetaPrefix,
+  localizePost,
+  resolveLocale,
+} from '@server/common/locale.utility';
+import {
+  applyContentGrants,
+  assertContentPermission,
+  findPostSubtrees,
+  getContentGrants,
+} from '@server/business-logic/content-permission.bl';
 
 const app = express();
 
@@ -58,7 +80,7 @@ export const createPostVersion = async (
   const postVersion = await postRepository.save({
     type: 'post_version',
     name: post.name,
-    slug: uuidv4(),
+    slug: post.slug,
     slugPath: uuidv4(),
     contentType: post.contentType,
     meta: (post.meta || []).map((meta) => ({
@@ -151,6 +173,9 @@ app.get(
       );
     }
 
+    const grants = await getContentGrants(req?.data?.user, 'list');
+    applyContentGrants(qb, grants, 'list', 'post', { navigable: true });
+
     const posts = await qb.addOrderBy('post.updatedAt', 'DESC').getMany();
 
     res.send(posts.map(mapPost));
@@ -223,9 +248,11 @@ app.post(
           postObj.slugPath = params.slug;
         }
 
+        await assertContentPermission(req?.data?.user, 'create', [postObj]);
         post = await transactionManager.save(Post, postObj);
       });
     } catch (err) {
+      if (err instanceof ForbiddenError) throw err;
       logger.error({
         type: 'post',
         message: 'error saving post',
@@ -236,6 +263,8 @@ app.post(
       }
       throw err;
     }
+
+    await Hooks.doAction('post/postCreate', [post]);
     return res.send(mapPost(post));
   })
 );
@@ -306,6 +335,7 @@ app.post(
             .addOrderBy('post.slugPath', 'ASC')
             .getMany();
         }
+        await assertContentPermission(req?.data?.user, 'list', children);
 
         const getSlugPath = (child) => {
           const newKey = `${
@@ -336,11 +366,13 @@ app.post(
             tags: child.tags,
             author: req?.data?.user,
           };
+          await assertContentPermission(req?.data?.user, 'create', [postObj]);
           const post = await transactionManager.save(Post, postObj);
           posts.push(post);
         }, Promise.resolve());
       });
     } catch (err) {
+      if (err instanceof ForbiddenError) throw err;
       logger.error({
         type: 'post',
         message: 'error saving post',
@@ -348,6 +380,8 @@ app.post(
       });
       throw new BadRequestError('duplicate_slug');
     }
+
+    await Hooks.doAction('post/postCreate', posts as Post[]);
     return res.send(posts.map((post) => mapPost(post)));
   })
 );
@@ -360,10 +394,20 @@ app.delete(
     if (!ids || ids?.length === 0) return res.send([]);
 
     const postRepository = getRepository(Post);
+    const posts = await postRepository.find({
+      relations: ['contentType'],
+      where: {
+        id: In(ids),
+      },
+    });
+    // Descendants are removed along with their parents
+    await assertContentPermission(req?.data?.user, 'delete', await findPostSubtrees(posts));
+
     const deleted = await postRepository.delete({
       id: In(ids),
     });
 
+    await Hooks.doAction('post/postDelete', posts);
     return res.send(deleted);
   })
 );
@@ -373,6 +417,7 @@ app.put(
   authMiddleware(),
   asyncMiddleware(async (req, res) => {
     const entityManager = getManager();
+    const localeOptions = await resolveLocale(req?.query?.locale as string);
     let post: IPost;
     try {
       await entityManager.transaction(async (transactionManager) => {
@@ -392,6 +437,15 @@ app.put(
           },
         });
         if (!post) throw new BadRequestError('invalid_post');
+        await assertContentPermission(req?.data?.user, 'update', [post]);
+
+        await assertValidContent({
+          entityManager: transactionManager,
+          contentType: post.contentType,
+          content: req?.body,
+          postId: post.id,
+          metaPrefix: getContentMetaPrefix(localeOptions),
+        });
 
         await createPostVersion(
           transactionManager.getRepository(Post),
@@ -400,17 +454,14 @@ app.put(
         );
 
         const flat = flatten(req?.body);
+        const prefix = getContentMetaPrefix(localeOptions);
+        const meta = Object.keys(flat).map((key) => ({
+          key: `${prefix}.${key}`,
+          value: flat[key],
+        }));
 
-        await updateMeta(
-          transactionManager,
-          Post,
-          post,
-          Object.keys(flat).map((key) => ({
-            key: `content.${key}`,
-            value: flat[key],
-          })),
-          /^content/
-        );
+        await resetWorkflowApproval(transactionManager, post, meta, getContentMetaPattern(localeOptions));
+        await updateMeta(transactionManager, Post, post, meta, getContentMetaPattern(localeOptions));
 
         post.author = req?.data?.user;
         post.updatedAt = new Date();
@@ -429,7 +480,8 @@ app.put(
       throw err;
     }
 
-    res.send(mapPostWithMeta(post));
+    await Hooks.doAction('post/postContentUpdate', post as Post);
+    res.send(mapPostWithMeta(localizePost(post, { ...localeOptions, fallback: false })));
   })
 );
 
@@ -437,16 +489,19 @@ app.put(
   `/posts/publish`,
   authMiddleware(),
   asyncMiddleware(async (req, res) => {
-    const { publish, recursive, ids, publishedFrom, publishedUntil, content, saveContent } =
+    const { publish, recursive, ids, publishedFrom, publishedUntil, content, saveContent, locale } =
       req.body;
     const entityManager = getManager();
+    const localeOptions = await resolveLocale(locale);
+    const scheduled = Boolean(publishedFrom) && isAfter(new Date(publishedFrom), new Date());
+    let affectedIds: number[] = [];
     try {
       const result = await entityManager.transaction(
         async (transactionManager) => {
           const postRepository = transactionManager.getRepository(Post);
           const postTreeRepository = transactionManager.getTreeRepository(Post);
 
-          let posts = await postRepository.findByIds(ids);
+          let posts = await postRepository.findByIds(ids, { relations: ['contentType'] });
           if (!(posts?.length > 0)) throw new BadRequestError('invalid_ids');
           if (saveContent && content && posts?.length === 1) {
             const post = await postRepository.findOne({
@@ -462,6 +517,15 @@ app.put(
                 id: ids?.[0],
               },
             });
+            await assertContentPermission(req?.data?.user, 'update', [post]);
+
+            await assertValidContent({
+              entityManager: transactionManager,
+              contentType: post.contentType,
+              content,
+              postId: post.id,
+              metaPrefix: getContentMetaPrefix(localeOptions),
+            });
 
             await createPostVersion(
               transactionManager.getRepository(Post),
@@ -470,22 +534,21 @@ app.put(
             );
 
             const flat = flatten(content);
+            const prefix = getContentMetaPrefix(localeOptions);
+            const meta = Object.keys(flat).map((key) => ({
+              key: `${prefix}.${key}`,
+              value: flat[key],
+            }));
 
-            await updateMeta(
-              transactionManager,
-              Post,
-              post,
-              Object.keys(flat).map((key) => ({
-                key: `content.${key}`,
-                value: flat[key],
-              })),
-              /^content/
-            );
+            await resetWorkflowApproval(transactionManager, post, meta, getContentMetaPattern(localeOptions));
+            await updateMeta(transactionManager, Post, post, meta, getContentMetaPattern(localeOptions));
 
             post.author = req?.data?.user;
             post.updatedAt = new Date();
 
             await postRepository.save(post);
+            // Approval is checked against the saved content
+            posts = await postRepository.findByIds(ids, { relations: ['contentType'] });
           }
 
           const qb = postRepository.createQueryBuilder('post').update(Post);
@@ -493,7 +556,7 @@ app.put(
           if (publish) {
             qb.set({
               publishedAt: now,
-              status: 'published',
+              status: scheduled ? PostStatus.SCHEDULED : PostStatus.PUBLISHED,
               publishedFrom: publishedFrom || now,
               publishedUntil: publishedUntil
                 ? endOfDay(new Date(publishedUntil))
@@ -522,20 +585,53 @@ app.put(
                 });
               })
             );
-            qb.where('post.id IN (:...ids)', {
-              ids: all.map((post) => post.id),
-            });
+            affectedIds = all.map((post) => post.id);
           } else {
-            qb.where('post.id IN (:...ids)', {
-              ids: posts.map((post) => post.id),
-            });
+            affectedIds = posts.map((post) => post.id);
+          }
+          const affected = recursive
+            ? await postRepository.findByIds(affectedIds, { relations: ['contentType'] })
+            : posts;
+          await assertContentPermission(req?.data?.user, 'publish', affected);
+
+          if (publish) {
+            const workflow = await getWorkflowSettings(transactionManager);
+            if (workflow.enabled) {
+              const unapproved = affected.filter(
+                (post) => post.type !== 'folder' && !isPostApproved(workflow, post)
+              );
+              if (unapproved.length > 0) {
+                throw new BadRequestError('post_not_approved', {
+                  ids: unapproved.map((post) => post.id),
+                });
+              }
+            }
           }
 
+          qb.where('post.id IN (:...ids)', {
+            ids: affectedIds,
+          });
+
           await qb.execute();
           posts = await postRepository.findByIds(ids);
           return posts;
         }
       );
+
+      const affected = await getRepository(Post).find({
+        relations: ['contentType'],
+        where: {
+          id: In(affectedIds),
+        },
+      });
+      if (!publish) {
+        await Hooks.doAction('post/postUnpublish', affected);
+      } else if (scheduled) {
+        await Hooks.doAction('post/postSchedule', affected);
+      } else {
+        await Hooks.doAction('post/postPublish', affected);
+      }
+
       res.send(result);
     } catch (err) {
       logger.error({
@@ -575,6 +671,7 @@ app.put(
         if (!post) throw new BadRequestError('invalid_post');
         if (post?.type === 'post_version')
           throw new BadRequestError('invalid_post_type');
+        await assertContentPermission(req?.data?.user, 'update', [post]);
 
         await createPostVersion(
           transactionManager.getRepository(Post),
@@ -589,6 +686,9 @@ app.put(
           const newSlugPath = post.parent
             ? `${post?.parent?.slugPath}/${req.body.slug}`
             : req.body.slug;
+          await assertContentPermission(req?.data?.user, 'update', [
+            { ...post, slugPath: newSlugPath },
+          ]);
 
           post.slug = newSlug;
           post.slugPath = newSlugPath;
@@ -634,6 +734,7 @@ app.put(
       throw err;
     }
 
+    await Hooks.doAction('post/postUpdate', post);
     res.send(mapPost(post));
   })
 );
@@ -645,11 +746,13 @@ app.get(
     const slugPath = req?.query?.slugPath as string;
     const postRepository = getRepository(Post);
     const post = await postRepository.findOne({
+      relations: ['contentType'],
       where: {
         slugPath,
       },
     });
     if (!post) throw new BadRequestError('invalid_post');
+    await assertContentPermission(req?.data?.user, 'list', [post]);
     return res.send(mapPostWithMeta(post));
   })
 );
@@ -659,6 +762,7 @@ app.get(
   authMiddleware(),
   asyncMiddleware(async (req, res) => {
     const { versionId } = req?.query;
+    const localeOptions = await resolveLocale(req?.query?.locale as string);
     const postRepository = getRepository(Post);
     const post = await postRepository.findOne({
       relations: ['meta', 'contentType', 'author', 'author.meta', 'tags'],
@@ -667,6 +771,7 @@ app.get(
       },
     });
     if (!post) throw new BadRequestError('invalid_post');
+    await assertContentPermission(req?.data?.user, 'list', [post]);
     if (versionId) {
       const postVersion = await postRepository.findOne({
         relations: ['meta', 'contentType', 'author', 'author.meta', 'tags'],
@@ -677,16 +782,21 @@ app.get(
       });
       if (!postVersion) throw new BadRequestError('invalid_post_version');
       return res.send(
-        mapPostWithMeta({
-          ...postVersion,
-          id: post?.id,
-          slug: post?.slug,
-          slugPath: post?.slugPath,
-          versionId: postVersion?.id,
-        })
+        mapPostWithMeta(
+          localizePost(
+            {
+              ...postVersion,
+              id: post?.id,
+              slug: post?.slug,
+              slugPath: post?.slugPath,
+              versionId: postVersion?.id,
+            },
+            { ...localeOptions, fallback: false }
+          )
+        )
       );
     }
-    return res.send(mapPostWithMeta(post));
+    return res.send(mapPostWithMeta(localizePost(post, { ...localeOptions, fallback: false })));
   })
 );
 
@@ -700,6 +810,15 @@ app.get(
     const { count } = req?.query;
 
     const postRepository = getRepository(Post);
+    const post = await postRepository.findOne({
+      relations: ['contentType'],
+      where: {
+        id: req.params.postId,
+      },
+    });
+    if (!post) throw new BadRequestError('invalid_post');
+    await assertContentPermission(req?.data?.user, 'list', [post]);
+
     const qb = postRepository
       .createQueryBuilder('post')
       .leftJoinAndSelect('post.contentType', 'contentType')
@@ -742,6 +861,7 @@ app.post(
         .getOne();
 
       if (!post) throw new BadRequestError('invalid_post');
+      await assertContentPermission(req?.data?.user, 'update', [post]);
 
       const postVersion = await postRepository
         .createQueryBuilder('post')
@@ -759,6 +879,7 @@ app.post(
 
       await createPostVersion(postRepository, post, req?.data?.user);
 
+      await resetWorkflowApproval(transactionManager, post, postVersion?.meta);
       await updateMeta(transactionManager, Post, post, postVersion?.meta);
 
       post.tags = postVersion.tags;
@@ -767,10 +888,59 @@ app.post(
 
       await postRepository.save(post);
     });
+
+    await Hooks.doAction('post/postContentUpdate', post);
     res.send(mapPostWithMeta(post));
   })
 );
 
+/**
+ * Diff version against current post or another version
+ */
+app.get(
+  '/posts/:postId/versions/:versionId/diff',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const against = req?.query?.against as string;
+    const localeOptions = await resolveLocale(req?.query?.locale as string);
+    const postRepository = getRepository(Post);
+
+    const post = await postRepository.findOne({
+      relations: ['meta', 'tags', 'contentType'],
+      where: {
+        id: req.params.postId,
+      },
+    });
+    if (!post) throw new BadRequestError('invalid_post');
+    await assertContentPermission(req?.data?.user, 'list', [post]);
+
+    const findVersion = async (versionId: string) => {
+      const postVersion = await postRepository.findOne({
+        relations: ['meta', 'tags', 'author'],
+        where: {
+          id: versionId,
+          parentId: post.id,
+          type: 'post_version',
+        },
+      });
+      if (!postVersion) throw new BadRequestError('invalid_post_version');
+      return postVersion;
+    };
+
+    const version = await findVersion(req.params.versionId);
+    const target = against && against !== 'current' ? await findVersion(against) : post;
+
+    const localize = (item: IPost) =>
+      localizePost(item, { ...localeOptions, fallback: false });
+
+    res.send({
+      versionId: version.id,
+      against: target.type === 'post_version' ? target.id : 'current',
+      ...diffPosts(localize(version), localize(target)),
+    });
+  })
+);
+
 /**
  * Delete versions
  */
@@ -782,9 +952,19 @@ app.delete(
     if (!ids || ids?.length === 0) return res.send([]);
 
     const postRepository = getRepository(Post);
+    const post = await postRepository.findOne({
+      relations: ['contentType'],
+      where: {
+        id: req.params.postId,
+      },
+    });
+    if (!post) throw new BadRequestError('invalid_post');
+    await assertContentPermission(req?.data?.user, 'update', [post]);
+
     const deleted = await postRepository.delete({
       id: In(ids),
       type: 'post_version',
+      parentId: post.id,
     });
 
     return res.send(deleted);
@@ -796,7 +976,7 @@ app.get(
   authMiddleware(),
   asyncMiddleware(async (req, res) => {
     const id = req?.params?.postId;
-    const { versionId } = req?.query;
+    const { versionId, locale } = req?.query;
     const postRepository = getRepository(Post);
     const settingsRepository = getRepository(SiteSettings);
 
@@ -808,10 +988,10 @@ app.get(
     };
 
     const where = { id };
-    const relations = [];
+    const relations = ['contentType'];
     if (versionId) {
       where.id = versionId;
-      relations.push('parent');
+      relations.push('parent', 'parent.contentType');
     }
 
     const post = await postRepository.findOne({
@@ -819,6 +999,7 @@ app.get(
       relations,
     });
     if (!post) throw new BadRequestError('invalid_post');
+    await assertContentPermission(req?.data?.user, 'list', [versionId ? post.parent : post]);
 
     const slugPath = versionId ? post?.parent?.slugPath : post?.slugPath;
     const previewSettings = await settingsRepository.findOne({
@@ -844,6 +1025,9 @@ app.get(
     if (!searchParams.get('versionId') && versionId) {
       searchParams.append('versionId', versionId as string);
     }
+    if (!searchParams.get('locale') && locale) {
+      searchParams.append('locale', locale as string);
+    }
     const paramsString =
       searchParams.toString()?.length > 0 ? `?${searchParams.toString()}` : '';
 
@@ -871,10 +1055,15 @@ app.get(
 
     // Authorization
     let authorized;
+    let accessToken;
     if (draft || versionId) {
-      await verifyContentToken({
+      const scopes: AccessTokenScope[] = [];
+      if (draft) scopes.push('drafts');
+      if (versionId) scopes.push('versions');
+      accessToken = await verifyContentToken({
         entityManager,
         token: contentToken,
+        scopes,
       });
       authorized = true;
     } else {
@@ -886,7 +1075,7 @@ app.get(
           },
         });
       if (apiAccess?.value === 'private')
-        await verifyContentToken({
+        accessToken = await verifyContentToken({
           token: contentToken,
           entityManager,
         });
@@ -894,14 +1083,18 @@ app.get(
     }
 
     const slugPath = (req.params[0] as string).replace(/\/$/, '');
+    const localeOptions = await resolveLocale(req?.query?.locale as string, entityManager);
 
     const post = await retrievePostAndCompile(
       {
         slugPath,
         versionId: authorized ? (versionId as string) : undefined,
       },
-      { relationsDepth, draft, query: req.query }
+      { relationsDepth, draft, query: req.query, ...localeOptions }
     );
+    if (!canAccessPost(accessToken, { ...post, slugPath })) {
+      throw new ForbiddenError('insufficient_scope');
+    }
     res.send(post);
   })
 );
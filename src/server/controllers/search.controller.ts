@@ -1,19 +1,35 @@
 import express from 'express';
+import _ from 'lodash';
 import contentMiddleware from '@server/middleware/content.middleware';
 import asyncMiddleware from '@server/middleware/async.middleware';
 import { getEnhancedRepository } from '@server/common/orm-helpers';
 import Post from '@server/models/post.model';
 import { isTrue } from '@admin/helpers/utility';
 import { Brackets } from 'typeorm';
-import { compilePost, publishedQuery } from '@server/common/post.utility';
+import { compilePost, loadComponentFields, publishedQuery } from '@server/common/post.utility';
 import { mapPublicPostWithMeta, mapPublicTag } from '@server/common/mappers';
 import Tag from '@server/models/tag.model';
+import { localizePost, resolveLocale } from '@server/common/locale.utility';
+import authMiddleware from '@server/middleware/auth.middleware';
+import {
+  getSearchResults,
+  rebuildSearchIndex,
+  searchPosts,
+} from '@server/business-logic/search.bl';
+import {
+  applyAccessTokenScopes,
+  assertAccessTokenScope,
+} from '@server/business-logic/access-token.bl';
+import {
+  applyContentGrants,
+  getContentGrants,
+} from '@server/business-logic/content-permission.bl';
 
 const app = express();
 
 app.get(
   '/search/posts',
-  contentMiddleware({ alwaysAuthorize: true }),
+  contentMiddleware({ alwaysAuthorize: true, scope: 'search', allowUser: true }),
   asyncMiddleware(async (req, res) => {
     const postRepository = getEnhancedRepository(Post);
     const qb = postRepository.createQueryBuilder('post');
@@ -26,6 +42,7 @@ app.get(
     const slugPath = req?.query?.slugPath as string;
     const tags = req?.query?.tags as string;
     const compile = req?.query?.compile as string;
+    const localeOptions = await resolveLocale(req?.query?.locale as string);
 
     let relationsDepth;
     if (req?.query?.relationsDepth && !Number.isNaN(Number(req?.query?.relationsDepth))) {
@@ -101,7 +118,9 @@ app.get(
       });
     }
 
+    let hits = [];
     if (search?.length > 0) {
+      hits = await searchPosts(search, localeOptions);
       qb.andWhere(
         new Brackets((subQb) => {
           subQb
@@ -111,12 +130,24 @@ app.get(
             .orWhere('LOWER(post.slugPath) LIKE :search', {
               search: `%${(search as string).toLowerCase()}%`,
             });
+          if (hits.length > 0) {
+            subQb.orWhere('post.id IN (:...searchIds)', {
+              searchIds: hits.map((hit) => hit.postId),
+            });
+          }
         })
       );
     }
 
+    applyAccessTokenScopes(qb, req.data.accessToken);
+    if (req.data.user) {
+      applyContentGrants(qb, await getContentGrants(req.data.user, 'list'), 'list');
+    }
+
     const draft = isTrue(req?.query?.draft as string);
-    if (!draft) {
+    if (draft) {
+      assertAccessTokenScope(req.data.accessToken, 'drafts');
+    } else {
       publishedQuery(qb);
     }
 
@@ -125,20 +156,63 @@ app.get(
       return qb.getMany();
     };
 
-    qb.addOrderBy(
-      orderBy || 'post.slugPath',
-      order === 'DESC' ? 'DESC' : 'ASC'
-    );
-    const [count, results] = await Promise.all([qb.getCount(), getMany()]);
+    // Without explicit ordering search results are sorted by relevance, name and slug matches
+    // missing from the index go last
+    const getManyByRank = async () => {
+      const matching = await qb
+        .clone()
+        .select('post.id', 'id')
+        .addOrderBy('post.slugPath', 'ASC')
+        .getRawMany();
+      const ranks = new Map(hits.map((hit) => [hit.postId, hit.rank]));
+      const ids = _.sortBy(
+        _.uniq(matching.map((row) => Number(row.id))),
+        (id) => -(ranks.get(id) ?? Number.NEGATIVE_INFINITY)
+      );
+      const pageIds = ids.slice((page - 1) * limit, page * limit);
+      if (pageIds.length === 0) return [ids.length, []];
+
+      const posts = await qb.andWhereInIds(pageIds).getMany();
+      return [ids.length, _.sortBy(posts, (post) => pageIds.indexOf(post.id))];
+    };
+
+    let count;
+    let results;
+    if (search?.length > 0 && !orderBy) {
+      [count, results] = await getManyByRank();
+    } else {
+      qb.addOrderBy(
+        orderBy || 'post.slugPath',
+        order === 'DESC' ? 'DESC' : 'ASC'
+      );
+      [count, results] = await Promise.all([qb.getCount(), getMany()]);
+    }
 
     let posts;
     if (isTrue(compile)) {
+      const components = await loadComponentFields();
       posts = await Promise.all((results || []).map(post => compilePost(post, {
         draft,
-        relationsDepth: relationsDepth || 1
+        relationsDepth: relationsDepth || 1,
+        components,
+        ...localeOptions
       })))
     } else {
-      posts = (results || []).map((post) => mapPublicPostWithMeta(post))
+      posts = (results || []).map((post) => mapPublicPostWithMeta(localizePost(post, localeOptions)))
+    }
+
+    if (hits.length > 0) {
+      const searchResults = await getSearchResults(
+        search,
+        hits.filter((hit) => (results || []).find((post) => post.id === hit.postId))
+      );
+      posts = posts.map((post, index) => {
+        const searchResult = searchResults.find((result) => result.postId === results[index]?.id);
+        return {
+          ...post,
+          search: searchResult && _.pick(searchResult, ['rank', 'title', 'snippet']),
+        };
+      });
     }
 
     res.send({
@@ -152,7 +226,7 @@ app.get(
 
 app.get(
   '/search/tags',
-  contentMiddleware({ alwaysAuthorize: true }),
+  contentMiddleware({ alwaysAuthorize: true, scope: 'search' }),
   asyncMiddleware(async (req, res) => {
     const tagRepository = getEnhancedRepository(Tag);
     const qb = tagRepository.createQueryBuilder('tag');
@@ -232,4 +306,13 @@ app.get(
   })
 );
 
+app.post(
+  '/search/reindex',
+  authMiddleware(['settings']),
+  asyncMiddleware(async (req, res) => {
+    const count = await rebuildSearchIndex();
+    res.send({ count });
+  })
+);
+
 export default app;
\ No newline at end of file
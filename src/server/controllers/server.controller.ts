@@ -8,14 +8,12 @@ import { UserStatus } from '@shared/interfaces/model';
 import Group from '@server/models/group.model';
 import Validators from '@shared/validators';
 import { getEnhancedRepository } from '@server/common/orm-helpers';
-import { getExpires, sign } from '@server/common/jwt';
-import UserSession from '@server/models/user-session.model';
+import { createUserSession, setSessionCookie } from '@server/business-logic/user-session.bl';
 import { exportContent, importContent } from '@server/business-logic/server.bl';
 import authMiddleware from '@server/middleware/auth.middleware';
 import PathUtil from "@scripts/util/path.util";
 import fs from 'fs-extra';
-import AccessToken from '@server/models/access-token';
-import { nanoid } from 'nanoid';
+import { generateAccessToken } from '@server/business-logic/access-token.bl';
 
 const app = express();
 
@@ -34,7 +32,6 @@ app.post(
     const siteSettingsRepository = getRepository(SiteSettings);
     const userRepository = getEnhancedRepository(User);
     const groupRepository = getRepository(Group);
-    const userSessionRepository = getRepository(UserSession);
 
     const [initiated, userCount] = await Promise.all([
       siteSettingsRepository.findOne({ where: { key: 'initiated' } }),
@@ -71,10 +68,8 @@ app.post(
       { key: 'adminEmail', value: email },
     ]);
 
-    const accessTokenRepository = getEnhancedRepository(AccessToken);
-    await accessTokenRepository.save({
+    await generateAccessToken({
       name: req?.body?.name,
-      token: nanoid()
     });
 
     let token;
@@ -82,22 +77,8 @@ app.post(
       user = await entityManager.save(user);
       siteSettings = await entityManager.save(siteSettings);
 
-      const userSession = await entityManager.save(
-        userSessionRepository.create({
-          user,
-          expiresAt: getExpires(),
-        })
-      );
-
-      token = sign({
-        sessionId: userSession.id,
-        userId: user.id,
-      });
-
-      res.cookie('token', token, {
-        maxAge: getExpires().getTime() * 1000,
-        httpOnly: true,
-      });
+      const userSession = await createUserSession(user, req, entityManager);
+      token = setSessionCookie(res, user, userSession);
     });
 
     res.send({ user, token });
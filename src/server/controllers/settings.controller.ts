@@ -3,9 +3,19 @@ import asyncMiddleware from '@server/middleware/async.middleware';
 import { getRepository } from 'typeorm';
 import SiteSettings from '@server/models/site-settings.model';
 import authMiddleware from '@server/middleware/auth.middleware';
+import ForbiddenError from '@server/errors/forbidden-error';
+import Hooks from '@shared/features/hooks';
+import { hasPermissions } from '@shared/features/permissions';
+import { SECURITY_SETTINGS_KEY } from '@shared/features/security';
+import { WORKFLOW_SETTINGS_KEY } from '@shared/features/workflow';
+import { MAIL_SETTINGS_KEY } from '@shared/features/mail';
+import { AUDIT_SETTINGS_KEY } from '@shared/features/audit';
 
 const app = express();
 
+// Settings of access, publishing, sent mail and audit history are left to administrators
+const PROTECTED_KEYS = [SECURITY_SETTINGS_KEY, WORKFLOW_SETTINGS_KEY, MAIL_SETTINGS_KEY, AUDIT_SETTINGS_KEY];
+
 app.get('/settings', authMiddleware(), asyncMiddleware(async (req, res) => {
   const settingsRepository = getRepository(SiteSettings);
   const settings = await settingsRepository.find();
@@ -13,6 +23,10 @@ app.get('/settings', authMiddleware(), asyncMiddleware(async (req, res) => {
 }));
 
 app.post('/settings', authMiddleware(), asyncMiddleware(async (req, res) => {
+  if (PROTECTED_KEYS.includes(req?.body?.key) && !hasPermissions(req.data.user, ['all'])) {
+    throw new ForbiddenError('forbidden');
+  }
+
   const settingsRepository = getRepository(SiteSettings);
   let settings = await settingsRepository.findOne({
     where: {
@@ -28,6 +42,7 @@ app.post('/settings', authMiddleware(), asyncMiddleware(async (req, res) => {
       value: req?.body?.value
     });
   }
+  await Hooks.doAction('settings/postUpdate', settings);
   res.send(settings);
 }));
 
@@ -1,12 +1,16 @@
 import express from 'express';
-import { DeepPartial, getManager, getRepository } from 'typeorm';
+import crypto from 'crypto';
+import { DeepPartial, getManager, getRepository, In } from 'typeorm';
 import User from '@server/models/user.model';
 import UserSession from '@server/models/user-session.model';
-import { getExpires, sign } from '@server/common/jwt';
 import authMiddleware from '@server/middleware/auth.middleware';
 import asyncMiddleware from '@server/middleware/async.middleware';
 import BadRequestError from '@server/errors/bad-request-error';
-import { sendMail } from '@server/drivers/mail.driver';
+import {
+  sendInvitationMail,
+  sendPasswordChangedMail,
+  sendPasswordResetMail,
+} from '@server/business-logic/mail.bl';
 import UserToken, { UserTokenType } from '@server/models/user-token.model';
 import * as yup from 'yup';
 import { UserStatus } from '@shared/interfaces/model';
@@ -23,9 +27,48 @@ import Validators from '@shared/validators';
 import { hasPermissions } from '@shared/features/permissions';
 import Hooks from "@shared/features/hooks";
 import SiteSettings from "@server/models/site-settings.model";
+import ForbiddenError from '@server/errors/forbidden-error';
+import { isTrue } from '@admin/helpers/utility';
+import {
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  enableTwoFactor,
+  failTwoFactorChallenge,
+  findTwoFactorChallenge,
+  generateRecoveryCodes,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  startTwoFactorSetup,
+  verifyTwoFactor,
+} from '@server/business-logic/two-factor.bl';
+import {
+  assertNotLockedOut,
+  clearAttempts,
+  mapUserLockouts,
+  registerAttempt,
+  unlockUser,
+} from '@server/business-logic/login-attempt.bl';
+import {
+  createUserSession,
+  listUserSessions,
+  revokeUserSession,
+  revokeUserSessions,
+  setSessionCookie,
+} from '@server/business-logic/user-session.bl';
+import { isPasswordLoginEnabled } from '@server/business-logic/oidc.bl';
 
 const app = express();
 
+const logIn = async (req: express.Request, res: express.Response, user: User, extra: object = {}) => {
+  const userSession = await createUserSession(user, req);
+  const token = setSessionCookie(res, user, userSession);
+
+  await clearAttempts('login', user.email);
+  await Hooks.doAction('user/postLogin', user);
+  return res.send({ user, token, ...extra });
+};
+
 app.get(
   '/loggedIn',
   asyncMiddleware(async (req, res, next) => {
@@ -52,11 +95,14 @@ app.get(
 app.post(
   '/login',
   asyncMiddleware(async (req, res) => {
+    if (!isPasswordLoginEnabled()) throw new ForbiddenError('password_login_disabled');
     await req.validate({ email: Validators.email() });
 
     const { email, password } = req.body;
+    const attemptContext = { email, ip: req.ip };
+    await assertNotLockedOut('login', attemptContext);
+
     const userRepository = getRepository(User);
-    const userSessionRepository = getRepository(UserSession);
 
     const user = await userRepository.createQueryBuilder('user')
       .addSelect('user.password')
@@ -65,6 +111,9 @@ app.post(
       .where('user.email = :email', {email: email.toLowerCase()})
       .getOne();
 
+    const result = user && typeof password === 'string' ? await user.comparePassword(password) : false;
+    if (!result) await registerAttempt('login', attemptContext);
+
     await req.validate({
       email: Validators.email().test(
         'email-not-found',
@@ -77,28 +126,68 @@ app.post(
     if (user.status !== UserStatus.ACTIVE)
       throw new BadRequestError('inactive_user');
 
-    const result = await user.comparePassword(password);
-
     if (!result) throw new BadRequestError('invalid_password');
 
-    const userSession = await userSessionRepository.save({
-      user,
-      expiresAt: getExpires(),
-    });
+    const twoFactorEnabled = await isTwoFactorEnabled(user);
+    if (twoFactorEnabled || isTwoFactorRequired(user)) {
+      const twoFactorToken = await createTwoFactorChallenge(user);
+      return res.send({
+        twoFactor: {
+          token: twoFactorToken,
+          setupRequired: !twoFactorEnabled,
+        },
+      });
+    }
 
-    const token = sign({
-      sessionId: userSession.id,
-      userId: user.id,
-    });
+    return logIn(req, res, user);
+  })
+);
 
-    res.cookie('token', token, {
-      maxAge: getExpires().getTime() * 1000,
-      httpOnly: true,
-    });
+app.post(
+  '/login/two-factor',
+  asyncMiddleware(async (req, res) => {
+    const { token, code, recoveryCode } = req.body;
+    const challenge = await findTwoFactorChallenge(token);
 
+    const attemptContext = { email: challenge.user.email, ip: req.ip };
+    await assertNotLockedOut('login', attemptContext);
+
+    const verified = await verifyTwoFactor(challenge.user, { code, recoveryCode });
+    if (!verified) {
+      await registerAttempt('login', attemptContext);
+      await failTwoFactorChallenge(challenge);
+    }
+
+    await getManager().remove(challenge);
+    return logIn(req, res, challenge.user);
+  })
+);
 
-    await Hooks.doAction('user/postLogin', user);
-    res.send({ user, token });
+// Enrolment of users who belong to a group enforcing two-factor authentication but did not set it up yet
+app.post(
+  '/login/two-factor/setup',
+  asyncMiddleware(async (req, res) => {
+    const challenge = await findTwoFactorChallenge(req.body?.token);
+    const setup = await startTwoFactorSetup(challenge.user);
+    res.send(setup);
+  })
+);
+
+app.post(
+  '/login/two-factor/enable',
+  asyncMiddleware(async (req, res) => {
+    const challenge = await findTwoFactorChallenge(req.body?.token);
+
+    let recoveryCodes;
+    try {
+      recoveryCodes = await enableTwoFactor(challenge.user, req.body?.code);
+    } catch (err) {
+      if (err instanceof BadRequestError) await failTwoFactorChallenge(challenge);
+      throw err;
+    }
+
+    await getManager().remove(challenge);
+    return logIn(req, res, challenge.user, { recoveryCodes });
   })
 );
 
@@ -130,6 +219,12 @@ app.post(
     const userRepository = getRepository(User);
 
     if (req.data?.user) throw new BadRequestError('logged_in');
+    if (!isPasswordLoginEnabled()) throw new ForbiddenError('password_login_disabled');
+
+    // Every request counts, so reset emails can not be used for spamming
+    const attemptContext = { email, ip: req.ip };
+    await assertNotLockedOut('forgot', attemptContext);
+    await registerAttempt('forgot', attemptContext);
 
     const user = await userRepository.findOne({
       where: { email: email.toLowerCase() },
@@ -137,26 +232,22 @@ app.post(
 
     if (!user) throw new BadRequestError('invalid_email');
 
-    await getManager().transaction(async (entityManager) => {
+    const token = await getManager().transaction(async (entityManager) => {
       const userTokenRepository = getEnhancedRepository(
         UserToken,
         entityManager
       );
 
-      const token = await userTokenRepository.save({
+      return userTokenRepository.save({
         expiresAt: addDays(new Date(), 7),
         type: UserTokenType.RESET,
         user,
       });
-
-      sendMail({
-        subject: 'Forgot Password',
-        from: 'test@burdy.io',
-        to: email,
-        html: JSON.stringify(token),
-      });
     });
 
+    // Sent once the token is committed, so the link always works
+    await sendPasswordResetMail(user, token);
+
     res.send();
   })
 );
@@ -171,12 +262,15 @@ app.post(
     const userTokenRepository = getEnhancedRepository(UserToken);
     const userSessionRepository = getEnhancedRepository(UserSession);
 
+    // Invitations set the first password through the same flow
     const userToken = await userTokenRepository.findOne({
       relations: ['user'],
-      where: { token, type: UserTokenType.RESET },
+      where: { token, type: In([UserTokenType.RESET, UserTokenType.ACTIVATE]) },
     });
 
-    if (!userToken) throw new BadRequestError('invalid_token');
+    if (!userToken || new Date(userToken.expiresAt).getTime() < Date.now()) {
+      throw new BadRequestError('invalid_token');
+    }
 
     const { user } = userToken;
     await user.setPassword(password);
@@ -254,6 +348,9 @@ app.get(
     }
 
     let users = await query.getMany();
+    if (hasPermissions(req?.data?.user, ['all', 'users_administration'])) {
+      users = await mapUserLockouts(users);
+    }
     users = await Hooks.applyFilters('user/getMany', users);
 
     res.send(users);
@@ -264,6 +361,7 @@ app.post(
   '/users',
   authMiddleware(['users_administration']),
   asyncMiddleware(async (req, res) => {
+    const { notify } = req.body;
     const { groups, meta, password, ...userParams } = _.pick(req.body, [
       'email',
       'firstName',
@@ -287,14 +385,16 @@ app.post(
           return user === undefined;
         }
       ),
-      password: Validators.password(),
+      // Invited users set their password when activating the account
+      password: isTrue(notify) && !password ? yup.string() : Validators.password(),
     });
 
-    await getManager().transaction(async (entityManager) => {
+    const { user, userResponse, token } = await getManager().transaction(async (entityManager) => {
       const userRepository = getEnhancedRepository(User, entityManager);
 
       const user = await userRepository.create(userParams);
-      await user.setPassword(password);
+      // Until then they have no usable password
+      await user.setPassword(password || crypto.randomBytes(32).toString('hex'));
       user.applyMeta(meta);
 
       await user.save();
@@ -308,9 +408,24 @@ app.post(
         where: { id: user.id },
       });
 
-      await Hooks.doAction('user/postCreate', userResponse);
-      res.send(userResponse);
+      const token = isTrue(notify)
+        ? await entityManager.save(UserToken, {
+          expiresAt: addDays(new Date(), 7),
+          type: UserTokenType.ACTIVATE,
+          user,
+        })
+        : undefined;
+
+      return { user, userResponse, token };
     });
+
+    // Sent once the user and the token are committed, so the link always works
+    if (token) {
+      await sendInvitationMail(user, token);
+    }
+
+    await Hooks.doAction('user/postCreate', userResponse);
+    res.send(userResponse);
   })
 );
 
@@ -483,6 +598,136 @@ app.post(
   })
 );
 
+app.get(
+  '/profile/two-factor',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const status = await getTwoFactorStatus(req.data.user);
+    res.send(status);
+  })
+);
+
+app.post(
+  '/profile/two-factor/setup',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const setup = await startTwoFactorSetup(req.data.user);
+    res.send(setup);
+  })
+);
+
+app.post(
+  '/profile/two-factor/enable',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const recoveryCodes = await enableTwoFactor(req.data.user, req.body?.code);
+    res.send({ recoveryCodes });
+  })
+);
+
+app.post(
+  '/profile/two-factor/recovery-codes',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const verified = await verifyTwoFactor(req.data.user, { code: req.body?.code });
+    if (!verified) throw new BadRequestError('invalid_two_factor_code');
+
+    const recoveryCodes = await generateRecoveryCodes(req.data.user);
+    res.send({ recoveryCodes });
+  })
+);
+
+app.post(
+  '/profile/two-factor/disable',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const { user } = req.data;
+    if (isTwoFactorRequired(user)) throw new ForbiddenError('two_factor_required');
+
+    const userWithPassword = await getRepository(User)
+      .createQueryBuilder('user')
+      .addSelect('user.password')
+      .where('user.id = :id', { id: user.id })
+      .getOne();
+    const compareResult = await userWithPassword.comparePassword(req.body?.password);
+    if (!compareResult) throw new BadRequestError('wrong_password');
+
+    await disableTwoFactor(user);
+    res.send();
+  })
+);
+
+// Users can manage their own sessions, sessions of others require users administration
+const findSessionsUser = async (req: express.Request) => {
+  const id = Number(req.params.id);
+  if (
+    id !== req.data.user.id &&
+    !hasPermissions(req.data.user, ['all', 'users_administration'])
+  ) {
+    throw new ForbiddenError('forbidden');
+  }
+
+  const user = await getEnhancedRepository(User).findOne(id);
+  if (!user) throw new NotFoundError('not_found');
+  return user;
+};
+
+app.get(
+  '/users/:id/sessions',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const user = await findSessionsUser(req);
+    const sessions = await listUserSessions(user, req.data.session);
+    res.send(sessions);
+  })
+);
+
+app.delete(
+  '/users/:id/sessions',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const user = await findSessionsUser(req);
+    await revokeUserSessions(user, user.id === req.data.user.id ? req.data.session : undefined);
+    res.send();
+  })
+);
+
+app.delete(
+  '/users/:id/sessions/:sessionId',
+  authMiddleware(),
+  asyncMiddleware(async (req, res) => {
+    const user = await findSessionsUser(req);
+    await revokeUserSession(user, Number(req.params.sessionId));
+    res.send();
+  })
+);
+
+app.post(
+  '/users/:id/two-factor/reset',
+  authMiddleware(['users_administration']),
+  asyncMiddleware(async (req, res) => {
+    const user = await getEnhancedRepository(User).findOne(req.params.id);
+    if (!user) throw new NotFoundError('not_found');
+
+    await disableTwoFactor(user);
+    res.send();
+  })
+);
+
+app.post(
+  '/users/unlock',
+  authMiddleware(['users_administration']),
+  asyncMiddleware(async (req, res) => {
+    const users = await getEnhancedRepository(User).findByIds(req.body?.ids ?? []);
+
+    await async.each(users, async (user) => {
+      await unlockUser(user);
+      await Hooks.doAction('user/postUnlock', user);
+    });
+    res.send(users);
+  })
+);
+
 app.post(
   '/users/reset-password/:id',
   authMiddleware(['users_administration']),
@@ -502,8 +747,8 @@ app.post(
     await user.setPassword(password);
     userRepository.save(user);
 
-    if (notify) {
-      // @TODO issue an email
+    if (isTrue(notify)) {
+      await sendPasswordChangedMail(user);
     }
 
     userSessionRepository.delete({ user });
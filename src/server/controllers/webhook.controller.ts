@@ -0,0 +1,170 @@
+import express from 'express';
+import * as yup from 'yup';
+import { In } from 'typeorm';
+import { nanoid } from 'nanoid';
+import authMiddleware from '@server/middleware/auth.middleware';
+import asyncMiddleware from '@server/middleware/async.middleware';
+import { getEnhancedRepository } from '@server/common/orm-helpers';
+import BadRequestError from '@server/errors/bad-request-error';
+import Webhook from '@server/models/webhook.model';
+import WebhookDelivery from '@server/models/webhook-delivery.model';
+import WebhookEvents from '@shared/features/webhooks';
+import { createWebhookDelivery } from '@server/business-logic/webhooks.bl';
+import { IWebhookDeliveryStatus } from '@shared/interfaces/model';
+
+const app = express();
+
+const webhookEventIds = ['*', ...WebhookEvents.map((event) => event.id)];
+
+const webhookValidation = {
+  name: yup.string().max(256).required(),
+  url: yup.string().url().required(),
+  events: yup.array().of(yup.string().oneOf(webhookEventIds)),
+  enabled: yup.boolean(),
+};
+
+app.get(
+  '/webhooks',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    const webhookRepository = getEnhancedRepository(Webhook);
+    const webhooks = await webhookRepository.find();
+    res.send(webhooks);
+  })
+);
+
+app.post(
+  '/webhooks',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    await req.validate(webhookValidation, 'body');
+
+    const webhookRepository = getEnhancedRepository(Webhook);
+    const webhook = await webhookRepository.save({
+      name: req.body.name,
+      url: req.body.url,
+      events: req.body.events ?? [],
+      enabled: req.body.enabled ?? true,
+      secret: nanoid(32),
+    });
+    res.send(webhook);
+  })
+);
+
+app.put(
+  '/webhooks/:webhookId',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    await req.validate(webhookValidation, 'body');
+
+    const webhookRepository = getEnhancedRepository(Webhook);
+    const webhook = await webhookRepository.findOne(req.params.webhookId);
+    if (!webhook) throw new BadRequestError('invalid_webhook');
+
+    webhook.name = req.body.name;
+    webhook.url = req.body.url;
+    if (Array.isArray(req.body.events)) {
+      webhook.events = req.body.events;
+    }
+    if (typeof req.body.enabled === 'boolean') {
+      webhook.enabled = req.body.enabled;
+    }
+    if (req.body.rotateSecret) {
+      webhook.secret = nanoid(32);
+    }
+
+    await webhookRepository.save(webhook);
+    res.send(webhook);
+  })
+);
+
+app.delete(
+  '/webhooks',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    const ids: number[] = req?.body ?? [];
+    if (!ids || ids?.length === 0) return res.send([]);
+
+    const webhookRepository = getEnhancedRepository(Webhook);
+    const deleted = await webhookRepository.delete({
+      id: In(ids),
+    });
+
+    return res.send(deleted);
+  })
+);
+
+app.get(
+  '/webhooks/:webhookId/deliveries',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    let limit = 50;
+    if (req?.query?.limit && !Number.isNaN(Number(req?.query?.limit))) {
+      limit = Number(req?.query?.limit);
+    }
+    let page = 1;
+    if (req?.query?.page && !Number.isNaN(Number(req?.query?.page))) {
+      page = Number(req?.query?.page);
+    }
+
+    const deliveryRepository = getEnhancedRepository(WebhookDelivery);
+    const [results, count] = await deliveryRepository.findAndCount({
+      where: {
+        webhookId: req.params.webhookId,
+      },
+      order: {
+        createdAt: 'DESC',
+      },
+      take: limit,
+      skip: (page - 1) * limit,
+    });
+
+    res.send({
+      results,
+      count,
+      page,
+      limit,
+    });
+  })
+);
+
+app.post(
+  '/webhooks/:webhookId/ping',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    const webhookRepository = getEnhancedRepository(Webhook);
+    const webhook = await webhookRepository.findOne(req.params.webhookId);
+    if (!webhook) throw new BadRequestError('invalid_webhook');
+
+    const delivery = await createWebhookDelivery(webhook, 'ping', {
+      webhook: { id: webhook.id, name: webhook.name },
+    });
+    res.send(delivery);
+  })
+);
+
+app.post(
+  '/webhooks/deliveries/:deliveryId/redeliver',
+  authMiddleware(['all']),
+  asyncMiddleware(async (req, res) => {
+    const deliveryRepository = getEnhancedRepository(WebhookDelivery);
+    const delivery = await deliveryRepository.findOne({
+      relations: ['webhook'],
+      where: {
+        id: req.params.deliveryId,
+      },
+    });
+    if (!delivery) throw new BadRequestError('invalid_delivery');
+    if (
+      delivery.status === IWebhookDeliveryStatus.PENDING ||
+      delivery.status === IWebhookDeliveryStatus.RETRYING
+    ) {
+      throw new BadRequestError('delivery_in_progress');
+    }
+
+    const redelivery = await createWebhookDelivery(delivery.webhook, delivery.event, delivery.payload?.data);
+    res.send(redelivery);
+  })
+);
+
+export default app;
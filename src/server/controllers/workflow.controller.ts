@@ -0,0 +1,134 @@
+import express from 'express';
+import * as yup from 'yup';
+import { getManager, getRepository } from 'typeorm';
+import _ from 'lodash';
+import authMiddleware from '@server/middleware/auth.middleware';
+import asyncMiddleware from '@server/middleware/async.middleware';
+import BadRequestError from '@server/errors/bad-request-error';
+import Post from '@server/models/post.model';
+import PostComment from '@server/models/post-comment.model';
+import { mapUser } from '@server/common/mappers';
+import {
+  getAvailableTransitions,
+  getWorkflowSettings,
+  transitionPost,
+} from '@server/business-logic/workflow.bl';
+import { assertContentPermission } from '@server/business-logic/content-permission.bl';
+import { getWorkflowState } from '@shared/features/workflow';
+
+const app = express();
+
+const mapComment = (comment: PostComment) => ({
+  ..._.omit(comment, 'post'),
+  author: mapUser(comment?.author),
+});
+
+const findPost = async (postId: string) => {
+  const post = await getRepository(Post).findOne({
+    relations: ['contentType'],
+    where: {
+      id: postId,
+    },
+  });
+  if (!post) throw new BadRequestError('invalid_post');
+  return post;
+};
+
+app.get(
+  '/posts/:postId/workflow',
+  authMiddleware(['sites_list']),
+  asyncMiddleware(async (req, res) => {
+    const post = await findPost(req.params.postId);
+    await assertContentPermission(req?.data?.user, 'list', [post]);
+    const settings = await getWorkflowSettings();
+
+    res.send({
+      enabled: settings.enabled,
+      state: getWorkflowState(settings, post.workflowState),
+      states: settings.states,
+      transitions: settings.enabled
+        ? await getAvailableTransitions(settings, post, req?.data?.user)
+        : [],
+    });
+  })
+);
+
+app.post(
+  '/posts/:postId/workflow',
+  authMiddleware(['sites_update']),
+  asyncMiddleware(async (req, res) => {
+    await req.validate(
+      {
+        transition: yup.string().required(),
+        comment: yup.string().max(4096),
+      },
+      'body'
+    );
+
+    const entityManager = getManager();
+    let comment: PostComment;
+    await entityManager.transaction(async (transactionManager) => {
+      const post = await transactionManager.getRepository(Post).findOne({
+        relations: ['contentType'],
+        where: {
+          id: req.params.postId,
+        },
+      });
+      if (!post) throw new BadRequestError('invalid_post');
+      await assertContentPermission(req?.data?.user, 'update', [post]);
+
+      comment = await transitionPost({
+        entityManager: transactionManager,
+        post,
+        transitionId: req.body.transition,
+        user: req?.data?.user,
+        comment: req.body.comment,
+      });
+    });
+
+    res.send(mapComment(comment));
+  })
+);
+
+app.get(
+  '/posts/:postId/comments',
+  authMiddleware(['sites_list']),
+  asyncMiddleware(async (req, res) => {
+    const post = await findPost(req.params.postId);
+    await assertContentPermission(req?.data?.user, 'list', [post]);
+    const comments = await getRepository(PostComment).find({
+      relations: ['author', 'author.meta'],
+      where: {
+        postId: post.id,
+      },
+      order: {
+        createdAt: 'DESC',
+      },
+    });
+    res.send(comments.map(mapComment));
+  })
+);
+
+app.post(
+  '/posts/:postId/comments',
+  authMiddleware(['sites_update']),
+  asyncMiddleware(async (req, res) => {
+    await req.validate(
+      {
+        comment: yup.string().max(4096).required(),
+      },
+      'body'
+    );
+
+    const post = await findPost(req.params.postId);
+    await assertContentPermission(req?.data?.user, 'update', [post]);
+    const comment = await getRepository(PostComment).save({
+      post,
+      author: req?.data?.user,
+      comment: req.body.comment,
+    });
+    res.send(mapComment(comment));
+  })
+);
+
+export default app;
@@ -0,0 +1,62 @@
+import { Brackets, EntityManager } from 'typeorm';
+import { ISearchDriver, ISearchHit, ISearchQuery } from '@server/drivers/search.driver';
+import SearchIndex from '@server/models/search-index.model';
+
+const countOccurrences = (text: string, term: string) => {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index > -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+};
+
+/**
+ * Fallback for databases without a supported full-text engine. Candidates are narrowed down with
+ * `LIKE` and ranked in process by term frequency, normalized by the length of the document.
+ */
+export default class MemorySearchDriver implements ISearchDriver {
+  private provider = 'memory';
+  private titleWeight = 4;
+  private candidatesLimit = 5000;
+
+  getName = () => this.provider;
+
+  search = async (entityManager: EntityManager, { terms, locales, limit }: ISearchQuery) => {
+    const qb = entityManager
+      .getRepository(SearchIndex)
+      .createQueryBuilder('si')
+      .where('si.locale IN (:...locales)', { locales });
+
+    terms.forEach((term, index) => {
+      qb.andWhere(
+        new Brackets((subQb) => {
+          subQb
+            .where(`LOWER(si.title) LIKE :term${index}`, { [`term${index}`]: `%${term}%` })
+            .orWhere(`LOWER(si.content) LIKE :term${index}`);
+        })
+      );
+    });
+
+    const candidates = await qb.take(this.candidatesLimit).getMany();
+
+    return candidates
+      .map((candidate): ISearchHit => {
+        const title = (candidate.title || '').toLowerCase();
+        const content = (candidate.content || '').toLowerCase();
+        const frequency = terms.reduce(
+          (sum, term) =>
+            sum + countOccurrences(title, term) * this.titleWeight + countOccurrences(content, term),
+          0
+        );
+        return {
+          postId: candidate.postId,
+          locale: candidate.locale,
+          rank: frequency / Math.log(2 + content.length),
+        };
+      })
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  };
+}
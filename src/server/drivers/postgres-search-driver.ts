@@ -0,0 +1,50 @@
+import { Connection, EntityManager } from 'typeorm';
+import { ISearchDriver, ISearchHit, ISearchQuery } from '@server/drivers/search.driver';
+import SearchIndex from '@server/models/search-index.model';
+
+/**
+ * Ranks with `tsvector` computed from `search_index`, the expression is indexed with GIN so it does
+ * not have to be stored in a separate column.
+ */
+export default class PostgresSearchDriver implements ISearchDriver {
+  private provider = 'postgres';
+  private language = (process.env.SEARCH_LANGUAGE || 'simple').replace(/[^a-z_]/gi, '');
+
+  getName = () => this.provider;
+
+  private getVector = (alias?: string) => {
+    const column = (name: string) => `coalesce(${alias ? `${alias}.` : ''}"${name}", '')`;
+    const weighted = (name: string, weight: string) =>
+      `setweight(to_tsvector('${this.language}', ${column(name)}), '${weight}')`;
+    return `(${weighted('title', 'A')} || ${weighted('content', 'B')})`;
+  };
+
+  init = async (connection: Connection) => {
+    await connection.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_search_index_tsvector" ON "search_index" USING GIN (${this.getVector()})`
+    );
+  };
+
+  search = async (entityManager: EntityManager, { terms, locales, limit }: ISearchQuery) => {
+    const query = terms.map((term) => `${term.replace(/[^\p{L}\p{N}_-]/gu, '')}:*`).join(' & ');
+    const rows = await entityManager
+      .getRepository(SearchIndex)
+      .createQueryBuilder('si')
+      .select('si.postId', 'postId')
+      .addSelect('si.locale', 'locale')
+      .addSelect(`ts_rank(${this.getVector('si')}, to_tsquery('${this.language}', :query))`, 'rank')
+      .where(`${this.getVector('si')} @@ to_tsquery('${this.language}', :query)`, { query })
+      .andWhere('si.locale IN (:...locales)', { locales })
+      .orderBy('rank', 'DESC')
+      .limit(limit)
+      .getRawMany();
+
+    return rows.map(
+      (row): ISearchHit => ({
+        postId: Number(row.postId),
+        locale: row.locale,
+        rank: Number(row.rank),
+      })
+    );
+  };
+}
@@ -0,0 +1,60 @@
+import { Connection, EntityManager } from 'typeorm';
+import { getDatabaseType } from '@scripts/util/database.util';
+import SqliteSearchDriver from '@server/drivers/sqlite-search-driver';
+import PostgresSearchDriver from '@server/drivers/postgres-search-driver';
+import MemorySearchDriver from '@server/drivers/memory-search-driver';
+
+export interface ISearchQuery {
+  terms: string[];
+  locales: string[];
+  limit: number;
+}
+
+export interface ISearchHit {
+  postId: number;
+  locale: string;
+  rank: number;
+}
+
+export interface ISearchDriver {
+  getName: () => string;
+
+  // Drivers which need no setup leave it out
+  init?: (connection: Connection) => Promise<any>;
+  search: (entityManager: EntityManager, query: ISearchQuery) => Promise<ISearchHit[]>;
+}
+
+export default class SearchDriver implements ISearchDriver {
+  private static instance: ISearchDriver;
+
+  private implementation: ISearchDriver;
+
+  constructor() {
+    const driver =
+      process.env.SEARCH_DRIVER || getDatabaseType(process.env.TYPEORM_CONNECTION);
+    switch (driver) {
+      case 'better-sqlite3':
+      case 'sqlite':
+        this.implementation = new SqliteSearchDriver();
+        break;
+      case 'postgres':
+        this.implementation = new PostgresSearchDriver();
+        break;
+      default:
+        this.implementation = new MemorySearchDriver();
+        break;
+    }
+  }
+
+  public static getInstance(): ISearchDriver {
+    if (!SearchDriver.instance) {
+      SearchDriver.instance = new SearchDriver();
+    }
+    return SearchDriver.instance;
+  }
+
+  getName = () => this.implementation.getName();
+  init = async (connection: Connection) => this.implementation.init?.(connection);
+  search = (entityManager: EntityManager, query: ISearchQuery) =>
+    this.implementation.search(entityManager, query);
+}
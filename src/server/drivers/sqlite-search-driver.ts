@@ -0,0 +1,63 @@
+import { Connection, EntityManager } from 'typeorm';
+import { ISearchDriver, ISearchHit, ISearchQuery } from '@server/drivers/search.driver';
+
+/**
+ * FTS5 external content table over `search_index`, kept in sync by triggers so cascaded deletes are
+ * covered as well.
+ */
+export default class SqliteSearchDriver implements ISearchDriver {
+  private provider = 'sqlite';
+  private table = 'search_index_fts';
+
+  getName = () => this.provider;
+
+  init = async (connection: Connection) => {
+    await connection.query(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${this.table}
+        USING fts5(title, content, content='search_index', content_rowid='id')`
+    );
+    await connection.query(
+      `CREATE TRIGGER IF NOT EXISTS ${this.table}_ai AFTER INSERT ON search_index BEGIN
+        INSERT INTO ${this.table}(rowid, title, content) VALUES (new.id, new.title, new.content);
+      END`
+    );
+    await connection.query(
+      `CREATE TRIGGER IF NOT EXISTS ${this.table}_ad AFTER DELETE ON search_index BEGIN
+        INSERT INTO ${this.table}(${this.table}, rowid, title, content)
+          VALUES ('delete', old.id, old.title, old.content);
+      END`
+    );
+    await connection.query(
+      `CREATE TRIGGER IF NOT EXISTS ${this.table}_au AFTER UPDATE ON search_index BEGIN
+        INSERT INTO ${this.table}(${this.table}, rowid, title, content)
+          VALUES ('delete', old.id, old.title, old.content);
+        INSERT INTO ${this.table}(rowid, title, content) VALUES (new.id, new.title, new.content);
+      END`
+    );
+    // Schema synchronization may recreate `search_index` together with its triggers, rows written in
+    // between are picked up by a rebuild
+    await connection.query(`INSERT INTO ${this.table}(${this.table}) VALUES ('rebuild')`);
+  };
+
+  search = async (entityManager: EntityManager, { terms, locales, limit }: ISearchQuery) => {
+    const match = terms.map((term) => `"${term.replace(/"/g, '""')}"*`).join(' ');
+    const rows = await entityManager.query(
+      `SELECT si.postId AS postId, si.locale AS locale, bm25(${this.table}, 4.0, 1.0) AS rank
+        FROM ${this.table}
+        INNER JOIN search_index si ON si.id = ${this.table}.rowid
+        WHERE ${this.table} MATCH ? AND si.locale IN (${locales.map(() => '?').join(', ')})
+        ORDER BY rank
+        LIMIT ?`,
+      [match, ...locales, limit]
+    );
+
+    // bm25 scores better matches lower
+    return rows.map(
+      (row): ISearchHit => ({
+        postId: Number(row.postId),
+        locale: row.locale,
+        rank: -Number(row.rank),
+      })
+    );
+  };
+}
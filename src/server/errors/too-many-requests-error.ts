@@ -0,0 +1,5 @@
+import BaseError from '@server/errors/base-error';
+
+export default class TooManyRequestsError extends BaseError {
+  protected status = 429;
+}
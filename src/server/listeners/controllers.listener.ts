@@ -13,26 +13,28 @@ import tagController from '@server/controllers/tag.controller';
 import publicController from '@server/controllers/public.controller';
 import backupController from '@server/controllers/backup.controller';
 import accessTokenController from '@server/controllers/access-token.controller';
+import personalAccessTokenController from '@server/controllers/personal-access-token.controller';
 import searchController from '@server/controllers/search.controller';
+import graphqlController from '@server/controllers/graphql.controller';
+import webhookController from '@server/controllers/webhook.controller';
+import workflowController from '@server/controllers/workflow.controller';
+import oidcController from '@server/controllers/oidc.controller';
+import auditLogController from '@server/controllers/audit-log.controller';
+import auditMiddleware from '@server/middleware/audit.middleware';
+import { corsMiddleware } from '@server/middleware/security.middleware';
 
 Hooks.addAction(
   'api/init',
   async (app: Express) => {
-    app.use((req, res, next) => {
-      const origin = req.get('origin');
-      res.header('Access-Control-Allow-Origin', origin || '*');
-      res.header('Access-Control-Allow-Headers', 'content-type, auth-token');
-      res.header('Access-Control-Expose-Headers', 'content-type, auth-token');
-      res.header('Access-Control-Allow-Credentials', 'true');
-      res.header('Access-Control-Allow-Methods', 'GET,PUT,POST,DELETE,PATCH');
-      next();
-    });
+    app.use(corsMiddleware());
 
     app.use(cookieParser(process.env.SIGNED_COOKIE));
 
     app.use(express.json({ limit: process.env.REQ_LIMIT }));
     app.use(express.urlencoded({ limit: process.env.REQ_LIMIT, extended: true }));
 
+    app.use(auditMiddleware());
+
     app.use(publicController);
     app.use(contentTypeController);
     app.use(assetController);
@@ -40,12 +42,18 @@ Hooks.addAction(
     app.use(permissionController);
     app.use(serverController);
     app.use(userController);
+    app.use(oidcController);
     app.use(groupController);
     app.use(settingsController);
     app.use(tagController);
     app.use(backupController);
     app.use(accessTokenController);
+    app.use(personalAccessTokenController);
     app.use(searchController);
+    app.use(graphqlController);
+    app.use(webhookController);
+    app.use(workflowController);
+    app.use(auditLogController);
   },
   { id: 'core/controllers' }
 );
@@ -2,6 +2,10 @@ import Hooks from '@shared/features/hooks';
 import SiteSettings from '@server/models/site-settings.model';
 import Group from '@server/models/group.model';
 import { getEnhancedRepository } from '@server/common/orm-helpers';
+import logger from '@shared/features/logger';
+import { hashLegacyAccessTokens } from '@server/business-logic/access-token.bl';
+import { clearSecuritySettingsCache } from '@server/business-logic/security.bl';
+import { SECURITY_SETTINGS_KEY } from '@shared/features/security';
 
 Hooks.addAction(
   'core/init',
@@ -45,3 +49,27 @@ Hooks.addAction(
   },
   { id: 'core/firstInit.createGroups' }
 );
+
+Hooks.addAction(
+  'db/init',
+  async () => {
+    try {
+      await hashLegacyAccessTokens();
+    } catch (e) {
+      logger.error({
+        type: 'access-token',
+        message: 'Unable to hash legacy access tokens',
+        data: e.toString(),
+      });
+    }
+  },
+  { id: 'core/db.hashAccessTokens' }
+);
+
+Hooks.addAction(
+  'settings/postUpdate',
+  async (settings: SiteSettings) => {
+    if (settings?.key === SECURITY_SETTINGS_KEY) clearSecuritySettingsCache();
+  },
+  { id: 'core/settings.clearSecurityCache' }
+);
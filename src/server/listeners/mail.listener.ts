@@ -0,0 +1,43 @@
+import Hooks from '@shared/features/hooks';
+import logger from '@shared/features/logger';
+
+Hooks.addFilter(
+  'mail/options',
+  async (options) => {
+    if (options) return options;
+
+    switch (process.env.MAIL_TRANSPORT) {
+      case 'json':
+        // Messages are not delivered, only logged, useful for local development
+        return { jsonTransport: true } as any;
+      case 'smtp':
+        return {
+          host: process.env.MAIL_HOST,
+          port: Number(process.env.MAIL_PORT),
+          secure: process.env.MAIL_SECURE === 'true',
+          auth: process.env.MAIL_USER
+            ? {
+              user: process.env.MAIL_USER,
+              pass: process.env.MAIL_PASSWORD,
+            }
+            : undefined,
+        };
+      default:
+        return options;
+    }
+  },
+  { id: 'core/mail.transport' }
+);
+
+Hooks.addAction(
+  'mail/dispatched',
+  async (result) => {
+    if (process.env.MAIL_TRANSPORT !== 'json') return;
+    logger.info({
+      type: 'mail',
+      message: 'Email dispatched',
+      data: result?.message,
+    });
+  },
+  { id: 'core/mail.logJson' }
+);
@@ -1,10 +1,15 @@
 import Hooks from "@shared/features/hooks";
 import Asset from "@server/models/asset.model";
 import AssetMeta from "@server/models/asset-meta.model";
+import AuditLog from '@server/models/audit-log.model';
 import ContentType from "@server/models/content-type.model";
 import Group from "@server/models/group.model";
+import LoginAttempt from '@server/models/login-attempt.model';
+import PersonalAccessToken from '@server/models/personal-access-token.model';
 import Post from "@server/models/post.model";
 import PostMeta from "@server/models/post-meta.model";
+import PostComment from '@server/models/post-comment.model';
+import SearchIndex from '@server/models/search-index.model';
 import SiteSettings from "@server/models/site-settings.model";
 import Tag from "@server/models/tag.model";
 import TagMeta from "@server/models/tag-meta.model";
@@ -14,17 +19,24 @@ import UserSession from "@server/models/user-session.model";
 import UserToken from "@server/models/user-token.model";
 import Backup from "@server/models/backup.model";
 import AccessToken from '@server/models/access-token';
+import Webhook from '@server/models/webhook.model';
+import WebhookDelivery from '@server/models/webhook-delivery.model';
 
 Hooks.addFilter('db/models', async (args) => {
   return [
     AccessToken,
     Asset,
     AssetMeta,
+    AuditLog,
     Backup,
     ContentType,
     Group,
+    LoginAttempt,
+    PersonalAccessToken,
     Post,
     PostMeta,
+    PostComment,
+    SearchIndex,
     SiteSettings,
     Tag,
     TagMeta,
@@ -32,6 +44,8 @@ Hooks.addFilter('db/models', async (args) => {
     UserMeta,
     UserSession,
     UserToken,
+    Webhook,
+    WebhookDelivery,
     ...args
   ];
 });
@@ -0,0 +1,41 @@
+import Hooks from '@shared/features/hooks';
+import { startPostScheduler } from '@server/business-logic/post-scheduler.bl';
+import { startSessionCleanup } from '@server/business-logic/user-session.bl';
+import { startAuditCleanup } from '@server/business-logic/audit-log.bl';
+import { startWebhookDeliveryCleanup } from '@server/business-logic/webhooks.bl';
+
+Hooks.addAction(
+  'server/init',
+  async () => {
+    if (process.env.POST_SCHEDULER === 'false') return;
+    startPostScheduler();
+  },
+  { id: 'core/scheduler.start' }
+);
+
+Hooks.addAction(
+  'server/init',
+  async () => {
+    if (process.env.SESSION_CLEANUP === 'false') return;
+    startSessionCleanup();
+  },
+  { id: 'core/scheduler.sessionCleanup' }
+);
+
+Hooks.addAction(
+  'server/init',
+  async () => {
+    if (process.env.AUDIT_CLEANUP === 'false') return;
+    startAuditCleanup();
+  },
+  { id: 'core/scheduler.auditCleanup' }
+);
+
+Hooks.addAction(
+  'server/init',
+  async () => {
+    if (process.env.WEBHOOK_CLEANUP === 'false') return;
+    startWebhookDeliveryCleanup();
+  },
+  { id: 'core/scheduler.webhookCleanup' }
+);
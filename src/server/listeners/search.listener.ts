@@ -0,0 +1,67 @@
+import { getManager } from 'typeorm';
+import Hooks from '@shared/features/hooks';
+import logger from '@shared/features/logger';
+import SearchDriver from '@server/drivers/search.driver';
+import SearchIndex from '@server/models/search-index.model';
+import {
+  indexPosts,
+  rebuildSearchIndex,
+  removeFromSearchIndex,
+} from '@server/business-logic/search.bl';
+
+const safely = (message: string, fn: () => Promise<any>) => async () => {
+  try {
+    await fn();
+  } catch (err) {
+    logger.error({
+      type: 'search',
+      message,
+      data: err.toString(),
+    });
+  }
+};
+
+Hooks.addAction(
+  'db/init',
+  async (connection) => {
+    await safely('Unable to initialize search index', () =>
+      SearchDriver.getInstance().init(connection)
+    )();
+  },
+  { id: 'core/search.init' }
+);
+
+Hooks.addAction(
+  'server/init',
+  async () => {
+    await safely('Unable to build search index', async () => {
+      const count = await getManager().getRepository(SearchIndex).count();
+      if (count === 0) {
+        await rebuildSearchIndex();
+      }
+    })();
+  },
+  { id: 'core/search.build' }
+);
+
+const reindex = async (posts) => {
+  await safely('Unable to update search index', () =>
+    indexPosts((Array.isArray(posts) ? posts : [posts]).map((post) => post?.id))
+  )();
+};
+
+Hooks.addAction('post/postCreate', reindex, { id: 'core/search' });
+Hooks.addAction('post/postUpdate', reindex, { id: 'core/search' });
+Hooks.addAction('post/postContentUpdate', reindex, { id: 'core/search' });
+Hooks.addAction('post/postPublish', reindex, { id: 'core/search' });
+Hooks.addAction('post/postSchedule', reindex, { id: 'core/search' });
+
+Hooks.addAction(
+  'post/postDelete',
+  async (posts) => {
+    await safely('Unable to update search index', () =>
+      removeFromSearchIndex(posts.map((post) => post?.id))
+    )();
+  },
+  { id: 'core/search' }
+);
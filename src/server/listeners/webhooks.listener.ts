@@ -0,0 +1,125 @@
+import Hooks from '@shared/features/hooks';
+import { resumeWebhookDeliveries, triggerWebhooks } from '@server/business-logic/webhooks.bl';
+import { mapPublicAsset } from '@server/common/mappers';
+
+const mapWebhookPost = (post) => ({
+  id: post?.id,
+  name: post?.name,
+  slug: post?.slug,
+  slugPath: post?.slugPath,
+  type: post?.type,
+  status: post?.status,
+  publishedAt: post?.publishedAt,
+  publishedFrom: post?.publishedFrom,
+  publishedUntil: post?.publishedUntil,
+  contentType: post?.contentType?.name,
+});
+
+const mapWebhookContentType = (contentType) => ({
+  id: contentType?.id,
+  name: contentType?.name,
+  type: contentType?.type,
+});
+
+Hooks.addAction(
+  'server/init',
+  async () => {
+    await resumeWebhookDeliveries();
+  },
+  { id: 'core/webhooks.resume' }
+);
+
+Hooks.addAction(
+  'post/postPublish',
+  async (posts) => {
+    await triggerWebhooks('post.published', { posts: posts.map(mapWebhookPost) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'post/postUnpublish',
+  async (posts) => {
+    await triggerWebhooks('post.unpublished', { posts: posts.map(mapWebhookPost) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'post/postSchedule',
+  async (posts) => {
+    await triggerWebhooks('post.scheduled', { posts: posts.map(mapWebhookPost) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'post/postExpire',
+  async (posts) => {
+    await triggerWebhooks('post.expired', { posts: posts.map(mapWebhookPost) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'post/postContentUpdate',
+  async (post) => {
+    await triggerWebhooks('post.updated', { post: mapWebhookPost(post) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'post/postDelete',
+  async (posts) => {
+    await triggerWebhooks('post.deleted', { posts: posts.map(mapWebhookPost) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'asset/postUpload',
+  async (asset) => {
+    await triggerWebhooks('asset.uploaded', { asset: mapPublicAsset(asset) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'asset/postDelete',
+  async (assets) => {
+    await triggerWebhooks('asset.deleted', {
+      assets: assets.map((asset) => ({
+        id: asset?.id,
+        name: asset?.name,
+        npath: asset?.npath,
+        mimeType: asset?.mimeType,
+      })),
+    });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'contentType/postCreate',
+  async (contentType) => {
+    await triggerWebhooks('contentType.created', { contentType: mapWebhookContentType(contentType) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'contentType/postUpdate',
+  async (contentType) => {
+    await triggerWebhooks('contentType.updated', { contentType: mapWebhookContentType(contentType) });
+  },
+  { id: 'core/webhooks' }
+);
+
+Hooks.addAction(
+  'contentType/postDelete',
+  async (contentTypes) => {
+    await triggerWebhooks('contentType.deleted', { contentTypes: contentTypes.map(mapWebhookContentType) });
+  },
+  { id: 'core/webhooks' }
+);
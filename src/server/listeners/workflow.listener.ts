@@ -0,0 +1,24 @@
+import Hooks from '@shared/features/hooks';
+import { getWorkflowSettings } from '@server/business-logic/workflow.bl';
+import { getTransitionPermission } from '@shared/features/workflow';
+
+Hooks.addFilter(
+  'permissions/getAll',
+  async (permissions) => {
+    const { transitions } = await getWorkflowSettings();
+    if (!(transitions?.length > 0)) return permissions;
+
+    return [
+      ...permissions,
+      {
+        id: 'workflow',
+        name: 'Workflow',
+        children: transitions.map((transition) => ({
+          id: getTransitionPermission(transition),
+          name: transition.name,
+        })),
+      },
+    ];
+  },
+  { id: 'core/workflow.permissions' }
+);
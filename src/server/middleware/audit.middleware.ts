@@ -0,0 +1,52 @@
+import express from 'express';
+import logger from '@shared/features/logger';
+import { hasAuthCredentials } from '@server/middleware/auth.middleware';
+import { createAuditContext, IAuditContext, recordAuditLog } from '@server/business-logic/audit-log.bl';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const logError = (message: string) => (err: any) => {
+  logger.error({
+    type: 'audit',
+    message,
+    data: err?.toString(),
+  });
+};
+
+/**
+ * Records mutations of audited resources once the response is sent, actors are known only after
+ * the route authenticated the request.
+ */
+const auditMiddleware =
+  () =>
+  async (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    if (!MUTATING_METHODS.includes(req.method) || !hasAuthCredentials(req)) return next();
+
+    let context: IAuditContext;
+    try {
+      context = await createAuditContext(req);
+    } catch (err) {
+      logError('error creating audit context')(err);
+    }
+    if (!context) return next();
+
+    let responseBody: any;
+    const { send } = res;
+    res.send = (body?: any) => {
+      // Objects are sent again serialized by `res.json`
+      if (responseBody === undefined) responseBody = body;
+      return send.call(res, body);
+    };
+
+    res.on('finish', () => {
+      recordAuditLog(req, res, context, responseBody).catch(logError('error recording audit log'));
+    });
+
+    return next();
+  };
+
+export default auditMiddleware;
@@ -6,11 +6,66 @@ import _ from 'lodash';
 import Hooks from '@shared/features/hooks';
 import express from 'express';
 import ForbiddenError from '@server/errors/forbidden-error';
+import { isSessionExpired, touchUserSession } from '@server/business-logic/user-session.bl';
+import { findValidPersonalAccessToken } from '@server/business-logic/personal-access-token.bl';
 
 export const extractAuthToken = (req: express.Request): string | undefined => {
   return req?.cookies?.token as string;
 }
 
+export const extractBearerToken = (req: express.Request): string | undefined => {
+  const [scheme, token] = `${req?.get?.('authorization') ?? ''}`.trim().split(/\s+/);
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+}
+
+export const hasAuthCredentials = (req: express.Request) =>
+  !!extractAuthToken(req) || !!extractBearerToken(req);
+
+/**
+ * Resolves the user and session of the auth cookie, throws when the session is invalid or expired.
+ * Requests with a personal access token in the `Authorization: Bearer` header act as its user instead.
+ */
+export const authenticateRequest = async (req: express.Request) => {
+  const entityManager = getManager();
+
+  const bearerToken = extractBearerToken(req);
+  if (bearerToken) {
+    const personalAccessToken = await findValidPersonalAccessToken(bearerToken, entityManager);
+    return { user: personalAccessToken.user, personalAccessToken };
+  }
+
+  const token = extractAuthToken(req);
+  const decoded = verify(token);
+
+  let user = await Hooks.applyFilters('auth/getUser', null, req);
+
+  if (!user) {
+    user = await entityManager
+    .getRepository(User)
+    .createQueryBuilder('user')
+    .innerJoinAndSelect('user.sessions', 'sessions')
+    .leftJoinAndSelect('user.meta', 'meta')
+    .leftJoinAndSelect('user.groups', 'groups')
+    .where('sessions.id = :sessionId AND user.id = :userId', {
+      sessionId: decoded.sessionId,
+      userId: decoded.userId,
+    })
+    .getOne();
+  }
+
+  if (!user) throw new Error();
+
+  const session = user.sessions?.find(
+    (item) => item.id === decoded.sessionId
+  );
+  if (session) {
+    if (isSessionExpired(session)) throw new Error();
+    await touchUserSession(session, req, entityManager);
+  }
+
+  return { user, session, personalAccessToken: undefined };
+};
+
 const authMiddleware =
   (permissions: string[] = []) =>
   async (
@@ -19,28 +74,7 @@ const authMiddleware =
     next: express.NextFunction
   ) => {
     try {
-      const token = extractAuthToken(req);
-      const decoded = verify(token);
-
-      const entityManager = getManager();
-
-      let user = await Hooks.applyFilters('auth/getUser', null, req);
-
-      if (!user) {
-        user = await entityManager
-        .getRepository(User)
-        .createQueryBuilder('user')
-        .innerJoinAndSelect('user.sessions', 'sessions')
-        .leftJoinAndSelect('user.meta', 'meta')
-        .leftJoinAndSelect('user.groups', 'groups')
-        .where('sessions.id = :sessionId AND user.id = :userId', {
-          sessionId: decoded.sessionId,
-          userId: decoded.userId,
-        })
-        .getOne();
-      }
-
-      if (!user) throw new Error();
+      const { user, session, personalAccessToken } = await authenticateRequest(req);
 
       const userPermissions = await Hooks.applyFilters(
         'auth/permissions',
@@ -63,9 +97,8 @@ const authMiddleware =
 
       req.data = {
         user,
-        session: user.sessions.find(
-          (session) => session.id === decoded.sessionId
-        ),
+        session,
+        personalAccessToken,
       };
 
       return next();
@@ -4,24 +4,35 @@ import express from 'express';
 import ForbiddenError from '@server/errors/forbidden-error';
 import AccessToken from '@server/models/access-token';
 import SiteSettings from '@server/models/site-settings.model';
+import {
+  AccessTokenScope,
+  assertAccessTokenScope,
+  findValidAccessToken,
+} from '@server/business-logic/access-token.bl';
+import {
+  authenticateRequest,
+  hasAuthCredentials,
+} from '@server/middleware/auth.middleware';
 
 type IContentMiddlewareOptions = {
   alwaysAuthorize?: boolean;
+  scope?: AccessTokenScope;
+  // Requests of logged in users without a content token are authorized by their session
+  allowUser?: boolean;
 };
 
 export const verifyContentToken = async ({
   token,
   entityManager,
+  scopes,
 }: {
   token: string;
   entityManager: EntityManager;
-}): Promise<void> => {
-  const accessToken = await entityManager.getRepository(AccessToken).findOne({
-    where: {
-      token,
-    },
-  });
-  if (!accessToken) throw new UnauthorizedError('unauthorized');
+  scopes?: AccessTokenScope[];
+}): Promise<AccessToken> => {
+  const accessToken = await findValidAccessToken(token, entityManager);
+  (scopes || []).forEach((scope) => assertAccessTokenScope(accessToken, scope));
+  return accessToken;
 };
 
 export const extractContentToken = (req: express.Request): string | undefined => {
@@ -38,10 +49,24 @@ const contentMiddleware =
     try {
       const entityManager = getManager();
       const token = extractContentToken(req);
+      const scopes = options?.scope ? [options.scope] : [];
+      if (options?.allowUser && !token && hasAuthCredentials(req)) {
+        const { user, session, personalAccessToken } = await authenticateRequest(req);
+        req.data = {
+          ...(req.data || {}),
+          user,
+          session,
+          personalAccessToken,
+        };
+        return next();
+      }
+
+      let accessToken: AccessToken;
       if (options?.alwaysAuthorize) {
-        await verifyContentToken({
+        accessToken = await verifyContentToken({
           token,
           entityManager,
+          scopes,
         });
       } else {
         const apiAccess = await entityManager
@@ -52,11 +77,16 @@ const contentMiddleware =
             },
           });
         if (apiAccess?.value === 'private')
-          await verifyContentToken({
+          accessToken = await verifyContentToken({
             token,
             entityManager,
+            scopes,
           });
       }
+      req.data = {
+        ...(req.data || {}),
+        accessToken,
+      };
       return next();
     } catch (error) {
       if (error instanceof ForbiddenError) {
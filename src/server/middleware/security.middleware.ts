@@ -0,0 +1,75 @@
+import express from 'express';
+import Hooks from '@shared/features/hooks';
+import { getBurdyHost } from '@server/common/host';
+import {
+  getAdminContentSecurityPolicy,
+  getApiContentSecurityPolicy,
+  getApiSurface,
+  getCorsHeaders,
+  getSecurityPolicy,
+  getStrictTransportSecurity,
+} from '@server/business-logic/security.bl';
+
+const isEnabled = () => process.env.SECURITY_HEADERS !== 'false';
+
+/**
+ * Answers preflight requests, paths are relative to the API.
+ */
+export const corsMiddleware =
+  () =>
+  async (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    try {
+      const policy = await getSecurityPolicy();
+      const headers = await Hooks.applyFilters(
+        'security/corsHeaders',
+        getCorsHeaders(req.get('origin'), getApiSurface(req.path), policy),
+        req
+      );
+      res.set(headers);
+
+      if (req.method === 'OPTIONS') return res.sendStatus(204);
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+
+/**
+ * Sets CSP, HSTS and related headers on the admin and the API.
+ */
+export const securityHeadersMiddleware =
+  () =>
+  async (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    if (!isEnabled()) return next();
+
+    try {
+      const policy = await getSecurityPolicy();
+      const headers: Record<string, string> = {
+        'X-Content-Type-Options': 'nosniff',
+        'Referrer-Policy': 'strict-origin-when-cross-origin',
+      };
+
+      const hsts = getStrictTransportSecurity(req.secure || getBurdyHost().startsWith('https:'));
+      if (hsts) headers['Strict-Transport-Security'] = hsts;
+
+      if (req.path === '/admin' || req.path.startsWith('/admin/')) {
+        headers['Content-Security-Policy'] = getAdminContentSecurityPolicy(policy);
+        headers['X-Frame-Options'] = 'SAMEORIGIN';
+      } else if (req.path === '/api' || req.path.startsWith('/api/')) {
+        headers['Content-Security-Policy'] = getApiContentSecurityPolicy(policy);
+      }
+
+      res.set(await Hooks.applyFilters('security/headers', headers, req));
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
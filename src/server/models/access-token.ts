@@ -5,20 +5,33 @@ import {
   Index,
   PrimaryGeneratedColumn, UpdateDateColumn
 } from 'typeorm';
-import { IAccessToken } from '@shared/interfaces/model';
+import { IAccessToken, IAccessTokenScopes } from '@shared/interfaces/model';
 
 @Entity()
 export default class AccessToken extends BaseEntity implements IAccessToken {
   @PrimaryGeneratedColumn('increment')
   id: number;
 
-  @Column()
+  // SHA-256 of the token, plain tokens are only returned once when generated or rotated
+  @Column({ select: false })
   @Index()
   token: string;
 
+  @Column({ nullable: true })
+  tokenPreview?: string;
+
   @Column({type: 'text', nullable: true})
   name: any;
 
+  @Column({ type: 'simple-json', nullable: true })
+  scopes?: IAccessTokenScopes;
+
+  @Column({ nullable: true })
+  expiresAt?: Date;
+
+  @Column({ nullable: true })
+  lastUsedAt?: Date;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,59 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { AuditAction, IAuditLog } from '@shared/interfaces/model';
+import User from '@server/models/user.model';
+
+@Entity()
+export default class AuditLog extends BaseEntity implements IAuditLog {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'varchar', length: 32 })
+  @Index()
+  action: AuditAction;
+
+  // Method and path with ids replaced, e.g. `PUT /posts/:id/content`
+  @Column()
+  route: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  @Index()
+  targetType: string;
+
+  @Column({ type: 'simple-array', nullable: true })
+  targetIds?: string[];
+
+  @Column({ type: 'simple-json', nullable: true })
+  before?: any;
+
+  @Column({ type: 'simple-json', nullable: true })
+  after?: any;
+
+  @ManyToOne(() => User, {
+    onDelete: 'SET NULL',
+    nullable: true,
+  })
+  actor?: User;
+
+  // Kept after the actor is deleted
+  @Column({ nullable: true })
+  @Index()
+  actorEmail?: string;
+
+  @Column({ nullable: true })
+  ip?: string;
+
+  @Column({ nullable: true })
+  statusCode?: number;
+
+  @CreateDateColumn()
+  @Index()
+  createdAt: Date;
+}
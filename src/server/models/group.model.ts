@@ -6,7 +6,7 @@ import {
   ManyToMany,
   PrimaryGeneratedColumn,
 } from 'typeorm';
-import { IGroup, IUser } from '@shared/interfaces/model';
+import { IGroup, IGroupContentScopes, IUser } from '@shared/interfaces/model';
 import User from '@server/models/user.model';
 
 @Entity()
@@ -29,4 +29,11 @@ export default class Group extends BaseEntity implements IGroup {
 
   @Column('boolean', { default: false })
   protected: boolean;
+
+  @Column('boolean', { default: false })
+  requireTwoFactor: boolean;
+
+  // Limits site permissions of the group to content types and slug path subtrees
+  @Column({ type: 'simple-json', nullable: true })
+  contentScopes?: IGroupContentScopes;
 }
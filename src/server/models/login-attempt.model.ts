@@ -0,0 +1,40 @@
+import {
+  BaseEntity,
+  Column,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ILoginAttempt, LoginAttemptScope, LoginAttemptSubject } from '@shared/interfaces/model';
+
+@Entity()
+export default class LoginAttempt extends BaseEntity implements ILoginAttempt {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'varchar', length: 32 })
+  @Index()
+  scope: LoginAttemptScope;
+
+  @Column({ type: 'varchar', length: 32 })
+  subject: LoginAttemptSubject;
+
+  // Email or IP address
+  @Column()
+  @Index()
+  value: string;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  // Number of consecutive lockouts, the lockout duration doubles with each
+  @Column({ default: 0 })
+  lockouts: number;
+
+  @Column({ nullable: true })
+  lockedUntil?: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
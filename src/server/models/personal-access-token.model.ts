@@ -0,0 +1,43 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { IPersonalAccessToken } from '@shared/interfaces/model';
+import User from '@server/models/user.model';
+
+@Entity()
+export default class PersonalAccessToken extends BaseEntity implements IPersonalAccessToken {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column()
+  name: string;
+
+  // SHA-256 of the token, plain tokens are only returned once when generated
+  @Column({ select: false })
+  @Index()
+  token: string;
+
+  @Column({ nullable: true })
+  tokenPreview?: string;
+
+  @ManyToOne(() => User, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  user: User;
+
+  @Column({ nullable: true })
+  expiresAt?: Date;
+
+  @Column({ nullable: true })
+  lastUsedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,48 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { IPostComment } from '@shared/interfaces/model';
+import Post from '@server/models/post.model';
+import User from '@server/models/user.model';
+
+@Entity()
+export default class PostComment extends BaseEntity implements IPostComment {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column()
+  postId: number;
+
+  @ManyToOne(() => Post, {
+    nullable: false,
+    onDelete: 'CASCADE',
+    onUpdate: 'CASCADE',
+  })
+  post: Post;
+
+  @ManyToOne(() => User, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  author: User;
+
+  @Column({ type: 'text', nullable: true })
+  comment: string;
+
+  @Column({ nullable: true })
+  transition: string;
+
+  @Column({ nullable: true })
+  fromState: string;
+
+  @Column({ nullable: true })
+  toState: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
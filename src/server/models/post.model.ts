@@ -58,6 +58,9 @@ export default class Post extends BaseEntity implements IPost {
   @Column({ nullable: true, default: 'draft' })
   status?: string;
 
+  @Column({ nullable: true })
+  workflowState?: string;
+
   @Column({ nullable: true })
   publishedAt?: Date;
 
@@ -0,0 +1,40 @@
+import {
+  BaseEntity,
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ISearchIndex } from '@shared/interfaces/model';
+import Post from '@server/models/post.model';
+
+@Entity()
+@Index(['postId', 'locale'], { unique: true })
+export default class SearchIndex extends BaseEntity implements ISearchIndex {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column()
+  postId: number;
+
+  @ManyToOne(() => Post, {
+    nullable: false,
+    onDelete: 'CASCADE',
+    onUpdate: 'CASCADE',
+  })
+  post: Post;
+
+  @Column({ default: '' })
+  locale: string;
+
+  @Column({ type: 'text', nullable: true })
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  content: string;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
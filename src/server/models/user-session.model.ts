@@ -1,22 +1,37 @@
 import {
   BaseEntity,
   Column,
+  CreateDateColumn,
   Entity,
   Index,
   ManyToOne,
   PrimaryGeneratedColumn,
 } from 'typeorm';
 import User from '@server/models/user.model';
+import { IUserSession } from '@shared/interfaces/model';
 
 @Entity()
 @Index(['user'])
-export default class UserSession extends BaseEntity {
+export default class UserSession extends BaseEntity implements IUserSession {
   @PrimaryGeneratedColumn('increment')
   id: number;
 
   @Column()
   expiresAt: Date;
 
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Updated by the auth middleware, at most once a minute
+  @Column({ nullable: true })
+  lastSeenAt?: Date;
+
+  @Column({ nullable: true })
+  ip?: string;
+
+  @Column({ type: 'text', nullable: true })
+  userAgent?: string;
+
   @ManyToOne(() => User, (user) => user.sessions, {
     nullable: false,
     onDelete: 'CASCADE',
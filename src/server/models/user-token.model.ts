@@ -21,8 +21,9 @@ export default class UserToken extends BaseEntity {
   @Column({ type: 'simple-json', nullable: true })
   data: any;
 
-  @Column()
-  expiresAt: Date;
+  // Two-factor secrets and recovery codes do not expire
+  @Column({ nullable: true })
+  expiresAt?: Date;
 
   @Column({ type: 'text' })
   type: UserTokenType;
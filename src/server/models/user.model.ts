@@ -61,6 +61,9 @@ export default class User extends BaseEntity implements IUser {
   @OneToMany(() => UserToken, (userToken) => userToken.user, { cascade: true })
   tokens: UserToken[];
 
+  // Not persisted, mapped from login attempts for administrators
+  lockedUntil?: Date;
+
   @BeforeInsert()
   @BeforeUpdate()
   sanitizeEmail() {
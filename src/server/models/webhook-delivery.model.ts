@@ -0,0 +1,59 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { IWebhookDelivery, IWebhookDeliveryStatus } from '@shared/interfaces/model';
+import Webhook from '@server/models/webhook.model';
+
+@Entity()
+export default class WebhookDelivery extends BaseEntity implements IWebhookDelivery {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ nullable: true })
+  webhookId: number;
+
+  @ManyToOne(() => Webhook, (webhook) => webhook.deliveries, {
+    nullable: false,
+    onDelete: 'CASCADE',
+    onUpdate: 'CASCADE',
+  })
+  webhook: Webhook;
+
+  @Column()
+  event: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  payload: any;
+
+  @Column('text')
+  @Index()
+  status: IWebhookDeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ nullable: true })
+  responseStatus: number;
+
+  @Column({ type: 'text', nullable: true })
+  responseBody: string;
+
+  @Column({ type: 'text', nullable: true })
+  error: string;
+
+  @Column({ nullable: true })
+  nextAttemptAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
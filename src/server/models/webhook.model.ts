@@ -0,0 +1,41 @@
+import {
+  BaseEntity,
+  Column,
+  CreateDateColumn,
+  Entity,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { IWebhook } from '@shared/interfaces/model';
+import WebhookDelivery from '@server/models/webhook-delivery.model';
+
+@Entity()
+export default class Webhook extends BaseEntity implements IWebhook {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'text' })
+  url: string;
+
+  @Column()
+  secret: string;
+
+  @Column('simple-array', { nullable: true })
+  events: string[];
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @OneToMany(() => WebhookDelivery, (delivery) => delivery.webhook)
+  deliveries: WebhookDelivery[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -5,6 +5,10 @@ import Hooks from './hooks';
 
 const launchApi = async () => {
   const app = express();
+  if (process.env.TRUST_PROXY) {
+    const trustProxy = process.env.TRUST_PROXY;
+    app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' || trustProxy);
+  }
   app.request.validate = async function (schema, type = 'body') {
     const pattern = yup.object().shape(schema);
     await pattern.validate(this[type], { abortEarly: false });
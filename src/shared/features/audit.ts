@@ -0,0 +1,39 @@
+export interface IAuditSettings {
+  // Days entries are kept for, 0 keeps them forever
+  retentionDays: number;
+}
+
+export const AUDIT_SETTINGS_KEY = 'audit';
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90;
+
+export const AuditTargetTypes = [
+  'posts',
+  'assets',
+  'content-types',
+  'tags',
+  'users',
+  'groups',
+  'settings',
+  'access-tokens',
+  'personal-access-tokens',
+  'webhooks',
+  'backups',
+];
+
+export const parseAuditSettings = (value?: string): IAuditSettings => {
+  let parsed: any;
+  try {
+    parsed = value ? JSON.parse(value) : {};
+  } catch {
+    parsed = {};
+  }
+
+  const retentionDays = Number(parsed?.retentionDays);
+  return {
+    retentionDays:
+      parsed?.retentionDays !== undefined && parsed?.retentionDays !== '' && retentionDays >= 0
+        ? Math.floor(retentionDays)
+        : DEFAULT_AUDIT_RETENTION_DAYS,
+  };
+};
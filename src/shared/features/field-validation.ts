@@ -0,0 +1,260 @@
+import { isFieldVisible } from '@shared/features/field-visibility';
+
+export interface IFieldValidation {
+  pattern?: string;
+  // Shown instead of the generic message when the pattern does not match
+  patternMessage?: string;
+  minLength?: number;
+  maxLength?: number;
+  // Numbers, or timestamps for date pickers
+  min?: number;
+  max?: number;
+  minItems?: number;
+  maxItems?: number;
+  // Checked on the server only, against posts of the same content type
+  unique?: boolean;
+}
+
+export interface IFieldValidationError {
+  message: string;
+  data?: any;
+}
+
+export const LIST_FIELD_TYPES = ['repeatable', 'zone', 'images', 'assets', 'relation', 'reference_multiple'];
+
+const LENGTH_FIELD_TYPES = ['text', 'text-editor', 'richtext'];
+const PATTERN_FIELD_TYPES = ['text', 'text-editor'];
+
+// Patterns run on the server on every save, both they and the values they are tested on are kept short
+export const MAX_PATTERN_LENGTH = 200;
+export const MAX_PATTERN_INPUT_LENGTH = 2000;
+
+const isEmpty = (value: any) => value === undefined || value === null || `${value}`.trim().length === 0;
+
+const toNumber = (value: any) => {
+  if (isEmpty(value)) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toTimestamp = (value: any) => {
+  if (isEmpty(value)) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const parseJson = (value: any) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const getText = (type: string, value: any): string => {
+  if (type !== 'richtext') return `${value ?? ''}`;
+  const richtext = parseJson(value);
+  return (richtext?.blocks ?? []).map((block) => block?.text ?? '').join('\n');
+};
+
+const formatRule = (field: any, value: number) =>
+  field?.type === 'datepicker' ? new Date(value).toISOString() : value;
+
+const hasBackreferences = (pattern: string) => /\\(?:[1-9]|k<)/.test(pattern);
+
+/**
+ * Finds repeated groups which contain a quantifier themselves, e.g. `(a+)+` or `(\w*\s?)*`, the usual cause of
+ * catastrophic backtracking.
+ */
+const hasNestedQuantifiers = (pattern: string) => {
+  // Whether each open group contains a quantifier
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    const next = pattern.slice(index + 1);
+    if (char === '\\') {
+      index += 1;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skips modifiers of non capturing, named and lookaround groups
+      const modifier = /^\?(?:<[=!]|<[^>]*>|[:=!])/.exec(next);
+      if (modifier) index += modifier[0].length;
+    } else if (char === ')') {
+      const quantified = groups.pop();
+      if (quantified && /^[*+{]/.test(next)) return true;
+      if (groups.length > 0 && (quantified || /^[*+?{]/.test(next))) groups[groups.length - 1] = true;
+    } else if (/[*+?{]/.test(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Patterns have to compile, stay under `MAX_PATTERN_LENGTH` and avoid constructs which can block the event loop.
+ */
+export const isSafePattern = (pattern: any) => {
+  if (typeof pattern !== 'string' || pattern.length === 0 || pattern.length > MAX_PATTERN_LENGTH) return false;
+  try {
+    return !!new RegExp(pattern) && !hasBackreferences(pattern) && !hasNestedQuantifiers(pattern);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Rules are kept in `validation` of the field. Repeatables limited their items with `max` before.
+ */
+export const parseFieldValidation = (field: any): IFieldValidation => {
+  const rules = field?.validation ?? {};
+  const toLimit = field?.type === 'datepicker' ? toTimestamp : toNumber;
+  const legacyMaxItems = field?.type === 'repeatable' ? toNumber(field?.max) : undefined;
+
+  return {
+    // Unsafe patterns are refused when content types are saved, ones stored before are ignored
+    pattern: isSafePattern(rules.pattern) ? rules.pattern : undefined,
+    patternMessage: rules.patternMessage || undefined,
+    minLength: toNumber(rules.minLength),
+    maxLength: toNumber(rules.maxLength),
+    min: toLimit(rules.min),
+    max: toLimit(rules.max),
+    minItems: toNumber(rules.minItems),
+    maxItems: toNumber(rules.maxItems) ?? (legacyMaxItems > 0 ? legacyMaxItems : undefined),
+    unique: rules.unique === true || rules.unique === 'true',
+  };
+};
+
+/**
+ * Checks the value against the rules of the field, apart from `required` and `unique`. Empty values
+ * pass, lists are checked by the number of their items.
+ */
+export const validateFieldValue = (field: any, value: any): IFieldValidationError | undefined => {
+  const rules = parseFieldValidation(field);
+
+  if (LIST_FIELD_TYPES.includes(field?.type)) {
+    const items = parseJson(value);
+    const count = Array.isArray(items) ? items.length : 0;
+    if (rules.minItems !== undefined && count < rules.minItems) {
+      return { message: 'min_items', data: { min: rules.minItems } };
+    }
+    if (rules.maxItems !== undefined && count > rules.maxItems) {
+      return { message: 'max_items', data: { max: rules.maxItems } };
+    }
+    return undefined;
+  }
+
+  const isObject = typeof value === 'object' && !(value instanceof Date);
+  if (isEmpty(value) || (isObject && field?.type !== 'richtext')) return undefined;
+
+  if (LENGTH_FIELD_TYPES.includes(field?.type)) {
+    const { length } = getText(field.type, value);
+    if (rules.minLength !== undefined && length < rules.minLength) {
+      return { message: 'min_length', data: { min: rules.minLength } };
+    }
+    if (rules.maxLength !== undefined && length > rules.maxLength) {
+      return { message: 'max_length', data: { max: rules.maxLength } };
+    }
+  }
+
+  if (PATTERN_FIELD_TYPES.includes(field?.type) && rules.pattern) {
+    if (`${value}`.length > MAX_PATTERN_INPUT_LENGTH) {
+      return { message: 'pattern_too_long', data: { max: MAX_PATTERN_INPUT_LENGTH } };
+    }
+    if (!new RegExp(rules.pattern).test(`${value}`)) {
+      return { message: 'pattern', data: { pattern: rules.pattern, patternMessage: rules.patternMessage } };
+    }
+  }
+
+  if (field?.type === 'number' || field?.type === 'datepicker') {
+    const number = field.type === 'datepicker' ? toTimestamp(value) : toNumber(value);
+    if (number === undefined) return undefined;
+    if (rules.min !== undefined && number < rules.min) {
+      return { message: 'min', data: { min: formatRule(field, rules.min) } };
+    }
+    if (rules.max !== undefined && number > rules.max) {
+      return { message: 'max', data: { max: formatRule(field, rules.max) } };
+    }
+  }
+
+  return undefined;
+};
+
+const formatLimit = (value: any) =>
+  /^\d{4}-\d{2}-\d{2}T/.test(`${value}`) ? new Date(value).toLocaleDateString() : `${value}`;
+
+/**
+ * Checks form values against the rules of the fields, including fields nested in groups and
+ * repeatables. Content of components is left to the server, hidden fields are skipped.
+ */
+export const validateFormValues = (
+  fields: any[],
+  content: any,
+  path = '',
+  scopes: any[] = []
+): (IFieldValidationError & { path: string })[] => {
+  const values = content && typeof content === 'object' ? content : {};
+  const fieldScopes = [values, ...scopes];
+  return (fields ?? [])
+    .filter((field) => field?.name && field?.type !== 'tab' && isFieldVisible(field, fieldScopes))
+    .flatMap((field) => {
+      const fieldPath = path.length > 0 ? `${path}.${field.name}` : field.name;
+      const value = values[field.name];
+      if (field.type === 'group') return validateFormValues(field.fields, value, fieldPath, fieldScopes);
+
+      const error = validateFieldValue(field, value);
+      const errors = error ? [{ ...error, path: fieldPath }] : [];
+      if (field.type !== 'repeatable' || !Array.isArray(value)) return errors;
+
+      return [
+        ...errors,
+        ...value.flatMap((item, index) =>
+          validateFormValues(field.fields, item, `${fieldPath}.${index}`, fieldScopes)
+        ),
+      ];
+    });
+};
+
+/**
+ * Human readable message of an error returned by the validation, same for the forms and the server.
+ */
+export const getFieldValidationMessage = (error?: IFieldValidationError): string | undefined => {
+  if (!error) return undefined;
+  const data = error.data ?? {};
+
+  switch (error.message) {
+    case 'required':
+      return 'Field is required';
+    case 'pattern':
+      return data.patternMessage || 'Value does not match the required format';
+    case 'pattern_too_long':
+      return `Enter at most ${data.max} characters to match the required format`;
+    case 'min_length':
+      return `Enter at least ${data.min} characters`;
+    case 'max_length':
+      return `Enter at most ${data.max} characters`;
+    case 'min':
+      return `Value has to be at least ${formatLimit(data.min)}`;
+    case 'max':
+      return `Value has to be at most ${formatLimit(data.max)}`;
+    case 'min_items':
+      return `Add at least ${data.min} items`;
+    case 'max_items':
+      return `Add at most ${data.max} items`;
+    case 'unique':
+      return 'Value is already used by another post';
+    case 'invalid_number':
+      return 'Value is not a number';
+    case 'invalid_option':
+      return 'Value is not one of the options';
+    case 'invalid_component':
+      return 'Component is not allowed';
+    default:
+      return error.message;
+  }
+};
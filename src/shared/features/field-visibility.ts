@@ -0,0 +1,82 @@
+import _ from 'lodash';
+
+export type FieldConditionOperator = 'equals' | 'in' | 'not_empty';
+
+export interface IFieldCondition {
+  // Name of a sibling or ancestor field, nested fields are separated by a dot, e.g. `link.type`
+  field: string;
+  operator: FieldConditionOperator;
+  // Options of `in` are separated by new lines
+  value?: string;
+}
+
+const OPERATORS: FieldConditionOperator[] = ['equals', 'in', 'not_empty'];
+
+const isEmpty = (value: any) =>
+  value === undefined ||
+  value === null ||
+  (Array.isArray(value) && value.length === 0) ||
+  `${value}`.trim().length === 0;
+
+// Multi select dropdowns are kept as an array in forms and as a comma separated string when stored
+const toValues = (value: any): string[] => {
+  if (Array.isArray(value)) return value.map((item) => `${item}`);
+  if (isEmpty(value)) return [];
+  const text = `${value}`;
+  return [text, ...(text.includes(',') ? text.split(',') : [])];
+};
+
+const toOptions = (value: any) =>
+  `${value ?? ''}`
+    .split('\n')
+    .filter((option) => option.length > 0);
+
+/**
+ * Conditions are kept in `conditions` of the field, all of them have to match for the field to be shown.
+ */
+export const parseFieldConditions = (field: any): IFieldCondition[] =>
+  (Array.isArray(field?.conditions) ? field.conditions : [])
+    .filter((condition) => condition?.field && OPERATORS.includes(condition?.operator))
+    .map((condition) => ({
+      field: `${condition.field}`,
+      operator: condition.operator,
+      value: condition.value ?? undefined,
+    }));
+
+/**
+ * Scopes are values of the group the field is in, followed by values of its ancestors up to the root.
+ */
+export const getFieldScopes = (values: any, path?: string): any[] => {
+  const segments = path?.length > 0 ? path.split('.') : [];
+  return segments
+    .map((segment, index) => _.get(values, segments.slice(0, segments.length - index)))
+    .concat([values])
+    .filter((scope) => _.isPlainObject(scope));
+};
+
+const resolveValue = (scopes: any[], name: string) => {
+  const scope = scopes.find((item) => _.has(item, name));
+  return scope ? _.get(scope, name) : undefined;
+};
+
+export const matchesCondition = (condition: IFieldCondition, scopes: any[]) => {
+  const values = toValues(resolveValue(scopes, condition.field));
+  switch (condition.operator) {
+    case 'equals':
+      return values.includes(`${condition.value ?? ''}`);
+    case 'in': {
+      const options = toOptions(condition.value);
+      return values.some((value) => options.includes(value));
+    }
+    case 'not_empty':
+      return values.length > 0;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Referenced fields are looked up in the closest scope which has them.
+ */
+export const isFieldVisible = (field: any, scopes: any[]) =>
+  parseFieldConditions(field).every((condition) => matchesCondition(condition, scopes));
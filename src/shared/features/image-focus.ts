@@ -0,0 +1,70 @@
+export interface IFocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface ICropPreset {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FOCAL_POINT_META_KEY = 'focalPoint';
+export const CROPS_META_KEY = 'crops';
+
+export const CROP_NAME_REGEX = /^[a-zA-Z0-9_-]+$/;
+
+const parseJson = (value?: any) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const clamp = (value: any, min = 0, max = 1) => Math.min(Math.max(Number(value) || 0, min), max);
+
+/**
+ * Parses the `focalPoint` asset meta. Coordinates are relative to the image, `0` to `1` from the
+ * top left corner.
+ */
+export const parseFocalPoint = (value?: any): IFocalPoint | undefined => {
+  const parsed = parseJson(value);
+  if (typeof parsed?.x !== 'number' || typeof parsed?.y !== 'number') return undefined;
+  return {
+    x: clamp(parsed.x),
+    y: clamp(parsed.y),
+  };
+};
+
+/**
+ * Parses the `crops` asset meta. Regions use the same relative coordinates as the focal point and
+ * are clamped to the image, presets with an invalid or duplicate name are dropped.
+ */
+export const parseCrops = (value?: any): ICropPreset[] => {
+  const parsed = parseJson(value);
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed
+    .filter((crop) => typeof crop?.name === 'string' && CROP_NAME_REGEX.test(crop.name))
+    .map((crop) => {
+      const x = clamp(crop.x);
+      const y = clamp(crop.y);
+      return {
+        name: crop.name,
+        x,
+        y,
+        width: clamp(crop.width, 0, 1 - x),
+        height: clamp(crop.height, 0, 1 - y),
+      };
+    })
+    .filter(
+      (crop, index, crops) =>
+        crop.width > 0 &&
+        crop.height > 0 &&
+        crops.findIndex((item) => item.name === crop.name) === index
+    );
+};
@@ -0,0 +1,42 @@
+export interface ILocale {
+  code: string;
+  name?: string;
+}
+
+export interface ILocalizationSettings {
+  locales: ILocale[];
+  defaultLocale?: string;
+}
+
+export const LOCALIZATION_SETTINGS_KEY = 'localization';
+
+export const LOCALE_CODE_REGEX = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+/**
+ * Parses the `localization` site setting. Invalid locale codes are dropped and the default locale
+ * falls back to the first configured locale.
+ */
+export const parseLocalizationSettings = (value?: string): ILocalizationSettings => {
+  let parsed: any;
+  try {
+    parsed = value ? JSON.parse(value) : {};
+  } catch {
+    parsed = {};
+  }
+
+  const locales: ILocale[] = (Array.isArray(parsed?.locales) ? parsed.locales : [])
+    .filter((locale) => typeof locale?.code === 'string' && LOCALE_CODE_REGEX.test(locale.code))
+    .map((locale) => ({
+      code: locale.code,
+      name: locale?.name || locale.code,
+    }));
+
+  const defaultLocale = locales.find((locale) => locale.code === parsed?.defaultLocale)
+    ? parsed.defaultLocale
+    : locales?.[0]?.code;
+
+  return {
+    locales,
+    defaultLocale,
+  };
+};
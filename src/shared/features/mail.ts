@@ -0,0 +1,120 @@
+export interface IMailTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface IMailSettings {
+  sender?: string;
+  templates: { [name: string]: Partial<IMailTemplate> };
+}
+
+export const MAIL_SETTINGS_KEY = 'mail';
+
+export const DefaultMailTemplates: { [name: string]: IMailTemplate } = {
+  'password-reset': {
+    subject: 'Reset your password',
+    html: [
+      '<p>Hi {{name}},</p>',
+      '<p>We received a request to reset the password of your account <b>{{user.email}}</b>.</p>',
+      '<p><a href="{{link}}">Reset password</a></p>',
+      '<p>The link expires on {{expiresAt}}. If you did not request a reset, you can ignore this email.</p>',
+    ].join('\n'),
+    text: [
+      'Hi {{name}},',
+      '',
+      'We received a request to reset the password of your account {{user.email}}.',
+      'Reset it by opening the following link: {{link}}',
+      '',
+      'The link expires on {{expiresAt}}. If you did not request a reset, you can ignore this email.',
+    ].join('\n'),
+  },
+  'user-invitation': {
+    subject: 'You have been invited to {{host}}',
+    html: [
+      '<p>Hi {{name}},</p>',
+      '<p>An account <b>{{user.email}}</b> has been created for you.</p>',
+      '<p><a href="{{link}}">Set your password</a></p>',
+      '<p>The link expires on {{expiresAt}}.</p>',
+    ].join('\n'),
+    text: [
+      'Hi {{name}},',
+      '',
+      'An account {{user.email}} has been created for you.',
+      'Set your password by opening the following link: {{link}}',
+      '',
+      'The link expires on {{expiresAt}}.',
+    ].join('\n'),
+  },
+  'password-changed': {
+    subject: 'Your password has been changed',
+    html: [
+      '<p>Hi {{name}},</p>',
+      '<p>The password of your account <b>{{user.email}}</b> has been changed by an administrator.</p>',
+      '<p><a href="{{link}}">Log in</a></p>',
+    ].join('\n'),
+    text: [
+      'Hi {{name}},',
+      '',
+      'The password of your account {{user.email}} has been changed by an administrator.',
+      'Log in at {{link}}',
+    ].join('\n'),
+  },
+};
+
+/**
+ * Parses the `mail` site setting. Template overrides may define only some of the parts, the rest
+ * falls back to the default template.
+ */
+export const parseMailSettings = (value?: string): IMailSettings => {
+  let parsed: any;
+  try {
+    parsed = value ? JSON.parse(value) : {};
+  } catch {
+    parsed = {};
+  }
+
+  const templates = Object.entries(parsed?.templates ?? {})
+    .filter(([, template]) => typeof template === 'object' && template !== null)
+    .reduce(
+      (acc, [name, template]: [string, any]) => ({
+        ...acc,
+        [name]: ['subject', 'html', 'text']
+          .filter((part) => typeof template?.[part] === 'string')
+          .reduce((parts, part) => ({ ...parts, [part]: template[part] }), {}),
+      }),
+      {}
+    );
+
+  return {
+    sender: typeof parsed?.sender === 'string' && parsed.sender.length > 0 ? parsed.sender : undefined,
+    templates,
+  };
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const getVariable = (variables: any, path: string) =>
+  path.split('.').reduce((value, key) => value?.[key], variables);
+
+/**
+ * Replaces `{{path.to.variable}}` placeholders, unknown variables render as an empty string.
+ */
+export const renderMailString = (template: string, variables: any = {}, escape = false) =>
+  (template || '').replace(/{{\s*([\w.]+)\s*}}/g, (match, path) => {
+    const value = getVariable(variables, path);
+    if (value === undefined || value === null) return '';
+    return escape ? escapeHtml(`${value}`) : `${value}`;
+  });
+
+export const renderMailTemplate = (template: IMailTemplate, variables: any = {}): IMailTemplate => ({
+  subject: renderMailString(template.subject, variables),
+  html: renderMailString(template.html, variables, true),
+  text: renderMailString(template.text, variables),
+});
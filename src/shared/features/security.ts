@@ -0,0 +1,48 @@
+import _ from 'lodash';
+
+export interface ISecuritySettings {
+  // Frontends allowed to call the content and search API and to be embedded by the preview editor
+  frontendOrigins: string[];
+  // Origins, besides the admin itself, allowed to make credentialed calls to the admin API
+  adminOrigins: string[];
+}
+
+export const SECURITY_SETTINGS_KEY = 'security';
+
+/**
+ * Returns the origin of an URL, e.g. `https://www.site.com` for `https://www.site.com/blog/`, or
+ * `undefined` when it is not a valid http(s) URL.
+ */
+export const normalizeOrigin = (value?: string): string | undefined => {
+  const trimmed = `${value ?? ''}`.trim();
+  if (trimmed.length === 0) return undefined;
+
+  try {
+    const url = new URL(trimmed);
+    if (!['http:', 'https:'].includes(url.protocol)) return undefined;
+    return url.origin.toLowerCase();
+  } catch {
+    return undefined;
+  }
+};
+
+export const toOriginList = (value: any): string[] =>
+  _.uniq(
+    (Array.isArray(value) ? value : `${value ?? ''}`.split(/[\s,]+/))
+      .map((item) => normalizeOrigin(item))
+      .filter(Boolean)
+  );
+
+export const parseSecuritySettings = (value?: string): ISecuritySettings => {
+  let parsed: any;
+  try {
+    parsed = value ? JSON.parse(value) : {};
+  } catch {
+    parsed = {};
+  }
+
+  return {
+    frontendOrigins: toOriginList(parsed?.frontendOrigins),
+    adminOrigins: toOriginList(parsed?.adminOrigins),
+  };
+};
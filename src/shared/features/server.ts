@@ -1,5 +1,6 @@
 import express from 'express';
 import chalk from 'chalk';
+import { securityHeadersMiddleware } from '@server/middleware/security.middleware';
 import { launchApi } from './api';
 import Hooks from './hooks';
 
@@ -7,6 +8,7 @@ const launch = async () => {
   try {
     await Hooks.doAction('core/init');
     const app = express();
+    app.use(securityHeadersMiddleware());
     const apiApp = await launchApi();
     app.use('/api', apiApp);
     await Hooks.doAction('server/init', app);
@@ -0,0 +1,53 @@
+export interface IWebhookEvent {
+  id: string;
+  name: string;
+}
+
+const WebhookEvents: IWebhookEvent[] = [
+  {
+    id: 'post.published',
+    name: 'Post published',
+  },
+  {
+    id: 'post.unpublished',
+    name: 'Post unpublished',
+  },
+  {
+    id: 'post.scheduled',
+    name: 'Post scheduled',
+  },
+  {
+    id: 'post.expired',
+    name: 'Post expired',
+  },
+  {
+    id: 'post.updated',
+    name: 'Post content saved',
+  },
+  {
+    id: 'post.deleted',
+    name: 'Post deleted',
+  },
+  {
+    id: 'asset.uploaded',
+    name: 'Asset uploaded',
+  },
+  {
+    id: 'asset.deleted',
+    name: 'Asset deleted',
+  },
+  {
+    id: 'contentType.created',
+    name: 'Content type created',
+  },
+  {
+    id: 'contentType.updated',
+    name: 'Content type updated',
+  },
+  {
+    id: 'contentType.deleted',
+    name: 'Content type deleted',
+  },
+];
+
+export default WebhookEvents;
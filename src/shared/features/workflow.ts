@@ -0,0 +1,131 @@
+export interface IWorkflowState {
+  id: string;
+  name: string;
+  approved?: boolean;
+}
+
+export interface IWorkflowTransition {
+  id: string;
+  name: string;
+  from: string[];
+  to: string;
+}
+
+export interface IWorkflowSettings {
+  enabled: boolean;
+  initialState: string;
+  states: IWorkflowState[];
+  transitions: IWorkflowTransition[];
+}
+
+export const WORKFLOW_SETTINGS_KEY = 'workflow';
+
+export const DefaultWorkflow: IWorkflowSettings = {
+  enabled: false,
+  initialState: 'draft',
+  states: [
+    {
+      id: 'draft',
+      name: 'Draft',
+    },
+    {
+      id: 'in_review',
+      name: 'In review',
+    },
+    {
+      id: 'changes_requested',
+      name: 'Changes requested',
+    },
+    {
+      id: 'approved',
+      name: 'Approved',
+      approved: true,
+    },
+  ],
+  transitions: [
+    {
+      id: 'submit',
+      name: 'Submit for review',
+      from: ['draft', 'changes_requested'],
+      to: 'in_review',
+    },
+    {
+      id: 'request_changes',
+      name: 'Request changes',
+      from: ['in_review'],
+      to: 'changes_requested',
+    },
+    {
+      id: 'approve',
+      name: 'Approve',
+      from: ['in_review'],
+      to: 'approved',
+    },
+    {
+      id: 'reopen',
+      name: 'Reopen',
+      from: ['approved'],
+      to: 'draft',
+    },
+  ],
+};
+
+export const getTransitionPermission = (transition: IWorkflowTransition) =>
+  `workflow_${transition.id}`;
+
+/**
+ * Parses the `workflow` site setting. Transitions pointing to unknown states are dropped and the default
+ * workflow is used when no states are configured.
+ */
+export const parseWorkflowSettings = (value?: string): IWorkflowSettings => {
+  let parsed: any;
+  try {
+    parsed = value ? JSON.parse(value) : {};
+  } catch {
+    parsed = {};
+  }
+
+  const states: IWorkflowState[] = (Array.isArray(parsed?.states) ? parsed.states : [])
+    .filter((state) => typeof state?.id === 'string' && state.id.length > 0)
+    .map((state) => ({
+      id: state.id,
+      name: state?.name || state.id,
+      approved: Boolean(state?.approved),
+    }));
+
+  if (states.length === 0) {
+    return {
+      ...DefaultWorkflow,
+      enabled: Boolean(parsed?.enabled),
+    };
+  }
+
+  const stateIds = states.map((state) => state.id);
+  const transitions: IWorkflowTransition[] = (
+    Array.isArray(parsed?.transitions) ? parsed.transitions : []
+  )
+    .filter(
+      (transition) =>
+        typeof transition?.id === 'string' &&
+        transition.id.length > 0 &&
+        stateIds.includes(transition?.to)
+    )
+    .map((transition) => ({
+      id: transition.id,
+      name: transition?.name || transition.id,
+      from: (Array.isArray(transition?.from) ? transition.from : []).filter((from) =>
+        stateIds.includes(from)
+      ),
+      to: transition.to,
+    }));
+
+  return {
+    enabled: Boolean(parsed?.enabled),
+    initialState: stateIds.includes(parsed?.initialState) ? parsed.initialState : stateIds[0],
+    states,
+    transitions,
+  };
+};
+
+export const getWorkflowState = (settings: IWorkflowSettings, stateId?: string) =>
+  settings.states.find((state) => state.id === (stateId || settings.initialState));
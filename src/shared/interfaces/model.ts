@@ -9,6 +9,16 @@ export enum UserStatus {
 export enum UserTokenType {
   RESET = 'reset',
   ACTIVATE = 'activate',
+  TOTP = 'totp',
+  RECOVERY = 'recovery',
+  TWO_FACTOR = 'two_factor',
+}
+
+export enum PostStatus {
+  DRAFT = 'draft',
+  SCHEDULED = 'scheduled',
+  PUBLISHED = 'published',
+  EXPIRED = 'expired',
 }
 
 export interface IUser {
@@ -24,6 +34,8 @@ export interface IUser {
   sessions: IUserSession[];
   tokens: IUserToken[];
   groups: IGroup[];
+  // Set on the list for administrators while login of the user is locked out
+  lockedUntil?: Date;
 }
 
 export interface IUserMeta {
@@ -36,6 +48,12 @@ export interface IUserMeta {
 export interface IUserSession {
   id: number;
   expiresAt: Date;
+  createdAt: Date;
+  lastSeenAt?: Date;
+  ip?: string;
+  userAgent?: string;
+  // Set when listing sessions, marks the session the request was made with
+  current?: boolean;
   user: IUser;
 }
 
@@ -43,11 +61,61 @@ export interface IUserToken {
   id: number;
   token: string;
   data: any;
-  expiresAt: Date;
+  expiresAt?: Date;
   type: UserTokenType;
   user: IUser;
 }
 
+export interface ITwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodes: number;
+}
+
+export interface ITwoFactorSetup {
+  secret: string;
+  uri: string;
+  qrCode: string;
+}
+
+export interface IOidcConfig {
+  enabled: boolean;
+  label?: string;
+  passwordLogin: boolean;
+}
+
+export type LoginAttemptScope = 'login' | 'forgot';
+
+export type LoginAttemptSubject = 'email' | 'ip';
+
+export interface ILoginAttempt {
+  id: number;
+  scope: LoginAttemptScope;
+  subject: LoginAttemptSubject;
+  value: string;
+  attempts: number;
+  lockouts: number;
+  lockedUntil?: Date;
+  updatedAt: Date;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface IAuditLog {
+  id: number;
+  action: AuditAction;
+  route: string;
+  targetType: string;
+  targetIds?: string[];
+  before?: any;
+  after?: any;
+  actor?: IUser;
+  actorEmail?: string;
+  ip?: string;
+  statusCode?: number;
+  createdAt: Date;
+}
+
 export interface IOption<T> {
   perPage: number;
   page: number;
@@ -141,6 +209,30 @@ export interface IPost {
   contentTypeId?: number;
   contentType?: IContentType;
   versionId?: number;
+  locale?: string;
+  workflowState?: string;
+}
+
+export interface IPostComment {
+  id: number;
+  postId?: number;
+  post?: IPost;
+  author?: IUser;
+  comment?: string;
+  transition?: string;
+  fromState?: string;
+  toState?: string;
+  createdAt?: Date;
+}
+
+export interface ISearchIndex {
+  id: number;
+  postId?: number;
+  post?: IPost;
+  locale?: string;
+  title?: string;
+  content?: string;
+  updatedAt?: Date;
 }
 
 export interface IContentType {
@@ -152,11 +244,37 @@ export interface IContentType {
   fields?: any[];
 }
 
+export type ContentMigrationAction = 'rename' | 'move' | 'drop' | 'coerce';
+
+export interface IContentMigrationOperation {
+  action: ContentMigrationAction;
+  // Stable id of the field, see `uid` of content type fields
+  uid: string;
+  // Field paths, e.g. `seo.title` or `items[].title`
+  from: string;
+  to?: string;
+  fromType?: string;
+  toType?: string;
+  reason?: 'incompatible_move' | 'incompatible_type';
+}
+
+export interface IContentMigrationPlan {
+  operations: IContentMigrationOperation[];
+  affectedPosts: number;
+}
+
+export interface IGroupContentScopes {
+  contentTypes?: string[];
+  slugPaths?: string[];
+}
+
 export interface IGroup {
   id: number;
   name: string;
   permissions: string[];
   protected: boolean;
+  requireTwoFactor?: boolean;
+  contentScopes?: IGroupContentScopes;
   description?: string;
   users?: IUser[];
 }
@@ -176,16 +294,74 @@ export interface IBackup {
   includes: string[];
 }
 
+export interface IAccessTokenScopes {
+  contentTypes?: string[];
+  slugPaths?: string[];
+  drafts?: boolean;
+  versions?: boolean;
+  search?: boolean;
+}
+
 export interface IAccessToken {
   id: number;
-  token: string;
+  name?: string;
+  token?: string;
+  tokenPreview?: string;
+  scopes?: IAccessTokenScopes;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
   description?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface IPersonalAccessToken {
+  id: number;
+  name: string;
+  token?: string;
+  tokenPreview?: string;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  createdAt?: Date;
+  user?: IUser;
+}
+
 export interface ISiteSettings {
   id: number;
   key?: string;
   value?: string;
 }
+
+export interface IWebhook {
+  id: number;
+  name: string;
+  url: string;
+  secret?: string;
+  events: string[];
+  enabled: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export enum IWebhookDeliveryStatus {
+  PENDING = 'pending',
+  RETRYING = 'retrying',
+  SUCCESS = 'success',
+  FAILED = 'failed'
+}
+
+export interface IWebhookDelivery {
+  id: number;
+  webhookId?: number;
+  webhook?: IWebhook;
+  event: string;
+  payload?: any;
+  status: IWebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  nextAttemptAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
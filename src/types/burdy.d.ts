@@ -3,6 +3,8 @@ import React from 'react';
 import {Connection, ConnectionOptions, EntitySchema} from 'typeorm';
 import User from '../server/models/user.model';
 import UserSession from '../server/models/user-session.model';
+import AccessToken from '../server/models/access-token';
+import PersonalAccessToken from '../server/models/personal-access-token.model';
 import Hooks from '../shared/features/hooks';
 import SMTPTransport from "nodemailer/lib/smtp-transport";
 import {Transporter} from "nodemailer";
@@ -11,6 +13,19 @@ import {IPermission} from "@shared/interfaces/permissions";
 import { IDashboardLink, IDashboardSection } from '@admin/features/dashboard';
 import Post from '@server/models/post.model';
 import Asset from '@server/models/asset.model';
+import ContentType from '@server/models/content-type.model';
+import WebhookDelivery from '@server/models/webhook-delivery.model';
+import { GraphQLOutputType, GraphQLSchema } from 'graphql';
+import { IContentMigrationPlan, IContentType } from '@shared/interfaces/model';
+import { IContentValidationError } from '@server/common/content-validator';
+import PostComment from '@server/models/post-comment.model';
+import { IMailTemplate } from '@shared/features/mail';
+import LoginAttempt from '@server/models/login-attempt.model';
+import { ILoginAttemptContext } from '@server/business-logic/login-attempt.bl';
+import { IWorkflowTransition } from '@shared/features/workflow';
+import AuditLog from '@server/models/audit-log.model';
+import SiteSettings from '@server/models/site-settings.model';
+import { IAuditResource } from '@server/business-logic/audit-log.bl';
 
 // Extensible types / declarations for hooks
 declare global {
@@ -34,10 +49,44 @@ declare global {
       'user/postCreate': [User];
       'user/postDelete': [User];
       'user/postDeleteMany': [User[]];
+      'user/postUnlock': [User];
+
+      // Auth
+      'auth/lockout': [LoginAttempt, ILoginAttemptContext];
 
       'public/getPost': [Post];
       'public/getAsset': [Asset];
 
+      // Post
+      'post/postCreate': [Post[]];
+      'post/postUpdate': [Post];
+      'post/postPublish': [Post[]];
+      'post/postUnpublish': [Post[]];
+      'post/postSchedule': [Post[]];
+      'post/postExpire': [Post[]];
+      'post/postContentUpdate': [Post];
+      'post/postDelete': [Post[]];
+      'post/postTransition': [Post, IWorkflowTransition, PostComment];
+
+      // Asset
+      'asset/postUpload': [Asset];
+      'asset/postDelete': [Asset[]];
+
+      // Content Types
+      'contentType/postCreate': [ContentType];
+      'contentType/postUpdate': [ContentType];
+      'contentType/postMigrate': [ContentType, IContentMigrationPlan];
+      'contentType/postDelete': [ContentType[]];
+
+      // Webhooks
+      'webhook/postDelivery': [WebhookDelivery];
+
+      // Audit
+      'audit/postRecord': [AuditLog];
+
+      // Settings
+      'settings/postUpdate': [SiteSettings];
+
       [key: string]: any[];
     }
 
@@ -59,6 +108,7 @@ declare global {
       // Mail
       'mail/options': [SMTPTransport.Options];
       'mail/send': [Mail.Options];
+      'mail/template': [IMailTemplate, string];
 
       // User
       'user/getMany': [User[]];
@@ -66,6 +116,18 @@ declare global {
 
       // Content Types
       'contentType/fields': [any[]];
+      'content/validate': [IContentValidationError[], any, IContentType];
+
+      // GraphQL
+      'graphql/schema': [GraphQLSchema];
+
+      // Audit
+      'audit/resources': [IAuditResource[]];
+      'audit/record': [AuditLog, Express.Request<any>];
+
+      // Security
+      'security/corsHeaders': [Record<string, string>, Express.Request<any>];
+      'security/headers': [Record<string, string>, Express.Request<any>];
 
       [key: string]: any[];
     }
@@ -74,6 +136,8 @@ declare global {
       'admin/field': [React.FC<any> | null, any];
       'dashboard/links': [IDashboardLink[]]
       'dashboard/sections': [IDashboardSection[]]
+      'graphql/fieldType': [GraphQLOutputType, any];
+      'typings/fieldType': [string, any];
       [key: string]: any[];
     }
   }
@@ -83,6 +147,8 @@ declare global {
       data: {
         user?: User;
         session?: UserSession;
+        accessToken?: AccessToken;
+        personalAccessToken?: PersonalAccessToken;
         [key: string]: any;
       };
 